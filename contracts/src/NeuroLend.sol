@@ -3,12 +3,14 @@ pragma solidity ^0.8.13;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@pythnetwork/pyth-sdk-solidity/IPyth.sol";
 import "@pythnetwork/pyth-sdk-solidity/PythStructs.sol";
 import "./ZeroGConfig.sol";
+import "./IPermit2.sol";
 
 /**
  * @title neurolend
@@ -28,6 +30,12 @@ contract neurolend is ReentrancyGuard, Ownable {
         Cancelled
     }
 
+    enum BorrowRequestStatus {
+        Open,
+        Filled,
+        Cancelled
+    }
+
     // ============ Structs ============
 
     struct Loan {
@@ -48,6 +56,39 @@ contract neurolend is ReentrancyGuard, Ownable {
         uint256 repaidAmount; // Amount already repaid (for partial repayments)
     }
 
+    struct BorrowRequest {
+        uint256 id;
+        address borrower;
+        address tokenAddress;
+        uint256 amount;
+        uint256 maxInterestRate; // Highest rate the borrower will pay, in basis points
+        uint256 duration; // Duration in seconds
+        address collateralAddress;
+        uint256 collateralAmount;
+        uint256 createdAt;
+        BorrowRequestStatus status;
+        uint256 minCollateralRatioBPS;
+        uint256 liquidationThresholdBPS;
+        uint256 maxPriceStaleness;
+        uint256 loanId; // Loan created when the request is filled (0 while open)
+    }
+
+    /**
+     * @dev Signed token approval applied by permitAndCall. EIP-2612 permits
+     * approve this contract on the token itself; Permit2 permits set a Permit2
+     * allowance that _pullTokens spends.
+     */
+    struct TokenPermit {
+        address token;
+        uint256 amount;
+        uint256 deadline;
+        // Permit2 allowance nonce; unused for EIP-2612
+        uint48 nonce;
+        bool usePermit2;
+        // 65-byte r, s, v signature
+        bytes signature;
+    }
+
     // ============ Constants ============
 
     // Liquidation fee for liquidators (1% = 100 basis points)
@@ -74,6 +115,21 @@ contract neurolend is ReentrancyGuard, Ownable {
     // Mapping to store Pyth price feed IDs for tokens
     mapping(address => bytes32) public tokenPriceFeedIds;
 
+    uint256 public nextBorrowRequestId = 1;
+
+    // Mappings for borrow request (demand side) management
+    mapping(uint256 => BorrowRequest) public borrowRequests;
+    mapping(address => uint256[]) public borrowerRequests;
+
+    // Array to efficiently query open borrow requests
+    uint256[] public activeBorrowRequestIds;
+
+    // Mapping to track position of request ID in activeBorrowRequestIds array for O(1) removal
+    mapping(uint256 => uint256) private activeBorrowRequestIndex;
+
+    // Uniswap Permit2, used when a token has no direct allowance
+    address public permit2 = ZeroGConfig.PERMIT2_CONTRACT;
+
     // ============ Events ============
 
     event LoanCreated(
@@ -153,6 +209,36 @@ contract neurolend is ReentrancyGuard, Ownable {
         uint256 timestamp
     );
 
+    event BorrowRequestCreated(
+        uint256 indexed requestId,
+        address indexed borrower,
+        address indexed tokenAddress,
+        uint256 amount,
+        uint256 maxInterestRate,
+        uint256 duration,
+        address collateralAddress,
+        uint256 collateralAmount,
+        uint256 minCollateralRatioBPS,
+        uint256 liquidationThresholdBPS,
+        uint256 maxPriceStaleness
+    );
+
+    event BorrowRequestAccepted(
+        uint256 indexed requestId,
+        uint256 indexed loanId,
+        address indexed lender,
+        uint256 interestRate,
+        uint256 timestamp
+    );
+
+    event BorrowRequestCancelled(
+        uint256 indexed requestId,
+        address indexed borrower,
+        uint256 timestamp
+    );
+
+    event Permit2Updated(address indexed permit2);
+
     // ============ Constructor ============
 
     constructor() Ownable(msg.sender) {
@@ -195,6 +281,16 @@ contract neurolend is ReentrancyGuard, Ownable {
         emit PriceFeedSet(_tokenAddress, _feedId);
     }
 
+    /**
+     * @notice Sets the Permit2 contract used for signature-based token approvals
+     * @dev Only callable by the contract owner. Set to zero to disable Permit2.
+     * @param _permit2 The Permit2 contract address on this chain
+     */
+    function setPermit2(address _permit2) external onlyOwner {
+        permit2 = _permit2;
+        emit Permit2Updated(_permit2);
+    }
+
     /**
      * @notice Get recommended collateral parameters for a loan asset and collateral asset pair
      * @param loanAsset The token being borrowed
@@ -390,11 +486,7 @@ contract neurolend is ReentrancyGuard, Ownable {
         nextLoanId++;
 
         // Transfer loan amount from lender to contract (escrow)
-        IERC20(_tokenAddress).safeTransferFrom(
-            msg.sender,
-            address(this),
-            _amount
-        );
+        _pullTokens(_tokenAddress, address(this), _amount);
 
         // Create new loan struct
         Loan memory newLoan = Loan({
@@ -466,6 +558,278 @@ contract neurolend is ReentrancyGuard, Ownable {
         emit LoanOfferCancelled(loanId, msg.sender, block.timestamp);
     }
 
+    // ============ Permit Functions ============
+
+    /**
+     * @notice Applies a signed token approval, then runs a call on this contract
+     * @dev The call is delegated to this contract, so msg.sender and msg.value
+     * are those of the original caller. This lets a permit-capable token be
+     * approved and spent in a single transaction.
+     * @param tokenPermit The EIP-2612 or Permit2 approval signed by msg.sender
+     * @param data ABI-encoded call to one of this contract's functions
+     * @return result The return data of the call
+     */
+    function permitAndCall(
+        TokenPermit calldata tokenPermit,
+        bytes calldata data
+    ) external payable returns (bytes memory result) {
+        _applyPermit(tokenPermit);
+
+        bool success;
+        (success, result) = address(this).delegatecall(data);
+        if (!success) {
+            // Bubble up the original revert reason
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+    }
+
+    // ============ Borrow Request Functions ============
+
+    /**
+     * @notice Creates a borrow request and escrows the borrower's collateral
+     * @param _tokenAddress Address of the ERC20 token to borrow
+     * @param _amount Amount of tokens to borrow
+     * @param _maxInterestRate Highest acceptable interest rate in basis points
+     * @param _duration Loan duration in seconds
+     * @param _collateralAddress Address of the collateral token
+     * @param _collateralAmount Amount of collateral to escrow
+     * @param _minCollateralRatioBPS Minimum collateral ratio required when the request is filled
+     * @param _liquidationThresholdBPS Collateral ratio below which the resulting loan can be liquidated
+     * @param _maxPriceStaleness Max age of oracle price data for the resulting loan (seconds)
+     */
+    function createBorrowRequest(
+        address _tokenAddress,
+        uint256 _amount,
+        uint256 _maxInterestRate,
+        uint256 _duration,
+        address _collateralAddress,
+        uint256 _collateralAmount,
+        uint256 _minCollateralRatioBPS,
+        uint256 _liquidationThresholdBPS,
+        uint256 _maxPriceStaleness
+    ) external nonReentrant {
+        // Input validation
+        require(_tokenAddress != address(0), "Invalid token address");
+        require(_amount > 0, "Amount must be greater than 0");
+        require(_maxInterestRate > 0, "Interest rate must be greater than 0");
+        require(
+            _maxInterestRate <= 10000,
+            "Interest rate cannot exceed 100%"
+        );
+        require(_duration > 0, "Duration must be greater than 0");
+        require(_duration <= 365 days, "Duration cannot exceed 1 year");
+        require(_collateralAddress != address(0), "Invalid collateral address");
+        require(
+            _collateralAmount > 0,
+            "Collateral amount must be greater than 0"
+        );
+
+        // Collateralization parameters validation
+        require(
+            _minCollateralRatioBPS >= _liquidationThresholdBPS,
+            "Min ratio must be >= liquidation threshold"
+        );
+        require(
+            _liquidationThresholdBPS > 10000,
+            "Liquidation threshold must be > 100%"
+        );
+        require(_maxPriceStaleness > 0, "Max price staleness must be set");
+
+        // Mirror the price feed requirements of loan offers
+        bool hasLoanPriceFeed = tokenPriceFeedIds[_tokenAddress] != bytes32(0);
+        bool hasCollateralPriceFeed = tokenPriceFeedIds[_collateralAddress] !=
+            bytes32(0);
+
+        if (hasLoanPriceFeed || hasCollateralPriceFeed) {
+            require(hasLoanPriceFeed, "Price feed not set for loan token");
+            require(
+                hasCollateralPriceFeed,
+                "Price feed not set for collateral token"
+            );
+        }
+
+        uint256 currentRequestId = nextBorrowRequestId;
+        nextBorrowRequestId++;
+
+        // Escrow collateral from borrower until the request is filled or cancelled
+        _pullTokens(_collateralAddress, address(this), _collateralAmount);
+
+        borrowRequests[currentRequestId] = BorrowRequest({
+            id: currentRequestId,
+            borrower: msg.sender,
+            tokenAddress: _tokenAddress,
+            amount: _amount,
+            maxInterestRate: _maxInterestRate,
+            duration: _duration,
+            collateralAddress: _collateralAddress,
+            collateralAmount: _collateralAmount,
+            createdAt: block.timestamp,
+            status: BorrowRequestStatus.Open,
+            minCollateralRatioBPS: _minCollateralRatioBPS,
+            liquidationThresholdBPS: _liquidationThresholdBPS,
+            maxPriceStaleness: _maxPriceStaleness,
+            loanId: 0
+        });
+
+        // Add to active borrow requests
+        activeBorrowRequestIds.push(currentRequestId);
+        activeBorrowRequestIndex[currentRequestId] =
+            activeBorrowRequestIds.length -
+            1;
+
+        // Update borrower's request mapping
+        borrowerRequests[msg.sender].push(currentRequestId);
+
+        emit BorrowRequestCreated(
+            currentRequestId,
+            msg.sender,
+            _tokenAddress,
+            _amount,
+            _maxInterestRate,
+            _duration,
+            _collateralAddress,
+            _collateralAmount,
+            _minCollateralRatioBPS,
+            _liquidationThresholdBPS,
+            _maxPriceStaleness
+        );
+    }
+
+    /**
+     * @notice Fills an open borrow request, creating an active loan funded by the caller
+     * @param requestId The ID of the borrow request to fill
+     * @param interestRate Interest rate in basis points (must not exceed the request's max rate)
+     */
+    function acceptBorrowRequest(
+        uint256 requestId,
+        uint256 interestRate
+    ) external nonReentrant {
+        BorrowRequest storage request = borrowRequests[requestId];
+        require(request.id != 0, "Borrow request does not exist");
+        require(
+            request.status == BorrowRequestStatus.Open,
+            "Borrow request is not open"
+        );
+        require(
+            msg.sender != request.borrower,
+            "Borrower cannot fill own request"
+        );
+        require(interestRate > 0, "Interest rate must be greater than 0");
+        require(
+            interestRate <= request.maxInterestRate,
+            "Interest rate exceeds requested maximum"
+        );
+
+        uint256 currentLoanId = nextLoanId;
+        nextLoanId++;
+
+        // Collateral is already escrowed, so the loan starts active immediately
+        loans[currentLoanId] = Loan({
+            id: currentLoanId,
+            lender: msg.sender,
+            borrower: request.borrower,
+            tokenAddress: request.tokenAddress,
+            amount: request.amount,
+            interestRate: interestRate,
+            duration: request.duration,
+            collateralAddress: request.collateralAddress,
+            collateralAmount: request.collateralAmount,
+            startTime: block.timestamp,
+            status: LoanStatus.Active,
+            minCollateralRatioBPS: request.minCollateralRatioBPS,
+            liquidationThresholdBPS: request.liquidationThresholdBPS,
+            maxPriceStaleness: request.maxPriceStaleness,
+            repaidAmount: 0
+        });
+
+        // Validate collateral ratio against current on-chain prices when feeds are available
+        bool hasLoanPriceFeed = tokenPriceFeedIds[request.tokenAddress] !=
+            bytes32(0);
+        bool hasCollateralPriceFeed = tokenPriceFeedIds[
+            request.collateralAddress
+        ] != bytes32(0);
+
+        uint256 initialCollateralRatio = 0;
+        if (hasLoanPriceFeed && hasCollateralPriceFeed) {
+            bool priceStale;
+            (initialCollateralRatio, priceStale) = _getCollateralizationRatio(
+                currentLoanId
+            );
+            require(!priceStale, "Oracle prices are too stale to accept loan");
+            require(
+                initialCollateralRatio >= request.minCollateralRatioBPS,
+                "Insufficient collateral based on current prices"
+            );
+        }
+
+        // Transfer loan amount from lender directly to borrower
+        _pullTokens(request.tokenAddress, request.borrower, request.amount);
+
+        request.status = BorrowRequestStatus.Filled;
+        request.loanId = currentLoanId;
+
+        _removeRequestFromActiveRequests(requestId);
+
+        lenderLoans[msg.sender].push(currentLoanId);
+        borrowerLoans[request.borrower].push(currentLoanId);
+
+        // Emit the regular loan lifecycle events so loan indexers pick up filled requests
+        emit LoanCreated(
+            currentLoanId,
+            msg.sender,
+            request.tokenAddress,
+            request.amount,
+            interestRate,
+            request.duration,
+            request.collateralAddress,
+            request.collateralAmount,
+            request.minCollateralRatioBPS,
+            request.liquidationThresholdBPS,
+            request.maxPriceStaleness
+        );
+        emit LoanAccepted(
+            currentLoanId,
+            request.borrower,
+            block.timestamp,
+            initialCollateralRatio
+        );
+        emit BorrowRequestAccepted(
+            requestId,
+            currentLoanId,
+            msg.sender,
+            interestRate,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @notice Cancels an open borrow request and returns escrowed collateral
+     * @param requestId The ID of the borrow request to cancel
+     */
+    function cancelBorrowRequest(uint256 requestId) external nonReentrant {
+        BorrowRequest storage request = borrowRequests[requestId];
+        require(request.id != 0, "Borrow request does not exist");
+        require(
+            request.status == BorrowRequestStatus.Open,
+            "Borrow request is not open"
+        );
+        require(msg.sender == request.borrower, "Only borrower can cancel");
+
+        // Return escrowed collateral to borrower
+        IERC20(request.collateralAddress).safeTransfer(
+            request.borrower,
+            request.collateralAmount
+        );
+
+        request.status = BorrowRequestStatus.Cancelled;
+
+        _removeRequestFromActiveRequests(requestId);
+
+        emit BorrowRequestCancelled(requestId, msg.sender, block.timestamp);
+    }
+
     // ============ Pyth Oracle Helper Functions ============
 
     /**
@@ -692,8 +1056,8 @@ contract neurolend is ReentrancyGuard, Ownable {
         }
 
         // Transfer collateral from borrower to contract
-        IERC20(loan.collateralAddress).safeTransferFrom(
-            msg.sender,
+        _pullTokens(
+            loan.collateralAddress,
             address(this),
             loan.collateralAmount
         );
@@ -760,11 +1124,7 @@ contract neurolend is ReentrancyGuard, Ownable {
         uint256 totalRepayment = loan.amount + interest;
 
         // Transfer repayment from borrower to lender
-        IERC20(loan.tokenAddress).safeTransferFrom(
-            msg.sender,
-            loan.lender,
-            totalRepayment
-        );
+        _pullTokens(loan.tokenAddress, loan.lender, totalRepayment);
 
         // Return collateral to borrower
         IERC20(loan.collateralAddress).safeTransfer(
@@ -788,6 +1148,46 @@ contract neurolend is ReentrancyGuard, Ownable {
         uint256 loanId,
         uint256 additionalAmount
     ) external nonReentrant {
+        _addCollateral(loanId, additionalAmount);
+    }
+
+    /**
+     * @notice Adds collateral to an active loan after refreshing oracle prices
+     * @param loanId The ID of the loan to add collateral to
+     * @param additionalAmount Amount of additional collateral to add
+     * @param priceUpdate Encoded price update data from Pyth Hermes
+     */
+    function addCollateral(
+        uint256 loanId,
+        uint256 additionalAmount,
+        bytes[] calldata priceUpdate
+    ) external payable nonReentrant {
+        uint256 updateFee = 0;
+
+        // Refresh prices so the emitted collateral ratio reflects the market
+        if (priceUpdate.length > 0) {
+            updateFee = pyth.getUpdateFee(priceUpdate);
+            require(
+                msg.value >= updateFee,
+                "Insufficient fee for price update"
+            );
+            pyth.updatePriceFeeds{value: updateFee}(priceUpdate);
+
+            emit PriceUpdatePaid(loanId, updateFee, block.timestamp);
+        }
+
+        _addCollateral(loanId, additionalAmount);
+
+        // Refund excess ETH
+        if (msg.value > updateFee) {
+            payable(msg.sender).transfer(msg.value - updateFee);
+        }
+    }
+
+    /**
+     * @notice Internal function to add collateral (shared logic)
+     */
+    function _addCollateral(uint256 loanId, uint256 additionalAmount) internal {
         // Verify loan exists and is active
         Loan storage loan = loans[loanId];
         require(loan.id != 0, "Loan does not exist");
@@ -802,8 +1202,8 @@ contract neurolend is ReentrancyGuard, Ownable {
         );
 
         // Transfer additional collateral from borrower to contract
-        IERC20(loan.collateralAddress).safeTransferFrom(
-            msg.sender,
+        _pullTokens(
+            loan.collateralAddress,
             address(this),
             additionalAmount
         );
@@ -956,11 +1356,7 @@ contract neurolend is ReentrancyGuard, Ownable {
         );
 
         // Transfer repayment from borrower to lender
-        IERC20(loan.tokenAddress).safeTransferFrom(
-            msg.sender,
-            loan.lender,
-            repaymentAmount
-        );
+        _pullTokens(loan.tokenAddress, loan.lender, repaymentAmount);
 
         // Update repaid amount
         loan.repaidAmount += repaymentAmount;
@@ -1405,6 +1801,79 @@ contract neurolend is ReentrancyGuard, Ownable {
         return _getLatestPrice(feedId, maxStaleness);
     }
 
+    /**
+     * @notice Returns all open borrow request IDs
+     * @return Array of open borrow request IDs
+     */
+    function getActiveBorrowRequests()
+        external
+        view
+        returns (uint256[] memory)
+    {
+        return activeBorrowRequestIds;
+    }
+
+    /**
+     * @notice Returns paginated open borrow request IDs
+     * @param startIndex Starting index for pagination
+     * @param count Maximum number of requests to return
+     * @return Array of open borrow request IDs (up to count items)
+     */
+    function getActiveBorrowRequestsPaginated(
+        uint256 startIndex,
+        uint256 count
+    ) external view returns (uint256[] memory) {
+        uint256 totalRequests = activeBorrowRequestIds.length;
+
+        if (startIndex >= totalRequests) {
+            return new uint256[](0);
+        }
+
+        uint256 endIndex = startIndex + count;
+        if (endIndex > totalRequests) {
+            endIndex = totalRequests;
+        }
+
+        uint256 resultLength = endIndex - startIndex;
+        uint256[] memory result = new uint256[](resultLength);
+
+        for (uint256 i = 0; i < resultLength; i++) {
+            result[i] = activeBorrowRequestIds[startIndex + i];
+        }
+
+        return result;
+    }
+
+    /**
+     * @notice Returns the total count of open borrow requests
+     * @return Total number of open borrow requests
+     */
+    function getActiveBorrowRequestsCount() external view returns (uint256) {
+        return activeBorrowRequestIds.length;
+    }
+
+    /**
+     * @notice Gets borrow request details by ID
+     * @param requestId The borrow request ID to query
+     * @return BorrowRequest struct containing all request details
+     */
+    function getBorrowRequest(
+        uint256 requestId
+    ) external view returns (BorrowRequest memory) {
+        return borrowRequests[requestId];
+    }
+
+    /**
+     * @notice Gets all borrow request IDs created by a borrower
+     * @param borrower The borrower's address
+     * @return Array of borrow request IDs created by the address
+     */
+    function getBorrowerRequests(
+        address borrower
+    ) external view returns (uint256[] memory) {
+        return borrowerRequests[borrower];
+    }
+
     // ============ Internal Functions ============
 
     /**
@@ -1442,6 +1911,122 @@ contract neurolend is ReentrancyGuard, Ownable {
         }
     }
 
+    /**
+     * @notice Removes a request ID from the activeBorrowRequestIds array in O(1) time
+     * @param requestId The borrow request ID to remove
+     */
+    function _removeRequestFromActiveRequests(uint256 requestId) internal {
+        uint256 length = activeBorrowRequestIds.length;
+        if (length == 0) return;
+
+        uint256 indexToRemove = activeBorrowRequestIndex[requestId];
+
+        if (
+            indexToRemove < length &&
+            activeBorrowRequestIds[indexToRemove] == requestId
+        ) {
+            // If not the last element, swap with last element
+            if (indexToRemove != length - 1) {
+                uint256 lastRequestId = activeBorrowRequestIds[length - 1];
+                activeBorrowRequestIds[indexToRemove] = lastRequestId;
+                activeBorrowRequestIndex[lastRequestId] = indexToRemove;
+            }
+
+            activeBorrowRequestIds.pop();
+            delete activeBorrowRequestIndex[requestId];
+        }
+    }
+
+    /**
+     * @notice Approves this contract to spend msg.sender's tokens from a signature
+     * @dev A failed EIP-2612 permit is ignored when the allowance is already in
+     * place, so a front-run permit can't block the call
+     * @param tokenPermit The signed approval
+     */
+    function _applyPermit(TokenPermit calldata tokenPermit) internal {
+        require(
+            tokenPermit.signature.length == 65,
+            "Invalid permit signature"
+        );
+
+        if (tokenPermit.usePermit2) {
+            require(permit2 != address(0), "Permit2 not configured");
+            require(
+                tokenPermit.amount <= type(uint160).max,
+                "Permit amount too large"
+            );
+            IPermit2(permit2).permit(
+                msg.sender,
+                IPermit2.PermitSingle({
+                    details: IPermit2.PermitDetails({
+                        token: tokenPermit.token,
+                        amount: uint160(tokenPermit.amount),
+                        expiration: uint48(tokenPermit.deadline),
+                        nonce: tokenPermit.nonce
+                    }),
+                    spender: address(this),
+                    sigDeadline: tokenPermit.deadline
+                }),
+                tokenPermit.signature
+            );
+            return;
+        }
+
+        bytes32 r = bytes32(tokenPermit.signature[0:32]);
+        bytes32 s = bytes32(tokenPermit.signature[32:64]);
+        uint8 v = uint8(tokenPermit.signature[64]);
+        try
+            IERC20Permit(tokenPermit.token).permit(
+                msg.sender,
+                address(this),
+                tokenPermit.amount,
+                tokenPermit.deadline,
+                v,
+                r,
+                s
+            )
+        {} catch {
+            require(
+                IERC20(tokenPermit.token).allowance(
+                    msg.sender,
+                    address(this)
+                ) >= tokenPermit.amount,
+                "Permit failed"
+            );
+        }
+    }
+
+    /**
+     * @notice Transfers tokens from msg.sender, through Permit2 when the token
+     * hasn't approved this contract directly
+     * @param token The ERC20 token to transfer
+     * @param to The recipient
+     * @param amount The amount to transfer
+     */
+    function _pullTokens(
+        address token,
+        address to,
+        uint256 amount
+    ) internal {
+        if (
+            permit2 != address(0) &&
+            IERC20(token).allowance(msg.sender, address(this)) < amount
+        ) {
+            require(
+                amount <= type(uint160).max,
+                "Amount too large for Permit2"
+            );
+            IPermit2(permit2).transferFrom(
+                msg.sender,
+                to,
+                uint160(amount),
+                token
+            );
+        } else {
+            IERC20(token).safeTransferFrom(msg.sender, to, amount);
+        }
+    }
+
     // ============ Receive Function ============
 
     /**
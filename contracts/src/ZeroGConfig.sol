@@ -13,6 +13,10 @@ library ZeroGConfig {
     address public constant PYTH_CONTRACT =
         0x2880aB155794e7179c9eE2e38200202908C17B43;
 
+    // Uniswap Permit2 (same address on every chain it is deployed to)
+    address public constant PERMIT2_CONTRACT =
+        0x000000000022D473030F116dDEE9F6B43aC78BA3;
+
     // ============ PRICE FEED IDs ============
     // Pyth Network price feed IDs (bytes32)
 
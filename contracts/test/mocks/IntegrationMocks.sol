@@ -0,0 +1,6 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.13;
+
+// Pulls Pyth's MockPyth into `forge build` so the anvil integration harness
+// (src/test-utils/anvil.ts) can load its artifact from out/
+import "@pythnetwork/pyth-sdk-solidity/MockPyth.sol";
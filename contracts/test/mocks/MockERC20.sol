@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.13;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title MockERC20
+ * @dev Mintable ERC20 for local testing
+ * @notice neurolend only accepts the token addresses in ZeroGConfig, so the
+ * integration harness installs this runtime code at those addresses with
+ * anvil_setCode. Constructor storage doesn't carry over, hence initialize().
+ */
+contract MockERC20 is ERC20 {
+    string private _mockName;
+    string private _mockSymbol;
+    uint8 private _mockDecimals;
+
+    constructor() ERC20("", "") {}
+
+    function initialize(
+        string calldata name_,
+        string calldata symbol_,
+        uint8 decimals_
+    ) external {
+        require(_mockDecimals == 0, "Already initialized");
+        _mockName = name_;
+        _mockSymbol = symbol_;
+        _mockDecimals = decimals_;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+
+    function name() public view override returns (string memory) {
+        return _mockName;
+    }
+
+    function symbol() public view override returns (string memory) {
+        return _mockSymbol;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _mockDecimals;
+    }
+}
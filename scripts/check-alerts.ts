@@ -0,0 +1,60 @@
+/**
+ * Loan alert checker
+ *
+ * Usage:
+ *   npm run alerts:check              # check forever
+ *   npm run alerts:check -- --once    # single check, then exit
+ *
+ * Checks every alert subscription against freshly indexed loans and live
+ * Pyth prices, storing fired alerts for /api/alerts and delivering them to
+ * webhooks. The API also checks on request, but only while someone has the
+ * app open; run this alongside it so alerts fire when nobody is looking.
+ *
+ * Environment (.env is loaded):
+ *   ALERTS_DATA_DIR                Store directory (default: INDEXER_DATA_DIR or .indexer)
+ *   ALERT_WEBHOOK_URL              Operator webhook that receives every alert
+ *   ALERT_CHECK_INTERVAL_SECONDS   Seconds between checks (default: 60)
+ */
+
+import "dotenv/config";
+import {
+  DEFAULT_ALERT_CHECK_INTERVAL_SECONDS,
+  checkAlertsNow,
+} from "@/lib/loan-alerts";
+
+async function checkOnce() {
+  const alerts = await checkAlertsNow();
+  console.log(`${new Date().toISOString()} fired ${alerts.length} alerts`);
+}
+
+async function main() {
+  if (process.argv.includes("--once")) {
+    await checkOnce();
+    return;
+  }
+
+  const intervalMs =
+    Number(
+      process.env.ALERT_CHECK_INTERVAL_SECONDS ??
+        DEFAULT_ALERT_CHECK_INTERVAL_SECONDS
+    ) * 1000;
+  // The next run is scheduled once the current one finishes, so slow
+  // checks never overlap
+  let timer: NodeJS.Timeout | undefined;
+  const loop = async () => {
+    await checkOnce().catch((error) => console.error(error));
+    timer = setTimeout(loop, intervalMs);
+  };
+  const stop = () => {
+    clearTimeout(timer);
+    process.exit(0);
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+  await loop();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
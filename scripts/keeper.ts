@@ -0,0 +1,88 @@
+/**
+ * Liquidation keeper runner
+ *
+ * Usage:
+ *   npm run keeper              # poll forever
+ *   npm run keeper -- --once    # single pass, then exit
+ *
+ * Environment (.env is loaded):
+ *   KEEPER_PRIVATE_KEY     Signer used to simulate and send liquidations (required)
+ *   KEEPER_RPC_URL         RPC endpoint, e.g. a local fork (default: network RPC)
+ *   KEEPER_CHAIN_ID        Network registry entry (default: the RPC's chain id)
+ *   KEEPER_DRY_RUN         "false" to send transactions (default: dry run)
+ *   KEEPER_MIN_PROFIT_USD  Minimum profit after fees and gas (default: 0)
+ *   KEEPER_INTERVAL_MS     Poll interval (default: 30000)
+ *
+ * Dry run against a local fork:
+ *   anvil --fork-url https://evmrpc.0g.ai
+ *   KEEPER_RPC_URL=http://127.0.0.1:8545 \
+ *   KEEPER_PRIVATE_KEY=<anvil dev key> npm run keeper -- --once
+ */
+
+import "dotenv/config";
+import { ethers } from "ethers";
+import { neurolend_ABI } from "@/lib/contracts";
+import { pythPriceService } from "@/lib/pyth-price-service";
+import { getRpcUrl, getNetwork, isSupportedChain } from "@/config/networks";
+import { LiquidationKeeper } from "@/keeper/keeper";
+
+async function main() {
+  const privateKey = process.env.KEEPER_PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error("KEEPER_PRIVATE_KEY is not set");
+  }
+
+  const rpcUrl =
+    process.env.KEEPER_RPC_URL ??
+    getRpcUrl(getNetwork(process.env.KEEPER_CHAIN_ID));
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const chainId =
+    process.env.KEEPER_CHAIN_ID ?? (await provider.getNetwork()).chainId;
+
+  if (!isSupportedChain(Number(chainId))) {
+    throw new Error(`neurolend is not deployed on chain ${chainId}`);
+  }
+  const network = getNetwork(Number(chainId));
+
+  const signer = new ethers.Wallet(privateKey, provider);
+  const contract = new ethers.Contract(
+    network.contracts.neurolend,
+    neurolend_ABI,
+    signer
+  );
+
+  const keeper = new LiquidationKeeper({
+    network,
+    contract,
+    provider,
+    prices: pythPriceService,
+    dryRun: process.env.KEEPER_DRY_RUN !== "false",
+    minProfitUSD: Number(process.env.KEEPER_MIN_PROFIT_USD ?? 0),
+  });
+
+  console.log(
+    `Keeper ${signer.address} on ${network.chain.name} via ${rpcUrl}` +
+      (keeper.isDryRun ? " (dry run)" : "")
+  );
+
+  if (process.argv.includes("--once")) {
+    const result = await keeper.tick();
+    console.log(
+      `Tracking ${result.trackedLoans} loans, ${result.candidates} liquidatable`
+    );
+    return;
+  }
+
+  const controller = new AbortController();
+  process.on("SIGINT", () => controller.abort());
+  process.on("SIGTERM", () => controller.abort());
+  await keeper.run(
+    Number(process.env.KEEPER_INTERVAL_MS ?? 30000),
+    controller.signal
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
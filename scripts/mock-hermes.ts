@@ -0,0 +1,126 @@
+/**
+ * Mock Hermes server
+ *
+ * Usage:
+ *   npm run mock:hermes                        # steady prices
+ *   npm run mock:hermes -- --scenario crash    # see HERMES_SCENARIOS
+ *
+ * Then run the app with NEXT_PUBLIC_HERMES_URL=http://127.0.0.1:4545.
+ * /v2/updates/price/stream sends the latest prices every second and drops
+ * the connection during outages.
+ * POST /mock/scenario/<name> switches scenario and restarts its clock,
+ * GET /mock/scenarios lists them.
+ *
+ * Environment (.env is loaded):
+ *   MOCK_HERMES_PORT       Listen port (default: 4545)
+ *   MOCK_HERMES_SCENARIO   Initial scenario (default: steady)
+ */
+
+import "dotenv/config";
+import http from "http";
+import { HERMES_SCENARIOS, MockHermes } from "@/lib/mock-hermes";
+
+function scenarioArg(): string {
+  const index = process.argv.indexOf("--scenario");
+  return index >= 0
+    ? process.argv[index + 1]
+    : (process.env.MOCK_HERMES_SCENARIO ?? "steady");
+}
+
+function main() {
+  const name = scenarioArg();
+  if (!HERMES_SCENARIOS[name]) {
+    throw new Error(
+      `Unknown scenario "${name}" (${Object.keys(HERMES_SCENARIOS).join(", ")})`
+    );
+  }
+  const hermes = new MockHermes(HERMES_SCENARIOS[name]);
+
+  const server = http.createServer((req, res) => {
+    const reply = (status: number, body: unknown) => {
+      // The app fetches Hermes from the browser
+      res.writeHead(status, {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+      });
+      res.end(JSON.stringify(body));
+    };
+
+    const url = req.url ?? "/";
+    if (req.method === "GET" && url === "/mock/scenarios") {
+      return reply(
+        200,
+        Object.fromEntries(
+          Object.entries(HERMES_SCENARIOS).map(([key, scenario]) => [
+            key,
+            scenario.description,
+          ])
+        )
+      );
+    }
+    if (req.method === "POST" && url.startsWith("/mock/scenario/")) {
+      const next = decodeURIComponent(url.slice("/mock/scenario/".length));
+      if (!HERMES_SCENARIOS[next]) {
+        return reply(404, { error: `Unknown scenario "${next}"` });
+      }
+      hermes.reset(HERMES_SCENARIOS[next]);
+      console.log(`Switched to scenario "${next}"`);
+      return reply(200, { scenario: next });
+    }
+
+    if (url.startsWith("/v2/updates/price/stream")) {
+      return stream(url, res);
+    }
+
+    const { status, body } = hermes.handle(url);
+    reply(status, body);
+  });
+
+  function stream(url: string, res: http.ServerResponse) {
+    const latest = url.replace("/stream", "/latest");
+    const first = hermes.handle(latest);
+    if (first.status !== 200) {
+      res.writeHead(first.status, { "Access-Control-Allow-Origin": "*" });
+      return res.end(JSON.stringify(first.body));
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Access-Control-Allow-Origin": "*",
+    });
+    const send = () => {
+      const { status, body } = hermes.handle(latest);
+      if (status !== 200) {
+        clearInterval(timer);
+        return res.end();
+      }
+      res.write(`data: ${JSON.stringify(body)}\n\n`);
+    };
+    const timer = setInterval(send, 1000);
+    res.on("close", () => clearInterval(timer));
+    send();
+  }
+
+  const port = Number(process.env.MOCK_HERMES_PORT ?? 4545);
+  server.listen(port, "127.0.0.1", () => {
+    console.log(
+      `Mock Hermes on http://127.0.0.1:${port} (scenario "${name}": ${HERMES_SCENARIOS[name].description})`
+    );
+  });
+
+  const stop = () => {
+    // Open price streams would otherwise keep the server alive
+    server.closeAllConnections();
+    server.close(() => process.exit(0));
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error);
+  process.exit(1);
+}
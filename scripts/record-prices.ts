@@ -0,0 +1,59 @@
+/**
+ * Price history recorder
+ *
+ * Usage:
+ *   npm run prices:record              # record forever
+ *   npm run prices:record -- --once    # single sample, then exit
+ *
+ * Samples Pyth prices for the supported tokens into the store served by
+ * /api/prices/history. The API also records on request, but only while the
+ * app is being used; run this alongside it for continuous history.
+ *
+ * Environment (.env is loaded):
+ *   PRICE_HISTORY_DATA_DIR           Store directory (default: INDEXER_DATA_DIR or .indexer)
+ *   PRICE_HISTORY_INTERVAL_SECONDS   Seconds between samples (default: 300)
+ *   PRICE_HISTORY_RETENTION_DAYS     Days of history kept (default: 90)
+ */
+
+import "dotenv/config";
+import {
+  DEFAULT_HISTORY_INTERVAL_SECONDS,
+  getPriceHistoryService,
+} from "@/lib/price-history";
+
+async function recordOnce() {
+  const recorded = await getPriceHistoryService().record();
+  console.log(`${new Date().toISOString()} recorded ${recorded} prices`);
+}
+
+async function main() {
+  if (process.argv.includes("--once")) {
+    await recordOnce();
+    return;
+  }
+
+  const intervalMs =
+    Number(
+      process.env.PRICE_HISTORY_INTERVAL_SECONDS ??
+        DEFAULT_HISTORY_INTERVAL_SECONDS
+    ) * 1000;
+  // The next run is scheduled once the current one finishes, so slow
+  // recordings never overlap
+  let timer: NodeJS.Timeout | undefined;
+  const loop = async () => {
+    await recordOnce().catch((error) => console.error(error));
+    timer = setTimeout(loop, intervalMs);
+  };
+  const stop = () => {
+    clearTimeout(timer);
+    process.exit(0);
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+  await loop();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
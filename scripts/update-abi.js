@@ -2,6 +2,11 @@
 
 /**
  * Script to update the neurolend ABI in contracts.ts from the compiled contract
+ * and regenerate the typed contract client (src/lib/contract-client.ts)
+ *
+ * Usage:
+ *   node scripts/update-abi.js                # update the ABI, then the client
+ *   node scripts/update-abi.js --client-only  # regenerate the client only
  */
 
 const fs = require("fs");
@@ -11,8 +16,281 @@ const path = require("path");
 const contractsDir = path.join(__dirname, "../contracts");
 const abiPath = path.join(contractsDir, "out/neurolend.sol/neurolend.json");
 const contractsFilePath = path.join(__dirname, "../src/lib/contracts.ts");
+const clientFilePath = path.join(__dirname, "../src/lib/contract-client.ts");
 
-try {
+// Read an `export const NAME = [...] as const;` array literal from contracts.ts
+function readAbi(contractsContent, name) {
+  const marker = `export const ${name} = `;
+  const start = contractsContent.indexOf(marker);
+  if (start === -1) {
+    throw new Error(`Could not find ${name} in contracts.ts`);
+  }
+  const end = contractsContent.indexOf("] as const;", start);
+  const literal = contractsContent.substring(start + marker.length, end + 1);
+  return new Function(`return ${literal};`)();
+}
+
+// --- Type mapping ---
+
+// "struct neurolend.Loan[]" -> LoanStruct
+const structName = (param) =>
+  `${param.internalType
+    .replace(/^struct /, "")
+    .replace(/\[\d*\]$/, "")
+    .split(".")
+    .pop()}Struct`;
+
+// TypeScript type for an ABI parameter; inputs accept what ethers accepts
+function tsType(param, isInput) {
+  const array = param.type.match(/^(.*)\[\d*\]$/);
+  if (array) {
+    const inner = tsType({ ...param, type: array[1] }, isInput);
+    return inner.includes(" ") ? `(${inner})[]` : `${inner}[]`;
+  }
+  if (param.type === "tuple") return structName(param);
+  if (/^u?int\d*$/.test(param.type)) {
+    return isInput ? "ethers.BigNumberish" : "bigint";
+  }
+  if (param.type === "bool") return "boolean";
+  if (/^bytes\d*$/.test(param.type)) {
+    return isInput ? "ethers.BytesLike" : "string";
+  }
+  return "string"; // address, string
+}
+
+const argName = (param, index) =>
+  param.name ? param.name.replace(/^_+/, "") : `arg${index}`;
+
+const capitalize = (name) => name.charAt(0).toUpperCase() + name.slice(1);
+
+const signatureOf = (item) =>
+  `${item.name}(${item.inputs.map(canonicalType).join(",")})`;
+
+function canonicalType(param) {
+  if (!param.type.startsWith("tuple")) return param.type;
+  const suffix = param.type.slice("tuple".length);
+  return `(${param.components.map(canonicalType).join(",")})${suffix}`;
+}
+
+// --- Emitters ---
+
+function emitInterface(name, params, comment) {
+  const lines = comment ? [`// ${comment}`] : [];
+  lines.push(`export interface ${name} {`);
+  params.forEach((param, index) => {
+    lines.push(`  ${argName(param, index)}: ${tsType(param, false)};`);
+  });
+  lines.push("}");
+  return lines.join("\n");
+}
+
+// Struct definitions reachable from the ABI's inputs and outputs
+function collectStructs(abi) {
+  const structs = new Map();
+  const visit = (param) => {
+    if (param.type.startsWith("tuple")) {
+      structs.set(structName(param), param.components);
+      param.components.forEach(visit);
+    }
+  };
+  abi.forEach((item) => {
+    [...(item.inputs || []), ...(item.outputs || [])].forEach(visit);
+  });
+  return structs;
+}
+
+// Method header, wrapped one parameter per line past 80 columns
+function emitSignature(methodName, params, returnType) {
+  const oneLine = `  ${methodName}(${params.join(", ")}): ${returnType} {`;
+  if (oneLine.length <= 80) return [oneLine];
+  return [
+    `  ${methodName}(`,
+    ...params.map(
+      (param, index) => `    ${param}${index < params.length - 1 ? "," : ""}`
+    ),
+    `  ): ${returnType} {`,
+  ];
+}
+
+// Call statement, wrapped the way prettier breaks long calls
+function emitCall(call, signature, args, extra) {
+  const tail = extra ? `, ${extra}` : "";
+  const oneLine = `    return ${call}("${signature}", [${args.join(", ")}]${tail});`;
+  if (oneLine.length <= 80) return [oneLine];
+
+  // A trailing array argument is hugged when the rest fits
+  const hugged = `    return ${call}("${signature}", [`;
+  if (!extra && args.length > 0 && hugged.length <= 80) {
+    return [hugged, ...args.map((arg) => `      ${arg},`), "    ]);"];
+  }
+
+  const array = `      [${args.join(", ")}]${extra ? "," : ""}`;
+  return [
+    `    return ${call}(`,
+    `      "${signature}",`,
+    ...(array.length <= 80
+      ? [array]
+      : [
+          "      [",
+          ...args.map((arg) => `        ${arg},`),
+          `      ]${extra ? "," : ""}`,
+        ]),
+    ...(extra ? [`      ${extra}`] : []),
+    "    );",
+  ];
+}
+
+function emitClient(abi) {
+  const types = [];
+  const methods = [];
+  const functions = abi.filter((item) => item.type === "function");
+  const counts = {};
+  functions.forEach((fn) => {
+    counts[fn.name] = (counts[fn.name] || 0) + 1;
+  });
+
+  for (const fn of functions) {
+    const signature = signatureOf(fn);
+    // Overloads are keyed by full signature, as with ethers.Contract
+    const methodName = counts[fn.name] > 1 ? `"${signature}"` : fn.name;
+    const args = fn.inputs.map(argName);
+    const params = fn.inputs.map(
+      (param, index) => `${args[index]}: ${tsType(param, true)}`
+    );
+    const isRead =
+      fn.stateMutability === "view" || fn.stateMutability === "pure";
+
+    if (isRead) {
+      let returnType;
+      if (fn.outputs.length === 0) {
+        returnType = "void";
+      } else if (fn.outputs.length === 1) {
+        returnType = tsType(fn.outputs[0], false);
+      } else {
+        returnType = `${capitalize(fn.name)}Result`;
+        types.push(emitInterface(returnType, fn.outputs, signature));
+      }
+      methods.push(
+        [
+          ...emitSignature(methodName, params, `Promise<${returnType}>`),
+          ...emitCall(`this.read<${returnType}>`, signature, args),
+          "  }",
+        ].join("\n")
+      );
+    } else {
+      methods.push(
+        [
+          ...emitSignature(
+            methodName,
+            [...params, "overrides: ethers.Overrides = {}"],
+            "Promise<ethers.ContractTransactionResponse>"
+          ),
+          ...emitCall("this.send", signature, args, "overrides"),
+          "  }",
+        ].join("\n")
+      );
+    }
+  }
+
+  return { types, methods };
+}
+
+function emitEvents(abi) {
+  const events = abi.filter((item) => item.type === "event");
+  const lines = ["export interface NeurolendEventArgs {"];
+  for (const event of events) {
+    lines.push(`  ${event.name}: {`);
+    event.inputs.forEach((param, index) => {
+      lines.push(`    ${argName(param, index)}: ${tsType(param, false)};`);
+    });
+    lines.push("  };");
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+function generateClient(contractsContent) {
+  const neurolendAbi = readAbi(contractsContent, "neurolend_ABI");
+  const erc20Abi = readAbi(contractsContent, "ERC20_ABI");
+
+  const structs = collectStructs(neurolendAbi);
+  const neurolend = emitClient(neurolendAbi);
+  const erc20 = emitClient(erc20Abi);
+
+  const sections = [
+    `// Typed neurolend and ERC20 clients.
+// Generated by scripts/update-abi.js from neurolend_ABI and ERC20_ABI in
+// lib/contracts.ts; do not edit by hand. Run \`npm run generate:client\`
+// after changing either ABI.`,
+    `import { ethers } from "ethers";
+import { ERC20_ABI, neurolend_ABI } from "@/lib/contracts";
+import {
+  TypedContract,
+  TypedContractOptions,
+  fromAbiParams,
+} from "@/lib/typed-contract";`,
+    ...[...structs].map(([name, components]) =>
+      emitInterface(name, components)
+    ),
+    ...neurolend.types,
+    ...erc20.types,
+    emitEvents(neurolendAbi),
+    `export type NeurolendEventName = keyof NeurolendEventArgs;
+
+export type NeurolendEvent = {
+  [N in NeurolendEventName]: { name: N; args: NeurolendEventArgs[N] };
+}[NeurolendEventName];
+
+// Event args as the indexer stores them, every value a decimal string
+export type SerializedEventArgs<N extends NeurolendEventName> = {
+  [K in keyof NeurolendEventArgs[N]]: string;
+};
+
+export const neurolendInterface = new ethers.Interface(neurolend_ABI);
+
+// Decode a neurolend log; null for logs from other contracts or events
+export function decodeNeurolendLog(log: {
+  topics: readonly string[];
+  data: string;
+}): NeurolendEvent | null {
+  const parsed = neurolendInterface.parseLog({
+    topics: [...log.topics],
+    data: log.data,
+  });
+  if (!parsed) return null;
+  return {
+    name: parsed.name,
+    args: fromAbiParams(parsed.fragment.inputs, parsed.args),
+  } as NeurolendEvent;
+}`,
+    `export class NeurolendClient extends TypedContract {
+  constructor(
+    address: string,
+    runner: ethers.ContractRunner | null,
+    options?: TypedContractOptions
+  ) {
+    super(address, neurolend_ABI, runner, options);
+  }
+
+${neurolend.methods.join("\n\n")}
+}`,
+    `export class ERC20Client extends TypedContract {
+  constructor(
+    address: string,
+    runner: ethers.ContractRunner | null,
+    options?: TypedContractOptions
+  ) {
+    super(address, ERC20_ABI, runner, options);
+  }
+
+${erc20.methods.join("\n\n")}
+}`,
+  ];
+
+  return `${sections.join("\n\n")}\n`;
+}
+
+function updateAbi() {
   // Read the compiled contract
   const contractData = JSON.parse(fs.readFileSync(abiPath, "utf8"));
   const abi = contractData.abi;
@@ -52,7 +330,21 @@ try {
 
   console.log(`🔍 Contract functions (${functions.length}):`);
   functions.forEach((name) => console.log(`  - ${name}`));
-} catch (error) {
-  console.error("❌ Error updating ABI:", error.message);
-  process.exit(1);
 }
+
+if (require.main === module) {
+  try {
+    if (!process.argv.includes("--client-only")) {
+      updateAbi();
+    }
+
+    const contractsContent = fs.readFileSync(contractsFilePath, "utf8");
+    fs.writeFileSync(clientFilePath, generateClient(contractsContent), "utf8");
+    console.log("✅ Regenerated typed client in contract-client.ts");
+  } catch (error) {
+    console.error("❌ Error updating ABI:", error.message);
+    process.exit(1);
+  }
+}
+
+module.exports = { generateClient };
@@ -0,0 +1,78 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for signed alert subscription requests
+ */
+
+import { ethers } from "ethers";
+import {
+  AlertSubscriptionRequest,
+  alertAuthMessage,
+  verifyAlertSignature,
+} from "@/lib/alert-auth";
+
+const NOW = 1_700_100_000;
+const wallet = ethers.Wallet.createRandom();
+
+const request: AlertSubscriptionRequest = {
+  action: "subscribe",
+  address: wallet.address,
+  loanIds: ["1", "2"],
+  healthThresholdBPS: 13000,
+  webhookUrl: "https://hooks.example.com/neurolend",
+  issuedAt: NOW,
+};
+
+test("accepts a recent signature of the request from its address", async () => {
+  const signature = await wallet.signMessage(alertAuthMessage(request));
+
+  expect(verifyAlertSignature(request, signature, NOW + 60)).toBe(true);
+  // Addresses are compared case-insensitively
+  expect(
+    verifyAlertSignature(
+      { ...request, address: wallet.address.toLowerCase() },
+      signature,
+      NOW
+    )
+  ).toBe(true);
+});
+
+test("rejects other signers, changed requests and stale signatures", async () => {
+  const signature = await wallet.signMessage(alertAuthMessage(request));
+  const other = await ethers.Wallet.createRandom().signMessage(
+    alertAuthMessage(request)
+  );
+
+  expect(verifyAlertSignature(request, other, NOW)).toBe(false);
+  expect(
+    verifyAlertSignature(
+      { ...request, webhookUrl: "https://attacker.example.com" },
+      signature,
+      NOW
+    )
+  ).toBe(false);
+  expect(verifyAlertSignature(request, signature, NOW + 301)).toBe(false);
+  expect(verifyAlertSignature(request, "0x1234", NOW)).toBe(false);
+  expect(verifyAlertSignature(request, undefined, NOW)).toBe(false);
+});
+
+test("unsubscribe signatures are bound to one subscription", async () => {
+  const unsubscribe = {
+    action: "unsubscribe" as const,
+    address: wallet.address,
+    subscriptionId: "a",
+    issuedAt: NOW,
+  };
+  const signature = await wallet.signMessage(alertAuthMessage(unsubscribe));
+
+  expect(verifyAlertSignature(unsubscribe, signature, NOW)).toBe(true);
+  expect(
+    verifyAlertSignature(
+      { ...unsubscribe, subscriptionId: "b" },
+      signature,
+      NOW
+    )
+  ).toBe(false);
+});
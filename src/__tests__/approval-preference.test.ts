@@ -0,0 +1,72 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the exact vs. unlimited approval preference
+ */
+
+import { ethers } from "ethers";
+import {
+  APPROVAL_MODE_STORAGE_KEY,
+  ApprovalPreference,
+  approvalAmount,
+  isUnlimitedAllowance,
+} from "@/lib/approval-preference";
+import { LocalStorageLike } from "@/lib/local-store";
+
+function memoryStorage(
+  initial: Record<string, string> = {}
+): LocalStorageLike & { data: Map<string, string> } {
+  const data = new Map(Object.entries(initial));
+  return {
+    data,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => {
+      data.set(key, value);
+    },
+  };
+}
+
+describe("ApprovalPreference", () => {
+  test("defaults to exact and ignores unknown stored values", () => {
+    expect(new ApprovalPreference(memoryStorage()).get()).toBe("exact");
+    expect(
+      new ApprovalPreference(
+        memoryStorage({ [APPROVAL_MODE_STORAGE_KEY]: "infinite" })
+      ).get()
+    ).toBe("exact");
+  });
+
+  test("persists changes and notifies subscribers", () => {
+    const storage = memoryStorage();
+    const preference = new ApprovalPreference(storage);
+    const listener = jest.fn();
+    const unsubscribe = preference.subscribe(listener);
+
+    preference.set("unlimited");
+    unsubscribe();
+    preference.set("exact");
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(storage.data.get(APPROVAL_MODE_STORAGE_KEY)).toBe("exact");
+    // A new session reads the saved choice
+    storage.data.set(APPROVAL_MODE_STORAGE_KEY, "unlimited");
+    expect(new ApprovalPreference(storage).get()).toBe("unlimited");
+  });
+});
+
+describe("approval amounts", () => {
+  test("approve the action amount or the maximum", () => {
+    expect(approvalAmount("exact", BigInt(500))).toBe(BigInt(500));
+    expect(approvalAmount("unlimited", BigInt(500))).toBe(ethers.MaxUint256);
+  });
+
+  test("treat partly spent max approvals as unlimited", () => {
+    expect(isUnlimitedAllowance(ethers.MaxUint256)).toBe(true);
+    expect(isUnlimitedAllowance(ethers.MaxUint256 - BigInt(10 ** 18))).toBe(
+      true
+    );
+    expect(isUnlimitedAllowance(ethers.parseUnits("1000000", 18))).toBe(false);
+  });
+});
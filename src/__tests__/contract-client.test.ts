@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the generated typed contract client
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { generateClient } from "../../scripts/update-abi";
+import {
+  ERC20Client,
+  NeurolendClient,
+  decodeNeurolendLog,
+  neurolendInterface,
+} from "@/lib/contract-client";
+
+const CONTRACT = "0x00000000000000000000000000000000000000aa";
+const LENDER = "0x1111111111111111111111111111111111111111";
+const BORROWER = "0x2222222222222222222222222222222222222222";
+
+// Runner that answers eth_call with pre-encoded results per function
+function stubRunner(
+  iface: ethers.Interface,
+  results: Record<string, unknown[]>
+) {
+  const calls: string[] = [];
+  const runner: ethers.ContractRunner = {
+    provider: null,
+    call: async (tx) => {
+      const fragment = iface.getFunction(tx.data!.slice(0, 10))!;
+      calls.push(fragment.format());
+      return iface.encodeFunctionResult(fragment, results[fragment.name]);
+    },
+  };
+  return { runner, calls };
+}
+
+describe("contract client generation", () => {
+  test("contract-client.ts is up to date with the ABIs", async () => {
+    const root = path.join(__dirname, "../..");
+    const [contracts, client] = await Promise.all([
+      fs.readFile(path.join(root, "src/lib/contracts.ts"), "utf8"),
+      fs.readFile(path.join(root, "src/lib/contract-client.ts"), "utf8"),
+    ]);
+
+    // Run `npm run generate:client` if this fails
+    expect(generateClient(contracts)).toBe(client);
+  });
+});
+
+describe("NeurolendClient", () => {
+  const loan = [
+    BigInt(7),
+    LENDER,
+    BORROWER,
+    LENDER,
+    BigInt(1000),
+    BigInt(500),
+    BigInt(86400),
+    BORROWER,
+    BigInt(2000),
+    BigInt(1_700_000_000),
+    1,
+    BigInt(15000),
+    BigInt(12000),
+    BigInt(3600),
+    BigInt(250),
+  ];
+
+  test("returns structs and named outputs as plain objects", async () => {
+    const { runner, calls } = stubRunner(neurolendInterface, {
+      getLoan: [loan],
+      getLoanHealthFactor: [BigInt(14000), false],
+      getActiveLoanOffers: [[BigInt(3), BigInt(7)]],
+    });
+    const client = new NeurolendClient(CONTRACT, runner);
+
+    const result = await client.getLoan(7);
+    expect(result).toEqual({
+      id: BigInt(7),
+      lender: LENDER,
+      borrower: BORROWER,
+      tokenAddress: LENDER,
+      amount: BigInt(1000),
+      interestRate: BigInt(500),
+      duration: BigInt(86400),
+      collateralAddress: BORROWER,
+      collateralAmount: BigInt(2000),
+      startTime: BigInt(1_700_000_000),
+      status: BigInt(1),
+      minCollateralRatioBPS: BigInt(15000),
+      liquidationThresholdBPS: BigInt(12000),
+      maxPriceStaleness: BigInt(3600),
+      repaidAmount: BigInt(250),
+    });
+    expect(await client.getLoanHealthFactor(7)).toEqual({
+      currentRatio: BigInt(14000),
+      priceStale: false,
+    });
+    expect(await client.getActiveLoanOffers()).toEqual([BigInt(3), BigInt(7)]);
+    expect(calls).toEqual([
+      "getLoan(uint256)",
+      "getLoanHealthFactor(uint256)",
+      "getActiveLoanOffers()",
+    ]);
+  });
+
+  test("decodes events into typed args", () => {
+    const event = neurolendInterface.getEvent("PartialRepayment")!;
+    const { data, topics } = neurolendInterface.encodeEventLog(event, [
+      BigInt(7),
+      BORROWER,
+      BigInt(100),
+      BigInt(350),
+      BigInt(750),
+      BigInt(1_700_000_100),
+    ]);
+
+    const decoded = decodeNeurolendLog({ topics, data });
+    expect(decoded?.name).toBe("PartialRepayment");
+    if (decoded?.name !== "PartialRepayment") return;
+    expect(decoded.args).toEqual({
+      loanId: BigInt(7),
+      borrower: BORROWER,
+      repaymentAmount: BigInt(100),
+      totalRepaidAmount: BigInt(350),
+      remainingAmount: BigInt(750),
+      timestamp: BigInt(1_700_000_100),
+    });
+
+    expect(
+      decodeNeurolendLog({ topics: [ethers.ZeroHash], data: "0x" })
+    ).toBeNull();
+  });
+});
+
+describe("ERC20Client", () => {
+  test("reads token metadata", async () => {
+    const client = new ERC20Client(CONTRACT, null);
+    const { runner } = stubRunner(client.interface, {
+      symbol: ["USDC"],
+      decimals: [6],
+    });
+    const token = new ERC20Client(CONTRACT, runner);
+
+    expect(await token.symbol()).toBe("USDC");
+    expect(await token.decimals()).toBe(BigInt(6));
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the server-side event indexer
+ * Uses a stub provider serving encoded neurolend logs, so the same flow can be
+ * pointed at a local anvil/hardhat node by swapping in a JsonRpcProvider
+ */
+
+import { ethers } from "ethers";
+import { EventIndexer, IndexerProvider } from "@/lib/event-indexer";
+import { MemoryIndexerStore } from "@/lib/indexer-store";
+import { neurolend_ABI, LoanStatus } from "@/lib/contracts";
+
+const CONTRACT = "0x064c3e0a900743D9Ac87c778d2f6d3d5819D4f23";
+const LENDER = "0x1111111111111111111111111111111111111111";
+const BORROWER = "0x2222222222222222222222222222222222222222";
+const TOKEN = "0x1f3AA82227281cA364bFb3d253B0f1af1Da6473E";
+const COLLATERAL = "0x9CC1d782E6dfe5936204c3295cb430e641DcF300";
+
+const iface = new ethers.Interface(neurolend_ABI);
+
+interface StubLog {
+  blockNumber: number;
+  index: number;
+  transactionHash: string;
+  topics: string[];
+  data: string;
+}
+
+function makeLog(
+  blockNumber: number,
+  index: number,
+  name: string,
+  values: unknown[]
+): StubLog {
+  const { data, topics } = iface.encodeEventLog(name, values);
+  return {
+    blockNumber,
+    index,
+    transactionHash: ethers.zeroPadValue(ethers.toBeHex(blockNumber), 32),
+    topics,
+    data,
+  };
+}
+
+function createStubProvider(logs: StubLog[], head: number) {
+  const getLogs = jest.fn(
+    async (filter: { fromBlock: number; toBlock: number }) =>
+      logs.filter(
+        (log) =>
+          log.blockNumber >= filter.fromBlock &&
+          log.blockNumber <= filter.toBlock
+      )
+  );
+  const provider = {
+    getBlockNumber: async () => head,
+    getLogs,
+    getBlock: async (blockNumber: number) => ({
+      timestamp: 1_700_000_000 + blockNumber,
+    }),
+  } as unknown as IndexerProvider;
+  return { provider, getLogs };
+}
+
+const loanCreated = (block: number, loanId: number) =>
+  makeLog(block, 0, "LoanCreated", [
+    loanId,
+    LENDER,
+    TOKEN,
+    1_000_000n,
+    500n,
+    86400n,
+    COLLATERAL,
+    10n ** 18n,
+    15000n,
+    12000n,
+    300n,
+  ]);
+
+describe("EventIndexer", () => {
+  test("reconstructs loan state from the event stream", async () => {
+    const logs = [
+      loanCreated(100, 1),
+      loanCreated(101, 2),
+      makeLog(102, 0, "LoanAccepted", [1, BORROWER, 1_700_000_102n, 16000n]),
+      makeLog(103, 0, "CollateralAdded", [1, BORROWER, 5n, 17000n, 0n]),
+      makeLog(104, 0, "PartialRepayment", [
+        1,
+        BORROWER,
+        400_000n,
+        400_000n,
+        600_000n,
+        0n,
+      ]),
+      makeLog(105, 0, "LoanOfferCancelled", [2, LENDER, 0n]),
+    ];
+    const { provider } = createStubProvider(logs, 110);
+    const store = new MemoryIndexerStore();
+    const indexer = new EventIndexer({
+      provider,
+      store,
+      contractAddress: CONTRACT,
+      startBlock: 100,
+      chunkSize: 3,
+    });
+
+    const result = await indexer.sync();
+    const { cursor, events, loans } = await store.load();
+
+    expect(result).toEqual({
+      fromBlock: 100,
+      toBlock: 110,
+      newEvents: 6,
+      caughtUp: true,
+    });
+    expect(cursor).toBe(110);
+    expect(events.map((e) => e.name)).toEqual([
+      "LoanCreated",
+      "LoanCreated",
+      "LoanAccepted",
+      "CollateralAdded",
+      "PartialRepayment",
+      "LoanOfferCancelled",
+    ]);
+    expect(events[0].blockTimestamp).toBe(1_700_000_100);
+
+    expect(loans["1"]).toMatchObject({
+      borrower: BORROWER,
+      status: LoanStatus.Active,
+      startTime: 1_700_000_102,
+      collateralAmount: (10n ** 18n + 5n).toString(),
+      repaidAmount: "400000",
+    });
+    expect(loans["2"].status).toBe(LoanStatus.Cancelled);
+  });
+
+  test("ignores transitions the contract can't make", async () => {
+    const logs = [
+      loanCreated(100, 1),
+      makeLog(101, 0, "LoanOfferCancelled", [1, LENDER, 0n]),
+      makeLog(102, 0, "LoanAccepted", [1, BORROWER, 1_700_000_102n, 16000n]),
+    ];
+    const { provider } = createStubProvider(logs, 110);
+    const store = new MemoryIndexerStore();
+    await new EventIndexer({ provider, store, startBlock: 100 }).sync();
+
+    const { loans } = await store.load();
+    expect(loans["1"].status).toBe(LoanStatus.Cancelled);
+  });
+
+  test("resumes from the stored cursor", async () => {
+    const logs = [
+      loanCreated(100, 1),
+      makeLog(105, 0, "LoanAccepted", [1, BORROWER, 1_700_000_105n, 16000n]),
+      makeLog(120, 0, "LoanRepaid", [1, BORROWER, 1_000_100n, 0n]),
+    ];
+    const store = new MemoryIndexerStore();
+
+    const first = createStubProvider(logs.slice(0, 2), 110);
+    await new EventIndexer({
+      provider: first.provider,
+      store,
+      startBlock: 100,
+    }).sync();
+
+    const second = createStubProvider(logs, 130);
+    const result = await new EventIndexer({
+      provider: second.provider,
+      store,
+      startBlock: 100,
+    }).sync();
+
+    expect(result.fromBlock).toBe(111);
+    expect(second.getLogs).toHaveBeenCalledWith(
+      expect.objectContaining({ fromBlock: 111, toBlock: 130 })
+    );
+    const { loans, events } = await store.load();
+    expect(events).toHaveLength(3);
+    // State stored by the first sync carries over into the second
+    expect(loans["1"]).toMatchObject({
+      status: LoanStatus.Repaid,
+      borrower: BORROWER,
+      startTime: 1_700_000_105,
+    });
+  });
+
+  test("caps the number of blocks ingested per sync", async () => {
+    const { provider } = createStubProvider([], 1000);
+    const store = new MemoryIndexerStore();
+    const indexer = new EventIndexer({
+      provider,
+      store,
+      startBlock: 0,
+      chunkSize: 100,
+      maxBlocksPerSync: 250,
+    });
+
+    const result = await indexer.sync();
+
+    expect(result.toBlock).toBe(249);
+    expect(result.caughtUp).toBe(false);
+    expect((await store.load()).cursor).toBe(249);
+  });
+});
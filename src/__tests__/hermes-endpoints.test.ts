@@ -0,0 +1,185 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for Hermes endpoint failover and price validation
+ */
+
+import { SUPPORTED_TOKENS } from "@/config/tokens";
+import { HermesEndpointPool } from "@/lib/hermes-endpoints";
+import { HERMES_SCENARIOS, MockHermes } from "@/lib/mock-hermes";
+import { PythPriceService } from "@/lib/pyth-price-service";
+
+const { WETH } = SUPPORTED_TOKENS;
+const PRIMARY = "https://primary.test";
+const BACKUP = "https://backup.test";
+
+// Routes requests to a MockHermes per endpoint; endpoints missing from
+// `hermes` hang until the request times out
+function hermesFetch(hermes: Record<string, MockHermes | number>) {
+  return jest.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(String(input));
+    const target = hermes[url.origin];
+    if (typeof target === "number") {
+      return new Response("{}", { status: target });
+    }
+    if (!target) {
+      return new Promise<Response>((_, reject) =>
+        init?.signal?.addEventListener("abort", () =>
+          reject(new Error("aborted"))
+        )
+      );
+    }
+    const { status, body } = target.handle(url.pathname + url.search);
+    return new Response(JSON.stringify(body), { status });
+  });
+}
+
+beforeEach(() => {
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test("fails over to the next endpoint and prefers it while the first cools down", async () => {
+  const now = 0;
+  const fetch = hermesFetch({
+    [PRIMARY]: 503,
+    [BACKUP]: new MockHermes(),
+  });
+  const pool = new HermesEndpointPool([PRIMARY, `${BACKUP}/`], {
+    fetch,
+    cooldownMs: 30000,
+    now: () => now,
+  });
+
+  const path = `/v2/updates/price/latest?ids[]=${WETH.pythPriceFeedId}`;
+  const { endpoint } = await pool.fetchJson(path);
+  expect(endpoint).toBe(BACKUP);
+  expect(pool.order()).toEqual([BACKUP, PRIMARY]);
+
+  const [primary, backup] = pool.snapshot();
+  expect(primary).toMatchObject({ failures: 1, lastError: "HTTP 503: " });
+  expect(primary.score).toBeLessThan(backup.score);
+
+  // The backup keeps serving without retrying the primary
+  fetch.mockClear();
+  await pool.fetchJson(path);
+  expect(fetch).toHaveBeenCalledTimes(1);
+
+  // Every endpoint failing surfaces all of their errors
+  await expect(
+    new HermesEndpointPool([PRIMARY], { fetch }).fetchJson(path)
+  ).rejects.toThrow(`All Hermes endpoints failed (${PRIMARY}: HTTP 503: )`);
+});
+
+test("times out slow endpoints and rejects responses that fail validation", async () => {
+  const pool = new HermesEndpointPool([PRIMARY, BACKUP], {
+    fetch: hermesFetch({ [BACKUP]: new MockHermes() }),
+    timeoutMs: 20,
+  });
+
+  await expect(
+    pool.fetchJson("/v2/updates/price/latest?ids[]=0x01", () => null)
+  ).rejects.toThrow(`${PRIMARY}: Timed out after 20ms`);
+
+  const { endpoint } = await pool.fetchJson(
+    `/v2/updates/price/latest?ids[]=${WETH.pythPriceFeedId}`,
+    (data: any) => (data.parsed.length === 1 ? null : "wrong feed count")
+  );
+  expect(endpoint).toBe(BACKUP);
+  expect(pool.snapshot()[0].lastError).toBe("Timed out after 20ms");
+});
+
+test("PythPriceService reports the serving endpoint and rejects wide confidence", async () => {
+  jest.spyOn(global, "fetch").mockImplementation(
+    hermesFetch({
+      [PRIMARY]: 500,
+      [BACKUP]: new MockHermes(HERMES_SCENARIOS["wide-confidence"]),
+    })
+  );
+  const service = new PythPriceService([PRIMARY, BACKUP], {
+    maxConfidenceRatio: 0.02,
+  });
+
+  const prices = await service.getPrices(["WETH", "USDC"]);
+  expect(prices.get("USDC")).toMatchObject({
+    success: true,
+    endpoint: BACKUP,
+  });
+  expect(prices.get("WETH")).toMatchObject({
+    success: false,
+    endpoint: BACKUP,
+    error: "Confidence interval is 5.00% of price (max 2.00%)",
+  });
+
+  const lenient = new PythPriceService(BACKUP, { maxConfidenceRatio: 0.1 });
+  expect((await lenient.getPrice("WETH")).success).toBe(true);
+});
+
+test("the default service fails over between every configured endpoint", async () => {
+  jest
+    .spyOn(global, "fetch")
+    .mockImplementation(
+      hermesFetch({ [PRIMARY]: 503, [BACKUP]: new MockHermes() })
+    );
+  process.env.NEXT_PUBLIC_HERMES_URL = `${PRIMARY}, ${BACKUP}`;
+  try {
+    await jest.isolateModulesAsync(async () => {
+      const { PYTH_CONFIG } = await import("@/config/0g-chain");
+      const { PythPriceService } = await import("@/lib/pyth-price-service");
+      expect(PYTH_CONFIG.hermesEndpoints).toEqual([PRIMARY, BACKUP]);
+
+      const service = new PythPriceService();
+      expect(await service.getPrice("WETH")).toMatchObject({
+        success: true,
+        endpoint: BACKUP,
+      });
+    });
+  } finally {
+    delete process.env.NEXT_PUBLIC_HERMES_URL;
+  }
+});
+
+test("validateHermesPrice checks feed ID, fields and publish time", () => {
+  const service = new PythPriceService("https://hermes.test");
+  const now = Math.floor(Date.now() / 1000);
+  const entry = (
+    price: Record<string, unknown>,
+    id = WETH.pythPriceFeedId
+  ) => ({
+    id: id.slice(2),
+    price: {
+      price: "300000000000",
+      conf: "100000000",
+      expo: -8,
+      publish_time: now,
+      ...price,
+    },
+  });
+
+  expect(service.validateHermesPrice(entry({}), WETH.pythPriceFeedId)).toBe(
+    null
+  );
+  expect(
+    service.validateHermesPrice(
+      entry({}, SUPPORTED_TOKENS.USDC.pythPriceFeedId),
+      WETH.pythPriceFeedId
+    )
+  ).toMatch(/^Hermes returned feed/);
+  expect(
+    service.validateHermesPrice(entry({ expo: 1.5 }), WETH.pythPriceFeedId)
+  ).toBe("Invalid exponent 1.5");
+  expect(
+    service.validateHermesPrice(
+      entry({ publish_time: now + 3600 }),
+      WETH.pythPriceFeedId
+    )
+  ).toBe("Publish time is in the future");
+  expect(
+    service.validateHermesPrice(entry({ price: "-5" }), WETH.pythPriceFeedId)
+  ).toBe("Price is not positive");
+});
@@ -0,0 +1,228 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the liquidation keeper
+ */
+
+import { getEventListeners } from "events";
+import { ethers } from "ethers";
+import { LoanStatus } from "@/lib/contracts";
+import { PythPrice } from "@/lib/pyth-price-service";
+import { ZEROG_MAINNET } from "@/config/networks";
+import { SUPPORTED_TOKENS } from "@/config/tokens";
+import { assessLoanHealth, collateralRatioBPS } from "@/lib/loan-health";
+import { KeeperPriceSource, LiquidationKeeper } from "@/keeper/keeper";
+
+const { USDC, WETH } = SUPPORTED_TOKENS;
+const NOW = BigInt(1_700_100_000);
+
+// 1000 USDC borrowed against 0.5 WETH, liquidatable below 120%
+const rawLoan = (id: number, status = LoanStatus.Active) => ({
+  id: BigInt(id),
+  lender: "0x1111111111111111111111111111111111111111",
+  borrower: "0x2222222222222222222222222222222222222222",
+  tokenAddress: USDC.address,
+  amount: BigInt(1000e6),
+  interestRate: BigInt(1000),
+  duration: BigInt(30 * 86400),
+  collateralAddress: WETH.address,
+  collateralAmount: ethers.parseEther("0.5"),
+  startTime: NOW - BigInt(86400),
+  status: BigInt(status),
+  minCollateralRatioBPS: BigInt(15000),
+  liquidationThresholdBPS: BigInt(12000),
+  maxPriceStaleness: BigInt(3600),
+  repaidAmount: BigInt(0),
+});
+
+const pythPrice = (usd: number): PythPrice => ({
+  id: "",
+  price: String(Math.round(usd * 1e8)),
+  priceUSD: usd.toFixed(2),
+  confidence: "0",
+  expo: -8,
+  publishTime: Number(NOW),
+  isStale: false,
+  success: true,
+});
+
+function setup(wethUSD: number, loans = [rawLoan(1), rawLoan(2)]) {
+  const prices: KeeperPriceSource = {
+    getPrices: async (symbols) =>
+      new Map(
+        symbols.map((symbol) => [
+          symbol,
+          pythPrice({ USDC: 1, WETH: wethUSD, "0G": 2 }[symbol] ?? 0),
+        ])
+      ),
+    getPriceUpdateDataForFeedIds: async (priceIds) => ({
+      updateData: ["0x01"],
+      updateFee: "0",
+      priceIds,
+    }),
+  };
+
+  const sent: unknown[][] = [];
+  const liquidateLoan = Object.assign(
+    jest.fn(async (...args: unknown[]) => {
+      sent.push(args);
+      return { hash: "0xabc", wait: async () => ({}) };
+    }),
+    {
+      staticCall: jest.fn(async () => []),
+      estimateGas: jest.fn(async () => BigInt(300_000)),
+    }
+  );
+  const contract = {
+    nextLoanId: async () => BigInt(loans.length + 1),
+    getLoan: async (id: bigint) => loans[Number(id) - 1],
+    getUpdateFee: async () => BigInt(1),
+    liquidateLoan,
+  } as unknown as ethers.Contract;
+
+  const provider = {
+    getBlock: async () => ({ timestamp: Number(NOW) }),
+    getFeeData: async () => ({ gasPrice: BigInt(1e9), maxFeePerGas: null }),
+  } as unknown as ethers.Provider;
+
+  const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  const keeper = (options: { dryRun?: boolean; minProfitUSD?: number } = {}) =>
+    new LiquidationKeeper({
+      network: ZEROG_MAINNET,
+      contract,
+      provider,
+      prices,
+      logger,
+      ...options,
+    });
+
+  return { keeper, liquidateLoan, sent };
+}
+
+describe("loan health", () => {
+  const loan = { ...rawLoan(1), status: LoanStatus.Active };
+  const usdc = {
+    decimals: USDC.decimals,
+    price: { price: BigInt(1e8), expo: -8 },
+  };
+  const weth = (usd: number) => ({
+    decimals: WETH.decimals,
+    price: { price: BigInt(usd * 1e8), expo: -8 },
+  });
+
+  test("computes the collateral ratio like the contract", () => {
+    expect(collateralRatioBPS(loan, usdc, weth(3000))).toBe(BigInt(15000));
+    expect(collateralRatioBPS(loan, usdc, weth(2000))).toBe(BigInt(10000));
+  });
+
+  test("flags undercollateralized and expired loans", () => {
+    expect(assessLoanHealth(loan, BigInt(15000), NOW).liquidatable).toBe(false);
+    expect(assessLoanHealth(loan, BigInt(11999), NOW).reasons).toEqual([
+      "undercollateralized",
+    ]);
+
+    const expired = loan.startTime + loan.duration + BigInt(1);
+    expect(assessLoanHealth(loan, undefined, expired).reasons).toEqual([
+      "expired",
+    ]);
+    expect(
+      assessLoanHealth(
+        { ...loan, status: LoanStatus.Repaid },
+        BigInt(0),
+        expired
+      ).liquidatable
+    ).toBe(false);
+  });
+});
+
+describe("LiquidationKeeper", () => {
+  test("only tracks pending and active loans", async () => {
+    const { keeper } = setup(3000, [
+      rawLoan(1),
+      rawLoan(2, LoanStatus.Pending),
+      rawLoan(3, LoanStatus.Repaid),
+    ]);
+    const k = keeper();
+    await k.syncLoans();
+    expect(k.getTrackedLoans().map((loan) => loan.id)).toEqual([
+      BigInt(1),
+      BigInt(2),
+    ]);
+  });
+
+  test("leaves healthy loans alone", async () => {
+    const { keeper, liquidateLoan } = setup(3000);
+    const result = await keeper().tick(NOW);
+
+    expect(result).toMatchObject({ trackedLoans: 2, candidates: 0 });
+    expect(liquidateLoan.staticCall).not.toHaveBeenCalled();
+  });
+
+  test("simulates but never sends in dry-run mode", async () => {
+    const { keeper, liquidateLoan, sent } = setup(2000);
+    const result = await keeper().tick(NOW);
+
+    expect(result.candidates).toBe(2);
+    expect(result.attempts.map((a) => a.outcome)).toEqual([
+      "simulated",
+      "simulated",
+    ]);
+    // 1% of 0.5 WETH at $2000 = $10, minus 0.0003 0G gas and the update fee
+    expect(
+      Number(ethers.formatUnits(result.attempts[0].profitUSD!, 18))
+    ).toBeCloseTo(10 - 0.0006, 6);
+    expect(liquidateLoan.staticCall).toHaveBeenCalledWith(BigInt(1), ["0x01"], {
+      value: BigInt(1),
+    });
+    expect(sent).toHaveLength(0);
+  });
+
+  test("submits profitable liquidations when live", async () => {
+    const { keeper, sent } = setup(2000);
+    const k = keeper({ dryRun: false, minProfitUSD: 5 });
+    const result = await k.tick(NOW);
+
+    expect(result.attempts.map((a) => a.outcome)).toEqual([
+      "submitted",
+      "submitted",
+    ]);
+    expect(result.attempts[0].txHash).toBe("0xabc");
+    expect(sent).toHaveLength(2);
+  });
+
+  test("skips unprofitable and reverting liquidations", async () => {
+    const { keeper, liquidateLoan, sent } = setup(2000);
+    liquidateLoan.staticCall.mockRejectedValueOnce(
+      new Error("Loan has not defaulted yet (time or price)")
+    );
+    const result = await keeper({ dryRun: false, minProfitUSD: 50 }).tick(NOW);
+
+    expect(result.attempts.map((a) => a.outcome)).toEqual([
+      "reverted",
+      "unprofitable",
+    ]);
+    expect(result.attempts[0].error).toMatch(/not defaulted/);
+    expect(sent).toHaveLength(0);
+  });
+
+  test("waits between ticks without leaking abort listeners", async () => {
+    const { keeper } = setup(3000);
+    const k = keeper();
+    const controller = new AbortController();
+    const tick = k.tick.bind(k);
+    const listenerCounts: number[] = [];
+    jest.spyOn(k, "tick").mockImplementation(async (now) => {
+      listenerCounts.push(getEventListeners(controller.signal, "abort").length);
+      if (listenerCounts.length === 15) controller.abort();
+      return tick(now);
+    });
+
+    await k.run(1, controller.signal);
+
+    expect(listenerCounts).toHaveLength(15);
+    expect(Math.max(...listenerCounts)).toBe(0);
+    expect(getEventListeners(controller.signal, "abort")).toHaveLength(0);
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for loan health alerts
+ */
+
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { LoanStatus } from "@/lib/contracts";
+import { PythPrice } from "@/lib/pyth-price-service";
+import { JsonFileAlertStore, MemoryAlertStore } from "@/lib/alert-store";
+import { IndexedEvent, IndexedLoan } from "@/lib/indexer-store";
+import {
+  AlertSink,
+  LoanAlertService,
+  WebhookAlertSink,
+  isPublicWebhookUrl,
+} from "@/lib/loan-alerts";
+import { SUPPORTED_TOKENS } from "@/config/tokens";
+
+const BORROWER = "0x2222222222222222222222222222222222222222";
+const NOW = 1_700_100_000;
+
+// 1000 USDC against 0.5 WETH; 150% at $3000, liquidation below 120%
+const loan = (id: string, overrides: Partial<IndexedLoan> = {}) => ({
+  id,
+  lender: "0x1111111111111111111111111111111111111111",
+  borrower: BORROWER,
+  tokenAddress: SUPPORTED_TOKENS.USDC.address,
+  amount: "1000000000",
+  interestRate: "1000",
+  duration: String(30 * 86400),
+  collateralAddress: SUPPORTED_TOKENS.WETH.address,
+  collateralAmount: "500000000000000000",
+  minCollateralRatioBPS: "15000",
+  liquidationThresholdBPS: "12000",
+  maxPriceStaleness: "3600",
+  repaidAmount: "0",
+  status: LoanStatus.Active,
+  createdAt: NOW - 86400,
+  startTime: NOW - 86400,
+  updatedAtBlock: 1,
+  ...overrides,
+});
+
+const prices = (wethUSD: number) =>
+  new Map<string, PythPrice>(
+    Object.entries({ USDC: 1, WETH: wethUSD }).map(([symbol, usd]) => [
+      symbol,
+      {
+        id: "",
+        price: String(usd * 1e8),
+        priceUSD: usd.toFixed(2),
+        confidence: "0",
+        expo: -8,
+        publishTime: NOW,
+        isStale: false,
+        success: true,
+      },
+    ])
+  );
+
+function setup() {
+  let wethUSD = 3000;
+  let priceGate = Promise.resolve();
+  const delivered: string[] = [];
+  const sink: AlertSink = {
+    name: "test",
+    deliver: async (alert) => {
+      delivered.push(`${alert.loanId}:${alert.type}`);
+    },
+  };
+  const service = new LoanAlertService({
+    store: new MemoryAlertStore(),
+    sinks: [sink],
+    prices: {
+      getPrices: async () => {
+        await priceGate;
+        return prices(wethUSD);
+      },
+    },
+  });
+
+  return {
+    service,
+    delivered,
+    setPrice: (usd: number) => {
+      wethUSD = usd;
+    },
+    // Keeps checks waiting on prices until the returned function is called
+    holdPrices: () => {
+      let release!: () => void;
+      priceGate = new Promise((resolve) => (release = resolve));
+      return release;
+    },
+  };
+}
+
+describe("LoanAlertService", () => {
+  test("alerts once when health crosses the threshold and re-arms", async () => {
+    const { service, delivered, setPrice } = setup();
+    await service.subscribe({ address: BORROWER, healthThresholdBPS: 13000 });
+    const data = { loans: { "1": loan("1") }, events: [] };
+
+    expect(await service.check(data, NOW)).toHaveLength(0);
+
+    setPrice(2500); // 125%
+    const [alert] = await service.check(data, NOW);
+    expect(alert).toMatchObject({
+      loanId: "1",
+      type: "health",
+      ratioBPS: "12500",
+    });
+    expect(alert.message).toMatch(/125\.0%.*130\.0%.*120\.0%/);
+
+    // Still below: no repeat
+    expect(await service.check(data, NOW)).toHaveLength(0);
+
+    setPrice(3000);
+    await service.check(data, NOW);
+    setPrice(2500);
+    expect(await service.check(data, NOW)).toHaveLength(1);
+    expect(delivered).toEqual(["1:health", "1:health"]);
+  });
+
+  test("warns before the due date and scopes to subscribed loans", async () => {
+    const { service } = setup();
+    await service.subscribe({
+      address: BORROWER,
+      loanIds: ["2"],
+      expiryWarningSeconds: 3600,
+    });
+    const dueSoon = { startTime: NOW - 30 * 86400 + 1800 };
+    const data = {
+      loans: { "1": loan("1", dueSoon), "2": loan("2", dueSoon) },
+      events: [],
+    };
+
+    const alerts = await service.check(data, NOW);
+    expect(alerts.map((a) => [a.loanId, a.type])).toEqual([["2", "expiry"]]);
+    expect(alerts[0].message).toBe("Loan #2 is due in 30m");
+  });
+
+  test("reports repayments and liquidations after subscribing", async () => {
+    const { service } = setup();
+    const subscription = await service.subscribe({ address: BORROWER });
+    const event = (
+      name: IndexedEvent["name"],
+      loanId: string,
+      blockTimestamp: number
+    ): IndexedEvent => ({
+      id: `${name}-${loanId}`,
+      name,
+      loanId,
+      blockNumber: 1,
+      blockTimestamp,
+      transactionHash: "0x",
+      logIndex: 0,
+      args: {},
+    });
+    const data = {
+      loans: {
+        "1": loan("1", { status: LoanStatus.Repaid }),
+        "2": loan("2", { status: LoanStatus.Defaulted }),
+      },
+      events: [
+        event("LoanRepaid", "1", subscription.createdAt - 10),
+        event("LoanLiquidated", "2", subscription.createdAt + 10),
+      ],
+    };
+
+    const alerts = await service.check(data, NOW);
+    expect(alerts.map((a) => a.message)).toEqual(["Loan #2 was liquidated"]);
+    expect(await service.check(data, NOW)).toHaveLength(0);
+
+    const { alerts: stored } = await service.getForAddress(BORROWER);
+    expect(stored).toHaveLength(1);
+    expect(await service.unsubscribe(subscription.id, BORROWER)).toBe(true);
+    expect((await service.getForAddress(BORROWER)).alerts).toHaveLength(0);
+  });
+
+  test("only the owner can unsubscribe and webhook URLs aren't served", async () => {
+    const { service } = setup();
+    const subscription = await service.subscribe({
+      address: BORROWER,
+      webhookUrl: "https://hooks.example.com/secret-token",
+    });
+
+    const { subscriptions } = await service.getForAddress(BORROWER);
+    expect(subscriptions).toEqual([
+      expect.objectContaining({ id: subscription.id, hasWebhook: true }),
+    ]);
+    expect(subscriptions[0]).not.toHaveProperty("webhookUrl");
+
+    const other = "0x3333333333333333333333333333333333333333";
+    expect(await service.unsubscribe(subscription.id, other)).toBe(false);
+    expect(await service.unsubscribe(subscription.id, BORROWER)).toBe(true);
+  });
+
+  test("keeps subscription changes made while a check is in flight", async () => {
+    const { service, delivered, setPrice, holdPrices } = setup();
+    const removed = await service.subscribe({
+      address: BORROWER,
+      healthThresholdBPS: 13000,
+    });
+    const data = { loans: { "1": loan("1") }, events: [] };
+    setPrice(2500);
+
+    const release = holdPrices();
+    const checking = service.check(data, NOW);
+    const added = await service.subscribe({
+      address: BORROWER,
+      healthThresholdBPS: 13000,
+    });
+    await service.unsubscribe(removed.id, BORROWER);
+    release();
+
+    // The removed subscription's alert is dropped, not delivered
+    expect(await checking).toHaveLength(0);
+    expect(delivered).toHaveLength(0);
+    const { subscriptions, alerts } = await service.getForAddress(BORROWER);
+    expect(subscriptions.map((s) => s.id)).toEqual([added.id]);
+    expect(alerts).toHaveLength(0);
+
+    // The new subscription is checked from the next run on
+    const [alert] = await service.check(data, NOW);
+    expect(alert.subscriptionId).toBe(added.id);
+  });
+});
+
+describe("JsonFileAlertStore", () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "neurolend-alerts-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  test("applies concurrent updates from separate writers in turn", async () => {
+    // Separate instances stand in for the API routes and the check script
+    const stores = [
+      new JsonFileAlertStore(dataDir),
+      new JsonFileAlertStore(dataDir),
+    ];
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        stores[i % 2].update((snapshot) => ({
+          ...snapshot,
+          active: [...snapshot.active, `key-${i}`],
+        }))
+      )
+    );
+
+    const { active } = await stores[0].load();
+    expect(active.sort()).toEqual(
+      Array.from({ length: 10 }, (_, i) => `key-${i}`).sort()
+    );
+    // No temp or lock files left behind
+    expect(await fs.readdir(dataDir)).toEqual(["neurolend-alerts.json"]);
+  });
+});
+
+describe("isPublicWebhookUrl", () => {
+  const resolveTo =
+    (...addresses: string[]) =>
+    async () =>
+      addresses;
+
+  test("accepts https hosts that resolve to public addresses", async () => {
+    expect(
+      await isPublicWebhookUrl(
+        "https://hooks.example.com/x",
+        resolveTo("93.184.216.34")
+      )
+    ).toBe(true);
+    expect(await isPublicWebhookUrl("https://8.8.8.8/x")).toBe(true);
+  });
+
+  test("refuses loopback, private and non-https targets", async () => {
+    for (const url of [
+      "http://hooks.example.com/x",
+      "https://localhost/x",
+      "https://127.0.0.1/x",
+      "https://10.1.2.3/x",
+      "https://169.254.169.254/latest/meta-data",
+      "https://192.168.1.1/x",
+      "https://[::1]/x",
+      "https://[::ffff:127.0.0.1]/x",
+      "https://[fd00::1]/x",
+      "not a url",
+    ]) {
+      expect(await isPublicWebhookUrl(url)).toBe(false);
+    }
+    expect(
+      await isPublicWebhookUrl(
+        "https://internal.example.com/x",
+        resolveTo("93.184.216.34", "172.16.0.5")
+      )
+    ).toBe(false);
+    expect(
+      await isPublicWebhookUrl("https://nowhere.example.com/x", async () => {
+        throw new Error("ENOTFOUND");
+      })
+    ).toBe(false);
+  });
+});
+
+describe("WebhookAlertSink", () => {
+  test("posts alerts to the subscription's webhook", async () => {
+    const fetcher = jest.fn(async () => new Response(null, { status: 200 }));
+    const sink = new WebhookAlertSink(undefined, {
+      fetcher: fetcher as typeof fetch,
+      resolve: async () => ["93.184.216.34"],
+    });
+    const alert = {
+      id: "a",
+      subscriptionId: "s",
+      address: BORROWER,
+      loanId: "1",
+      type: "repaid" as const,
+      message: "Loan #1 was repaid",
+      createdAt: NOW,
+    };
+    const subscription = {
+      id: "s",
+      address: BORROWER,
+      expiryWarningSeconds: 0,
+      createdAt: NOW,
+    };
+
+    await sink.deliver(alert, subscription);
+    expect(fetcher).not.toHaveBeenCalled();
+
+    await sink.deliver(alert, {
+      ...subscription,
+      webhookUrl: "https://hooks.example.com/neurolend",
+    });
+    expect(fetcher).toHaveBeenCalledWith(
+      "https://hooks.example.com/neurolend",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ alert }),
+      })
+    );
+
+    // A host re-pointed at a private address after subscribing
+    const rebound = new WebhookAlertSink(undefined, {
+      fetcher: fetcher as typeof fetch,
+      resolve: async () => ["10.0.0.7"],
+    });
+    fetcher.mockClear();
+    await expect(
+      rebound.deliver(alert, {
+        ...subscription,
+        webhookUrl: "https://hooks.example.com/neurolend",
+      })
+    ).rejects.toThrow("not public");
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+  test("gives up on webhooks that don't answer in time", async () => {
+    // Never responds, only rejects once aborted
+    const fetcher = jest.fn(
+      (_url: string, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () =>
+            reject(new Error("aborted"))
+          );
+        })
+    );
+    const sink = new WebhookAlertSink("https://relay.example.com", {
+      fetcher: fetcher as typeof fetch,
+      timeoutMs: 20,
+    });
+
+    await expect(
+      sink.deliver(
+        {
+          id: "a",
+          subscriptionId: "s",
+          address: BORROWER,
+          loanId: "1",
+          type: "repaid",
+          message: "Loan #1 was repaid",
+          createdAt: NOW,
+        },
+        { id: "s", address: BORROWER, expiryWarningSeconds: 0, createdAt: NOW }
+      )
+    ).rejects.toThrow("timed out after 20ms");
+  });
+});
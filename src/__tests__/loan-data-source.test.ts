@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the loan data source fallback chain
+ */
+
+import {
+  LoanDataSource,
+  LoanSourceName,
+  RestLoan,
+  convertRestLoanToProcessedLoan,
+  fetchLoansWithFallback,
+} from "@/lib/loan-data-source";
+import { ProcessedLoan } from "@/hooks/useSubgraphQuery";
+import { LoanStatus } from "@/lib/contracts";
+
+const restLoan = (id: number, overrides: Partial<RestLoan> = {}): RestLoan => ({
+  loan_id: String(id),
+  lender: "0x1111111111111111111111111111111111111111",
+  borrower: "0x0000000000000000000000000000000000000000",
+  amount: "1000",
+  status: "Pending",
+  created_at: 1_700_000_000,
+  events_count: 1,
+  tokenAddress: "0x3333333333333333333333333333333333333333",
+  interestRate: "500",
+  duration: "86400",
+  collateralAddress: "0x4444444444444444444444444444444444444444",
+  collateralAmount: "2000",
+  minCollateralRatioBPS: "15000",
+  liquidationThresholdBPS: "12000",
+  maxPriceStaleness: "300",
+  ...overrides,
+});
+
+const loan = (id: number): ProcessedLoan =>
+  convertRestLoanToProcessedLoan(restLoan(id));
+
+const stubSource = (
+  name: LoanSourceName,
+  getLoans: () => Promise<ProcessedLoan[]>
+): LoanDataSource => ({ name, getLoans: jest.fn(getLoans) });
+
+describe("fetchLoansWithFallback", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("uses the first source that answers", async () => {
+    const rest = stubSource("rest", async () => [loan(1)]);
+    const rpc = stubSource("rpc", async () => [loan(2)]);
+
+    const result = await fetchLoansWithFallback([rest, rpc]);
+
+    expect(result.source).toBe("rest");
+    expect(result.loans.map((l) => l.id)).toEqual([BigInt(1)]);
+    expect(result.failures).toEqual([]);
+    expect(rpc.getLoans).not.toHaveBeenCalled();
+  });
+
+  test("falls back when a source fails or hangs", async () => {
+    const rest = stubSource("rest", async () => {
+      throw new Error("HTTP error! status: 502");
+    });
+    const subgraph = stubSource("subgraph", () => new Promise(() => {}));
+    const rpc = stubSource("rpc", async () => [loan(3)]);
+
+    const result = await fetchLoansWithFallback([rest, subgraph, rpc], 50);
+
+    expect(result.source).toBe("rpc");
+    expect(result.loans[0].id).toBe(BigInt(3));
+    expect(result.failures).toEqual([
+      { source: "rest", error: "HTTP error! status: 502" },
+      { source: "subgraph", error: "Timed out after 50ms" },
+    ]);
+  });
+
+  test("throws when every source fails", async () => {
+    const rest = stubSource("rest", async () => {
+      throw new Error("down");
+    });
+
+    await expect(fetchLoansWithFallback([rest])).rejects.toThrow(
+      "All loan sources failed: rest (down)"
+    );
+  });
+});
+
+describe("convertRestLoanToProcessedLoan", () => {
+  test("maps string statuses onto LoanStatus", () => {
+    expect(loan(1).status).toBe(LoanStatus.Pending);
+    expect(
+      convertRestLoanToProcessedLoan(
+        restLoan(4, {
+          lender: null,
+          borrower: "0x2222222222222222222222222222222222222222",
+          status: "Repaid",
+        })
+      )
+    ).toMatchObject({
+      id: BigInt(4),
+      lender: "0x0000000000000000000000000000000000000000",
+      status: LoanStatus.Repaid,
+    });
+  });
+
+  test("rejects records missing loan terms instead of guessing them", () => {
+    expect(() =>
+      convertRestLoanToProcessedLoan(
+        restLoan(5, { tokenAddress: undefined, duration: undefined })
+      )
+    ).toThrow("REST loan 5 is missing tokenAddress, duration");
+    expect(() =>
+      convertRestLoanToProcessedLoan(restLoan(6, { status: "Frozen" }))
+    ).toThrow('unknown status "Frozen"');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for paginated loan loading and the per-loan block cache
+ */
+
+import { ethers } from "ethers";
+import { neurolendInterface } from "@/lib/contract-client";
+import { LoanStatus } from "@/lib/contracts";
+import { LoanCache, LoanPageLoader } from "@/lib/loan-pages";
+import { MULTICALL3_ABI, Multicall } from "@/lib/multicall";
+import type { ProcessedLoan } from "@/hooks/useSubgraphQuery";
+
+const NEUROLEND = "0x0000000000000000000000000000000000000001";
+const MULTICALL = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const LENDER = "0x00000000000000000000000000000000000000aa";
+const multicall3 = new ethers.Interface(MULTICALL3_ABI);
+
+// Loans 1..n, all offered by LENDER
+function fakeChain(n: number) {
+  const lenderLoans = Array.from({ length: n }, (_, i) => BigInt(i + 1));
+  const status = new Map<bigint, number>();
+  let blockNumber = 100;
+  const getLoanCalls: bigint[] = [];
+
+  const execute = (data: string): string => {
+    const call = neurolendInterface.parseTransaction({ data })!;
+    const result = (() => {
+      switch (call.name) {
+        case "getLenderLoansCount":
+          return [lenderLoans.length];
+        case "getLenderLoansPaginated": {
+          const [, start, count] = call.args;
+          return [
+            lenderLoans.slice(Number(start), Number(start) + Number(count)),
+          ];
+        }
+        case "getLoan": {
+          const id = BigInt(call.args[0]);
+          getLoanCalls.push(id);
+          return [
+            [
+              id,
+              LENDER,
+              ethers.ZeroAddress,
+              ethers.ZeroAddress,
+              BigInt(1000),
+              BigInt(500),
+              BigInt(86400),
+              ethers.ZeroAddress,
+              BigInt(2000),
+              BigInt(0),
+              status.get(id) ?? LoanStatus.Pending,
+              BigInt(15000),
+              BigInt(12000),
+              BigInt(3600),
+              BigInt(0),
+            ],
+          ];
+        }
+        default:
+          throw new Error(`Unexpected call ${call.name}`);
+      }
+    })();
+    return neurolendInterface.encodeFunctionResult(call.fragment, result);
+  };
+
+  const provider = {
+    getBlockNumber: jest.fn(async () => blockNumber),
+    call: jest.fn(async ({ to, data }: { to: string; data: string }) => {
+      if (to !== MULTICALL) return execute(data);
+      const [calls] = multicall3.decodeFunctionData("aggregate3", data);
+      return multicall3.encodeFunctionResult("aggregate3", [
+        calls.map(({ callData }: { callData: string }) => [
+          true,
+          execute(callData),
+        ]),
+      ]);
+    }),
+  } as unknown as ethers.Provider & { call: jest.Mock };
+
+  const loader = new LoanPageLoader({
+    neurolend: NEUROLEND,
+    provider,
+    multicall: new Multicall(provider, { address: MULTICALL }),
+    pageSize: 10,
+  });
+
+  return {
+    loader,
+    provider,
+    lenderLoans,
+    status,
+    getLoanCalls,
+    mine: () => blockNumber++,
+  };
+}
+
+const ids = (loans: ProcessedLoan[]) => loans.map((loan) => Number(loan.id));
+const list = { kind: "lender" as const, account: LENDER };
+
+test("pages run newest first and end after the oldest loan", async () => {
+  const { loader, provider } = fakeChain(25);
+  const snapshot = await loader.snapshot(list);
+  expect(snapshot).toEqual({ blockNumber: 100, total: 25 });
+
+  provider.call.mockClear();
+  const first = await loader.loadPage(list, snapshot);
+  expect(ids(first.loans)).toEqual([25, 24, 23, 22, 21, 20, 19, 18, 17, 16]);
+  expect(first.nextCursor).toBe(10);
+  // One call for the ids and one aggregate3 for the ten loans
+  expect(provider.call).toHaveBeenCalledTimes(2);
+
+  const second = await loader.loadPage(list, snapshot, first.nextCursor!);
+  expect(ids(second.loans)).toEqual([15, 14, 13, 12, 11, 10, 9, 8, 7, 6]);
+
+  const last = await loader.loadPage(list, snapshot, second.nextCursor!);
+  expect(ids(last.loans)).toEqual([5, 4, 3, 2, 1]);
+  expect(last.nextCursor).toBeNull();
+});
+
+test("new loans after the snapshot don't shift its pages", async () => {
+  const { loader, lenderLoans } = fakeChain(12);
+  const snapshot = await loader.snapshot(list);
+  const first = await loader.loadPage(list, snapshot);
+
+  lenderLoans.push(BigInt(13), BigInt(14));
+  const second = await loader.loadPage(list, snapshot, first.nextCursor!);
+  expect(ids(second.loans)).toEqual([2, 1]);
+});
+
+test("every read of a listing is pinned to its snapshot block", async () => {
+  const { loader, provider, mine } = fakeChain(12);
+  const snapshot = await loader.snapshot(list);
+  mine();
+  await loader.loadPage(list, snapshot);
+  await loader.loadPage(list, snapshot, 10);
+
+  const blockTags = provider.call.mock.calls.map(([tx]) => tx.blockTag);
+  expect(blockTags.length).toBeGreaterThan(0);
+  expect(new Set(blockTags)).toEqual(new Set([snapshot.blockNumber]));
+});
+
+test("reuses loans read since the snapshot block and final loans at any block", async () => {
+  const { loader, status, getLoanCalls, mine } = fakeChain(3);
+  status.set(BigInt(1), LoanStatus.Repaid);
+
+  let snapshot = await loader.snapshot(list);
+  await loader.loadPage(list, snapshot);
+  expect(getLoanCalls).toEqual([BigInt(3), BigInt(2), BigInt(1)]);
+
+  // Same block: everything comes from the cache
+  getLoanCalls.length = 0;
+  await loader.loadPage(list, snapshot);
+  expect(getLoanCalls).toEqual([]);
+
+  // A later snapshot re-reads only the loans that can still change
+  mine();
+  snapshot = await loader.snapshot(list);
+  const page = await loader.loadPage(list, snapshot);
+  expect(getLoanCalls).toEqual([BigInt(3), BigInt(2)]);
+  expect(page.loans[2].status).toBe(LoanStatus.Repaid);
+});
+
+test("LoanCache evicts the oldest entries past its limit", () => {
+  const cache = new LoanCache(2);
+  const loan = (id: number) => ({ id: BigInt(id), status: 0 }) as ProcessedLoan;
+
+  cache.set(loan(1), 10);
+  cache.set(loan(2), 10);
+  cache.set(loan(3), 10);
+
+  expect(cache.get(BigInt(1), 10)).toBeUndefined();
+  expect(cache.get(BigInt(3), 10)?.id).toBe(BigInt(3));
+  expect(cache.get(BigInt(3), 11)).toBeUndefined();
+});
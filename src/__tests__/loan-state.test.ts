@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the loan state reducer
+ */
+
+import { LoanEvent, reduceLoanEvents } from "@/lib/loan-state";
+import { LoanStatus } from "@/lib/contracts";
+import { DEFAULT_PARAMETERS, SUPPORTED_TOKENS } from "@/config/tokens";
+
+const BORROWER = "0x2222222222222222222222222222222222222222";
+
+const event = (
+  name: LoanEvent["name"],
+  loanId: string,
+  blockNumber: number,
+  args: LoanEvent["args"] = {}
+): LoanEvent => ({
+  name,
+  loanId,
+  blockNumber,
+  timestamp: 1_700_000_000 + blockNumber,
+  args,
+});
+
+const created = (loanId: string, blockNumber: number) =>
+  event("LoanCreated", loanId, blockNumber, {
+    lender: "0x1111111111111111111111111111111111111111",
+    amount: "1000",
+    collateralAmount: "2000",
+    minCollateralRatioBPS: "15000",
+    liquidationThresholdBPS: "12000",
+    maxPriceStaleness: "300",
+  });
+
+describe("reduceLoanEvents", () => {
+  test("tracks collateral, repayments and status history", () => {
+    const loans = reduceLoanEvents([
+      // Deliberately out of order
+      event("PartialRepayment", "1", 13, { totalRepaidAmount: "400" }),
+      created("1", 10),
+      event("CollateralRemoved", "1", 12, { amount: "300" }),
+      event("LoanAccepted", "1", 11, {
+        borrower: BORROWER,
+        timestamp: "1700000011",
+      }),
+      event("CollateralAdded", "1", 12, { amount: "500" }),
+      event("PartialRepayment", "1", 14, { totalRepaidAmount: "1050" }),
+      event("LoanRepaid", "1", 14, { repaymentAmount: "1050" }),
+    ]);
+
+    const loan = loans.get("1")!;
+    expect(loan).toMatchObject({
+      borrower: BORROWER,
+      status: LoanStatus.Repaid,
+      startTime: BigInt(1_700_000_011),
+      collateralAmount: BigInt(2200),
+      repaidAmount: BigInt(1050),
+      minCollateralRatioBPS: BigInt(15000),
+      maxPriceStaleness: BigInt(300),
+      lastUpdatedBlock: 14,
+    });
+    expect(loan.statusHistory.map((s) => [s.status, s.blockNumber])).toEqual([
+      [LoanStatus.Pending, 10],
+      [LoanStatus.Active, 11],
+      [LoanStatus.Repaid, 14],
+    ]);
+  });
+
+  test("treats LoanOfferRemoved as a cancellation only for pending loans", () => {
+    const reason = { reason: "Loan accepted or cancelled" };
+    const loans = reduceLoanEvents([
+      created("1", 10),
+      event("LoanOfferRemoved", "1", 11, reason),
+      event("LoanAccepted", "1", 11, { borrower: BORROWER }),
+      created("2", 10),
+      event("LoanOfferRemoved", "2", 12, reason),
+    ]);
+
+    expect(loans.get("1")!.status).toBe(LoanStatus.Active);
+    expect(loans.get("2")!.status).toBe(LoanStatus.Cancelled);
+    expect(loans.get("2")!.statusHistory.at(-1)).toMatchObject({
+      event: "LoanOfferRemoved",
+      blockNumber: 12,
+    });
+  });
+
+  test("ignores invalid transitions and loans created out of range", () => {
+    const loans = reduceLoanEvents([
+      created("1", 10),
+      event("LoanRepaid", "1", 11),
+      event("LoanAccepted", "7", 12, { borrower: BORROWER }),
+    ]);
+
+    expect(loans.get("1")!.status).toBe(LoanStatus.Pending);
+    expect(loans.has("7")).toBe(false);
+  });
+
+  test("falls back to recommended risk parameters, never zero", () => {
+    const loans = reduceLoanEvents([
+      event("LoanCreated", "1", 10, {
+        tokenAddress: SUPPORTED_TOKENS.USDC.address,
+        collateralAddress: SUPPORTED_TOKENS.WETH.address,
+      }),
+      event("LoanCreated", "2", 10, {
+        tokenAddress: "0x3333333333333333333333333333333333333333",
+        collateralAddress: SUPPORTED_TOKENS.WETH.address,
+        liquidationThresholdBPS: "12500",
+      }),
+    ]);
+
+    expect(loans.get("1")).toMatchObject({
+      minCollateralRatioBPS: BigInt(18000),
+      liquidationThresholdBPS: BigInt(14000),
+      maxPriceStaleness: BigInt(180),
+    });
+    expect(loans.get("2")).toMatchObject({
+      minCollateralRatioBPS: BigInt(DEFAULT_PARAMETERS.high.minCollateralRatio),
+      liquidationThresholdBPS: BigInt(12500),
+      maxPriceStaleness: BigInt(DEFAULT_PARAMETERS.high.maxPriceStaleness),
+    });
+  });
+});
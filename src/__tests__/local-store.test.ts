@@ -0,0 +1,66 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the localStorage-backed value store
+ */
+
+import {
+  LocalStorageLike,
+  LocalStore,
+  parseStoredJson,
+} from "@/lib/local-store";
+
+const numberStore = (storage: LocalStorageLike | null) =>
+  new LocalStore<number>({
+    storage,
+    key: "count",
+    parse: (raw) => {
+      const stored = parseStoredJson(raw);
+      return typeof stored === "number" ? stored : 0;
+    },
+    label: "count",
+  });
+
+beforeEach(() => {
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test("reads once, then serves the cached value until set", () => {
+  const getItem = jest.fn(() => "5");
+  const store = numberStore({ getItem, setItem: jest.fn() });
+
+  expect(store.get()).toBe(5);
+  expect(store.get()).toBe(5);
+  expect(getItem).toHaveBeenCalledTimes(1);
+});
+
+test("falls back to the parsed default for corrupt or missing values", () => {
+  expect(numberStore({ getItem: () => "{", setItem: jest.fn() }).get()).toBe(0);
+  expect(numberStore(null).get()).toBe(0);
+});
+
+test("keeps the value for the session when storage refuses writes", () => {
+  const store = numberStore({
+    getItem: () => null,
+    setItem: () => {
+      throw new Error("QuotaExceededError");
+    },
+  });
+  const listener = jest.fn();
+  store.subscribe(listener);
+
+  store.set(3);
+
+  expect(store.get()).toBe(3);
+  expect(listener).toHaveBeenCalledTimes(1);
+  expect(console.warn).toHaveBeenCalledWith(
+    "Failed to save count:",
+    expect.any(Error)
+  );
+});
@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the mock Hermes server and PythPriceService against it
+ */
+
+import { ethers } from "ethers";
+import { SUPPORTED_TOKENS } from "@/config/tokens";
+import { HERMES_SCENARIOS, MockHermes, priceAt } from "@/lib/mock-hermes";
+import { PythPriceService } from "@/lib/pyth-price-service";
+
+const { WETH, USDC } = SUPPORTED_TOKENS;
+const START = 1_700_000_000_000;
+
+let hermes: MockHermes;
+let service: PythPriceService;
+
+// Clock shared by the mock's scenario and the service's staleness check
+const at = (seconds: number) => jest.setSystemTime(START + seconds * 1000);
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: START });
+  jest.spyOn(console, "error").mockImplementation(() => {});
+  jest.spyOn(global, "fetch").mockImplementation(async (input) => {
+    const { status, body } = hermes.handle(String(input));
+    return new Response(JSON.stringify(body), { status });
+  });
+  service = new PythPriceService("http://mock-hermes/");
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+const wethUSD = async () => (await service.getPrices(["WETH"])).get("WETH")!;
+
+test("priceAt interpolates between points and holds at the ends", () => {
+  const path = [
+    { at: 10, price: 100 },
+    { at: 20, price: 50 },
+  ];
+  expect(priceAt(path, 0)).toBe(100);
+  expect(priceAt(path, 15)).toBe(75);
+  expect(priceAt(path, 60)).toBe(50);
+});
+
+test("crash scenario drives the prices PythPriceService reports", async () => {
+  hermes = new MockHermes(HERMES_SCENARIOS.crash);
+
+  const before = await service.getPrices(["WETH", "USDC"]);
+  expect(before.get("WETH")).toMatchObject({
+    success: true,
+    priceUSD: "3000.00",
+  });
+  expect(before.get("USDC")).toMatchObject({ success: true, priceUSD: "1.00" });
+
+  at(60);
+  expect((await wethUSD()).priceUSD).toBe("2100.00");
+  at(600);
+  expect(await wethUSD()).toMatchObject({
+    priceUSD: "1200.00",
+    isStale: false,
+  });
+});
+
+test("stale-oracle freezes the publish time until the feed reads stale", async () => {
+  hermes = new MockHermes(HERMES_SCENARIOS["stale-oracle"]);
+
+  at(120);
+  const prices = await service.getPrices(["WETH", "USDC"]);
+  expect(prices.get("WETH")).toMatchObject({
+    success: true,
+    publishTime: START / 1000 + 30,
+    isStale: true,
+  });
+  expect(prices.get("USDC")!.isStale).toBe(false);
+});
+
+test("outage fails requests only inside its window", async () => {
+  hermes = new MockHermes(HERMES_SCENARIOS.outage);
+
+  at(45);
+  expect(await wethUSD()).toMatchObject({
+    success: false,
+    error: expect.stringContaining("503"),
+  });
+  const update = await service.getPriceUpdateDataForFeedIds([
+    WETH.pythPriceFeedId,
+  ]);
+  expect(update.updateData).toEqual([]);
+
+  at(90);
+  expect((await wethUSD()).success).toBe(true);
+});
+
+test("update data decodes as a MockPyth price feed", async () => {
+  hermes = new MockHermes(HERMES_SCENARIOS["wide-confidence"]);
+
+  const { updateData } = await service.getPriceUpdateDataForFeedIds([
+    WETH.pythPriceFeedId,
+    USDC.pythPriceFeedId,
+  ]);
+  expect(updateData).toHaveLength(2);
+
+  const [feed, prevPublishTime] = ethers.AbiCoder.defaultAbiCoder().decode(
+    [
+      "tuple(bytes32 id, tuple(int64 price, uint64 conf, int32 expo, uint256 publishTime) price, tuple(int64 price, uint64 conf, int32 expo, uint256 publishTime) emaPrice)",
+      "uint64",
+    ],
+    updateData[0]
+  );
+  expect(feed.id).toBe(WETH.pythPriceFeedId.toLowerCase());
+  expect(feed.price.price).toBe(BigInt(3000e8));
+  expect(feed.price.conf).toBe(BigInt(150e8)); // 5%
+  expect(feed.price.expo).toBe(BigInt(-8));
+  expect(feed.price.publishTime).toBe(BigInt(START / 1000));
+  expect(prevPublishTime).toBe(BigInt(START / 1000 - 1));
+
+  expect(hermes.handle("/v2/updates/price/latest?ids[]=0xdead").status).toBe(
+    404
+  );
+});
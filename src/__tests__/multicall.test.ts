@@ -0,0 +1,191 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the Multicall3 batcher and its Promise.all fallback
+ */
+
+import { ethers } from "ethers";
+import {
+  MULTICALL3_ABI,
+  Multicall,
+  PYTH_ABI,
+  allowanceCall,
+  balanceOfCall,
+  getLoanHealthFactorCall,
+  getPriceUnsafeCall,
+  readPythPrices,
+} from "@/lib/multicall";
+import { ERC20_ABI } from "@/lib/contracts";
+import { neurolendInterface } from "@/lib/contract-client";
+
+const MULTICALL = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const NEUROLEND = "0x0000000000000000000000000000000000000001";
+const TOKEN = "0x0000000000000000000000000000000000000002";
+const PYTH = "0x0000000000000000000000000000000000000003";
+const OWNER = "0x00000000000000000000000000000000000000aa";
+const FEED = ethers.id("WETH/USD");
+const MISSING_FEED = ethers.id("missing");
+
+const multicall3 = new ethers.Interface(MULTICALL3_ABI);
+const erc20 = new ethers.Interface(ERC20_ABI);
+const pyth = new ethers.Interface(PYTH_ABI);
+
+const NOW = 1_700_000_000;
+
+// Answers a single call the way the contracts would
+function execute(to: string, data: string): { ok: boolean; data: string } {
+  if (to === TOKEN) {
+    const call = erc20.parseTransaction({ data })!;
+    return {
+      ok: true,
+      data: erc20.encodeFunctionResult(call.fragment, [
+        call.name === "balanceOf" ? BigInt(500) : BigInt(20),
+      ]),
+    };
+  }
+  if (to === NEUROLEND) {
+    const call = neurolendInterface.parseTransaction({ data })!;
+    return {
+      ok: true,
+      data: neurolendInterface.encodeFunctionResult(call.fragment, [
+        BigInt(17500) + BigInt(call.args[0]),
+        false,
+      ]),
+    };
+  }
+  if (to === PYTH) {
+    const call = pyth.parseTransaction({ data })!;
+    if (call.args[0] === MISSING_FEED) {
+      // PriceFeedNotFound()
+      return { ok: false, data: ethers.id("PriceFeedNotFound()").slice(0, 10) };
+    }
+    return {
+      ok: true,
+      data: pyth.encodeFunctionResult("getPriceUnsafe", [
+        [BigInt(3000e8), BigInt(2e8), -8, NOW - 60],
+      ]),
+    };
+  }
+  return { ok: true, data: "0x" };
+}
+
+function fakeProvider(withMulticall: boolean) {
+  const call = jest.fn(async ({ to, data }: { to: string; data: string }) => {
+    if (to === MULTICALL) {
+      if (!withMulticall) return "0x";
+      const [calls] = multicall3.decodeFunctionData("aggregate3", data);
+      const results = calls.map(
+        ({ target, callData }: { target: string; callData: string }) => {
+          const result = execute(target, callData);
+          return [result.ok, result.data];
+        }
+      );
+      return multicall3.encodeFunctionResult("aggregate3", [results]);
+    }
+    const result = execute(to, data);
+    if (!result.ok) {
+      throw Object.assign(new Error("execution reverted"), {
+        shortMessage: "execution reverted (unknown custom error)",
+      });
+    }
+    return result.data;
+  });
+  return { call } as unknown as ethers.Provider & { call: jest.Mock };
+}
+
+const calls = () => [
+  balanceOfCall(TOKEN, OWNER),
+  allowanceCall(TOKEN, OWNER, NEUROLEND),
+  getLoanHealthFactorCall(NEUROLEND, 3),
+];
+
+beforeEach(() => {
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  jest.spyOn(Date, "now").mockReturnValue(NOW * 1000);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test("aggregates every call into one eth_call and decodes the results", async () => {
+  const provider = fakeProvider(true);
+  const multicall = new Multicall(provider, { address: MULTICALL });
+
+  const results = await multicall.aggregate<unknown>(calls());
+
+  expect(provider.call).toHaveBeenCalledTimes(1);
+  expect(results).toEqual([
+    { success: true, value: BigInt(500) },
+    { success: true, value: BigInt(20) },
+    {
+      success: true,
+      value: { currentRatio: BigInt(17503), priceStale: false },
+    },
+  ]);
+});
+
+test("falls back to one call each when Multicall3 isn't deployed", async () => {
+  const provider = fakeProvider(false);
+  const multicall = new Multicall(provider, { address: MULTICALL });
+
+  const first = await multicall.aggregate<unknown>(calls());
+  expect(first.map((result) => result.success)).toEqual([true, true, true]);
+  // The failed aggregate plus the three individual calls
+  expect(provider.call).toHaveBeenCalledTimes(4);
+
+  // The missing deployment is remembered
+  provider.call.mockClear();
+  await multicall.aggregate<unknown>(calls());
+  expect(provider.call).toHaveBeenCalledTimes(3);
+});
+
+test("splits large batches and keeps failures per call", async () => {
+  const provider = fakeProvider(true);
+  const multicall = new Multicall(provider, {
+    address: MULTICALL,
+    batchSize: 2,
+  });
+
+  const results = await multicall.aggregate([
+    getPriceUnsafeCall(PYTH, FEED),
+    getPriceUnsafeCall(PYTH, MISSING_FEED),
+    getPriceUnsafeCall(PYTH, FEED),
+  ]);
+
+  expect(provider.call).toHaveBeenCalledTimes(2);
+  expect(results.map((result) => result.success)).toEqual([true, false, true]);
+  await expect(
+    multicall.aggregateOrThrow([getPriceUnsafeCall(PYTH, MISSING_FEED)])
+  ).rejects.toThrow("getPriceUnsafe");
+});
+
+test("readPythPrices converts on-chain Pyth prices to PriceData", async () => {
+  const multicall = new Multicall(fakeProvider(true), { address: MULTICALL });
+  const WETH = "0x00000000000000000000000000000000000000e1";
+
+  const [weth, missing] = await readPythPrices(
+    multicall,
+    PYTH,
+    [
+      { tokenAddress: WETH, priceFeedId: FEED },
+      { tokenAddress: TOKEN, priceFeedId: MISSING_FEED },
+    ],
+    30
+  );
+
+  expect(weth).toMatchObject({
+    tokenAddress: WETH,
+    price: BigInt(3000e8),
+    confidence: BigInt(2e8),
+    decimals: 8,
+    updatedAt: NOW - 60,
+    isStale: true,
+    success: true,
+    priceUSD: "3000.0000",
+  });
+  expect(missing).toMatchObject({ success: false, priceUSD: "0.00" });
+  expect(missing.error).toBeTruthy();
+});
@@ -0,0 +1,40 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the network registry
+ */
+
+import {
+  NETWORKS,
+  ZEROG_MAINNET,
+  getNetwork,
+  getSupportedNetworks,
+  isSupportedChain,
+} from "@/config/networks";
+
+describe("network registry", () => {
+  test("keys every network by its chain id", () => {
+    for (const [chainId, network] of Object.entries(NETWORKS)) {
+      expect(network.chain.id).toBe(Number(chainId));
+    }
+  });
+
+  test("falls back to the default network for unknown chains", () => {
+    expect(getNetwork(16661)).toBe(ZEROG_MAINNET);
+    expect(getNetwork("16661")).toBe(ZEROG_MAINNET);
+    expect(getNetwork(1)).toBe(ZEROG_MAINNET);
+    expect(getNetwork()).toBe(ZEROG_MAINNET);
+  });
+
+  test("only treats networks with a neurolend deployment as supported", () => {
+    expect(isSupportedChain(16661)).toBe(true);
+    expect(isSupportedChain(1)).toBe(false);
+    expect(isSupportedChain(undefined)).toBe(false);
+
+    const supported = getSupportedNetworks();
+    expect(supported[0]).toBe(ZEROG_MAINNET);
+    expect(supported.every((n) => n.contracts.neurolend)).toBe(true);
+  });
+});
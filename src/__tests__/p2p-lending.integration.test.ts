@@ -0,0 +1,261 @@
+/**
+ * Integration tests for useP2PLending against neurolend on a local anvil
+ * node (see src/test-utils/anvil.ts). Skipped unless anvil is installed and
+ * the contracts are built:
+ *
+ *   npm run test:integration
+ */
+
+import { act, renderHook } from "@testing-library/react";
+import { ethers } from "ethers";
+import { AnvilHarness, isAnvilAvailable } from "@/test-utils/anvil";
+import { SUPPORTED_TOKENS } from "@/config/tokens";
+import { LoanStatus } from "@/lib/contracts";
+import { pythPriceService } from "@/lib/pyth-price-service";
+import { useP2PLending } from "@/hooks/useP2PLending";
+
+// Wallet read by the mocked AppKit hooks; tests switch `address` between
+// lender and borrower
+const mockWallet: {
+  address: string;
+  provider: ethers.Eip1193Provider | null;
+} = { address: "", provider: null };
+
+jest.mock("@reown/appkit/react", () => ({
+  useAppKitAccount: () => ({
+    address: mockWallet.address,
+    isConnected: true,
+  }),
+  useAppKitProvider: () => ({ walletProvider: mockWallet.provider }),
+  useAppKitNetwork: () => ({ chainId: 31337, switchNetwork: jest.fn() }),
+}));
+
+// The AppKit adapter setup in @/config isn't needed to drive the hook
+jest.mock("../config", () => ({ toAppKitNetwork: jest.fn() }));
+
+const USDC = SUPPORTED_TOKENS.USDC;
+const WETH = SUPPORTED_TOKENS.WETH;
+
+const usdc = (amount: string) => ethers.parseUnits(amount, USDC.decimals);
+const weth = (amount: string) => ethers.parseUnits(amount, WETH.decimals);
+
+const OFFER = {
+  tokenAddress: USDC.address,
+  amount: "1000",
+  interestRate: "1000", // 10% in basis points
+  duration: "30", // days
+  collateralAddress: WETH.address,
+  collateralAmount: "1",
+};
+
+const describeAnvil = isAnvilAvailable() ? describe : describe.skip;
+
+describeAnvil("useP2PLending on anvil", () => {
+  let harness: AnvilHarness;
+  let neurolend: string;
+  let lender: string;
+  let borrower: string;
+
+  jest.setTimeout(120000);
+
+  beforeAll(async () => {
+    harness = await AnvilHarness.start();
+    neurolend = await harness.deploy();
+    [, lender, borrower] = harness.accounts;
+    mockWallet.provider = harness.wallet(() => mockWallet.address);
+
+    harness.setPrice(USDC, 1);
+    harness.setPrice(WETH, 3000);
+    jest
+      .spyOn(pythPriceService, "getPriceUpdateDataForFeedIds")
+      .mockImplementation(async (priceIds) => ({
+        updateData: await harness.priceUpdate(priceIds),
+        updateFee: "0",
+        priceIds,
+      }));
+
+    await harness.mint(USDC, lender, usdc("10000"));
+    await harness.mint(USDC, borrower, usdc("1000")); // for interest
+    await harness.mint(WETH, borrower, weth("10"));
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await harness?.stop();
+  });
+
+  // Render the hook connected as `account`, recording the steps it reports
+  function connectAs(account: string) {
+    mockWallet.address = account;
+    const steps: string[] = [];
+    const hook = renderHook(() => {
+      const lending = useP2PLending();
+      const { step } = lending.transactionState;
+      if (steps[steps.length - 1] !== step) steps.push(step);
+      return lending;
+    });
+
+    // Run one action and return its result plus the steps it went through
+    const perform = async <T>(
+      action: (lending: ReturnType<typeof useP2PLending>) => Promise<T>
+    ) => {
+      steps.length = 0;
+      let value: T | undefined;
+      await act(async () => {
+        value = await action(hook.result.current);
+      });
+      return { value: value as T, steps: [...steps] };
+    };
+
+    return { ...hook, perform };
+  }
+
+  // Steps of interest in the order they were reported
+  const stepOrder = (steps: string[], of: string[]) =>
+    steps.filter((step) => of.includes(step));
+
+  async function createOffer(): Promise<bigint> {
+    const { perform, unmount } = connectAs(lender);
+    const { value: hash, steps } = await perform((lending) =>
+      lending.createLoanOffer(OFFER)
+    );
+    unmount();
+
+    expect(stepOrder(steps, ["allowance", "approving", "creating"])).toEqual([
+      "allowance",
+      "approving",
+      "creating",
+    ]);
+    expect(steps[steps.length - 1]).toBe("success");
+
+    const created = (await harness.events(hash!)).find(
+      (event) => event.name === "LoanCreated"
+    );
+    expect(created).toBeDefined();
+    return created!.args.loanId as bigint;
+  }
+
+  test("create → accept → partial repay → add/remove collateral → repay", async () => {
+    const loanId = await createOffer();
+    expect(await harness.balanceOf(USDC, neurolend)).toBe(usdc("1000"));
+
+    const borrowerHook = connectAs(borrower);
+    const { result } = borrowerHook;
+    const offer = (await result.current.getLoan(loanId))!;
+    expect(offer.status).toBe(LoanStatus.Pending);
+
+    // Accept: approve collateral, fetch prices, accept
+    const accepted = await borrowerHook.perform((lending) =>
+      lending.acceptLoanOffer(loanId, offer)
+    );
+    expect(
+      stepOrder(accepted.steps, [
+        "allowance",
+        "approving",
+        "price_update",
+        "accepting",
+        "success",
+      ])
+    ).toEqual([
+      "allowance",
+      "approving",
+      "price_update",
+      "accepting",
+      "success",
+    ]);
+    expect(result.current.transactionState.steps?.map((s) => s.status)).toEqual(
+      ["done", "done", "done", "done", "done"]
+    );
+    let loan = (await result.current.getLoan(loanId))!;
+    expect(loan.status).toBe(LoanStatus.Active);
+    expect(loan.borrower).toBe(borrower);
+    expect(await harness.balanceOf(USDC, borrower)).toBe(usdc("2000"));
+    expect(await harness.balanceOf(WETH, neurolend)).toBe(weth("1"));
+
+    // Partial repayment
+    const partial = await borrowerHook.perform((lending) =>
+      lending.makePartialRepayment(loanId, usdc("100"), loan)
+    );
+    expect(stepOrder(partial.steps, ["partial_repaying", "success"])).toEqual([
+      "partial_repaying",
+      "success",
+    ]);
+    loan = (await result.current.getLoan(loanId))!;
+    expect(loan.repaidAmount).toBe(usdc("100"));
+
+    // Add, then remove, collateral
+    await borrowerHook.perform((lending) =>
+      lending.addCollateral(loanId, weth("0.5"))
+    );
+    loan = (await result.current.getLoan(loanId))!;
+    expect(loan.collateralAmount).toBe(weth("1.5"));
+
+    const removed = await borrowerHook.perform((lending) =>
+      lending.removeCollateral(loanId, weth("0.25"))
+    );
+    expect(
+      stepOrder(removed.steps, ["removing_collateral", "success"])
+    ).toEqual(["removing_collateral", "success"]);
+    loan = (await result.current.getLoan(loanId))!;
+    expect(loan.collateralAmount).toBe(weth("1.25"));
+    expect(await harness.balanceOf(WETH, borrower)).toBe(weth("8.75"));
+
+    // Full repayment returns the collateral
+    const repaid = await borrowerHook.perform((lending) =>
+      lending.repayLoan(loanId, loan)
+    );
+    expect(stepOrder(repaid.steps, ["repaying", "success"])).toEqual([
+      "repaying",
+      "success",
+    ]);
+    loan = (await result.current.getLoan(loanId))!;
+    expect(loan.status).toBe(LoanStatus.Repaid);
+    expect(await harness.balanceOf(WETH, borrower)).toBe(weth("10"));
+    expect(await harness.balanceOf(USDC, lender)).toBeGreaterThanOrEqual(
+      usdc("10000")
+    );
+
+    borrowerHook.unmount();
+  });
+
+  test("lender liquidates after the collateral price drops", async () => {
+    const loanId = await createOffer();
+
+    const borrowerHook = connectAs(borrower);
+    const offer = (await borrowerHook.result.current.getLoan(loanId))!;
+    await borrowerHook.perform((lending) =>
+      lending.acceptLoanOffer(loanId, offer)
+    );
+    borrowerHook.unmount();
+
+    // $3000 → $500 puts 1 WETH against 1000 USDC well under the threshold
+    harness.setPrice(WETH, 500);
+    const lenderWeth = await harness.balanceOf(WETH, lender);
+
+    const lenderHook = connectAs(lender);
+    const liquidated = await lenderHook.perform((lending) =>
+      lending.liquidateLoan(loanId)
+    );
+    expect(stepOrder(liquidated.steps, ["liquidating", "success"])).toEqual([
+      "liquidating",
+      "success",
+    ]);
+
+    const loan = (await lenderHook.result.current.getLoan(loanId))!;
+    expect(loan.status).toBe(LoanStatus.Defaulted);
+    // The lender is also the liquidator, so receives all the collateral
+    expect(await harness.balanceOf(WETH, lender)).toBe(lenderWeth + weth("1"));
+    lenderHook.unmount();
+
+    // A failed liquidation surfaces as an error state
+    const retry = connectAs(lender);
+    await expect(
+      act(() => retry.result.current.liquidateLoan(loanId))
+    ).rejects.toThrow();
+    expect(retry.result.current.transactionState).toMatchObject({
+      step: "error",
+      isError: true,
+    });
+    retry.unmount();
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for EIP-2612 and Permit2 permit signing
+ */
+
+import { ethers } from "ethers";
+import { signEip2612Permit, signPermit2, supportsEip2612 } from "@/lib/permit";
+import { describeContractCall } from "@/lib/tx-journal";
+import { neurolendInterface } from "@/lib/contract-client";
+
+const TOKEN = "0x00000000000000000000000000000000000000aa";
+const PERMIT2 = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+const SPENDER = "0x00000000000000000000000000000000000000bb";
+const CHAIN_ID = BigInt(16661);
+
+const tokenInterface = new ethers.Interface([
+  "function name() view returns (string)",
+  "function nonces(address owner) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function allowance(address owner, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)",
+]);
+
+// Runner that answers eth_call with pre-encoded results per function
+function stubRunner(results: Record<string, unknown[]>): ethers.ContractRunner {
+  return {
+    provider: null,
+    call: async (tx) => {
+      const fragment = tokenInterface.getFunction(tx.data!.slice(0, 10))!;
+      return tokenInterface.encodeFunctionResult(
+        fragment,
+        results[fragment.name]
+      );
+    },
+  };
+}
+
+const domainSeparator = (version: string) =>
+  ethers.TypedDataEncoder.hashDomain({
+    name: "USD Coin",
+    version,
+    chainId: CHAIN_ID,
+    verifyingContract: TOKEN,
+  });
+
+describe("EIP-2612 permits", () => {
+  test("detects support by matching the on-chain domain", async () => {
+    const runner = stubRunner({
+      name: ["USD Coin"],
+      DOMAIN_SEPARATOR: [domainSeparator("2")],
+    });
+
+    expect(await supportsEip2612(TOKEN, "2", CHAIN_ID, runner)).toBe(true);
+    // Wrong version would produce signatures the token rejects
+    expect(await supportsEip2612(TOKEN, "1", CHAIN_ID, runner)).toBe(false);
+    // Tokens without DOMAIN_SEPARATOR
+    const failing: ethers.ContractRunner = {
+      provider: null,
+      call: async () => {
+        throw new Error("execution reverted");
+      },
+    };
+    expect(await supportsEip2612(TOKEN, "2", CHAIN_ID, failing)).toBe(false);
+  });
+
+  test("signs a permit the token can verify", async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const runner = stubRunner({ name: ["USD Coin"], nonces: [BigInt(3)] });
+
+    const permit = await signEip2612Permit(
+      wallet,
+      {
+        token: TOKEN,
+        owner: wallet.address,
+        spender: SPENDER,
+        amount: BigInt(500),
+        chainId: CHAIN_ID,
+        deadline: BigInt(1_900_000_000),
+      },
+      "2",
+      runner
+    );
+
+    expect(permit).toMatchObject({
+      token: TOKEN,
+      amount: BigInt(500),
+      deadline: BigInt(1_900_000_000),
+      usePermit2: false,
+    });
+    const signer = ethers.verifyTypedData(
+      {
+        name: "USD Coin",
+        version: "2",
+        chainId: CHAIN_ID,
+        verifyingContract: TOKEN,
+      },
+      {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      },
+      {
+        owner: wallet.address,
+        spender: SPENDER,
+        value: BigInt(500),
+        nonce: BigInt(3),
+        deadline: BigInt(1_900_000_000),
+      },
+      permit.signature
+    );
+    expect(signer).toBe(wallet.address);
+  });
+});
+
+describe("Permit2 permits", () => {
+  test("signs with the current Permit2 nonce", async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const runner = stubRunner({
+      allowance: [BigInt(0), BigInt(0), BigInt(4)],
+    });
+
+    const permit = await signPermit2(
+      wallet,
+      {
+        token: TOKEN,
+        owner: wallet.address,
+        spender: SPENDER,
+        amount: BigInt(500),
+        chainId: CHAIN_ID,
+        deadline: BigInt(1_900_000_000),
+      },
+      PERMIT2,
+      runner
+    );
+
+    expect(permit).toMatchObject({ nonce: BigInt(4), usePermit2: true });
+    const signer = ethers.verifyTypedData(
+      { name: "Permit2", chainId: CHAIN_ID, verifyingContract: PERMIT2 },
+      {
+        PermitSingle: [
+          { name: "details", type: "PermitDetails" },
+          { name: "spender", type: "address" },
+          { name: "sigDeadline", type: "uint256" },
+        ],
+        PermitDetails: [
+          { name: "token", type: "address" },
+          { name: "amount", type: "uint160" },
+          { name: "expiration", type: "uint48" },
+          { name: "nonce", type: "uint48" },
+        ],
+      },
+      {
+        details: {
+          token: TOKEN,
+          amount: BigInt(500),
+          expiration: BigInt(1_900_000_000),
+          nonce: BigInt(4),
+        },
+        spender: SPENDER,
+        sigDeadline: BigInt(1_900_000_000),
+      },
+      permit.signature
+    );
+    expect(signer).toBe(wallet.address);
+  });
+});
+
+describe("permitAndCall journal entries", () => {
+  test("describe the wrapped call", () => {
+    const data = neurolendInterface.encodeFunctionData("repayLoan", [
+      BigInt(7),
+    ]);
+    const args = [
+      {
+        token: TOKEN,
+        amount: BigInt(500),
+        deadline: BigInt(0),
+        nonce: BigInt(0),
+        usePermit2: false,
+        signature: "0x",
+      },
+      data,
+    ];
+
+    expect(
+      describeContractCall({
+        fragment: neurolendInterface.getFunction("permitAndCall")!,
+        args,
+      })
+    ).toMatchObject({ type: "repayLoan", loanId: "7" });
+  });
+});
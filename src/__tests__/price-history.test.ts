@@ -0,0 +1,116 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for price history recording and loan chart markers
+ */
+
+import { LoanStatus } from "@/lib/contracts";
+import { PythPrice } from "@/lib/pyth-price-service";
+import { MemoryPriceHistoryStore } from "@/lib/price-history-store";
+import { IndexedEvent } from "@/lib/indexer-store";
+import { PriceHistoryService, downsample } from "@/lib/price-history";
+import { loanMarkers } from "@/hooks/usePriceHistory";
+
+const NOW = 1_700_000_000;
+
+const wethAt = (usd: number, publishTime: number, extra = {}) =>
+  new Map<string, PythPrice>([
+    [
+      "WETH",
+      {
+        id: "",
+        price: String(usd * 1e8),
+        priceUSD: usd.toFixed(2),
+        confidence: String(usd * 1e5),
+        expo: -8,
+        publishTime,
+        isStale: false,
+        success: true,
+        ...extra,
+      },
+    ],
+  ]);
+
+function service(feed: Map<string, PythPrice>[]) {
+  const getPrices = jest.fn(async () => feed.shift()!);
+  return new PriceHistoryService({
+    store: new MemoryPriceHistoryStore(),
+    prices: { getPrices },
+    symbols: ["WETH"],
+    intervalSeconds: 300,
+    retentionSeconds: 3600,
+  });
+}
+
+test("records one sample per interval and skips failed or stale prices", async () => {
+  const history = service([
+    wethAt(3000, NOW),
+    wethAt(3010, NOW + 60), // inside the interval
+    wethAt(2900, NOW + 300),
+    wethAt(0, NOW + 600, { success: false }),
+    wethAt(2800, NOW + 900, { isStale: true }),
+  ]);
+
+  const recorded = [];
+  for (let i = 0; i < 5; i++) recorded.push(await history.record(NOW));
+  expect(recorded).toEqual([1, 0, 1, 0, 0]);
+
+  expect(await history.getHistory("WETH", NOW, NOW + 3600)).toEqual([
+    { t: NOW, price: 3000, confidence: 3 },
+    { t: NOW + 300, price: 2900, confidence: 2.9 },
+  ]);
+  expect(await history.getHistory("WETH", NOW + 1, NOW + 3600)).toHaveLength(1);
+  expect(await history.getHistory("USDC", 0, NOW)).toEqual([]);
+});
+
+test("drops samples older than the retention period", async () => {
+  const history = service([wethAt(3000, NOW), wethAt(3100, NOW + 4000)]);
+  await history.record(NOW);
+  await history.record(NOW + 4000);
+
+  expect(await history.getHistory("WETH", 0, NOW + 4000)).toEqual([
+    { t: NOW + 4000, price: 3100, confidence: 3.1 },
+  ]);
+});
+
+test("downsample keeps the latest sample and at most maxPoints", () => {
+  const samples = Array.from({ length: 10 }, (_, t) => ({
+    t,
+    price: t,
+    confidence: 0,
+  }));
+  expect(downsample(samples, 4).map((sample) => sample.t)).toEqual([
+    0, 3, 6, 9,
+  ]);
+  expect(downsample(samples, 20)).toBe(samples);
+});
+
+test("loanMarkers maps indexed events and falls back to the loan", () => {
+  const event = (name: IndexedEvent["name"], blockTimestamp: number) =>
+    ({ name, blockTimestamp }) as IndexedEvent;
+  const loan = {
+    createdAt: BigInt(NOW),
+    startTime: BigInt(NOW + 100),
+    status: LoanStatus.Active,
+  };
+
+  expect(
+    loanMarkers(loan, [
+      event("CollateralAdded", NOW + 200),
+      event("LoanCreated", NOW),
+      event("PartialRepayment", NOW + 150),
+      event("LoanLiquidated", NOW + 300),
+    ]).map((marker) => [marker.kind, marker.t])
+  ).toEqual([
+    ["created", NOW],
+    ["collateralAdded", NOW + 200],
+    ["liquidated", NOW + 300],
+  ]);
+
+  expect(loanMarkers(loan, []).map((marker) => marker.kind)).toEqual([
+    "created",
+    "accepted",
+  ]);
+});
@@ -0,0 +1,173 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the shared Hermes price stream
+ */
+
+import { SUPPORTED_TOKENS } from "@/config/tokens";
+import { HermesEndpointPool } from "@/lib/hermes-endpoints";
+import { PriceEventSource, PriceStream } from "@/lib/price-stream";
+import { PythPrice, PythPriceService } from "@/lib/pyth-price-service";
+
+const { WETH, USDC } = SUPPORTED_TOKENS;
+
+class FakeEventSource {
+  onopen: PriceEventSource["onopen"] = null;
+  onmessage: PriceEventSource["onmessage"] = null;
+  onerror: PriceEventSource["onerror"] = null;
+  closed = false;
+
+  constructor(readonly url: string) {}
+
+  close() {
+    this.closed = true;
+  }
+
+  open() {
+    this.onopen?.call(this as never, new Event("open"));
+  }
+
+  fail() {
+    this.onerror?.call(this as never, new Event("error"));
+  }
+
+  // A Hermes stream message for one feed at a USD price
+  send(feedId: string, usd: number) {
+    const data = JSON.stringify({
+      parsed: [
+        {
+          id: feedId.slice(2),
+          price: {
+            price: String(usd * 1e8),
+            conf: "1000",
+            expo: -8,
+            publish_time: Math.floor(Date.now() / 1000),
+          },
+        },
+      ],
+    });
+    this.onmessage?.call(this as never, new MessageEvent("message", { data }));
+  }
+}
+
+const polledPrice = (usd: number): PythPrice => ({
+  id: "",
+  price: String(usd * 1e8),
+  priceUSD: usd.toFixed(2),
+  confidence: "0",
+  expo: -8,
+  publishTime: Math.floor(Date.now() / 1000),
+  isStale: false,
+  success: true,
+});
+
+let sources: FakeEventSource[];
+let getPrices: jest.Mock;
+
+function createStream(streaming = true) {
+  sources = [];
+  getPrices = jest.fn(
+    async (symbols: string[]) =>
+      new Map(symbols.map((symbol) => [symbol, polledPrice(2)]))
+  );
+  return new PriceStream({
+    endpoints: new HermesEndpointPool(["https://hermes.test/"]),
+    createEventSource: streaming
+      ? (url) => {
+          const source = new FakeEventSource(url);
+          sources.push(source);
+          return source as unknown as PriceEventSource;
+        }
+      : undefined,
+    prices: {
+      getPrices,
+      formatHermesPrice: (data, feedId, endpoint) =>
+        new PythPriceService().formatHermesPrice(data, feedId, endpoint),
+    },
+    pollInterval: 30000,
+    notifyInterval: 1000,
+  });
+}
+
+// Let scheduled syncs and poll promises settle
+const settle = async () => {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+// Syncs are batched with queueMicrotask, which settle() runs for real
+beforeEach(() => jest.useFakeTimers({ doNotFake: ["queueMicrotask"] }));
+afterEach(() => jest.useRealTimers());
+
+test("subscriptions made together share one connection and fan out updates", async () => {
+  const stream = createStream();
+  const first = jest.fn();
+  const second = jest.fn();
+  stream.subscribe(["WETH"], first);
+  stream.subscribe(["USDC", "WETH"], second);
+  await settle();
+
+  expect(sources).toHaveLength(1);
+  const [source] = sources;
+  expect(source.url).toBe(
+    `https://hermes.test/v2/updates/price/stream?ids[]=${USDC.pythPriceFeedId}&ids[]=${WETH.pythPriceFeedId}&parsed=true`
+  );
+  source.open();
+  expect(stream.status).toBe("streaming");
+
+  // The first update is delivered at once, the next within notifyInterval
+  source.send(WETH.pythPriceFeedId, 3000);
+  source.send(WETH.pythPriceFeedId, 3100);
+  expect(first).toHaveBeenCalledTimes(1);
+  jest.advanceTimersByTime(1000);
+  expect(first).toHaveBeenCalledTimes(2);
+  expect(second).toHaveBeenCalledTimes(2);
+  expect(stream.getPrices(["WETH"]).get("WETH")!.priceUSD).toBe("3100.00");
+  expect(getPrices).not.toHaveBeenCalled();
+});
+
+test("reconnects with backoff and polls while disconnected", async () => {
+  const stream = createStream();
+  stream.subscribe(["WETH"], jest.fn());
+  await settle();
+
+  sources[0].fail();
+  await settle();
+  expect(sources[0].closed).toBe(true);
+  expect(stream.status).toBe("polling");
+  expect(getPrices).toHaveBeenCalledWith(["WETH"]);
+  expect(stream.getPrices(["WETH"]).get("WETH")!.priceUSD).toBe("2.00");
+
+  jest.advanceTimersByTime(1000);
+  expect(sources).toHaveLength(2);
+  sources[1].fail();
+  jest.advanceTimersByTime(1999);
+  expect(sources).toHaveLength(2);
+  jest.advanceTimersByTime(1);
+  expect(sources).toHaveLength(3);
+
+  // Once connected, polling stops
+  sources[2].open();
+  expect(stream.status).toBe("streaming");
+  getPrices.mockClear();
+  jest.advanceTimersByTime(60000);
+  expect(getPrices).not.toHaveBeenCalled();
+});
+
+test("polls when EventSource is unavailable and stops with no subscribers", async () => {
+  const stream = createStream(false);
+  const unsubscribe = stream.subscribe(["WETH", "UNKNOWN"], jest.fn());
+  await settle();
+
+  expect(stream.status).toBe("polling");
+  expect(getPrices).toHaveBeenCalledWith(["WETH"]);
+  jest.advanceTimersByTime(30000);
+  expect(getPrices).toHaveBeenCalledTimes(2);
+
+  unsubscribe();
+  await settle();
+  expect(stream.status).toBe("idle");
+  jest.advanceTimersByTime(60000);
+  expect(getPrices).toHaveBeenCalledTimes(2);
+});
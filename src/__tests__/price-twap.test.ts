@@ -0,0 +1,144 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for TWAP and EMA price sources
+ */
+
+import { PythPrice, PythPriceService } from "@/lib/pyth-price-service";
+import { PriceTwap } from "@/lib/price-twap";
+import { selectPrice, valuePrice } from "@/lib/price-valuation";
+import { DEFAULT_VALUATION_SETTINGS } from "@/lib/valuation-preference";
+import { SUPPORTED_TOKENS } from "@/config/tokens";
+
+const { WETH } = SUPPORTED_TOKENS;
+const NOW = 1_700_000_000;
+
+const weth = (usd: number, publishTime: number, extra = {}): PythPrice => ({
+  id: WETH.pythPriceFeedId,
+  price: String(usd * 1e8),
+  priceUSD: usd.toFixed(2),
+  confidence: String(usd * 1e5),
+  expo: -8,
+  publishTime,
+  isStale: false,
+  success: true,
+  ...extra,
+});
+
+describe("PriceTwap", () => {
+  test("weights each price by how long it was current", () => {
+    const twap = new PriceTwap();
+    twap.observe(weth(3000, NOW - 400)); // current from before the window
+    twap.observe(weth(2000, NOW - 60)); // a 30 second wick
+    twap.observe(weth(3000, NOW - 30));
+
+    // (3000 * 240 + 2000 * 30 + 3000 * 30) / 300
+    expect(twap.get(WETH.pythPriceFeedId, 300, NOW)).toEqual({
+      price: String(2900e8),
+      confidence: String(2900e5),
+      expo: -8,
+      coveredSeconds: 300,
+      samples: 3,
+    });
+  });
+
+  test("reports partial coverage and ignores failed or repeated prices", () => {
+    const twap = new PriceTwap();
+    expect(twap.get(WETH.pythPriceFeedId, 300, NOW)).toBeUndefined();
+
+    twap.observe(weth(3000, NOW - 120));
+    twap.observe(weth(1000, NOW - 120));
+    twap.observe(weth(1000, NOW - 60, { success: false }));
+
+    expect(twap.get(WETH.pythPriceFeedId.slice(2), 300, NOW)).toMatchObject({
+      price: String(3000e8),
+      coveredSeconds: 120,
+      samples: 1,
+    });
+  });
+});
+
+describe("selectPrice", () => {
+  const twap = new PriceTwap();
+  twap.observe(weth(3000, NOW - 600));
+  twap.observe(weth(2400, NOW - 60));
+  const latest = weth(2400, NOW - 60, {
+    emaPrice: String(2950e8),
+    emaConfidence: String(3e8),
+  });
+  const settings = (source: "spot" | "ema" | "twap") => ({
+    ...DEFAULT_VALUATION_SETTINGS,
+    source,
+  });
+
+  test("uses the EMA, or spot when the feed has none", () => {
+    expect(selectPrice(latest, settings("ema"), twap)).toMatchObject({
+      price: String(2950e8),
+      confidence: String(3e8),
+      source: "ema",
+      label: "EMA",
+    });
+    expect(selectPrice(weth(2400, NOW), settings("ema"), twap)).toMatchObject({
+      price: String(2400e8),
+      source: "spot",
+      label: "Spot",
+    });
+  });
+
+  test("labels the TWAP window and combines with conservative", () => {
+    jest.useFakeTimers({ now: NOW * 1000 });
+    try {
+      // (3000 * 240 + 2400 * 60) / 300
+      expect(selectPrice(latest, settings("twap"), twap)).toMatchObject({
+        price: String(2880e8),
+        source: "twap",
+        label: "TWAP 5m",
+      });
+      expect(
+        valuePrice(
+          latest,
+          WETH,
+          "collateral",
+          { ...settings("twap"), conservative: true },
+          twap
+        ).label
+      ).toBe("TWAP 5m, conservative");
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+test("PythPriceService reads Hermes EMA prices and observes them for TWAPs", () => {
+  const service = new PythPriceService("http://hermes.test");
+  const publishTime = Math.floor(Date.now() / 1000);
+  const price = service.formatHermesPrice(
+    {
+      id: WETH.pythPriceFeedId.slice(2),
+      price: {
+        price: "300000000000",
+        conf: "150000000",
+        expo: -8,
+        publish_time: publishTime,
+      },
+      ema_price: {
+        price: "299000000000",
+        conf: "140000000",
+        expo: -8,
+        publish_time: publishTime,
+      },
+    },
+    WETH.pythPriceFeedId
+  );
+
+  expect(price).toMatchObject({
+    success: true,
+    emaPrice: "299000000000",
+    emaConfidence: "140000000",
+  });
+  expect(service.twap.get(WETH.pythPriceFeedId, 300)?.price).toBe(
+    "300000000000"
+  );
+});
@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for conservative (confidence-adjusted) valuation
+ */
+
+import { SUPPORTED_TOKENS } from "@/config/tokens";
+import { collateralRatioBPS } from "@/lib/loan-health";
+import { valuationPrice } from "@/lib/price-valuation";
+import {
+  DEFAULT_VALUATION_SETTINGS,
+  VALUATION_STORAGE_KEY,
+  ValuationPreference,
+} from "@/lib/valuation-preference";
+
+const { WETH, USDC } = SUPPORTED_TOKENS;
+
+// $3000 ± $15 and $1 ± $0.001, at Pyth's usual expo of -8
+const weth = { price: "300000000000", confidence: "1500000000", expo: -8 };
+const usdc = { price: "100000000", confidence: "100000", expo: -8 };
+
+describe("valuationPrice", () => {
+  test("returns the mid price when not conservative", () => {
+    expect(valuationPrice(weth, WETH, "collateral", false)).toEqual({
+      price: BigInt(300000000000),
+      expo: -8,
+    });
+  });
+
+  test("moves collateral down and debt up by k confidence intervals", () => {
+    // WETH is high volatility (k = 3), USDC stable (k = 1)
+    expect(valuationPrice(weth, WETH, "collateral", true).price).toBe(
+      BigInt(295500000000)
+    );
+    expect(valuationPrice(weth, WETH, "debt", true).price).toBe(
+      BigInt(304500000000)
+    );
+    expect(valuationPrice(usdc, USDC, "debt", true).price).toBe(
+      BigInt(100100000)
+    );
+  });
+
+  test("never values collateral below zero", () => {
+    const wide = { price: "100", confidence: "80", expo: -8 };
+    expect(valuationPrice(wide, WETH, "collateral", true).price).toBe(
+      BigInt(0)
+    );
+  });
+
+  test("lowers the collateral ratio of a loan", () => {
+    const loan = {
+      amount: BigInt(3000e6), // 3000 USDC
+      collateralAmount: BigInt(2) * BigInt(1e18), // 2 WETH
+    };
+    const ratio = (conservative: boolean) =>
+      collateralRatioBPS(
+        loan,
+        {
+          decimals: USDC.decimals,
+          price: valuationPrice(usdc, USDC, "debt", conservative),
+        },
+        {
+          decimals: WETH.decimals,
+          price: valuationPrice(weth, WETH, "collateral", conservative),
+        }
+      );
+
+    expect(ratio(false)).toBe(BigInt(20000));
+    // 2 * 2955 / (3000 * 1.001)
+    expect(ratio(true)).toBe(BigInt(19680));
+  });
+});
+
+test("ValuationPreference persists and notifies changes", () => {
+  const data = new Map<string, string>();
+  const storage = {
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      data.set(key, value);
+    },
+  };
+  const preference = new ValuationPreference(storage);
+  const listener = jest.fn();
+  preference.subscribe(listener);
+
+  expect(preference.get()).toEqual(DEFAULT_VALUATION_SETTINGS);
+  preference.set({ conservative: true, source: "twap" });
+  expect(listener).toHaveBeenCalledTimes(1);
+  expect(JSON.parse(data.get(VALUATION_STORAGE_KEY)!)).toMatchObject({
+    conservative: true,
+    source: "twap",
+  });
+  expect(new ValuationPreference(storage).get()).toEqual({
+    ...DEFAULT_VALUATION_SETTINGS,
+    conservative: true,
+    source: "twap",
+  });
+
+  // Unknown stored values fall back to the defaults
+  data.set(
+    VALUATION_STORAGE_KEY,
+    JSON.stringify({ source: "median", twapWindowSeconds: 7 })
+  );
+  expect(new ValuationPreference(storage).get()).toEqual(
+    DEFAULT_VALUATION_SETTINGS
+  );
+});
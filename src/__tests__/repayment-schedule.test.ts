@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the repayment schedule planner and ICS export
+ */
+
+import {
+  accruedInterest,
+  amountOwedAt,
+  buildBalloonSchedule,
+  buildCustomSchedule,
+  buildEqualSchedule,
+  scheduleToCalendarEvents,
+} from "@/lib/repayment-schedule";
+import { buildICS } from "@/lib/ics";
+
+const DAY = BigInt(86400);
+const START = BigInt(1_700_000_000);
+
+// 1000 USDC at 10% APR for 365.25 days
+const loan = {
+  id: BigInt(7),
+  amount: BigInt(1_000_000_000),
+  interestRate: BigInt(1000),
+  duration: BigInt(31557600),
+  startTime: START,
+  repaidAmount: BigInt(0),
+};
+const maturity = START + loan.duration;
+
+describe("repayment schedules", () => {
+  test("accrues interest like the contract", () => {
+    expect(accruedInterest(loan, maturity)).toBe(BigInt(100_000_000));
+    expect(accruedInterest(loan, START - DAY)).toBe(BigInt(0));
+    expect(
+      amountOwedAt({ ...loan, repaidAmount: BigInt(400_000_000) }, maturity)
+    ).toBe(BigInt(700_000_000));
+  });
+
+  test("splits the balance at maturity into equal payments", () => {
+    const schedule = buildEqualSchedule(loan, 4, START);
+
+    expect(schedule.installments).toHaveLength(4);
+    expect(schedule.installments[0].amount).toBe(BigInt(275_000_000));
+    expect(schedule.installments[3]).toMatchObject({
+      dueAt: maturity,
+      remainingAfter: BigInt(0),
+      isFinal: true,
+    });
+    expect(schedule.totalPaid).toBe(BigInt(1_100_000_000));
+    expect(schedule.interestSaved).toBe(BigInt(0));
+  });
+
+  test("saves interest when paid off before maturity", () => {
+    const halfway = START + loan.duration / BigInt(2);
+    const schedule = buildEqualSchedule(loan, 2, START, halfway);
+
+    expect(schedule.payoffAt).toBe(halfway);
+    expect(schedule.totalInterest).toBe(BigInt(50_000_000));
+    expect(schedule.interestSaved).toBe(BigInt(50_000_000));
+    expect(schedule.totalPaid).toBe(BigInt(1_050_000_000));
+  });
+
+  test("pays interest only, then a balloon", () => {
+    const schedule = buildBalloonSchedule(loan, 4, START);
+    const [first, , , last] = schedule.installments;
+
+    expect(first.amount).toBe(BigInt(25_000_000));
+    expect(first.remainingAfter).toBe(BigInt(1_000_000_000));
+    expect(last.amount).toBe(BigInt(1_025_000_000));
+    expect(schedule.totalPaid).toBe(BigInt(1_100_000_000));
+  });
+
+  test("stops a custom schedule at the payment that closes the loan", () => {
+    const schedule = buildCustomSchedule(
+      loan,
+      [
+        { dueAt: START + BigInt(200) * DAY },
+        { dueAt: START + BigInt(30) * DAY, amount: BigInt(500_000_000) },
+        { dueAt: START + BigInt(300) * DAY, amount: BigInt(1) },
+      ],
+      START
+    );
+
+    expect(schedule.installments.map((i) => i.isFinal)).toEqual([false, true]);
+    expect(schedule.payoffAt).toBe(START + BigInt(200) * DAY);
+    expect(schedule.interestSaved).toBeGreaterThan(BigInt(0));
+
+    expect(() =>
+      buildCustomSchedule(loan, [{ dueAt: maturity + DAY }], START)
+    ).toThrow("due date");
+    expect(() =>
+      buildCustomSchedule(
+        loan,
+        [{ dueAt: START + DAY, amount: BigInt(0) }],
+        START
+      )
+    ).toThrow("positive");
+  });
+});
+
+describe("buildICS", () => {
+  test("writes escaped, folded reminder events", () => {
+    const schedule = buildEqualSchedule(loan, 2, START);
+    const events = scheduleToCalendarEvents(
+      schedule,
+      loan.id,
+      (amount) => `${amount} USDC`,
+      "https://neurolend.app/my-loans/7"
+    );
+    const ics = buildICS(events, "Loan #7; payments", new Date(0));
+    const lines = ics.split("\r\n");
+
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(lines).toContain("X-WR-CALNAME:Loan #7\\; payments");
+    expect(lines.filter((line) => line === "BEGIN:VEVENT")).toHaveLength(2);
+    expect(lines).toContain("DTSTAMP:19700101T000000Z");
+    expect(lines).toContain("TRIGGER:-PT1440M");
+    expect(lines.every((line) => line.length <= 75)).toBe(true);
+
+    // Folding is undone by stripping CRLF + space
+    const unfolded = ics.replace(/\r\n /g, "");
+    expect(unfolded).toContain(
+      "DESCRIPTION:Close loan #7 with a full repayment (about 550000000 USDC). "
+    );
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Consistency checks for the token registry
+ * SUPPORTED_TOKENS is the single source of truth; every other consumer
+ * (lookup helpers, PYTH_CONFIG, network registry and the token/feed pairs
+ * the contract registers in _setupSupportedTokens via ZeroGConfig.sol)
+ * must agree with it.
+ */
+
+import { readFileSync } from "fs";
+import path from "path";
+import {
+  SUPPORTED_TOKENS,
+  TokenInfo,
+  getPythPriceFeedBySymbol,
+  getPythPriceFeedId,
+  getTokenByAddress,
+  getTokenBySymbol,
+  validateTokenRegistry,
+} from "@/config/tokens";
+import { PYTH_CONFIG } from "@/config/0g-chain";
+import { ZEROG_MAINNET } from "@/config/networks";
+
+const tokens = Object.values(SUPPORTED_TOKENS);
+
+// Parse the constants and getSupportedTokens() pairs out of ZeroGConfig.sol
+function readContractConfig() {
+  const source = readFileSync(
+    path.join(process.cwd(), "contracts/src/ZeroGConfig.sol"),
+    "utf8"
+  );
+
+  const constants: Record<string, string> = {};
+  for (const match of source.matchAll(
+    /(?:address|bytes32) public constant (\w+) =\s*(0x[0-9a-fA-F]+);/g
+  )) {
+    constants[match[1]] = match[2];
+  }
+
+  const assignments = (array: string) =>
+    Array.from(
+      source.matchAll(new RegExp(`${array}\\[(\\d+)\\] = (\\w+);`, "g"))
+    ).map((match) => constants[match[2]]);
+
+  const addresses = assignments("tokens");
+  const feeds = assignments("priceFeeds");
+
+  const tokenInfo: Record<string, { symbol: string; decimals: number }> = {};
+  for (const match of source.matchAll(
+    /if \(token == (\w+)\) return \("[^"]*", "([^"]+)", (\d+)\);/g
+  )) {
+    tokenInfo[constants[match[1]].toLowerCase()] = {
+      symbol: match[2],
+      decimals: Number(match[3]),
+    };
+  }
+
+  return {
+    pyth: constants.PYTH_CONTRACT,
+    pairs: addresses.map((address, i) => ({ address, feedId: feeds[i] })),
+    tokenInfo,
+  };
+}
+
+describe("token registry", () => {
+  test("passes schema validation", () => {
+    expect(validateTokenRegistry()).toEqual([]);
+  });
+
+  test("validator reports schema problems", () => {
+    const broken: Record<string, TokenInfo> = {
+      BAD: {
+        ...SUPPORTED_TOKENS.USDC,
+        address: SUPPORTED_TOKENS.USDC.address.toLowerCase(),
+        decimals: 6.5,
+        pythPriceFeedId: "0x1234",
+        isAvailable: false,
+      },
+    };
+
+    const errors = validateTokenRegistry(broken);
+    expect(errors).toHaveLength(4);
+    expect(errors.join("\n")).toMatch(/not checksummed/);
+    expect(errors.join("\n")).toMatch(/invalid decimals/);
+    expect(errors.join("\n")).toMatch(/malformed Pyth price feed ID/);
+    expect(errors.join("\n")).toMatch(/contradicts status/);
+  });
+
+  test.each(tokens.map((t) => [t.symbol, t] as const))(
+    "lookups for %s resolve to the registry entry",
+    (_symbol, token) => {
+      expect(getTokenByAddress(token.address.toLowerCase())).toBe(token);
+      expect(getTokenBySymbol(token.symbol)).toBe(token);
+      expect(getPythPriceFeedId(token.address)).toBe(token.pythPriceFeedId);
+      expect(getPythPriceFeedBySymbol(token.symbol)).toBe(
+        token.pythPriceFeedId
+      );
+      expect(PYTH_CONFIG.priceFeeds[token.symbol]).toBe(token.pythPriceFeedId);
+    }
+  );
+
+  test("network registry lists the same tokens", () => {
+    expect(ZEROG_MAINNET.tokens).toEqual(tokens);
+  });
+
+  test("matches the tokens the contract registers at deployment", () => {
+    const contract = readContractConfig();
+
+    expect(contract.pyth).toBe(ZEROG_MAINNET.contracts.pyth);
+    expect(contract.pairs).toHaveLength(tokens.length);
+
+    for (const { address, feedId } of contract.pairs) {
+      const token = getTokenByAddress(address);
+      expect(token).toBeDefined();
+      expect(token!.address).toBe(address);
+      expect(token!.pythPriceFeedId).toBe(feedId.toLowerCase());
+      expect(contract.tokenInfo[address.toLowerCase()]).toEqual({
+        symbol: token!.symbol,
+        decimals: token!.decimals,
+      });
+    }
+  });
+});
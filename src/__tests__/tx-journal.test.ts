@@ -0,0 +1,167 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the transaction journal and pending-transaction watcher
+ */
+
+import { ethers } from "ethers";
+import { neurolendInterface } from "@/lib/contract-client";
+import {
+  TransactionJournal,
+  TransactionWatcher,
+  WatcherProvider,
+  describeContractCall,
+} from "@/lib/tx-journal";
+import { LocalStorageLike } from "@/lib/local-store";
+
+const ACCOUNT = "0x1111111111111111111111111111111111111111";
+const OTHER = "0x2222222222222222222222222222222222222222";
+
+function memoryStorage(): LocalStorageLike & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => {
+      data.set(key, value);
+    },
+  };
+}
+
+const receipt = (status: number, blockNumber = 42) =>
+  ({ status, blockNumber }) as ethers.TransactionReceipt;
+
+function record(
+  journal: TransactionJournal,
+  hash: string,
+  from = ACCOUNT,
+  submittedAt?: number
+) {
+  return journal.record({
+    hash,
+    chainId: 16661,
+    from,
+    type: "repayLoan",
+    description: "Repay loan #1",
+    loanId: "1",
+    submittedAt,
+  });
+}
+
+describe("TransactionJournal", () => {
+  test("persists entries newest first and reloads them", () => {
+    const storage = memoryStorage();
+    const journal = new TransactionJournal(storage);
+    const listener = jest.fn();
+    journal.subscribe(listener);
+
+    record(journal, "0x01");
+    record(journal, "0x02", ACCOUNT.toUpperCase().replace("0X", "0x"));
+    journal.update("0x01", { status: "confirmed", blockNumber: 7 });
+
+    expect(listener).toHaveBeenCalledTimes(3);
+    const reloaded = new TransactionJournal(storage).list();
+    expect(reloaded.map((entry) => entry.hash)).toEqual(["0x02", "0x01"]);
+    expect(reloaded[0]).toMatchObject({ from: ACCOUNT, status: "pending" });
+    expect(reloaded[1]).toMatchObject({ status: "confirmed", blockNumber: 7 });
+  });
+
+  test("clears finished entries for one account only", () => {
+    const journal = new TransactionJournal(memoryStorage());
+    record(journal, "0x01");
+    record(journal, "0x02");
+    record(journal, "0x03", OTHER);
+    journal.update("0x01", { status: "failed" });
+    journal.update("0x03", { status: "confirmed" });
+
+    journal.clearFinished(ACCOUNT);
+    expect(journal.list().map((entry) => entry.hash)).toEqual(["0x03", "0x02"]);
+  });
+
+  test("track settles mined transactions and keeps unknown ones pending", async () => {
+    const journal = new TransactionJournal(memoryStorage());
+    const meta = {
+      chainId: 16661,
+      type: "repayLoan",
+      description: "Repay loan #1",
+    };
+
+    journal.track(
+      {
+        hash: "0x01",
+        from: ACCOUNT,
+        wait: async () => receipt(1),
+      } as unknown as ethers.TransactionResponse,
+      meta
+    );
+    journal.track(
+      {
+        hash: "0x02",
+        from: ACCOUNT,
+        wait: async () => {
+          throw new Error("receipt unavailable");
+        },
+      } as unknown as ethers.TransactionResponse,
+      meta
+    );
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const byHash = Object.fromEntries(
+      journal.list().map((entry) => [entry.hash, entry.status])
+    );
+    expect(byHash).toEqual({ "0x01": "confirmed", "0x02": "pending" });
+  });
+
+  test("describes contract calls from their named arguments", () => {
+    const fragment = neurolendInterface.getFunction("repayLoan")!;
+    expect(describeContractCall({ fragment, args: [BigInt(12)] })).toEqual({
+      type: "repayLoan",
+      description: "Repay loan #12",
+      loanId: "12",
+      requestId: undefined,
+    });
+  });
+});
+
+describe("TransactionWatcher", () => {
+  test("resolves pending entries from receipts and drops lost ones", async () => {
+    const now = 10_000_000;
+    const journal = new TransactionJournal(memoryStorage());
+    record(journal, "0xconfirmed", ACCOUNT, now - 1000);
+    record(journal, "0xreverted", ACCOUNT, now - 1000);
+    record(journal, "0xlost", ACCOUNT, now - 60 * 60 * 1000);
+    record(journal, "0xwaiting", ACCOUNT, now - 1000);
+    record(journal, "0xflaky", ACCOUNT, now - 1000);
+
+    const provider: WatcherProvider = {
+      getTransactionReceipt: async (hash) => {
+        if (hash === "0xflaky") throw new Error("rate limited");
+        if (hash === "0xconfirmed") return receipt(1);
+        if (hash === "0xreverted") return receipt(0);
+        return null;
+      },
+      getTransaction: async () => null,
+    };
+    const watcher = new TransactionWatcher({
+      journal,
+      getProvider: () => provider,
+      now: () => now,
+    });
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    await watcher.check();
+    warn.mockRestore();
+
+    const byHash = Object.fromEntries(
+      journal.list().map((entry) => [entry.hash, entry.status])
+    );
+    expect(byHash).toEqual({
+      "0xconfirmed": "confirmed",
+      "0xreverted": "failed",
+      "0xlost": "dropped",
+      "0xwaiting": "pending",
+      "0xflaky": "pending",
+    });
+  });
+});
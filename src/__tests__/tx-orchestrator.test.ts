@@ -0,0 +1,154 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the multi-step transaction orchestrator
+ */
+
+import {
+  StepState,
+  TransactionOrchestrator,
+  TransactionStep,
+} from "@/lib/tx-orchestrator";
+
+interface Context {
+  approvalNeeded: boolean;
+  price?: number;
+}
+
+function setup({
+  failMainTimes = 0,
+  approvalNeeded = true,
+}: { failMainTimes?: number; approvalNeeded?: boolean } = {}) {
+  const calls: string[] = [];
+  let mainFailures = 0;
+  let priceFetches = 0;
+
+  const steps: TransactionStep<Context>[] = [
+    {
+      id: "allowance",
+      title: "Check Allowance",
+      description: "Check whether an approval is needed",
+      run: async (context) => {
+        calls.push("allowance");
+        context.approvalNeeded = approvalNeeded;
+      },
+    },
+    {
+      id: "approving",
+      title: "Approve",
+      description: "Approve token spending",
+      run: async (context) => {
+        calls.push("approving");
+        if (!context.approvalNeeded) return { skipped: true };
+        return { hash: "0xapprove" };
+      },
+    },
+    {
+      id: "price_update",
+      title: "Fetch Oracle Prices",
+      description: "Get fresh prices",
+      repeatOnRetry: true,
+      run: async (context) => {
+        calls.push("price_update");
+        context.price = ++priceFetches;
+      },
+    },
+    {
+      id: "repaying",
+      title: "Repay Loan",
+      description: "Repay the loan",
+      run: async (context) => {
+        calls.push(`repaying@${context.price}`);
+        if (mainFailures < failMainTimes) {
+          mainFailures++;
+          throw new Error("Transaction rejected in your wallet");
+        }
+        return { hash: "0xrepay" };
+      },
+    },
+  ];
+
+  const changes: StepState[][] = [];
+  const orchestrator = new TransactionOrchestrator(
+    steps,
+    { approvalNeeded: true } as Context,
+    { onChange: (states) => changes.push(states) }
+  );
+  return { orchestrator, calls, changes };
+}
+
+const statuses = (states: StepState[]) =>
+  Object.fromEntries(states.map((state) => [state.id, state.status]));
+
+describe("TransactionOrchestrator", () => {
+  test("runs steps in order and reports each transition", async () => {
+    const { orchestrator, calls, changes } = setup({ approvalNeeded: false });
+    expect(statuses(orchestrator.stepStates)).toEqual({
+      allowance: "pending",
+      approving: "pending",
+      price_update: "pending",
+      repaying: "pending",
+    });
+
+    await orchestrator.run();
+
+    expect(calls).toEqual([
+      "allowance",
+      "approving",
+      "price_update",
+      "repaying@1",
+    ]);
+    expect(statuses(orchestrator.stepStates)).toEqual({
+      allowance: "done",
+      approving: "skipped",
+      price_update: "done",
+      repaying: "done",
+    });
+    expect(orchestrator.isComplete).toBe(true);
+    expect(orchestrator.hash).toBe("0xrepay");
+    // running + finished for each step
+    expect(changes).toHaveLength(8);
+    expect(statuses(changes[6])).toMatchObject({ repaying: "running" });
+  });
+
+  test("retries the failed step without redoing earlier ones", async () => {
+    const { orchestrator, calls } = setup({ failMainTimes: 1 });
+
+    await expect(orchestrator.run()).rejects.toThrow("rejected");
+    expect(orchestrator.stepStates[3]).toMatchObject({
+      status: "error",
+      error: "Transaction rejected in your wallet",
+    });
+    expect(orchestrator.hash).toBe("0xapprove");
+
+    await orchestrator.run();
+
+    // Only the oracle prices are fetched again before the retried call
+    expect(calls).toEqual([
+      "allowance",
+      "approving",
+      "price_update",
+      "repaying@1",
+      "price_update",
+      "repaying@2",
+    ]);
+    expect(orchestrator.stepStates[3]).toMatchObject({
+      status: "done",
+      error: null,
+    });
+    expect(orchestrator.hash).toBe("0xrepay");
+
+    // Nothing left to do
+    await orchestrator.run();
+    expect(calls).toHaveLength(6);
+  });
+
+  test("refuses to run twice at once", async () => {
+    const { orchestrator } = setup();
+    const first = orchestrator.run();
+    await expect(orchestrator.run()).rejects.toThrow("already in progress");
+    await first;
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for transaction preflight and revert decoding
+ */
+
+import { ethers } from "ethers";
+import { NeurolendClient, neurolendInterface } from "@/lib/contract-client";
+import {
+  TransactionPreflight,
+  decodeRevert,
+  describeTransactionError,
+} from "@/lib/tx-preflight";
+
+const CONTRACT = "0x00000000000000000000000000000000000000aa";
+const OWNER = "0x1111111111111111111111111111111111111111";
+
+const reasonData = (reason: string) =>
+  ethers.concat([
+    ethers.id("Error(string)").slice(0, 10),
+    ethers.AbiCoder.defaultAbiCoder().encode(["string"], [reason]),
+  ]);
+
+const revertError = (data: string) =>
+  ethers.makeError("execution reverted", "CALL_EXCEPTION", {
+    action: "call",
+    data,
+    reason: null,
+    transaction: { to: CONTRACT, data: "0x" },
+    invocation: null,
+    revert: null,
+  });
+
+describe("decodeRevert", () => {
+  test("decodes require reasons and custom errors", () => {
+    expect(
+      decodeRevert(revertError(reasonData("Loan is not active")))
+    ).toMatchObject({ name: "Error", message: "Loan is not active" });
+
+    const custom = neurolendInterface.encodeErrorResult(
+      "OwnableUnauthorizedAccount",
+      [OWNER]
+    );
+    expect(decodeRevert(revertError(custom))).toMatchObject({
+      name: "OwnableUnauthorizedAccount",
+      message: `Only the contract owner can do this (called from ${OWNER})`,
+    });
+
+    const panic = ethers.concat([
+      ethers.id("Panic(uint256)").slice(0, 10),
+      ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [17]),
+    ]);
+    expect(decodeRevert(revertError(panic))?.message).toBe(
+      "Contract error: arithmetic overflow or underflow"
+    );
+  });
+
+  test("finds revert data nested in wallet errors", () => {
+    const walletError = {
+      code: -32603,
+      message: "Internal JSON-RPC error.",
+      info: {
+        error: {
+          code: 3,
+          data: reasonData("Insufficient collateral based on current prices"),
+        },
+      },
+    };
+    expect(describeTransactionError(walletError)).toBe(
+      "Insufficient collateral based on current prices"
+    );
+  });
+
+  test("describes wallet rejections and unknown errors", () => {
+    const rejected = ethers.makeError(
+      "user rejected action",
+      "ACTION_REJECTED",
+      {
+        action: "sendTransaction",
+        reason: "rejected",
+      }
+    );
+    expect(describeTransactionError(rejected)).toBe(
+      "Transaction rejected in your wallet"
+    );
+    expect(describeTransactionError(new Error("boom"))).toBe("boom");
+    expect(describeTransactionError(null, "Failed to repay loan")).toBe(
+      "Failed to repay loan"
+    );
+  });
+});
+
+describe("NeurolendClient preflight", () => {
+  function setup(revertWith?: string) {
+    const sendTransaction = jest.fn();
+    const runner = {
+      provider: {
+        getFeeData: async () => ({
+          maxFeePerGas: BigInt(2_000_000_000),
+          gasPrice: BigInt(1_000_000_000),
+        }),
+      } as unknown as ethers.Provider,
+      call: async () => {
+        if (revertWith) throw revertError(revertWith);
+        return "0x";
+      },
+      estimateGas: async () => BigInt(120_000),
+      sendTransaction,
+    };
+    const preflights: TransactionPreflight[] = [];
+    const client = new NeurolendClient(CONTRACT, runner, {
+      onPreflight: (preflight) => {
+        preflights.push(preflight);
+      },
+    });
+    return { client, preflights, sendTransaction };
+  }
+
+  test("estimates gas and the network fee", async () => {
+    const { client } = setup();
+    const preflight = await client.preflight(
+      "liquidateLoan(uint256,bytes[])",
+      [BigInt(1), []],
+      { value: BigInt(5) }
+    );
+
+    expect(preflight).toMatchObject({
+      ok: true,
+      signature: "liquidateLoan(uint256,bytes[])",
+      gasLimit: BigInt(120_000),
+      gasPrice: BigInt(2_000_000_000),
+      networkFee: BigInt(240_000_000_000_000),
+      value: BigInt(5),
+      error: null,
+    });
+  });
+
+  test("never opens the wallet when the simulation reverts", async () => {
+    const { client, preflights, sendTransaction } = setup(
+      reasonData("Only borrower can repay")
+    );
+
+    await expect(client.repayLoan(BigInt(1))).rejects.toThrow(
+      "Only borrower can repay"
+    );
+    expect(preflights).toHaveLength(1);
+    expect(preflights[0]).toMatchObject({
+      ok: false,
+      revert: { name: "Error", args: ["Only borrower can repay"] },
+    });
+    expect(sendTransaction).not.toHaveBeenCalled();
+  });
+});
@@ -13,13 +13,14 @@ import { Button } from "@/components/ui/button";
 
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
+import { PriceDiagnostics } from "@/components/PriceDiagnostics";
 import { useP2PLending } from "@/hooks/useP2PLending";
+import { LoanStatus } from "@/lib/contracts";
 import {
-  neurolend_CONTRACT_ADDRESS,
-  neurolend_ABI,
-  SOMNIA_TESTNET_CONFIG,
-  LoanStatus,
-} from "@/lib/contracts";
+  isIndexedEvent,
+  type IndexedEvent,
+  type IndexedLoan,
+} from "@/lib/indexer-store";
 import {
   BarChart,
   Bar,
@@ -73,37 +74,6 @@ interface AnalyticsData {
   }>;
 }
 
-interface EventLog {
-  loanId: bigint;
-  lender?: string;
-  borrower?: string;
-  tokenAddress?: string;
-  amount?: bigint;
-  interestRate?: bigint;
-  duration?: bigint;
-  collateralAddress?: string;
-  collateralAmount?: bigint;
-  timestamp?: bigint;
-  blockNumber: bigint;
-  transactionHash: string;
-}
-
-interface ContractLog extends ethers.Log {
-  args: {
-    loanId: ethers.BigNumberish;
-    lender?: string;
-    borrower?: string;
-    liquidator?: string;
-    tokenAddress?: string;
-    amount?: ethers.BigNumberish;
-    interestRate?: ethers.BigNumberish;
-    duration?: ethers.BigNumberish;
-    collateralAddress?: string;
-    collateralAmount?: ethers.BigNumberish;
-    timestamp?: ethers.BigNumberish;
-  };
-}
-
 export default function AnalyticsPage() {
   const { isConnected } = useP2PLending();
   const [analyticsData, setAnalyticsData] = useState<AnalyticsData | null>(
@@ -113,188 +83,38 @@ export default function AnalyticsPage() {
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
 
-  // Create ethers provider for reading blockchain data
-  const getProvider = () => {
-    return new ethers.JsonRpcProvider(
-      SOMNIA_TESTNET_CONFIG.rpcUrls.default.http[0]
-    );
-  };
-
   const fetchAnalyticsData = useCallback(async () => {
     setIsLoading(true);
     setError(null);
 
     try {
-      const provider = getProvider();
-      const contract = new ethers.Contract(
-        neurolend_CONTRACT_ADDRESS,
-        neurolend_ABI,
-        provider
-      );
-
-      // Get current block number
-      const currentBlock = await provider.getBlockNumber();
-      const totalBlocks = Math.min(2000, currentBlock); // Look back max 2000 blocks
-      const chunkSize = 500; // RPC limit per query
-      const startBlock = Math.max(0, currentBlock - totalBlocks);
-
-      // Define event filters
-      const loanCreatedFilter = contract.filters.LoanCreated();
-      const loanAcceptedFilter = contract.filters.LoanAccepted();
-      const loanRepaidFilter = contract.filters.LoanRepaid();
-      const loanLiquidatedFilter = contract.filters.LoanLiquidated();
-
-      // Function to fetch events in chunks
-      const fetchEventsInChunks = async (
-        filter: ReturnType<typeof contract.filters.LoanCreated>
-      ) => {
-        const allLogs = [];
-        for (
-          let fromBlock = startBlock;
-          fromBlock <= currentBlock;
-          fromBlock += chunkSize
-        ) {
-          const toBlock = Math.min(fromBlock + chunkSize - 1, currentBlock);
-          try {
-            const logs = await contract.queryFilter(filter, fromBlock, toBlock);
-            allLogs.push(...logs);
-          } catch (error: unknown) {
-            console.warn(
-              `Failed to fetch events from block ${fromBlock} to ${toBlock}:`,
-              error
-            );
-
-            // If even the chunk size is too large, try smaller chunks
-            if (
-              error instanceof Error &&
-              error.message?.includes("block range exceeds")
-            ) {
-              const smallerChunkSize = 100;
-              for (
-                let smallFromBlock = fromBlock;
-                smallFromBlock <= toBlock;
-                smallFromBlock += smallerChunkSize
-              ) {
-                const smallToBlock = Math.min(
-                  smallFromBlock + smallerChunkSize - 1,
-                  toBlock
-                );
-                try {
-                  const smallLogs = await contract.queryFilter(
-                    filter,
-                    smallFromBlock,
-                    smallToBlock
-                  );
-                  allLogs.push(...smallLogs);
-                } catch (smallError) {
-                  console.warn(
-                    `Failed to fetch events from small block range ${smallFromBlock} to ${smallToBlock}:`,
-                    smallError
-                  );
-                }
-              }
-            }
-          }
-        }
-        return allLogs;
-      };
-
-      // Fetch all event logs in parallel chunks
-      const [
-        loanCreatedLogs,
-        loanAcceptedLogs,
-        loanRepaidLogs,
-        loanLiquidatedLogs,
-      ] = await Promise.all([
-        fetchEventsInChunks(loanCreatedFilter),
-        fetchEventsInChunks(loanAcceptedFilter),
-        fetchEventsInChunks(loanRepaidFilter),
-        fetchEventsInChunks(loanLiquidatedFilter),
+      // Events and loan state come from the server-side indexer
+      const [eventsResponse, loansResponse] = await Promise.all([
+        fetch("/api/events"),
+        fetch("/api/loans"),
       ]);
 
-      // Process event data - cast logs to ContractLog to access args
-      const loanCreatedEvents: EventLog[] = loanCreatedLogs.map((log) => {
-        const contractLog = log as ContractLog;
-        return {
-          loanId: BigInt(contractLog.args.loanId.toString()),
-          lender: contractLog.args.lender,
-          tokenAddress: contractLog.args.tokenAddress,
-          amount: BigInt(contractLog.args.amount!.toString()),
-          interestRate: BigInt(contractLog.args.interestRate!.toString()),
-          duration: BigInt(contractLog.args.duration!.toString()),
-          collateralAddress: contractLog.args.collateralAddress,
-          collateralAmount: BigInt(
-            contractLog.args.collateralAmount!.toString()
-          ),
-          blockNumber: BigInt(contractLog.blockNumber.toString()),
-          transactionHash: contractLog.transactionHash,
-        };
-      });
-
-      const loanAcceptedEvents: EventLog[] = loanAcceptedLogs.map((log) => {
-        const contractLog = log as ContractLog;
-        return {
-          loanId: BigInt(contractLog.args.loanId.toString()),
-          borrower: contractLog.args.borrower,
-          timestamp: BigInt(contractLog.args.timestamp!.toString()),
-          blockNumber: BigInt(contractLog.blockNumber.toString()),
-          transactionHash: contractLog.transactionHash,
-        };
-      });
+      if (!eventsResponse.ok || !loansResponse.ok) {
+        throw new Error("Failed to load indexed protocol data");
+      }
 
-      const loanRepaidEvents: EventLog[] = loanRepaidLogs.map((log) => {
-        const contractLog = log as ContractLog;
-        return {
-          loanId: BigInt(contractLog.args.loanId.toString()),
-          borrower: contractLog.args.borrower,
-          timestamp: BigInt(contractLog.args.timestamp!.toString()),
-          blockNumber: BigInt(contractLog.blockNumber.toString()),
-          transactionHash: contractLog.transactionHash,
-        };
-      });
+      const { events }: { events: IndexedEvent[] } =
+        await eventsResponse.json();
+      const { loans }: { loans: IndexedLoan[] } = await loansResponse.json();
 
-      const loanLiquidatedEvents: EventLog[] = loanLiquidatedLogs.map((log) => {
-        const contractLog = log as ContractLog;
-        return {
-          loanId: BigInt(contractLog.args.loanId.toString()),
-          borrower: contractLog.args.liquidator,
-          timestamp: BigInt(contractLog.args.timestamp!.toString()),
-          blockNumber: BigInt(contractLog.blockNumber.toString()),
-          transactionHash: contractLog.transactionHash,
-        };
-      });
-
-      // Get detailed loan information for TVL calculation
-      const allLoanIds = [...new Set(loanCreatedEvents.map((e) => e.loanId))];
-      const loanDetails = await Promise.all(
-        allLoanIds.map(async (loanId) => {
-          try {
-            const response = await fetch("/api/loan-details", {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({ loanId: loanId.toString() }),
-            });
-
-            if (!response.ok) return null;
-            return await response.json();
-          } catch (error) {
-            console.error(`Failed to fetch loan ${loanId}:`, error);
-            return null;
-          }
-        })
+      const loanCreatedEvents = events.filter((event) =>
+        isIndexedEvent(event, "LoanCreated")
       );
 
-      const validLoans = loanDetails.filter(Boolean);
-
       // Calculate metrics
       const totalLoansCreated = loanCreatedEvents.length;
       const volumeTraded = loanCreatedEvents.reduce(
-        (sum, event) => sum + event.amount!,
+        (sum, event) => sum + BigInt(event.args.amount),
         BigInt(0)
       );
 
       // TVL = Active loans amount + collateral locked
-      const activeLoans = validLoans.filter(
+      const activeLoans = loans.filter(
         (loan) => loan.status === LoanStatus.Active
       );
       const totalValueLocked = activeLoans.reduce((sum, loan) => {
@@ -309,7 +129,7 @@ export default function AnalyticsPage() {
       const averageAPR =
         loanCreatedEvents.length > 0
           ? loanCreatedEvents.reduce(
-              (sum, event) => sum + Number(event.interestRate!) / 100,
+              (sum, event) => sum + Number(event.args.interestRate) / 100,
               0
             ) / loanCreatedEvents.length
           : 0;
@@ -317,20 +137,21 @@ export default function AnalyticsPage() {
       const averageDuration =
         loanCreatedEvents.length > 0
           ? loanCreatedEvents.reduce(
-              (sum, event) => sum + Number(event.duration!) / (24 * 60 * 60),
+              (sum, event) =>
+                sum + Number(event.args.duration) / (24 * 60 * 60),
               0
             ) / loanCreatedEvents.length
           : 0;
 
       // Status counts
-      const repaidLoans = validLoans.filter(
+      const repaidLoans = loans.filter(
         (loan) => loan.status === LoanStatus.Repaid
       ).length;
-      const defaultedLoans = validLoans.filter(
+      const defaultedLoans = loans.filter(
         (loan) => loan.status === LoanStatus.Defaulted
       ).length;
 
-      // Daily activity (group by day)
+      // Daily activity (group by block timestamp day)
       const dailyActivityMap = new Map<
         string,
         {
@@ -342,48 +163,20 @@ export default function AnalyticsPage() {
         }
       >();
 
-      // Helper function to get date string from block number (approximate)
-      const getDateFromBlockNumber = (blockNumber: bigint) => {
-        // Rough approximation - in reality you'd want to fetch block timestamps
-        const blocksPerDay = 7200; // ~12 second blocks
-        const daysAgo = Math.floor(
-          Number(BigInt(currentBlock) - blockNumber) / blocksPerDay
-        );
-        const date = new Date();
-        date.setDate(date.getDate() - daysAgo);
-        return date.toISOString().split("T")[0];
-      };
+      const activityKeys = {
+        LoanCreated: "loansCreated",
+        LoanAccepted: "loansAccepted",
+        LoanRepaid: "loansRepaid",
+        LoanLiquidated: "loansLiquidated",
+      } as const;
 
-      loanCreatedEvents.forEach((event) => {
-        const date = getDateFromBlockNumber(event.blockNumber);
-        if (!dailyActivityMap.has(date)) {
-          dailyActivityMap.set(date, {
-            date,
-            loansCreated: 0,
-            loansAccepted: 0,
-            loansRepaid: 0,
-            loansLiquidated: 0,
-          });
-        }
-        dailyActivityMap.get(date)!.loansCreated++;
-      });
-
-      loanAcceptedEvents.forEach((event) => {
-        const date = getDateFromBlockNumber(event.blockNumber);
-        if (!dailyActivityMap.has(date)) {
-          dailyActivityMap.set(date, {
-            date,
-            loansCreated: 0,
-            loansAccepted: 0,
-            loansRepaid: 0,
-            loansLiquidated: 0,
-          });
-        }
-        dailyActivityMap.get(date)!.loansAccepted++;
-      });
+      events.forEach((event) => {
+        if (!(event.name in activityKeys)) return;
+        const key = activityKeys[event.name as keyof typeof activityKeys];
 
-      loanRepaidEvents.forEach((event) => {
-        const date = getDateFromBlockNumber(event.blockNumber);
+        const date = new Date(event.blockTimestamp * 1000)
+          .toISOString()
+          .split("T")[0];
         if (!dailyActivityMap.has(date)) {
           dailyActivityMap.set(date, {
             date,
@@ -393,21 +186,7 @@ export default function AnalyticsPage() {
             loansLiquidated: 0,
           });
         }
-        dailyActivityMap.get(date)!.loansRepaid++;
-      });
-
-      loanLiquidatedEvents.forEach((event) => {
-        const date = getDateFromBlockNumber(event.blockNumber);
-        if (!dailyActivityMap.has(date)) {
-          dailyActivityMap.set(date, {
-            date,
-            loansCreated: 0,
-            loansAccepted: 0,
-            loansRepaid: 0,
-            loansLiquidated: 0,
-          });
-        }
-        dailyActivityMap.get(date)!.loansLiquidated++;
+        dailyActivityMap.get(date)![key]++;
       });
 
       const dailyActivity = Array.from(dailyActivityMap.values()).sort((a, b) =>
@@ -419,7 +198,7 @@ export default function AnalyticsPage() {
       const aprDistribution = aprRanges.map((range) => {
         let count = 0;
         loanCreatedEvents.forEach((event) => {
-          const apr = Number(event.interestRate!) / 100;
+          const apr = Number(event.args.interestRate) / 100;
           if (range === "0-5%" && apr < 5) count++;
           else if (range === "5-10%" && apr >= 5 && apr < 10) count++;
           else if (range === "10-20%" && apr >= 10 && apr < 20) count++;
@@ -438,7 +217,7 @@ export default function AnalyticsPage() {
       const durationDistribution = durationRanges.map((range) => {
         let count = 0;
         loanCreatedEvents.forEach((event) => {
-          const days = Number(event.duration!) / (24 * 60 * 60);
+          const days = Number(event.args.duration) / (24 * 60 * 60);
           if (range === "< 7 days" && days < 7) count++;
           else if (range === "7-30 days" && days >= 7 && days < 30) count++;
           else if (range === "30-90 days" && days >= 30 && days < 90) count++;
@@ -849,6 +628,11 @@ export default function AnalyticsPage() {
           </div>
         </>
       ) : null}
+
+      {/* Price Feed Diagnostics */}
+      <div className="mt-8">
+        <PriceDiagnostics />
+      </div>
     </div>
   );
 }
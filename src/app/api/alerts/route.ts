@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { verifyAlertSignature } from "@/lib/alert-auth";
+import {
+  getLoanAlertService,
+  isPublicWebhookUrl,
+  runAlertChecks,
+  toPublicSubscription,
+} from "@/lib/loan-alerts";
+
+// Loan health alert subscriptions.
+// GET    ?address=0x..&since=<unix seconds>  subscriptions + alerts (starts a throttled check)
+// POST   { address, loanIds?, healthThresholdBPS?, expiryWarningSeconds?, webhookUrl?, issuedAt, signature }
+// DELETE { id, address, issuedAt, signature }
+// POST and DELETE must be signed by `address` (see lib/alert-auth).
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const address = searchParams.get("address");
+    const since = Number(searchParams.get("since") ?? 0);
+
+    if (!address || !ethers.isAddress(address)) {
+      return NextResponse.json(
+        { error: "A valid address is required" },
+        { status: 400 }
+      );
+    }
+
+    // Not awaited: slow webhooks shouldn't hold up serving stored alerts
+    void runAlertChecks();
+    const data = await getLoanAlertService().getForAddress(address, since);
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("Error serving loan alerts:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load loan alerts",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      address,
+      loanIds,
+      healthThresholdBPS,
+      expiryWarningSeconds,
+      webhookUrl,
+      issuedAt,
+      signature,
+    } = await request.json();
+
+    if (!address || !ethers.isAddress(address)) {
+      return NextResponse.json(
+        { error: "A valid address is required" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      loanIds !== undefined &&
+      !(
+        Array.isArray(loanIds) &&
+        loanIds.every((id: unknown) => /^\d+$/.test(String(id)))
+      )
+    ) {
+      return NextResponse.json(
+        { error: "loanIds must be a list of loan ids" },
+        { status: 400 }
+      );
+    }
+
+    // Thresholds at or below 100% would only fire after liquidation
+    if (
+      healthThresholdBPS !== undefined &&
+      !(Number.isInteger(healthThresholdBPS) && healthThresholdBPS > 10000)
+    ) {
+      return NextResponse.json(
+        { error: "healthThresholdBPS must be an integer above 10000" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      expiryWarningSeconds !== undefined &&
+      !(Number.isInteger(expiryWarningSeconds) && expiryWarningSeconds >= 0)
+    ) {
+      return NextResponse.json(
+        { error: "expiryWarningSeconds must be a non-negative integer" },
+        { status: 400 }
+      );
+    }
+
+    if (webhookUrl !== undefined && !(await isPublicWebhookUrl(webhookUrl))) {
+      return NextResponse.json(
+        { error: "webhookUrl must be an https URL on a public host" },
+        { status: 400 }
+      );
+    }
+
+    const settings = {
+      address,
+      loanIds: loanIds?.map(String),
+      healthThresholdBPS,
+      expiryWarningSeconds,
+      webhookUrl,
+    };
+    if (
+      !verifyAlertSignature(
+        { action: "subscribe", ...settings, issuedAt },
+        signature
+      )
+    ) {
+      return NextResponse.json(
+        { error: "A recent signature from address is required" },
+        { status: 401 }
+      );
+    }
+
+    const subscription = await getLoanAlertService().subscribe(settings);
+
+    return NextResponse.json(
+      { subscription: toPublicSubscription(subscription) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating loan alert subscription:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to create subscription",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { id, address, issuedAt, signature } = await request.json();
+    if (typeof id !== "string" || !id) {
+      return NextResponse.json(
+        { error: "Subscription id is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!address || !ethers.isAddress(address)) {
+      return NextResponse.json(
+        { error: "A valid address is required" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !verifyAlertSignature(
+        { action: "unsubscribe", address, subscriptionId: id, issuedAt },
+        signature
+      )
+    ) {
+      return NextResponse.json(
+        { error: "A recent signature from address is required" },
+        { status: 401 }
+      );
+    }
+
+    // Only the signer's own subscriptions can be removed
+    const removed = await getLoanAlertService().unsubscribe(id, address);
+    if (!removed) {
+      return NextResponse.json(
+        { error: "Subscription not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing loan alert subscription:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to remove subscription",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getIndexedData } from "@/lib/event-indexer";
+
+// Largest `limit` served; bigger values are capped to it
+const MAX_EVENTS_LIMIT = 1000;
+
+// Serves normalized contract events from the server-side indexer.
+// Query params: name, loanId, fromBlock, limit (latest N matching events)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const name = searchParams.get("name");
+    const loanId = searchParams.get("loanId");
+    const fromBlock = Number(searchParams.get("fromBlock") ?? 0);
+    const limit =
+      searchParams.get("limit") === null
+        ? null
+        : Number(searchParams.get("limit"));
+
+    if (!(Number.isInteger(fromBlock) && fromBlock >= 0)) {
+      return NextResponse.json(
+        { error: "fromBlock must be a non-negative integer" },
+        { status: 400 }
+      );
+    }
+    if (limit !== null && !(Number.isInteger(limit) && limit > 0)) {
+      return NextResponse.json(
+        { error: "limit must be a positive integer" },
+        { status: 400 }
+      );
+    }
+
+    const { cursor, events } = await getIndexedData();
+
+    let filtered = events.filter(
+      (event) =>
+        (!name || event.name === name) &&
+        (!loanId || event.loanId === loanId) &&
+        event.blockNumber >= fromBlock
+    );
+
+    if (limit !== null) {
+      filtered = filtered.slice(-Math.min(limit, MAX_EVENTS_LIMIT));
+    }
+
+    return NextResponse.json({ cursor, events: filtered });
+  } catch (error) {
+    console.error("Error serving indexed events:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load indexed events",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
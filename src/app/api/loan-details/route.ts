@@ -1,21 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
 import { ethers } from "ethers";
+import { NeurolendClient } from "@/lib/contract-client";
 import {
-  neurolend_CONTRACT_ADDRESS,
-  neurolend_ABI,
-  SOMNIA_TESTNET_CONFIG,
-} from "@/lib/contracts";
+  getNetwork,
+  getRpcUrl,
+  isSupportedChain,
+  NetworkConfig,
+} from "@/config/networks";
 
 // Create an ethers provider for reading from the blockchain
-const getProvider = () => {
-  return new ethers.JsonRpcProvider(
-    SOMNIA_TESTNET_CONFIG.rpcUrls.default.http[0]
-  );
+const getProvider = (network: NetworkConfig) => {
+  return new ethers.JsonRpcProvider(getRpcUrl(network));
 };
 
 export async function POST(request: NextRequest) {
   try {
-    const { loanId } = await request.json();
+    const { loanId, chainId } = await request.json();
 
     if (!loanId) {
       return NextResponse.json(
@@ -24,13 +24,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create contract instance
-    const provider = getProvider();
-    const contract = new ethers.Contract(
-      neurolend_CONTRACT_ADDRESS,
-      neurolend_ABI,
-      provider
-    );
+    if (chainId !== undefined && !isSupportedChain(chainId)) {
+      return NextResponse.json(
+        { error: `Unsupported chain: ${chainId}` },
+        { status: 400 }
+      );
+    }
+
+    // Create contract instance on the requested network (default if omitted)
+    const network = getNetwork(chainId);
+    const provider = getProvider(network);
+    const contract = new NeurolendClient(network.contracts.neurolend, provider);
 
     // Call the contract to get loan details
     const loan = await contract.getLoan(BigInt(loanId));
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getIndexedData } from "@/lib/event-indexer";
+
+// Serves loan state reconstructed by the server-side indexer.
+// Query params: status, lender, borrower
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const status = searchParams.get("status");
+    const lender = searchParams.get("lender")?.toLowerCase();
+    const borrower = searchParams.get("borrower")?.toLowerCase();
+
+    const { cursor, loans } = await getIndexedData();
+
+    const filtered = Object.values(loans)
+      .filter(
+        (loan) =>
+          (status === null || loan.status === Number(status)) &&
+          (!lender || loan.lender.toLowerCase() === lender) &&
+          (!borrower || loan.borrower.toLowerCase() === borrower)
+      )
+      .sort((a, b) => Number(BigInt(a.id) - BigInt(b.id)));
+
+    return NextResponse.json({ cursor, loans: filtered });
+  } catch (error) {
+    console.error("Error serving indexed loans:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load indexed loans",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
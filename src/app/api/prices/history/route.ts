@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTokenBySymbol } from "@/config/tokens";
+import { getPriceHistoryService, recordPrices } from "@/lib/price-history";
+
+const DEFAULT_RANGE_SECONDS = 7 * 24 * 60 * 60;
+
+// Recorded Pyth prices for a token.
+// GET ?symbol=WETH&from=<unix seconds>&to=<unix seconds>  (default: the last 7 days)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const token = getTokenBySymbol(searchParams.get("symbol") ?? "");
+    const to = Number(searchParams.get("to") ?? Math.floor(Date.now() / 1000));
+    const from = Number(searchParams.get("from") ?? to - DEFAULT_RANGE_SECONDS);
+
+    if (!token?.pythPriceFeedId) {
+      return NextResponse.json(
+        { error: "A supported token symbol is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from > to) {
+      return NextResponse.json(
+        { error: "from and to must be unix seconds with from <= to" },
+        { status: 400 }
+      );
+    }
+
+    await recordPrices();
+    const points = await getPriceHistoryService().getHistory(
+      token.symbol,
+      from,
+      to
+    );
+
+    return NextResponse.json({ symbol: token.symbol, from, to, points });
+  } catch (error) {
+    console.error("Error serving price history:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load price history",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -41,6 +41,7 @@ import {
 
 import { TokenSelector, TokenSelectorRef } from "@/components/TokenSelector";
 import { TransactionModal } from "@/components/TransactionModal";
+import { ValuationControls } from "@/components/ValuationControls";
 import { useTokenBalance } from "@/hooks/useTokenBalance";
 import { ethers } from "ethers";
 import {
@@ -66,6 +67,7 @@ export default function CreateLoanOfferPage() {
     createLoanOffer,
     transactionState,
     resetTransactionState,
+    retryTransaction,
     isConnected,
     address,
   } = useP2PLending();
@@ -448,7 +450,7 @@ export default function CreateLoanOfferPage() {
         ) {
           errorMessage =
             "Transaction was submitted but confirmation is delayed due to network issues. " +
-            "Please check your wallet or the block explorer in a few minutes.";
+            "You can follow it under Activity in the navigation bar.";
         } else {
           errorMessage = `Transaction failed: ${error.message}`;
         }
@@ -804,6 +806,9 @@ export default function CreateLoanOfferPage() {
                           </div>
                         </CardHeader>
                         <CardContent className="space-y-4">
+                          {/* Price source used for the numbers below */}
+                          <ValuationControls idPrefix="create-valuation" />
+
                           {/* Current Market Prices - Compact */}
                           <div className="grid grid-cols-2 gap-3">
                             <div className="bg-card/80 backdrop-blur-sm rounded-lg p-3 border border-border luxury-shadow">
@@ -823,6 +828,15 @@ export default function CreateLoanOfferPage() {
                               <div className="text-lg font-bold text-primary">
                                 ${collateralCalc.priceImpact.loanTokenPriceUSD}
                               </div>
+                              {!collateralCalc.valuation.onChain && (
+                                <div className="text-xs text-muted-foreground">
+                                  {collateralCalc.valuation.loanToken}: $
+                                  {
+                                    collateralCalc.priceImpact
+                                      .loanTokenValuationUSD
+                                  }
+                                </div>
+                              )}
                             </div>
 
                             <div className="bg-card/80 backdrop-blur-sm rounded-lg p-3 border border-border luxury-shadow">
@@ -846,6 +860,15 @@ export default function CreateLoanOfferPage() {
                                     .collateralTokenPriceUSD
                                 }
                               </div>
+                              {!collateralCalc.valuation.onChain && (
+                                <div className="text-xs text-muted-foreground">
+                                  {collateralCalc.valuation.collateralToken}: $
+                                  {
+                                    collateralCalc.priceImpact
+                                      .collateralTokenValuationUSD
+                                  }
+                                </div>
+                              )}
                             </div>
                           </div>
 
@@ -940,6 +963,8 @@ export default function CreateLoanOfferPage() {
                                     collateralCalc.priceImpact
                                       .minCollateralValueUSD
                                   }
+                                  {!collateralCalc.valuation.onChain &&
+                                    ` at ${collateralCalc.valuation.collateralToken} prices`}
                                 </div>
                               </div>
 
@@ -1313,6 +1338,7 @@ export default function CreateLoanOfferPage() {
           onClose={resetTransactionState}
           transactionState={transactionState}
           onReset={handleReset}
+          onRetry={retryTransaction}
           onCreateAnother={() => {
             // Modal will call onClose() first, so we just need to reset the form
             handleReset();
@@ -18,16 +18,20 @@ import { Separator } from "@/components/ui/separator";
 import { useP2PLending } from "@/hooks/useP2PLending";
 import { LoanStatus } from "@/lib/contracts";
 import {
-  useAllLoansWithStatus,
   ProcessedLoan,
   invalidateSubgraphCache,
 } from "@/hooks/useSubgraphQuery";
+import { useLoanData } from "@/hooks/useLoanData";
 import {
   useLivePriceComparison,
   LoanWithPriceComparison,
 } from "@/hooks/useLivePriceComparison";
 import { LoanHealthManager } from "@/components/LoanHealthManager";
 import { PartialRepaymentManager } from "@/components/PartialRepaymentManager";
+import { RepaymentPlanner } from "@/components/RepaymentPlanner";
+import { LoanAlertSettings } from "@/components/LoanAlertSettings";
+import { LoanPriceChart } from "@/components/LoanPriceChart";
+import { getHealthBands } from "@/lib/loan-health";
 import {
   CheckCircle,
   AlertCircle,
@@ -52,7 +56,7 @@ import {
   Zap,
 } from "lucide-react";
 import { ethers } from "ethers";
-import { getTokenByAddress } from "@/config/tokens";
+import { basisPointsToPercentage, getTokenByAddress } from "@/config/tokens";
 
 interface TokenInfo {
   name: string;
@@ -104,12 +108,12 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
     getLoanRepaymentInfo,
   } = useP2PLending();
 
-  // Use subgraph data to get all loans
+  // Loans come from the first loan data source that answers
   const {
     loans: allLoans,
-    loading: isLoadingSubgraph,
-    error: subgraphError,
-  } = useAllLoansWithStatus();
+    loading: isLoadingLoans,
+    refresh: refreshLoans,
+  } = useLoanData();
 
   // Find the specific loan
   const loan = React.useMemo(() => {
@@ -258,7 +262,7 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
   useEffect(() => {
     let timeoutId: NodeJS.Timeout;
 
-    if (isLoadingSubgraph || isLoadingPrices) {
+    if (isLoadingLoans || isLoadingPrices) {
       timeoutId = setTimeout(() => {
         setShowStuckMessage(true);
       }, 10000); // 10 seconds
@@ -271,10 +275,11 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
         clearTimeout(timeoutId);
       }
     };
-  }, [isLoadingSubgraph, isLoadingPrices]);
+  }, [isLoadingLoans, isLoadingPrices]);
 
   // Refresh all data
   const refreshAllData = () => {
+    refreshLoans();
     refreshPrices();
     fetchAdditionalData();
   };
@@ -339,11 +344,11 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
   };
 
   // Loading state
-  if (isLoadingSubgraph || isLoadingPrices || !loanDetails) {
+  if (isLoadingLoans || isLoadingPrices || !loanDetails) {
     return (
       <div className="container mx-auto px-4 py-8">
         {/* Stuck Loading Message */}
-        {showStuckMessage && (isLoadingSubgraph || isLoadingPrices) && (
+        {showStuckMessage && (isLoadingLoans || isLoadingPrices) && (
           <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
             <Card className="w-96 mx-4">
               <CardContent className="pt-6 text-center">
@@ -423,6 +428,7 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
   const isBorrower =
     address && loanDetails.borrower.toLowerCase() === address.toLowerCase();
   const userRole = isLender ? "lender" : isBorrower ? "borrower" : null;
+  const healthBands = getHealthBands(loanDetails);
 
   if (!isConnected || !userRole) {
     return (
@@ -907,6 +913,9 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
             </CardContent>
           </Card>
 
+          {/* Price history with loan event markers */}
+          <LoanPriceChart loan={loanDetails} />
+
           {/* Loan Management Tools for Active Borrowed Loans */}
           {userRole === "borrower" &&
             loanDetails.status === LoanStatus.Active && (
@@ -922,6 +931,10 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
                   tokenInfo={loanDetails.tokenInfo}
                   onUpdate={refreshAllData}
                 />
+                <RepaymentPlanner
+                  loan={loanDetails}
+                  tokenInfo={loanDetails.tokenInfo}
+                />
               </div>
             )}
         </div>
@@ -1035,7 +1048,7 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
                   <div className="grid grid-cols-3 gap-2 text-xs">
                     <div className="text-center p-2 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
                       <div className="text-red-600 dark:text-red-400 font-semibold">
-                        120%
+                        {basisPointsToPercentage(healthBands.liquidationBPS)}%
                       </div>
                       <div className="text-red-500 dark:text-red-300 text-xs">
                         Liquidation
@@ -1043,7 +1056,7 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
                     </div>
                     <div className="text-center p-2 bg-amber-50 dark:bg-amber-900/20 rounded-lg border border-amber-200 dark:border-amber-800">
                       <div className="text-amber-600 dark:text-amber-400 font-semibold">
-                        130%
+                        {basisPointsToPercentage(healthBands.atRiskBPS)}%
                       </div>
                       <div className="text-amber-500 dark:text-amber-300 text-xs">
                         At Risk
@@ -1051,7 +1064,7 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
                     </div>
                     <div className="text-center p-2 bg-emerald-50 dark:bg-emerald-900/20 rounded-lg border border-emerald-200 dark:border-emerald-800">
                       <div className="text-emerald-600 dark:text-emerald-400 font-semibold">
-                        150%+
+                        {basisPointsToPercentage(healthBands.healthyBPS)}%+
                       </div>
                       <div className="text-emerald-500 dark:text-emerald-300 text-xs">
                         Healthy
@@ -1072,6 +1085,11 @@ export default function LoanDetailsPage({ params }: LoanDetailsPageProps) {
             </Card>
           )}
 
+          {/* Health and due date alerts */}
+          {loanDetails.status === LoanStatus.Active && (
+            <LoanAlertSettings loan={loanDetails} address={address} />
+          )}
+
           {/* Loan Timeline */}
           <Card className="luxury-shadow">
             <CardHeader>
@@ -11,7 +11,7 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Table,
@@ -23,14 +23,15 @@ import {
 } from "@/components/ui/table";
 import { useP2PLending } from "@/hooks/useP2PLending";
 import { LoanStatus } from "@/lib/contracts";
-import { useAllLoansWithStatus, ProcessedLoan } from "@/hooks/useSubgraphQuery";
-import { useRestMyLoansData } from "@/hooks/useRestApi";
+import { usePaginatedLoans } from "@/hooks/usePaginatedLoans";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
 import {
   useLivePriceComparison,
   LoanWithPriceComparison,
 } from "@/hooks/useLivePriceComparison";
 import { LoanHealthManager } from "@/components/LoanHealthManager";
 import { PartialRepaymentManager } from "@/components/PartialRepaymentManager";
+import { AllowanceManager } from "@/components/AllowanceManager";
 import {
   CheckCircle,
   AlertCircle,
@@ -86,44 +87,23 @@ export default function MyLoansPage() {
     isLoanDefaulted,
   } = useP2PLending();
 
-  // Use REST API data instead of subgraph
-  const {
-    loans: allLoans,
-    loading: isLoadingRest,
-    error: restError,
-    refresh: refreshRestData,
-  } = useRestMyLoansData();
-  
-  // Keep subgraph as fallback for now
-  const {
-    loans: subgraphLoans,
-    loading: isLoadingSubgraph,
-    error: subgraphError,
-  } = useAllLoansWithStatus();
-  
-  // Use REST data if available, otherwise fallback to subgraph
-  const finalLoans = allLoans.length > 0 ? allLoans : subgraphLoans;
-  const finalLoading = isLoadingRest || (allLoans.length === 0 && isLoadingSubgraph);
-  const finalError = restError || (allLoans.length === 0 ? subgraphError : null);
-  
-  console.log("MyLoans - REST loans:", allLoans);
-  console.log("MyLoans - Subgraph loans:", subgraphLoans);
-  console.log("MyLoans - Final loans:", finalLoans);
-
-  // Filter loans by user role
-  const lenderLoans = React.useMemo(() => {
-    if (!address) return [];
-    return finalLoans.filter(
-      (loan) => loan.lender.toLowerCase() === address.toLowerCase()
-    );
-  }, [finalLoans, address]);
-
-  const borrowerLoans = React.useMemo(() => {
-    if (!address) return [];
-    return finalLoans.filter(
-      (loan) => loan.borrower.toLowerCase() === address.toLowerCase()
-    );
-  }, [finalLoans, address]);
+  // Loans are read from the contract a page at a time, newest first
+  const lenderPages = usePaginatedLoans("lender", address);
+  const borrowerPages = usePaginatedLoans("borrower", address);
+  const lenderLoans = lenderPages.loans;
+  const borrowerLoans = borrowerPages.loans;
+  const isLoadingLoans = lenderPages.loading || borrowerPages.loading;
+  const loansError = lenderPages.error ?? borrowerPages.error;
+
+  // Next page loads as the end of each table scrolls into view
+  const lenderSentinel = useInfiniteScroll(
+    lenderPages.loadMore,
+    lenderPages.hasMore && !lenderPages.loadingMore
+  );
+  const borrowerSentinel = useInfiniteScroll(
+    borrowerPages.loadMore,
+    borrowerPages.hasMore && !borrowerPages.loadingMore
+  );
 
   // Get live price comparison data
   const {
@@ -154,7 +134,7 @@ export default function MyLoansPage() {
   React.useEffect(() => {
     let timeoutId: NodeJS.Timeout;
 
-    if (finalLoading || isLoadingLenderPrices || isLoadingBorrowerPrices) {
+    if (isLoadingLoans || isLoadingLenderPrices || isLoadingBorrowerPrices) {
       timeoutId = setTimeout(() => {
         setShowStuckMessage(true);
       }, 10000); // 10 seconds
@@ -167,7 +147,7 @@ export default function MyLoansPage() {
         clearTimeout(timeoutId);
       }
     };
-  }, [finalLoading, isLoadingLenderPrices, isLoadingBorrowerPrices]);
+  }, [isLoadingLoans, isLoadingLenderPrices, isLoadingBorrowerPrices]);
   // Format loan details for display
   const formatLoanDetails = useCallback(
     (loan: LoanWithPriceComparison): LoanWithDetails => {
@@ -255,7 +235,8 @@ export default function MyLoansPage() {
 
   // Refresh all data
   const refreshAllData = () => {
-    refreshRestData();
+    lenderPages.refresh();
+    borrowerPages.refresh();
     refreshLenderPrices();
     refreshBorrowerPrices();
   };
@@ -623,13 +604,11 @@ export default function MyLoansPage() {
           onClick={refreshAllData}
           variant="outline"
           disabled={
-            finalLoading ||
-            isLoadingLenderPrices ||
-            isLoadingBorrowerPrices
+            isLoadingLoans || isLoadingLenderPrices || isLoadingBorrowerPrices
           }
           className="btn-premium"
         >
-          {finalLoading ||
+          {isLoadingLoans ||
           isLoadingLenderPrices ||
           isLoadingBorrowerPrices ? (
             <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -684,13 +663,13 @@ export default function MyLoansPage() {
       )}
 
       {/* Error Alert */}
-      {(transactionState.isError || finalError) && (
+      {(transactionState.isError || loansError) && (
         <Alert className="mb-6" variant="destructive">
           <AlertCircle className="h-4 w-4" />
           <AlertDescription>
             {transactionState.error}
-            {transactionState.error && finalError && " | "}
-            {finalError && `Failed to load loan data: ${finalError}`}
+            {transactionState.error && loansError && " | "}
+            {loansError && `Failed to load loan data: ${loansError}`}
           </AlertDescription>
         </Alert>
       )}
@@ -716,7 +695,7 @@ export default function MyLoansPage() {
               </div>
               <div>
                 <p className="text-2xl font-bold text-foreground">
-                  {finalLoading ? "..." : lenderLoans.length}
+                  {lenderPages.loading ? "..." : lenderPages.total}
                 </p>
                 <p className="text-sm font-medium text-foreground">As Lender</p>
                 <p className="text-xs text-muted-foreground">
@@ -735,7 +714,7 @@ export default function MyLoansPage() {
               </div>
               <div>
                 <p className="text-2xl font-bold text-foreground">
-                  {finalLoading ? "..." : borrowerLoans.length}
+                  {borrowerPages.loading ? "..." : borrowerPages.total}
                 </p>
                 <p className="text-sm font-medium text-foreground">
                   As Borrower
@@ -795,7 +774,7 @@ export default function MyLoansPage() {
 
       {/* Stuck Loading Message */}
       {showStuckMessage &&
-        (finalLoading ||
+        (isLoadingLoans ||
           isLoadingLenderPrices ||
           isLoadingBorrowerPrices) && (
           <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
@@ -808,7 +787,7 @@ export default function MyLoansPage() {
                   </h3>
                   <p className="text-muted-foreground text-sm mb-4">
                     The page seems to be stuck loading. This might be due to
-                    network issues or the subgraph being slow.
+                    network issues or the RPC being slow.
                   </p>
                 </div>
                 <div className="space-y-2">
@@ -832,17 +811,6 @@ export default function MyLoansPage() {
           </div>
         )}
 
-      <div className="grid w-full my-4 items-start gap-4 ">
-        <Alert variant={"default"}>
-          <AlertCircle className="h-4 w-4 " color="red" />
-          <AlertTitle className="font-bold">
-            Note: Loan data is fetched from a subgraph and may take a few
-            minutes to update after transactions , Try refreshing the page. We
-            are working on improving this experience. Thanks for your patience!
-          </AlertTitle>
-        </Alert>
-      </div>
-
       {/* Loans I'm Offering */}
       <Card className="mb-8 luxury-shadow-lg glass">
         <CardHeader className="gradient-bg">
@@ -856,7 +824,8 @@ export default function MyLoansPage() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {finalLoading || isLoadingLenderPrices ? (
+          {(lenderPages.loading || isLoadingLenderPrices) &&
+          lenderLoanDetails.length === 0 ? (
             <div className="space-y-4">
               {[...Array(3)].map((_, i) => (
                 <div key={i} className="flex items-center space-x-4">
@@ -869,7 +838,19 @@ export default function MyLoansPage() {
               ))}
             </div>
           ) : (
-            renderLoanTable(lenderLoanDetails, "lender")
+            <>
+              {renderLoanTable(lenderLoanDetails, "lender")}
+              {lenderPages.hasMore && (
+                <div
+                  ref={lenderSentinel}
+                  className="flex items-center justify-center py-4 text-sm text-muted-foreground"
+                >
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Loading more loans ({lenderLoanDetails.length} of{" "}
+                  {lenderPages.total})
+                </div>
+              )}
+            </>
           )}
         </CardContent>
       </Card>
@@ -887,7 +868,8 @@ export default function MyLoansPage() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {finalLoading || isLoadingBorrowerPrices ? (
+          {(borrowerPages.loading || isLoadingBorrowerPrices) &&
+          borrowerLoanDetails.length === 0 ? (
             <div className="space-y-4">
               {[...Array(3)].map((_, i) => (
                 <div key={i} className="flex items-center space-x-4">
@@ -900,10 +882,27 @@ export default function MyLoansPage() {
               ))}
             </div>
           ) : (
-            renderLoanTable(borrowerLoanDetails, "borrower")
+            <>
+              {renderLoanTable(borrowerLoanDetails, "borrower")}
+              {borrowerPages.hasMore && (
+                <div
+                  ref={borrowerSentinel}
+                  className="flex items-center justify-center py-4 text-sm text-muted-foreground"
+                >
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Loading more loans ({borrowerLoanDetails.length} of{" "}
+                  {borrowerPages.total})
+                </div>
+              )}
+            </>
           )}
         </CardContent>
       </Card>
+
+      {/* Token Allowances */}
+      <div className="mt-8">
+        <AllowanceManager />
+      </div>
     </div>
   );
 }
@@ -22,11 +22,9 @@ import {
 } from "@/components/ui/table";
 import { useP2PLending } from "@/hooks/useP2PLending";
 import { Loan, LoanStatus } from "@/lib/contracts";
-import { ZEROG_MAINNET_CONFIG } from "@/config/0g-chain";
-import {
-  useRestOffersData,
-  convertRestLoanToProcessedLoan,
-} from "@/hooks/useRestApi";
+import { getRpcUrl } from "@/config/networks";
+import { useRestStats } from "@/hooks/useRestApi";
+import { useLoanData } from "@/hooks/useLoanData";
 import {
   useLivePriceComparison,
   LoanWithPriceComparison,
@@ -69,9 +67,7 @@ const fetchTokenInfo = async (
   tokenAddress: string
 ): Promise<TokenInfo | null> => {
   try {
-    const provider = new ethers.JsonRpcProvider(
-      ZEROG_MAINNET_CONFIG.rpcUrls.default.http[0]
-    );
+    const provider = new ethers.JsonRpcProvider(getRpcUrl());
     const tokenContract = new ethers.Contract(
       tokenAddress,
       [
@@ -101,23 +97,29 @@ export default function OffersPage() {
     cancelLoanOffer,
     transactionState,
     resetTransactionState,
+    retryTransaction,
     isConnected,
     address,
   } = useP2PLending();
 
-  // Use REST API data instead of GraphQL
+  // Loans come from the first loan data source that answers
+  const {
+    loans: pendingLoans,
+    loading: isLoadingLoans,
+    error: loansError,
+    refresh: refreshLoans,
+  } = useLoanData();
   const {
-    loans: restLoans,
     stats: protocolStats,
-    loading: isLoadingRest,
-    error: restError,
-    refresh: refreshRestData,
-  } = useRestOffersData();
+    loading: isLoadingStats,
+    refetch: refreshStats,
+  } = useRestStats();
 
-  // Convert REST loans to ProcessedLoan format for compatibility
-  const pendingLoans = React.useMemo(() => {
-    return restLoans.map(convertRestLoanToProcessedLoan);
-  }, [restLoans]);
+  const isLoadingData = isLoadingLoans || isLoadingStats;
+  const refreshData = React.useCallback(() => {
+    refreshLoans();
+    refreshStats();
+  }, [refreshLoans, refreshStats]);
 
   // Get live price comparison data
   const {
@@ -139,7 +141,7 @@ export default function OffersPage() {
   React.useEffect(() => {
     let timeoutId: NodeJS.Timeout;
 
-    if (isLoadingRest || isLoadingPrices) {
+    if (isLoadingData || isLoadingPrices) {
       timeoutId = setTimeout(() => {
         setShowStuckMessage(true);
       }, 10000); // 10 seconds
@@ -152,7 +154,7 @@ export default function OffersPage() {
         clearTimeout(timeoutId);
       }
     };
-  }, [isLoadingRest, isLoadingPrices]);
+  }, [isLoadingData, isLoadingPrices]);
 
   // Format loans with token information for display
   const formattedLoans = React.useMemo(() => {
@@ -199,7 +201,7 @@ export default function OffersPage() {
       await acceptLoanOffer(loan.id, loan);
       // Refresh the data after successful acceptance
       refreshPrices();
-      refreshRestData();
+      refreshData();
     } catch (error) {
       console.error("Failed to accept loan offer:", error);
     } finally {
@@ -223,7 +225,7 @@ export default function OffersPage() {
       await cancelLoanOffer(loan.id);
       // Refresh the data after successful cancellation
       refreshPrices();
-      refreshRestData();
+      refreshData();
     } catch (error) {
       console.error("Failed to cancel loan offer:", error);
     } finally {
@@ -233,7 +235,7 @@ export default function OffersPage() {
 
   const handleRefresh = () => {
     refreshPrices();
-    refreshRestData();
+    refreshData();
   };
 
   // const calculateTotalAPR = (interestRate: bigint) => {
@@ -265,9 +267,9 @@ export default function OffersPage() {
           <Button
             onClick={handleRefresh}
             variant="outline"
-            disabled={isLoadingRest || isLoadingPrices}
+            disabled={isLoadingData || isLoadingPrices}
           >
-            {isLoadingRest || isLoadingPrices ? (
+            {isLoadingData || isLoadingPrices ? (
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
             ) : (
               <RefreshCw className="mr-2 h-4 w-4" />
@@ -279,19 +281,19 @@ export default function OffersPage() {
 
       {/* Transaction Progress - Now handled by TransactionModal */}
 
-      {(restError || pricesError) && (
+      {(loansError || pricesError) && (
         <Alert className="mb-6" variant="destructive">
           <AlertCircle className="h-4 w-4" />
           <AlertDescription>
-            {restError && `Failed to load loan data: ${restError}`}
-            {restError && pricesError && " | "}
+            {loansError && `Failed to load loan data: ${loansError}`}
+            {loansError && pricesError && " | "}
             {pricesError && `Failed to load prices: ${pricesError}`}
           </AlertDescription>
         </Alert>
       )}
 
       {/* Stuck Loading Message */}
-      {showStuckMessage && (isLoadingRest || isLoadingPrices) && (
+      {showStuckMessage && (isLoadingData || isLoadingPrices) && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
           <Card className="w-96 mx-4">
             <CardContent className="pt-6 text-center">
@@ -326,7 +328,7 @@ export default function OffersPage() {
         </div>
       )}
 
-      {isLoadingRest || isLoadingPrices ? (
+      {isLoadingData || isLoadingPrices ? (
         <Card>
           <CardContent className="pt-6">
             <div className="space-y-4">
@@ -739,6 +741,7 @@ export default function OffersPage() {
         onClose={resetTransactionState}
         transactionState={transactionState}
         onReset={resetTransactionState}
+        onRetry={retryTransaction}
         onViewLoans={() => {
           resetTransactionState();
           window.location.href = "/my-loans";
@@ -746,22 +749,6 @@ export default function OffersPage() {
         title="Accepting Loan Offer"
         successTitle="Loan Accepted!"
         successDescription="You have successfully accepted the loan offer! The funds have been transferred to your wallet."
-        steps={{
-          approval: {
-            title: "Approve Collateral Token",
-            description: "Allow the contract to use your collateral tokens",
-            loadingText: "Waiting for wallet confirmation...",
-            successText: "Collateral token approved successfully",
-            errorText: "Failed to approve collateral token",
-          },
-          transaction: {
-            title: "Accept Loan Offer",
-            description: "Complete the loan acceptance transaction",
-            loadingText: "Processing loan acceptance...",
-            successText: "Loan offer accepted successfully!",
-            errorText: "Failed to accept loan offer",
-          },
-        }}
       />
     </div>
   );
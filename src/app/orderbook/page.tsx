@@ -62,6 +62,8 @@ export default function OrderBookPage() {
   const {
     createLoanOffer,
     createBorrowRequest,
+    acceptBorrowRequest,
+    getBorrowRequest,
     transactionState,
     resetTransactionState,
     isConnected,
@@ -74,6 +76,10 @@ export default function OrderBookPage() {
 
   // Form state
   const [orderType, setOrderType] = useState<"lend" | "borrow">("lend");
+  // Borrow request being filled when a bid is picked from the order book
+  const [selectedRequestId, setSelectedRequestId] = useState<string | null>(
+    null
+  );
   const [selectedLoanToken, setSelectedLoanToken] = useState<
     TokenInfo | undefined
   >();
@@ -210,6 +216,7 @@ export default function OrderBookPage() {
     if (type === "offer") {
       // User clicked on a lend offer, switch to borrow mode
       setOrderType("borrow");
+      setSelectedRequestId(null);
       handleInputChange("interestRate", (order.interestRate / 100).toString());
       handleInputChange("amount", order.amount);
       if (order.tokenInfo) {
@@ -227,8 +234,9 @@ export default function OrderBookPage() {
         }));
       }
     } else {
-      // User clicked on a borrow request, switch to lend mode
+      // User clicked on a borrow request, switch to lend mode and fill it
       setOrderType("lend");
+      setSelectedRequestId(order.id);
       handleInputChange(
         "interestRate",
         (order.maxInterestRate / 100).toString()
@@ -286,6 +294,22 @@ export default function OrderBookPage() {
     }
 
     try {
+      if (orderType === "lend" && selectedRequestId) {
+        const request = await getBorrowRequest(BigInt(selectedRequestId));
+        if (!request) {
+          alert("Borrow request is no longer available");
+          setSelectedRequestId(null);
+          return;
+        }
+
+        await acceptBorrowRequest(request.id, request, formData.interestRate);
+        setSelectedRequestId(null);
+
+        loanTokenSelectorRef.current?.refreshBalance();
+        refreshLoanBalance();
+        return;
+      }
+
       const interestRatePercentage = parseFloat(formData.interestRate);
       if (isNaN(interestRatePercentage)) {
         alert("Please enter a valid interest rate");
@@ -406,9 +430,10 @@ export default function OrderBookPage() {
                 <CardContent className="p-4">
                   <Tabs
                     value={orderType}
-                    onValueChange={(value: string) =>
-                      setOrderType(value as "lend" | "borrow")
-                    }
+                    onValueChange={(value: string) => {
+                      setOrderType(value as "lend" | "borrow");
+                      setSelectedRequestId(null);
+                    }}
                   >
                     <TabsList className="grid w-full grid-cols-2">
                       <TabsTrigger
@@ -671,7 +696,12 @@ export default function OrderBookPage() {
                             : "bg-red-600 hover:bg-red-700 text-white"
                         }`}
                       >
-                        {orderType === "lend" ? (
+                        {orderType === "lend" && selectedRequestId ? (
+                          <>
+                            <TrendingUp className="h-4 w-4 mr-2" />
+                            Fill Borrow Request #{selectedRequestId}
+                          </>
+                        ) : orderType === "lend" ? (
                           <>
                             <TrendingUp className="h-4 w-4 mr-2" />
                             Create Lend Offer
@@ -685,9 +715,11 @@ export default function OrderBookPage() {
                       </Button>
 
                       <div className="text-xs text-center text-muted-foreground">
-                        {orderType === "lend"
-                          ? "Your tokens will be escrowed until the offer is filled or cancelled"
-                          : "Your collateral will be escrowed until the request is filled or cancelled"}
+                        {orderType === "lend" && selectedRequestId
+                          ? "Tokens are sent to the borrower immediately; their collateral is already escrowed"
+                          : orderType === "lend"
+                            ? "Your tokens will be escrowed until the offer is filled or cancelled"
+                            : "Your collateral will be escrowed until the request is filled or cancelled"}
                       </div>
                     </div>
                   </form>
@@ -0,0 +1,239 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ethers } from "ethers";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useP2PLending } from "@/hooks/useP2PLending";
+import { useApprovalMode } from "@/hooks/useApprovalMode";
+import { TokenInfo, getAllSupportedTokens } from "@/config/tokens";
+import { fromBaseUnit, toBaseUnit } from "@/lib/decimals";
+import { isUnlimitedAllowance } from "@/lib/approval-preference";
+import { describeTransactionError } from "@/lib/tx-preflight";
+import { AlertCircle, KeyRound, Loader2, RefreshCw } from "lucide-react";
+
+const TOKENS = getAllSupportedTokens().filter((token) => token.isAvailable);
+
+/**
+ * ERC-20 allowances the connected wallet has granted to neurolend, with
+ * revoke / set-exact actions and the exact vs. unlimited approval preference
+ * used by every lending flow.
+ */
+export function AllowanceManager() {
+  const { address, network, checkAllowance, approveToken } = useP2PLending();
+  const { approvalMode, setApprovalMode } = useApprovalMode();
+  const neurolendAddress = network.contracts.neurolend;
+
+  const [allowances, setAllowances] = useState<Record<string, bigint>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [exactAmounts, setExactAmounts] = useState<Record<string, string>>({});
+  // Token whose approval is being sent
+  const [pendingToken, setPendingToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAllowances = useCallback(async () => {
+    if (!address) return;
+    setIsLoading(true);
+    try {
+      const entries = await Promise.all(
+        TOKENS.map(
+          async (token) =>
+            [
+              token.address,
+              await checkAllowance(token.address, address, neurolendAddress),
+            ] as const
+        )
+      );
+      setAllowances(Object.fromEntries(entries));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address, checkAllowance, neurolendAddress]);
+
+  useEffect(() => {
+    fetchAllowances();
+  }, [fetchAllowances]);
+
+  const updateAllowance = async (token: TokenInfo, amount: bigint) => {
+    try {
+      setPendingToken(token.address);
+      setError(null);
+      await approveToken(token.address, amount);
+      setExactAmounts((prev) => ({ ...prev, [token.address]: "" }));
+      await fetchAllowances();
+    } catch (err) {
+      setError(
+        describeTransactionError(
+          err,
+          `Failed to update ${token.symbol} allowance`
+        )
+      );
+    } finally {
+      setPendingToken(null);
+    }
+  };
+
+  if (!address) return null;
+
+  return (
+    <Card className="luxury-shadow-lg glass">
+      <CardHeader className="gradient-bg">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <KeyRound className="h-5 w-5 text-primary" />
+              <span>Token Allowances</span>
+            </CardTitle>
+            <CardDescription>
+              What neurolend can spend from your wallet. Revoke allowances you
+              no longer need.
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={fetchAllowances}
+            disabled={isLoading}
+          >
+            {isLoading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4 rounded-xl border border-border/50 p-3">
+          <div className="space-y-1">
+            <Label htmlFor="unlimited-approvals">Unlimited approvals</Label>
+            <p className="text-xs text-muted-foreground">
+              {approvalMode === "unlimited"
+                ? "Approve once per token; later actions skip the approval."
+                : "Approve only what each action spends."}
+            </p>
+          </div>
+          <Switch
+            id="unlimited-approvals"
+            checked={approvalMode === "unlimited"}
+            onCheckedChange={(checked) =>
+              setApprovalMode(checked ? "unlimited" : "exact")
+            }
+          />
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Token</TableHead>
+              <TableHead>Allowance</TableHead>
+              <TableHead>Set Exact</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {TOKENS.map((token) => {
+              const allowance = allowances[token.address] ?? BigInt(0);
+              const exactAmount = exactAmounts[token.address] ?? "";
+              const isPending = pendingToken === token.address;
+
+              return (
+                <TableRow key={token.address}>
+                  <TableCell className="font-medium">{token.symbol}</TableCell>
+                  <TableCell>
+                    {allowance === BigInt(0) ? (
+                      <span className="text-muted-foreground">None</span>
+                    ) : isUnlimitedAllowance(allowance) ? (
+                      <Badge variant="destructive">Unlimited</Badge>
+                    ) : (
+                      `${fromBaseUnit(allowance, token.decimals)} ${token.symbol}`
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        placeholder="0.0"
+                        value={exactAmount}
+                        onChange={(e) =>
+                          setExactAmounts((prev) => ({
+                            ...prev,
+                            [token.address]: e.target.value,
+                          }))
+                        }
+                        className="h-8 w-32"
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={
+                          !exactAmount ||
+                          Number(exactAmount) <= 0 ||
+                          !!pendingToken
+                        }
+                        onClick={() =>
+                          updateAllowance(
+                            token,
+                            toBaseUnit(exactAmount, token.decimals)
+                          )
+                        }
+                      >
+                        Set
+                      </Button>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-destructive"
+                      disabled={allowance === BigInt(0) || !!pendingToken}
+                      onClick={() => updateAllowance(token, BigInt(0))}
+                    >
+                      {isPending && (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      )}
+                      Revoke
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+        {ethers.isAddress(neurolendAddress) && (
+          <p className="text-xs text-muted-foreground font-mono">
+            Spender: {neurolendAddress}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,12 @@
+"use client";
+
+import { useAppKitAccount } from "@reown/appkit/react";
+import { useLoanAlerts } from "@/hooks/useLoanAlerts";
+
+// Polls the connected wallet's loan alerts app-wide and shows new ones as
+// browser notifications. Renders nothing.
+export function LoanAlertNotifier() {
+  const { address } = useAppKitAccount();
+  useLoanAlerts(address, { poll: true });
+  return null;
+}
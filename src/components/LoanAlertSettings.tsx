@@ -0,0 +1,216 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useLoanAlerts } from "@/hooks/useLoanAlerts";
+import { Loan } from "@/lib/contracts";
+import { getHealthBands } from "@/lib/loan-health";
+import {
+  basisPointsToPercentage,
+  percentageToBasisPoints,
+} from "@/config/tokens";
+import { Bell, BellOff, BellRing, Loader2 } from "lucide-react";
+
+interface LoanAlertSettingsProps {
+  loan: Pick<Loan, "id" | "liquidationThresholdBPS" | "minCollateralRatioBPS">;
+  address?: string;
+}
+
+export function LoanAlertSettings({ loan, address }: LoanAlertSettingsProps) {
+  const {
+    subscriptions,
+    alerts,
+    permission,
+    requestPermission,
+    subscribe,
+    unsubscribe,
+  } = useLoanAlerts(address);
+
+  const loanId = loan.id.toString();
+  const bands = getHealthBands(loan);
+  const liquidationPercent = basisPointsToPercentage(bands.liquidationBPS);
+
+  const [threshold, setThreshold] = useState(
+    String(basisPointsToPercentage(bands.atRiskBPS))
+  );
+  const [warningHours, setWarningHours] = useState("24");
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const subscription = subscriptions.find(
+    (s) => !s.loanIds || s.loanIds.includes(loanId)
+  );
+  const loanAlerts = alerts
+    .filter((alert) => alert.loanId === loanId)
+    .slice(-5)
+    .reverse();
+
+  const thresholdValid = Number(threshold) > liquidationPercent;
+
+  const handleSubscribe = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      if (permission === "default") await requestPermission();
+      await subscribe({
+        loanIds: [loanId],
+        healthThresholdBPS: percentageToBasisPoints(Number(threshold)),
+        expiryWarningSeconds: Math.round(Number(warningHours) * 3600),
+        webhookUrl: webhookUrl || undefined,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to subscribe");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUnsubscribe = async () => {
+    if (!subscription) return;
+    try {
+      setIsSaving(true);
+      setError(null);
+      await unsubscribe(subscription.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to unsubscribe");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!address) return null;
+
+  return (
+    <Card className="luxury-shadow">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Bell className="h-5 w-5 text-primary" />
+          <span>Loan Alerts</span>
+          {subscription && (
+            <Badge variant="outline" className="text-green-600">
+              On
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {subscription ? (
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Health below</span>
+              <span className="font-medium">
+                {basisPointsToPercentage(
+                  getHealthBands(loan, subscription.healthThresholdBPS)
+                    .atRiskBPS
+                )}
+                %
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Due date warning</span>
+              <span className="font-medium">
+                {subscription.expiryWarningSeconds / 3600}h before
+              </span>
+            </div>
+            {subscription.hasWebhook && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Webhook</span>
+                <span className="font-medium">Configured</span>
+              </div>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleUnsubscribe}
+              disabled={isSaving}
+              className="w-full"
+            >
+              <BellOff className="h-4 w-4 mr-1" />
+              Turn off alerts
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="alert-threshold">
+                Alert when health drops below (%)
+              </Label>
+              <Input
+                id="alert-threshold"
+                type="number"
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+              />
+              <div className="text-xs text-muted-foreground">
+                Liquidation at {liquidationPercent}%
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="alert-expiry">Warn before due date (hours)</Label>
+              <Input
+                id="alert-expiry"
+                type="number"
+                value={warningHours}
+                onChange={(e) => setWarningHours(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="alert-webhook">Webhook URL (optional)</Label>
+              <Input
+                id="alert-webhook"
+                type="url"
+                placeholder="https://"
+                value={webhookUrl}
+                onChange={(e) => setWebhookUrl(e.target.value)}
+              />
+            </div>
+            <Button
+              size="sm"
+              onClick={handleSubscribe}
+              disabled={isSaving || !thresholdValid}
+              className="w-full"
+            >
+              {isSaving ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <BellRing className="h-4 w-4 mr-1" />
+              )}
+              Turn on alerts
+            </Button>
+          </div>
+        )}
+
+        {permission === "denied" && (
+          <div className="text-xs text-muted-foreground">
+            Browser notifications are blocked; alerts will show in the app
+            instead.
+          </div>
+        )}
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {loanAlerts.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Recent alerts</h4>
+            {loanAlerts.map((alert) => (
+              <div
+                key={alert.id}
+                className="text-xs p-2 rounded-lg bg-muted/50 flex justify-between space-x-2"
+              >
+                <span>{alert.message}</span>
+                <span className="text-muted-foreground whitespace-nowrap">
+                  {new Date(alert.createdAt * 1000).toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
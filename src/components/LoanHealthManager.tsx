@@ -7,8 +7,14 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Progress } from "@/components/ui/progress";
+import { ValuationControls } from "@/components/ValuationControls";
 import { useP2PLending } from "@/hooks/useP2PLending";
+import { usePythPrices } from "@/hooks/usePythPrices";
+import { useValuationSettings } from "@/hooks/useValuationSettings";
+import { getTokenByAddress } from "@/config/tokens";
 import { Loan } from "@/lib/contracts";
+import { collateralRatioBPS, getHealthBands } from "@/lib/loan-health";
+import { isOnChainValuation, valuePrice } from "@/lib/price-valuation";
 import { invalidateSubgraphCache } from "@/hooks/useSubgraphQuery";
 import {
   Shield,
@@ -48,9 +54,16 @@ export function LoanHealthManager({
     getLoanHealthFactor,
     getLoanRepaymentInfo,
     transactionState,
+    retryTransaction,
     isConnected,
     address,
   } = useP2PLending();
+  const runningStep = transactionState.steps?.find(
+    (step) => step.status === "running"
+  );
+  const failedStep = transactionState.steps?.find(
+    (step) => step.status === "error"
+  );
 
   const [healthData, setHealthData] = useState<{
     currentRatio: bigint;
@@ -64,6 +77,18 @@ export function LoanHealthManager({
     interestAccrued: bigint;
   } | null>(null);
 
+  // EMA, TWAP and conservative valuation reprice the loan off-chain from
+  // Pyth; the contract itself always values at the spot mid price
+  const { settings: valuation } = useValuationSettings();
+  const offChain = !isOnChainValuation(valuation);
+  const loanToken = getTokenByAddress(loan.tokenAddress);
+  const collateralToken = getTokenByAddress(loan.collateralAddress);
+  const { prices } = usePythPrices(
+    offChain && loan.status === 1 && loanToken && collateralToken
+      ? [loanToken.symbol, collateralToken.symbol]
+      : []
+  );
+
   const [addAmount, setAddAmount] = useState("");
   const [removeAmount, setRemoveAmount] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -108,6 +133,19 @@ export function LoanHealthManager({
     }
   };
 
+  // Resume a failed add from the step that failed
+  const handleRetry = async () => {
+    try {
+      await retryTransaction();
+      setAddAmount("");
+      invalidateSubgraphCache();
+      await fetchHealthData();
+      onUpdate?.();
+    } catch (error) {
+      console.error("Retry failed:", error);
+    }
+  };
+
   const handleRemoveCollateral = async () => {
     if (!removeAmount || !isConnected) return;
 
@@ -141,14 +179,47 @@ export function LoanHealthManager({
   const collateralDecimals = collateralInfo?.decimals || 6;
   const tokenDecimals = tokenInfo?.decimals || 6;
 
-  // Calculate health factor percentage (150% = healthy, 120% = liquidation threshold)
-  const healthPercentage = healthData
-    ? Math.min(Number(healthData.currentRatio) / 100, 300) // Cap at 300% for display
-    : 0;
-
-  const isHealthy = healthPercentage >= 150;
-  const isAtRisk = healthPercentage < 130 && healthPercentage >= 120;
-  const isDangerous = healthPercentage < 120;
+  // Bands come from the loan's own thresholds (see getHealthBands)
+  const bands = getHealthBands(loan);
+  const loanPrice = loanToken && prices.get(loanToken.symbol);
+  const collateralPrice = collateralToken && prices.get(collateralToken.symbol);
+  const loanValuation =
+    offChain && loanToken && loanPrice?.success
+      ? valuePrice(loanPrice, loanToken, "debt", valuation)
+      : null;
+  const collateralValuation =
+    offChain && collateralToken && collateralPrice?.success
+      ? valuePrice(collateralPrice, collateralToken, "collateral", valuation)
+      : null;
+  const offChainRatio =
+    loanValuation && collateralValuation
+      ? collateralRatioBPS(
+          loan,
+          { decimals: loanToken!.decimals, price: loanValuation.price },
+          {
+            decimals: collateralToken!.decimals,
+            price: collateralValuation.price,
+          }
+        )
+      : null;
+  // Names the prices behind the displayed ratio, e.g. "TWAP 5m, conservative"
+  const valuationLabel =
+    loanValuation && collateralValuation
+      ? Array.from(
+          new Set([loanValuation.label, collateralValuation.label])
+        ).join(" / ")
+      : "Spot, on-chain";
+  const ratioBPS = offChainRatio ?? healthData?.currentRatio;
+  const healthPercentage =
+    ratioBPS !== undefined
+      ? Math.min(Number(ratioBPS) / 100, 300) // Cap at 300% for display
+      : 0;
+
+  const isHealthy = healthPercentage >= bands.healthyBPS / 100;
+  const isAtRisk =
+    healthPercentage < bands.atRiskBPS / 100 &&
+    healthPercentage >= bands.liquidationBPS / 100;
+  const isDangerous = healthPercentage < bands.liquidationBPS / 100;
 
   const getHealthColor = () => {
     if (isDangerous) return "text-red-600";
@@ -185,7 +256,9 @@ export function LoanHealthManager({
         {healthData && (
           <div className="space-y-4">
             <div className="flex items-center justify-between">
-              <span className="text-sm font-medium">Health Factor</span>
+              <span className="text-sm font-medium">
+                Health Factor ({valuationLabel})
+              </span>
               <div className="flex items-center space-x-2">
                 <Badge
                   variant="outline"
@@ -205,6 +278,16 @@ export function LoanHealthManager({
               </div>
             </div>
 
+            {offChainRatio !== null && (
+              <div className="text-xs text-muted-foreground">
+                On-chain (spot):{" "}
+                {Math.min(Number(healthData.currentRatio) / 100, 300).toFixed(
+                  1
+                )}
+                %
+              </div>
+            )}
+
             <Progress
               value={Math.min(healthPercentage, 200)}
               max={200}
@@ -214,18 +297,20 @@ export function LoanHealthManager({
             <div className="grid grid-cols-3 gap-2 text-xs text-muted-foreground">
               <div className="text-center">
                 <div className="text-red-600">Liquidation</div>
-                <div>120%</div>
+                <div>{bands.liquidationBPS / 100}%</div>
               </div>
               <div className="text-center">
                 <div className="text-yellow-600">At Risk</div>
-                <div>130%</div>
+                <div>{bands.atRiskBPS / 100}%</div>
               </div>
               <div className="text-center">
                 <div className="text-green-600">Healthy</div>
-                <div>150%+</div>
+                <div>{bands.healthyBPS / 100}%+</div>
               </div>
             </div>
 
+            <ValuationControls idPrefix={`health-${loan.id}`} />
+
             {healthData.priceStale && (
               <div className="flex items-center space-x-2 p-2 bg-yellow-100 dark:bg-yellow-900/20 rounded-lg">
                 <AlertTriangle className="h-4 w-4 text-yellow-600" />
@@ -359,11 +444,9 @@ export function LoanHealthManager({
           <div className="flex items-center space-x-2 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
             <RefreshCw className="h-4 w-4 animate-spin text-blue-600" />
             <span className="text-sm text-blue-700 dark:text-blue-300">
-              {transactionState.step === "adding_collateral" &&
-                "Adding collateral..."}
-              {transactionState.step === "removing_collateral" &&
-                "Removing collateral..."}
-              {transactionState.step === "approving" && "Approving tokens..."}
+              {transactionState.step === "removing_collateral"
+                ? "Removing collateral..."
+                : `${runningStep?.title ?? "Processing"}...`}
             </span>
           </div>
         )}
@@ -380,9 +463,14 @@ export function LoanHealthManager({
         {transactionState.isError && (
           <div className="flex items-center space-x-2 p-3 bg-red-50 dark:bg-red-900/20 rounded-lg">
             <AlertTriangle className="h-4 w-4 text-red-600" />
-            <span className="text-sm text-red-700 dark:text-red-300">
+            <span className="flex-1 text-sm text-red-700 dark:text-red-300">
               {transactionState.error}
             </span>
+            {failedStep && (
+              <Button variant="outline" size="sm" onClick={handleRetry}>
+                Retry
+              </Button>
+            )}
           </div>
         )}
       </CardContent>
@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { LoanMarkerKind, useLoanPriceHistory } from "@/hooks/usePriceHistory";
+import type { ProcessedLoan } from "@/hooks/useSubgraphQuery";
+import { getTokenByAddress } from "@/config/tokens";
+import { LineChart as LineChartIcon, Loader2, RefreshCw } from "lucide-react";
+
+const MARKER_COLORS: Record<LoanMarkerKind, string> = {
+  created: "#3b82f6",
+  accepted: "#22c55e",
+  collateralAdded: "#8b5cf6",
+  collateralRemoved: "#f59e0b",
+  liquidated: "#ef4444",
+};
+
+const formatTime = (t: number) =>
+  new Date(t * 1000).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+interface LoanPriceChartProps {
+  loan: Pick<
+    ProcessedLoan,
+    | "id"
+    | "tokenAddress"
+    | "collateralAddress"
+    | "createdAt"
+    | "startTime"
+    | "status"
+  >;
+}
+
+/**
+ * Recorded prices of the loan and collateral tokens over the loan's
+ * lifetime, marked with its creation, acceptance, collateral changes and
+ * liquidation
+ */
+export function LoanPriceChart({ loan }: LoanPriceChartProps) {
+  const symbols = [loan.collateralAddress, loan.tokenAddress]
+    .map((address) => getTokenByAddress(address)?.symbol)
+    .filter((symbol): symbol is string => !!symbol);
+  const [selected, setSelected] = useState(0);
+  const symbol = symbols[Math.min(selected, symbols.length - 1)];
+
+  const { history, markers, range, loading, error, refresh } =
+    useLoanPriceHistory(loan, symbols);
+  const points = (symbol && history[symbol]) || [];
+
+  return (
+    <Card className="luxury-shadow">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <LineChartIcon className="h-5 w-5 text-primary" />
+              <span>Price History</span>
+            </CardTitle>
+            <CardDescription>
+              Oracle prices since the loan was created
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {symbols.map((option, index) => (
+              <Button
+                key={option}
+                variant={option === symbol ? "default" : "outline"}
+                size="sm"
+                onClick={() => setSelected(index)}
+              >
+                {option}
+              </Button>
+            ))}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={refresh}
+              disabled={loading}
+            >
+              {loading ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4" />
+              )}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : points.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {loading
+              ? "Loading price history..."
+              : "No prices have been recorded for this period yet."}
+          </p>
+        ) : (
+          <ResponsiveContainer width="100%" height={280}>
+            <LineChart data={points}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="t"
+                type="number"
+                scale="time"
+                domain={[range.from, range.to]}
+                tickFormatter={formatTime}
+              />
+              <YAxis
+                domain={["auto", "auto"]}
+                tickFormatter={(price: number) => `$${price.toLocaleString()}`}
+                width={80}
+              />
+              <Tooltip
+                labelFormatter={(t) => formatTime(Number(t))}
+                formatter={(price) => [
+                  `$${Number(price).toLocaleString(undefined, {
+                    maximumFractionDigits: 4,
+                  })}`,
+                  symbol,
+                ]}
+              />
+              <Line
+                type="monotone"
+                dataKey="price"
+                stroke="#8884d8"
+                dot={false}
+                isAnimationActive={false}
+              />
+              {markers.map((marker, index) => (
+                <ReferenceLine
+                  key={index}
+                  x={marker.t}
+                  stroke={MARKER_COLORS[marker.kind]}
+                  strokeDasharray="4 2"
+                  label={{
+                    value: marker.label,
+                    position: "insideTopLeft",
+                    fontSize: 11,
+                    fill: MARKER_COLORS[marker.kind],
+                  }}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import { useTheme } from "next-themes";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ConnectButton } from "@/components/ConnectButton";
+import { TransactionActivity } from "@/components/TransactionActivity";
 // import { FaucetDropdown } from "@/components/FaucetDropdown";
 import { useP2PLending } from "@/hooks/useP2PLending";
 import { useRewards } from "@/hooks/useRewards";
@@ -178,6 +179,9 @@ export function Navigation() {
                 </div>
               )}
 
+            {/* Transaction Activity */}
+            <TransactionActivity />
+
             {/* Address Display */}
             {/* {isConnected && address && (
               <div className="hidden sm:block">
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import {
   Card,
   CardContent,
@@ -29,8 +29,11 @@ import {
   Clock,
 } from "lucide-react";
 import { useP2PLending } from "@/hooks/useP2PLending";
+import { usePaginatedLoans } from "@/hooks/usePaginatedLoans";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
 import { ethers } from "ethers";
 import { getTokenByAddress } from "@/config/tokens";
+import { BorrowRequestStatus } from "@/lib/contracts";
 
 interface OrderBookProps {
   selectedToken?: string;
@@ -69,16 +72,18 @@ export function OrderBook({ selectedToken, onOrderSelect }: OrderBookProps) {
   const {
     address,
     isConnected,
-    activeLoanOfferIds,
     activeBorrowRequestIds,
-    isLoadingOffers,
     isLoadingRequests,
-    getLoan,
-    refetchOffers,
+    getBorrowRequest,
     refetchRequests,
   } = useP2PLending();
-  const [isLoading, setIsLoading] = useState(true);
-  const [loanOffers, setLoanOffers] = useState<LoanOffer[]>([]);
+  // Offers are read a page at a time; the next page loads on scroll
+  const offerPages = usePaginatedLoans("offers");
+  const offersSentinel = useInfiniteScroll(
+    offerPages.loadMore,
+    offerPages.hasMore && !offerPages.loadingMore
+  );
+  const [isLoadingRequestData, setIsLoadingRequestData] = useState(true);
   const [loanRequests, setLoanRequests] = useState<LoanRequest[]>([]);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
 
@@ -89,97 +94,51 @@ export function OrderBook({ selectedToken, onOrderSelect }: OrderBookProps) {
   useEffect(() => {
     const fetchOrderBookData = async () => {
       if (!isConnected) {
-        setIsLoading(false);
+        setIsLoadingRequestData(false);
         return;
       }
 
       // Use the loading states from the hook
-      if (isLoadingOffers || isLoadingRequests) {
-        setIsLoading(true);
+      if (isLoadingRequests) {
+        setIsLoadingRequestData(true);
         return;
       }
 
-      setIsLoading(true);
+      setIsLoadingRequestData(true);
 
       try {
-        const offers: LoanOffer[] = [];
         const requests: LoanRequest[] = [];
 
-        // Process loan offers if available
-        if (activeLoanOfferIds && activeLoanOfferIds.length > 0) {
-          for (const offerId of activeLoanOfferIds) {
-            try {
-              const loan = await getLoan(offerId);
-
-              // Only include pending loan offers (lender exists, borrower is zero address)
-              if (
-                loan &&
-                loan.status === 0 &&
-                loan.lender !== ethers.ZeroAddress &&
-                loan.borrower === ethers.ZeroAddress
-              ) {
-                const tokenInfo = getTokenByAddress(loan.tokenAddress);
-                const collateralInfo = getTokenByAddress(
-                  loan.collateralAddress
-                );
-
-                offers.push({
-                  id: loan.id.toString(),
-                  lender: loan.lender,
-                  tokenAddress: loan.tokenAddress,
-                  amount: ethers.formatUnits(
-                    loan.amount,
-                    tokenInfo?.decimals || 18
-                  ),
-                  interestRate: Number(loan.interestRate), // Already in basis points
-                  duration: Number(loan.duration) / (24 * 60 * 60), // Convert seconds to days
-                  collateralAddress: loan.collateralAddress,
-                  collateralAmount: ethers.formatUnits(
-                    loan.collateralAmount,
-                    collateralInfo?.decimals || 18
-                  ),
-                  liquidityUSD: "$0.00", // TODO: Calculate based on token prices
-                  tokenInfo,
-                  collateralInfo,
-                });
-              }
-            } catch (error) {
-              console.error(`Error fetching loan ${offerId}:`, error);
-            }
-          }
-        }
-
         // Process borrow requests if available
         if (activeBorrowRequestIds && activeBorrowRequestIds.length > 0) {
           for (const requestId of activeBorrowRequestIds) {
             try {
-              const loan = await getLoan(requestId);
+              const request = await getBorrowRequest(requestId);
 
-              // Only include pending borrow requests (borrower exists, lender is zero address)
+              // Only include open borrow requests
               if (
-                loan &&
-                loan.status === 0 &&
-                loan.borrower !== ethers.ZeroAddress &&
-                loan.lender === ethers.ZeroAddress
+                request &&
+                request.status === BorrowRequestStatus.Open &&
+                request.borrower !== ethers.ZeroAddress
               ) {
-                const tokenInfo = getTokenByAddress(loan.tokenAddress);
+                const tokenInfo = getTokenByAddress(request.tokenAddress);
                 const collateralInfo = getTokenByAddress(
-                  loan.collateralAddress
+                  request.collateralAddress
                 );
 
                 requests.push({
-                  id: loan.id.toString(),
-                  borrower: loan.borrower,
-                  tokenAddress: loan.tokenAddress,
+                  id: request.id.toString(),
+                  borrower: request.borrower,
+                  tokenAddress: request.tokenAddress,
                   amount: ethers.formatUnits(
-                    loan.amount,
+                    request.amount,
                     tokenInfo?.decimals || 18
                   ),
-                  maxInterestRate: Number(loan.interestRate), // Already in basis points
-                  duration: Number(loan.duration) / (24 * 60 * 60), // Convert seconds to days
-                  collateralAddress: loan.collateralAddress,
+                  maxInterestRate: Number(request.maxInterestRate), // Already in basis points
+                  duration: Number(request.duration) / (24 * 60 * 60), // Convert seconds to days
+                  collateralAddress: request.collateralAddress,
                   collateralAmount: ethers.formatUnits(
-                    loan.collateralAmount,
+                    request.collateralAmount,
                     collateralInfo?.decimals || 18
                   ),
                   liquidityUSD: "$0.00", // TODO: Calculate based on token prices
@@ -194,29 +153,21 @@ export function OrderBook({ selectedToken, onOrderSelect }: OrderBookProps) {
         }
 
         // Filter by selected token if specified
-        const filteredOffers = selectedToken
-          ? offers.filter((offer) => offer.tokenInfo?.symbol === selectedToken)
-          : offers;
-
         const filteredRequests = selectedToken
           ? requests.filter(
               (request) => request.tokenInfo?.symbol === selectedToken
             )
           : requests;
 
-        // Sort offers by interest rate (ascending - best rates first)
-        filteredOffers.sort((a, b) => a.interestRate - b.interestRate);
-
         // Sort requests by max interest rate (descending - highest rates first)
         filteredRequests.sort((a, b) => b.maxInterestRate - a.maxInterestRate);
 
-        setLoanOffers(filteredOffers);
         setLoanRequests(filteredRequests);
         setLastUpdated(new Date());
       } catch (error) {
         console.error("Error fetching order book data:", error);
       } finally {
-        setIsLoading(false);
+        setIsLoadingRequestData(false);
       }
     };
 
@@ -224,17 +175,58 @@ export function OrderBook({ selectedToken, onOrderSelect }: OrderBookProps) {
   }, [
     selectedToken,
     isConnected,
-    activeLoanOfferIds,
     activeBorrowRequestIds,
-    isLoadingOffers,
     isLoadingRequests,
-    getLoan,
+    getBorrowRequest,
     refreshTrigger,
   ]);
 
+  // Only pending offers (lender set, no borrower yet). Offers load newest
+  // first a page at a time, so they're only ranked by rate once every page
+  // is in; until then a "best" rate could still be on an unloaded page.
+  const loanOffers = useMemo(() => {
+    const offers: LoanOffer[] = [];
+    for (const loan of offerPages.loans) {
+      if (
+        loan.status !== 0 ||
+        loan.lender === ethers.ZeroAddress ||
+        loan.borrower !== ethers.ZeroAddress
+      ) {
+        continue;
+      }
+      const tokenInfo = getTokenByAddress(loan.tokenAddress);
+      const collateralInfo = getTokenByAddress(loan.collateralAddress);
+      if (selectedToken && tokenInfo?.symbol !== selectedToken) continue;
+
+      offers.push({
+        id: loan.id.toString(),
+        lender: loan.lender,
+        tokenAddress: loan.tokenAddress,
+        amount: ethers.formatUnits(loan.amount, tokenInfo?.decimals || 18),
+        interestRate: Number(loan.interestRate), // Already in basis points
+        duration: Number(loan.duration) / (24 * 60 * 60), // Convert seconds to days
+        collateralAddress: loan.collateralAddress,
+        collateralAmount: ethers.formatUnits(
+          loan.collateralAmount,
+          collateralInfo?.decimals || 18
+        ),
+        liquidityUSD: "$0.00", // TODO: Calculate based on token prices
+        tokenInfo,
+        collateralInfo,
+      });
+    }
+    return offerPages.hasMore
+      ? offers
+      : offers.sort((a, b) => a.interestRate - b.interestRate);
+  }, [offerPages.loans, offerPages.hasMore, selectedToken]);
+
+  const isLoading =
+    isLoadingRequestData ||
+    (offerPages.loading && offerPages.loans.length === 0);
+
   const handleRefresh = () => {
     // Trigger refetch from the hook and local refresh
-    refetchOffers();
+    offerPages.refresh();
     refetchRequests();
     setRefreshTrigger((prev) => prev + 1);
   };
@@ -313,9 +305,15 @@ export function OrderBook({ selectedToken, onOrderSelect }: OrderBookProps) {
                   variant="outline"
                   className="text-xs bg-green-50 text-green-700 border-green-200"
                 >
-                  {loanOffers.length} offers
+                  {loanOffers.length}
+                  {offerPages.hasMore ? "+" : ""} offers
                 </Badge>
               </div>
+              <p className="text-xs text-muted-foreground">
+                {offerPages.hasMore
+                  ? `Newest first, ${offerPages.loans.length} of ${offerPages.total} loaded; sorted by APR once all are loaded`
+                  : "Lowest APR first"}
+              </p>
 
               <div className="space-y-1">
                 <div className="grid grid-cols-3 gap-2 text-xs font-medium text-muted-foreground px-2 py-1">
@@ -324,7 +322,7 @@ export function OrderBook({ selectedToken, onOrderSelect }: OrderBookProps) {
                   <span className="text-right">Liquidity</span>
                 </div>
 
-                {loanOffers.length === 0 ? (
+                {loanOffers.length === 0 && !offerPages.hasMore ? (
                   <div className="text-center py-8 text-muted-foreground">
                     <TrendingUp className="h-8 w-8 mx-auto mb-2 opacity-50" />
                     <p className="text-sm">No lend offers available</p>
@@ -348,6 +346,14 @@ export function OrderBook({ selectedToken, onOrderSelect }: OrderBookProps) {
                         </div>
                       </div>
                     ))}
+                    {offerPages.hasMore && (
+                      <div
+                        ref={offersSentinel}
+                        className="flex items-center justify-center py-2 text-xs text-muted-foreground"
+                      >
+                        Loading more offers…
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
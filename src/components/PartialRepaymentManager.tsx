@@ -42,9 +42,16 @@ export function PartialRepaymentManager({
     makePartialRepayment,
     getLoanRepaymentInfo,
     transactionState,
+    retryTransaction,
     isConnected,
     address,
   } = useP2PLending();
+  const runningStep = transactionState.steps?.find(
+    (step) => step.status === "running"
+  );
+  const failedStep = transactionState.steps?.find(
+    (step) => step.status === "error"
+  );
 
   const [repaymentInfo, setRepaymentInfo] = useState<{
     totalOwed: bigint;
@@ -99,6 +106,19 @@ export function PartialRepaymentManager({
     }
   };
 
+  // Resume a failed repayment from the step that failed
+  const handleRetry = async () => {
+    try {
+      await retryTransaction();
+      setRepaymentAmount("");
+      invalidateSubgraphCache();
+      await fetchRepaymentData();
+      onUpdate?.();
+    } catch (error) {
+      console.error("Retry failed:", error);
+    }
+  };
+
   // Only show for active loans and if user is the borrower
   if (
     loan.status !== 1 ||
@@ -265,7 +285,7 @@ export function PartialRepaymentManager({
             )}
 
             <div className="text-xs text-muted-foreground">
-              Partial repayments reduce your total debt and interest burden
+              Partial repayments reduce what you owe; interest keeps accruing on the original principal until the loan is closed
             </div>
           </div>
         </div>
@@ -279,8 +299,8 @@ export function PartialRepaymentManager({
                 Benefits of Partial Repayment
               </div>
               <ul className="text-green-600 dark:text-green-400 text-xs space-y-1">
-                <li>• Reduces total interest paid over time</li>
-                <li>• Improves loan health factor</li>
+                <li>• Spreads repayment over the loan term</li>
+                <li>• Lowers the final payment</li>
                 <li>• Flexible repayment schedule</li>
                 <li>• No prepayment penalties</li>
               </ul>
@@ -293,9 +313,7 @@ export function PartialRepaymentManager({
           <div className="flex items-center space-x-2 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
             <RefreshCw className="h-4 w-4 animate-spin text-blue-600" />
             <span className="text-sm text-blue-700 dark:text-blue-300">
-              {transactionState.step === "partial_repaying" &&
-                "Processing partial repayment..."}
-              {transactionState.step === "approving" && "Approving tokens..."}
+              {runningStep?.title ?? "Processing partial repayment"}...
             </span>
           </div>
         )}
@@ -312,9 +330,18 @@ export function PartialRepaymentManager({
         {transactionState.isError && (
           <div className="flex items-center space-x-2 p-3 bg-red-50 dark:bg-red-900/20 rounded-lg">
             <AlertTriangle className="h-4 w-4 text-red-600" />
-            <span className="text-sm text-red-700 dark:text-red-300">
+            <span className="flex-1 text-sm text-red-700 dark:text-red-300">
               {transactionState.error}
             </span>
+            {failedStep && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRetry}
+              >
+                Retry
+              </Button>
+            )}
           </div>
         )}
       </CardContent>
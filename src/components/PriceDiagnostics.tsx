@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getAllSupportedTokens } from "@/config/tokens";
+import { usePythPrices } from "@/hooks/usePythPrices";
+import { usePriceStream } from "@/context/price-stream";
+import { pythPriceService } from "@/lib/pyth-price-service";
+import { EndpointHealth } from "@/lib/hermes-endpoints";
+import { Activity, Loader2, RefreshCw } from "lucide-react";
+
+const SYMBOLS = getAllSupportedTokens()
+  .filter((token) => token.isAvailable)
+  .map((token) => token.symbol);
+
+const hostOf = (url: string) => url.replace(/^https?:\/\//, "");
+
+/**
+ * Health of each Hermes endpoint and, per feed, the latest price with the
+ * endpoint that served it and why it was rejected if it was.
+ */
+export function PriceDiagnostics() {
+  const { prices, isLoading, lastUpdated, refreshPrices } =
+    usePythPrices(SYMBOLS);
+  const stream = usePriceStream();
+  const [endpoints, setEndpoints] = useState<EndpointHealth[]>(() =>
+    pythPriceService.endpoints.snapshot()
+  );
+  const [now, setNow] = useState(() => Date.now());
+
+  // Endpoint health changes outside React; sample it alongside the clock
+  useEffect(() => {
+    const sample = () => {
+      setEndpoints(pythPriceService.endpoints.snapshot());
+      setNow(Date.now());
+    };
+    sample();
+    const interval = setInterval(sample, 5000);
+    return () => clearInterval(interval);
+  }, [lastUpdated]);
+
+  return (
+    <Card className="luxury-shadow-lg glass">
+      <CardHeader className="gradient-bg">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <Activity className="h-5 w-5 text-primary" />
+              <span>Price Feed Diagnostics</span>
+            </CardTitle>
+            <CardDescription>
+              Hermes endpoints and the source of each price
+              {stream ? ` (stream: ${stream.status})` : ""}
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={refreshPrices}
+            disabled={isLoading}
+          >
+            {isLoading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Endpoint</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Health</TableHead>
+              <TableHead>OK / Failed</TableHead>
+              <TableHead>Latency</TableHead>
+              <TableHead>Last Error</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {endpoints.map((endpoint) => (
+              <TableRow key={endpoint.url}>
+                <TableCell className="font-medium">
+                  {hostOf(endpoint.url)}
+                </TableCell>
+                <TableCell>
+                  {endpoint.coolingDownUntil > now ? (
+                    <Badge variant="destructive">Cooling down</Badge>
+                  ) : (
+                    <Badge variant="secondary">Available</Badge>
+                  )}
+                </TableCell>
+                <TableCell>{Math.round(endpoint.score * 100)}%</TableCell>
+                <TableCell>
+                  {endpoint.successes} / {endpoint.failures}
+                </TableCell>
+                <TableCell>
+                  {endpoint.lastLatencyMs === null
+                    ? "—"
+                    : `${endpoint.lastLatencyMs}ms`}
+                </TableCell>
+                <TableCell className="max-w-xs truncate text-xs text-muted-foreground">
+                  {endpoint.lastError ?? "—"}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Feed</TableHead>
+              <TableHead>Price</TableHead>
+              <TableHead>Confidence</TableHead>
+              <TableHead>Age</TableHead>
+              <TableHead>Served By</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {SYMBOLS.map((symbol) => {
+              const price = prices.get(symbol);
+              const value = Number(price?.price ?? 0);
+              const confidence =
+                value > 0 ? (Number(price!.confidence) / value) * 100 : null;
+
+              return (
+                <TableRow key={symbol}>
+                  <TableCell className="font-medium">{symbol}</TableCell>
+                  <TableCell>
+                    {price?.success ? `$${price.priceUSD}` : "—"}
+                  </TableCell>
+                  <TableCell>
+                    {confidence === null ? "—" : `±${confidence.toFixed(3)}%`}
+                  </TableCell>
+                  <TableCell>
+                    {price?.success
+                      ? `${Math.max(0, Math.floor(now / 1000) - price.publishTime)}s`
+                      : "—"}
+                  </TableCell>
+                  <TableCell>
+                    {price?.endpoint ? hostOf(price.endpoint) : "—"}
+                  </TableCell>
+                  <TableCell>
+                    {!price ? (
+                      <span className="text-muted-foreground">Loading</span>
+                    ) : !price.success ? (
+                      <Badge variant="destructive" title={price.error}>
+                        Failed
+                      </Badge>
+                    ) : price.isStale ? (
+                      <Badge variant="outline">Stale</Badge>
+                    ) : (
+                      <Badge variant="secondary">OK</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {SYMBOLS.map((symbol) => {
+          const error = prices.get(symbol)?.error;
+          return error ? (
+            <p key={symbol} className="text-xs text-muted-foreground">
+              {symbol}: {error}
+            </p>
+          ) : null;
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,292 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loan } from "@/lib/contracts";
+import {
+  RepaymentSchedule,
+  ScheduleKind,
+  buildBalloonSchedule,
+  buildCustomSchedule,
+  buildEqualSchedule,
+  loanMaturity,
+  scheduleToCalendarEvents,
+} from "@/lib/repayment-schedule";
+import { buildICS, downloadICS } from "@/lib/ics";
+import { CalendarDays, Download, Plus, Trash2 } from "lucide-react";
+import { ethers } from "ethers";
+
+interface TokenInfo {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+interface RepaymentPlannerProps {
+  loan: Loan;
+  tokenInfo?: TokenInfo;
+}
+
+interface CustomRow {
+  date: string;
+  amount: string;
+}
+
+// yyyy-mm-dd (local) <-> unix seconds, pinned to local noon
+const toDateInput = (timestamp: bigint) => {
+  const date = new Date(Number(timestamp) * 1000);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+};
+const fromDateInput = (value: string) =>
+  BigInt(Math.floor(new Date(`${value}T12:00`).getTime() / 1000));
+
+export function RepaymentPlanner({ loan, tokenInfo }: RepaymentPlannerProps) {
+  const [kind, setKind] = useState<ScheduleKind>("equal");
+  const [count, setCount] = useState("4");
+  const [endDate, setEndDate] = useState("");
+  const [customRows, setCustomRows] = useState<CustomRow[]>([
+    { date: "", amount: "" },
+  ]);
+
+  const tokenDecimals = tokenInfo?.decimals || 6;
+  const tokenSymbol = tokenInfo?.symbol || "TOKEN";
+  const maturity = loanMaturity(loan);
+
+  const formatAmount = (amount: bigint) =>
+    `${parseFloat(
+      ethers.formatUnits(amount, tokenDecimals)
+    ).toLocaleString()} ${tokenSymbol}`;
+
+  const { schedule, error } = useMemo((): {
+    schedule?: RepaymentSchedule;
+    error?: string;
+  } => {
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    try {
+      if (kind === "custom") {
+        const entries = customRows
+          .filter((row) => row.date)
+          .map((row) => ({
+            dueAt: fromDateInput(row.date),
+            amount: row.amount
+              ? ethers.parseUnits(row.amount, tokenDecimals)
+              : undefined,
+          }));
+        return { schedule: buildCustomSchedule(loan, entries, now) };
+      }
+
+      // A date on the due day itself means "at maturity"
+      const chosen = endDate ? fromDateInput(endDate) : maturity;
+      const until = chosen < maturity ? chosen : maturity;
+      const build =
+        kind === "equal" ? buildEqualSchedule : buildBalloonSchedule;
+      return { schedule: build(loan, Number(count), now, until) };
+    } catch (err) {
+      return {
+        error: err instanceof Error ? err.message : "Invalid schedule",
+      };
+    }
+  }, [kind, count, endDate, customRows, loan, maturity, tokenDecimals]);
+
+  const updateRow = (index: number, update: Partial<CustomRow>) =>
+    setCustomRows((rows) =>
+      rows.map((row, i) => (i === index ? { ...row, ...update } : row))
+    );
+
+  const handleExport = () => {
+    if (!schedule) return;
+    const url =
+      typeof window !== "undefined" ? window.location.href : undefined;
+    const ics = buildICS(
+      scheduleToCalendarEvents(schedule, loan.id, formatAmount, url),
+      `neurolend loan #${loan.id}`
+    );
+    downloadICS(ics, `neurolend-loan-${loan.id}-${schedule.kind}`);
+  };
+
+  return (
+    <Card className="luxury-shadow">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <CalendarDays className="h-5 w-5 text-primary" />
+          <span>Repayment Planner</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Tabs
+          value={kind}
+          onValueChange={(value) => setKind(value as ScheduleKind)}
+        >
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="equal">Equal</TabsTrigger>
+            <TabsTrigger value="balloon">Balloon</TabsTrigger>
+            <TabsTrigger value="custom">Custom</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {kind === "custom" ? (
+          <div className="space-y-2">
+            <div className="text-xs text-muted-foreground">
+              Leave the amount empty to close the loan on that date.
+            </div>
+            {customRows.map((row, i) => (
+              <div key={i} className="flex space-x-2">
+                <Input
+                  type="date"
+                  value={row.date}
+                  max={toDateInput(maturity)}
+                  onChange={(e) => updateRow(i, { date: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  placeholder="Pay in full"
+                  value={row.amount}
+                  onChange={(e) => updateRow(i, { amount: e.target.value })}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setCustomRows((rows) => rows.filter((_, j) => j !== i))
+                  }
+                  disabled={customRows.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setCustomRows((rows) => [...rows, { date: "", amount: "" }])
+              }
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add payment
+            </Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="planner-count">Payments</Label>
+              <Input
+                id="planner-count"
+                type="number"
+                min={1}
+                value={count}
+                onChange={(e) => setCount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="planner-end">Pay off by</Label>
+              <Input
+                id="planner-end"
+                type="date"
+                max={toDateInput(maturity)}
+                value={endDate || toDateInput(maturity)}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+            <div className="col-span-2 text-xs text-muted-foreground">
+              {kind === "equal"
+                ? "Equal payments that clear the loan by the payoff date."
+                : "Pay the interest each period and the principal in one final payment."}
+            </div>
+          </div>
+        )}
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {schedule && (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">Payment</TableHead>
+                  <TableHead className="text-right">Remaining</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedule.installments.map((installment) => (
+                  <TableRow key={installment.dueAt.toString()}>
+                    <TableCell>
+                      {new Date(
+                        Number(installment.dueAt) * 1000
+                      ).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatAmount(installment.amount)}
+                      {installment.isFinal && (
+                        <Badge variant="outline" className="ml-2">
+                          Full
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatAmount(installment.remainingAfter)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Separator />
+
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Total interest</span>
+                <span className="font-medium">
+                  {formatAmount(schedule.totalInterest)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">
+                  Interest if repaid at maturity
+                </span>
+                <span className="font-medium">
+                  {formatAmount(schedule.maturityInterest)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Interest saved</span>
+                <span className="font-semibold text-green-600">
+                  {formatAmount(schedule.interestSaved)}
+                </span>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Interest accrues on the original principal until the loan is
+                closed, so only an earlier payoff date lowers it. The final
+                payment must be a full repayment, made before{" "}
+                {new Date(Number(maturity) * 1000).toLocaleString()}.
+              </div>
+            </div>
+
+            <Button variant="outline" onClick={handleExport} className="w-full">
+              <Download className="h-4 w-4 mr-1" />
+              Add reminders to calendar (.ics)
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
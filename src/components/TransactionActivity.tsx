@@ -0,0 +1,165 @@
+"use client";
+
+import Link from "next/link";
+import { useAppKitAccount } from "@reown/appkit/react";
+import {
+  Activity,
+  CheckCircle,
+  ExternalLink,
+  Loader2,
+  XCircle,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { getExplorerUrl, getNetwork } from "@/config/networks";
+import { useTransactionJournal } from "@/hooks/useTransactionJournal";
+import type { JournalEntry, JournalStatus } from "@/lib/tx-journal";
+
+const STATUS_BADGES: Record<
+  JournalStatus,
+  {
+    label: string;
+    variant: "default" | "secondary" | "destructive" | "outline";
+  }
+> = {
+  pending: { label: "Pending", variant: "secondary" },
+  confirmed: { label: "Confirmed", variant: "default" },
+  failed: { label: "Failed", variant: "destructive" },
+  dropped: { label: "Dropped", variant: "outline" },
+};
+
+function StatusIcon({ status }: { status: JournalStatus }) {
+  if (status === "pending") {
+    return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+  }
+  if (status === "confirmed") {
+    return <CheckCircle className="h-4 w-4 text-green-500" />;
+  }
+  return <XCircle className="h-4 w-4 text-destructive" />;
+}
+
+function ActivityItem({ entry }: { entry: JournalEntry }) {
+  const network = getNetwork(entry.chainId);
+  const explorer = getExplorerUrl(network);
+  const badge = STATUS_BADGES[entry.status];
+
+  return (
+    <li className="flex items-start gap-3 rounded-xl border border-border/50 p-3">
+      <StatusIcon status={entry.status} />
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-medium">{entry.description}</span>
+          <Badge variant={badge.variant}>{badge.label}</Badge>
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {new Date(entry.submittedAt).toLocaleString()} · {network.chain.name}
+        </div>
+        {entry.error && (
+          <div className="text-xs text-destructive">{entry.error}</div>
+        )}
+        <div className="flex items-center gap-3 text-xs">
+          {explorer ? (
+            <a
+              href={`${explorer}/tx/${entry.hash}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 font-mono text-primary hover:underline"
+            >
+              {entry.hash.slice(0, 10)}...{entry.hash.slice(-8)}
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          ) : (
+            <span className="font-mono text-muted-foreground">
+              {entry.hash.slice(0, 10)}...{entry.hash.slice(-8)}
+            </span>
+          )}
+          {entry.loanId && (
+            <Link
+              href={`/my-loans/${entry.loanId}`}
+              className="text-primary hover:underline"
+            >
+              View loan
+            </Link>
+          )}
+        </div>
+      </div>
+    </li>
+  );
+}
+
+// Navigation button and drawer listing the connected wallet's transactions.
+// Also keeps polling pending ones, including those from before a reload.
+export function TransactionActivity() {
+  const { address, isConnected } = useAppKitAccount();
+  const { entries, pendingCount, clearFinished } = useTransactionJournal(
+    address,
+    { watch: true }
+  );
+
+  if (!isConnected) return null;
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative h-9 w-9 p-0 rounded-xl hover:bg-accent hover:scale-105 transition-all duration-300"
+        >
+          {pendingCount > 0 ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Activity className="h-4 w-4" />
+          )}
+          {pendingCount > 0 && (
+            <Badge className="absolute -top-1 -right-1 h-4 min-w-4 px-1 text-[10px]">
+              {pendingCount}
+            </Badge>
+          )}
+          <span className="sr-only">Transaction activity</span>
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Activity</SheetTitle>
+          <SheetDescription>
+            Transactions sent from this browser. Pending ones keep updating
+            after a reload.
+          </SheetDescription>
+        </SheetHeader>
+        <div className="flex-1 overflow-y-auto px-4">
+          {entries.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No transactions yet
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {entries.map((entry) => (
+                <ActivityItem key={entry.hash} entry={entry} />
+              ))}
+            </ul>
+          )}
+        </div>
+        {entries.length > pendingCount && (
+          <div className="p-4">
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={clearFinished}
+            >
+              Clear finished
+            </Button>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -12,72 +12,33 @@ import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { CheckCircle, AlertCircle, Loader2, ArrowRight } from "lucide-react";
 import { toast } from "sonner";
-
-interface TransactionState {
-  step:
-    | "idle"
-    | "approving"
-    | "approved"
-    | "creating"
-    | "accepting"
-    | "repaying"
-    | "liquidating"
-    | "cancelling"
-    | "adding_collateral"
-    | "removing_collateral"
-    | "partial_repaying"
-    | "success"
-    | "error";
-  isLoading: boolean;
-  isSuccess: boolean;
-  isError: boolean;
-  error: string | null;
-  hash: string | null;
-}
+import { ethers } from "ethers";
+import { useNetwork } from "@/hooks/useNetwork";
+import type { TransactionState } from "@/hooks/useP2PLending";
+import type { StepState, StepStatus } from "@/lib/tx-orchestrator";
 
 interface TransactionModalProps {
   isOpen: boolean;
   onClose: () => void;
   transactionState: TransactionState;
   onReset: () => void;
+  // Re-run the failed step; earlier steps are not repeated
+  onRetry?: () => Promise<unknown>;
   onCreateAnother?: () => void;
   onViewLoans?: () => void;
   title?: string;
   successTitle?: string;
   successDescription?: string;
-  steps?: {
-    approval: {
-      title: string;
-      description: string;
-      loadingText: string;
-      successText: string;
-      errorText: string;
-    };
-    transaction: {
-      title: string;
-      description: string;
-      loadingText: string;
-      successText: string;
-      errorText: string;
-    };
-  };
 }
 
-const defaultSteps = {
-  approval: {
-    title: "Approve Token Spending",
-    description: "Allow the contract to spend your tokens",
-    loadingText: "Waiting for wallet confirmation...",
-    successText: "Token spending approved successfully",
-    errorText: "Failed to approve token spending",
-  },
-  transaction: {
-    title: "Create Loan Offer",
-    description: "Submit the loan offer to the blockchain",
-    loadingText: "Creating your loan offer on-chain...",
-    successText: "Loan offer created successfully!",
-    errorText: "Failed to create loan offer",
-  },
+type StepIconStatus = "idle" | "loading" | "success" | "skipped" | "error";
+
+const STEP_ICON_STATUS: Record<StepStatus, StepIconStatus> = {
+  pending: "idle",
+  running: "loading",
+  done: "success",
+  skipped: "skipped",
+  error: "error",
 };
 
 export function TransactionModal({
@@ -85,13 +46,19 @@ export function TransactionModal({
   onClose,
   transactionState,
   onReset,
+  onRetry,
   onCreateAnother,
   onViewLoans,
   title = "Transaction in Progress",
   successTitle = "Transaction Complete!",
   successDescription = "Your transaction has been completed successfully!",
-  steps = defaultSteps,
 }: TransactionModalProps) {
+  const { network } = useNetwork();
+  const [isRetrying, setIsRetrying] = React.useState(false);
+  const steps = transactionState.steps ?? [];
+  const activeStep = steps.find((step) => step.status === "running");
+  const failedStep = steps.find((step) => step.status === "error");
+
   // Track if we've already shown a toast for this error to prevent duplicates
   const [shownErrorHash, setShownErrorHash] = React.useState<string | null>(
     null
@@ -108,15 +75,20 @@ export function TransactionModal({
 
         // Extract just the error title/type, not the full message
         let errorTitle = "Transaction Failed";
-        if (transactionState.error.includes("User rejected")) {
+        if (transactionState.error.includes("rejected in your wallet")) {
           errorTitle = "Transaction Cancelled";
-        } else if (transactionState.error.includes("insufficient funds")) {
+        } else if (
+          transactionState.error.includes("Not enough native balance")
+        ) {
           errorTitle = "Insufficient Funds";
         } else if (
           transactionState.error.includes("Interest rate cannot exceed")
         ) {
           errorTitle = "Invalid Interest Rate";
-        } else if (transactionState.error.includes("require(false)")) {
+        } else if (
+          transactionState.error.includes("without a reason") ||
+          transactionState.preflight?.ok === false
+        ) {
           errorTitle = "Validation Error";
         }
 
@@ -147,28 +119,6 @@ export function TransactionModal({
       setShownErrorHash(null);
     }
   }, [transactionState.isError]);
-  const getStepStatus = (step: "approving" | "creating") => {
-    if (transactionState.step === step && transactionState.isLoading) {
-      return "loading";
-    }
-    if (transactionState.step === step && transactionState.isError) {
-      return "error";
-    }
-    // Approval is successful when we move to creating step or beyond
-    if (
-      step === "approving" &&
-      (transactionState.step === "creating" ||
-        transactionState.step === "success")
-    ) {
-      return "success";
-    }
-    // Creating is only successful when we reach the final success step
-    if (step === "creating" && transactionState.step === "success") {
-      return "success";
-    }
-    return "idle";
-  };
-
   const getModalTitle = () => {
     if (transactionState.isSuccess && transactionState.step === "success") {
       return successTitle;
@@ -176,13 +126,7 @@ export function TransactionModal({
     if (transactionState.isError) {
       return "Transaction Failed";
     }
-    if (transactionState.step === "approving") {
-      return "Approving Token Spending";
-    }
-    if (transactionState.step === "creating") {
-      return "Creating Loan Offer";
-    }
-    return title;
+    return activeStep?.title ?? title;
   };
 
   const getModalDescription = () => {
@@ -190,17 +134,25 @@ export function TransactionModal({
       return successDescription;
     }
     if (transactionState.isError) {
-      return "There was an issue with your transaction. Please try again.";
-    }
-    if (transactionState.step === "approving") {
-      return "Please confirm the token approval in your wallet.";
-    }
-    if (transactionState.step === "creating") {
-      return "Please confirm the transaction in your wallet and wait for it to complete.";
+      return failedStep && onRetry
+        ? `${failedStep.title} failed. Retry to continue from this step.`
+        : "There was an issue with your transaction. Please try again.";
     }
     return "Please confirm the transactions in your wallet and wait for them to complete.";
   };
 
+  const handleRetry = async () => {
+    if (!onRetry) return;
+    setIsRetrying(true);
+    try {
+      await onRetry();
+    } catch {
+      // The failure is shown through transactionState
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
   const StepIcon = ({ status }: { status: string }) => {
     switch (status) {
       case "loading":
@@ -221,6 +173,12 @@ export function TransactionModal({
             <AlertCircle className="h-5 w-5 text-red-600" />
           </div>
         );
+      case "skipped":
+        return (
+          <div className="w-8 h-8 rounded-full border-2 border-emerald-500/40 flex items-center justify-center">
+            <CheckCircle className="h-4 w-4 text-emerald-600/60" />
+          </div>
+        );
       default:
         return (
           <div className="w-8 h-8 rounded-full border-2 border-muted-foreground/30 flex items-center justify-center">
@@ -230,18 +188,18 @@ export function TransactionModal({
     }
   };
 
-  const getStepText = (step: "approving" | "creating", status: string) => {
-    const stepConfig = steps[step === "approving" ? "approval" : "transaction"];
-
-    switch (status) {
-      case "loading":
-        return stepConfig.loadingText;
-      case "success":
-        return stepConfig.successText;
+  const getStepText = (step: StepState) => {
+    switch (step.status) {
+      case "done":
+        return step.hash
+          ? `Confirmed: ${step.hash.slice(0, 10)}...${step.hash.slice(-8)}`
+          : "Done";
+      case "skipped":
+        return "Not needed";
       case "error":
-        return stepConfig.errorText;
+        return step.error ?? "Failed";
       default:
-        return stepConfig.description;
+        return step.description;
     }
   };
 
@@ -296,52 +254,100 @@ export function TransactionModal({
 
         <div className="space-y-6 py-6">
           {/* Progress Steps */}
-          <div className="space-y-4">
-            {/* Step 1: Approval */}
-            <div className="flex items-center space-x-4">
-              <div className="flex-shrink-0">
-                <StepIcon status={getStepStatus("approving")} />
-              </div>
-              <div className="flex-1">
-                <h3
-                  className={`font-semibold ${getStepTextColor(getStepStatus("approving"))}`}
-                >
-                  {steps.approval.title}
-                </h3>
-                <p className="text-sm text-muted-foreground">
-                  {getStepText("approving", getStepStatus("approving"))}
-                </p>
-              </div>
-            </div>
-
-            {/* Connector Line */}
-            <div className="flex justify-center">
-              <div
-                className={`w-0.5 h-8 transition-colors duration-300 ${
-                  getStepStatus("approving") === "success"
-                    ? "bg-emerald-500"
-                    : "bg-muted-foreground/30"
-                }`}
-              />
+          {steps.length > 0 && (
+            <div className="space-y-2">
+              {steps.map((step, index) => {
+                const status = STEP_ICON_STATUS[step.status];
+                return (
+                  <React.Fragment key={step.id}>
+                    {index > 0 && (
+                      <div className="flex w-8 justify-center">
+                        <div
+                          className={`w-0.5 h-4 transition-colors duration-300 ${
+                            step.status === "pending"
+                              ? "bg-muted-foreground/30"
+                              : "bg-emerald-500"
+                          }`}
+                        />
+                      </div>
+                    )}
+                    <div className="flex items-center space-x-4">
+                      <div className="flex-shrink-0">
+                        <StepIcon status={status} />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <h3
+                          className={`font-semibold ${getStepTextColor(status)}`}
+                        >
+                          {step.title}
+                        </h3>
+                        <p className="text-sm text-muted-foreground break-words">
+                          {getStepText(step)}
+                        </p>
+                      </div>
+                    </div>
+                  </React.Fragment>
+                );
+              })}
             </div>
+          )}
 
-            {/* Step 2: Transaction */}
-            <div className="flex items-center space-x-4">
-              <div className="flex-shrink-0">
-                <StepIcon status={getStepStatus("creating")} />
+          {/* Oracle Update Fee - paid alongside price-sensitive transactions */}
+          {transactionState.priceUpdateFee !== undefined &&
+            transactionState.priceUpdateFee !== null &&
+            transactionState.priceUpdateFee > BigInt(0) && (
+              <div className="flex items-center justify-between rounded-lg border border-border/50 bg-muted/30 px-4 py-3 text-sm">
+                <span className="text-muted-foreground">
+                  Pyth price update fee
+                </span>
+                <span className="font-mono font-medium">
+                  {ethers.formatEther(transactionState.priceUpdateFee)}{" "}
+                  {network.chain.nativeCurrency.symbol}
+                </span>
               </div>
-              <div className="flex-1">
-                <h3
-                  className={`font-semibold ${getStepTextColor(getStepStatus("creating"))}`}
-                >
-                  {steps.transaction.title}
-                </h3>
-                <p className="text-sm text-muted-foreground">
-                  {getStepText("creating", getStepStatus("creating"))}
-                </p>
+            )}
+
+          {/* Preflight - simulated before the wallet prompt opens */}
+          {transactionState.isLoading && transactionState.preflight?.ok && (
+            <div className="space-y-1 rounded-lg border border-border/50 bg-muted/30 px-4 py-3 text-sm">
+              <div className="flex items-center gap-2 font-medium text-emerald-600 dark:text-emerald-400">
+                <CheckCircle className="h-4 w-4" />
+                Simulation passed
               </div>
+              {transactionState.preflight.gasLimit !== null && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Estimated gas</span>
+                  <span className="font-mono">
+                    {transactionState.preflight.gasLimit.toLocaleString()}
+                  </span>
+                </div>
+              )}
+              {transactionState.preflight.networkFee !== null && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Max network fee</span>
+                  <span className="font-mono">
+                    {ethers.formatEther(transactionState.preflight.networkFee)}{" "}
+                    {network.chain.nativeCurrency.symbol}
+                  </span>
+                </div>
+              )}
             </div>
-          </div>
+          )}
+
+          {/* Decoded failure reason */}
+          {transactionState.isError && transactionState.error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {transactionState.preflight?.ok === false && (
+                  <p className="font-medium">
+                    Simulation failed; nothing was sent to your wallet.
+                  </p>
+                )}
+                <p>{transactionState.error}</p>
+              </AlertDescription>
+            </Alert>
+          )}
 
           {/* Success Message - Only show when both transactions are complete */}
           {transactionState.isSuccess &&
@@ -395,6 +401,15 @@ export function TransactionModal({
                   )}
                 </>
               )}
+            {transactionState.isError && failedStep && onRetry && (
+              <Button
+                onClick={handleRetry}
+                disabled={isRetrying}
+                className="flex-1 bg-gradient-to-r from-primary to-primary/90 hover:from-primary/90 hover:to-primary/80 text-white shadow-lg hover:shadow-xl transition-all duration-200"
+              >
+                Retry {failedStep.title}
+              </Button>
+            )}
             {transactionState.isError && (
               <Button
                 onClick={() => {
@@ -402,9 +417,9 @@ export function TransactionModal({
                   // Don't call onReset() - just close modal to retry with same form data
                 }}
                 variant="outline"
-                className="w-full border-primary/20 text-primary hover:bg-primary/5 hover:border-primary/30 transition-all duration-200"
+                className="flex-1 border-primary/20 text-primary hover:bg-primary/5 hover:border-primary/30 transition-all duration-200"
               >
-                Try Again
+                {failedStep && onRetry ? "Close" : "Try Again"}
               </Button>
             )}
             {transactionState.isLoading && (
@@ -0,0 +1,88 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useValuationSettings } from "@/hooks/useValuationSettings";
+import { PRICE_SOURCE_LABELS, formatWindow } from "@/lib/price-valuation";
+import {
+  PRICE_SOURCES,
+  TWAP_WINDOWS_SECONDS,
+} from "@/lib/valuation-preference";
+
+const SOURCE_DESCRIPTIONS = {
+  spot: "Latest oracle price, as the contract uses",
+  ema: "Pyth's exponentially-weighted moving average",
+  twap: "Time-weighted average of the prices seen this session",
+};
+
+/**
+ * Price source (spot / EMA / TWAP) and conservative valuation toggles.
+ * Settings are shared app-wide, so every view using them updates together.
+ */
+export function ValuationControls({ idPrefix }: { idPrefix: string }) {
+  const { settings, updateSettings } = useValuationSettings();
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="flex rounded-md border border-border p-0.5">
+        {PRICE_SOURCES.map((source) => (
+          <Button
+            key={source}
+            type="button"
+            variant={settings.source === source ? "default" : "ghost"}
+            size="sm"
+            className="h-7 px-2 text-xs"
+            title={SOURCE_DESCRIPTIONS[source]}
+            onClick={() => updateSettings({ source })}
+          >
+            {PRICE_SOURCE_LABELS[source]}
+          </Button>
+        ))}
+      </div>
+
+      {settings.source === "twap" && (
+        <Select
+          value={String(settings.twapWindowSeconds)}
+          onValueChange={(value) =>
+            updateSettings({ twapWindowSeconds: Number(value) })
+          }
+        >
+          <SelectTrigger size="sm" className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TWAP_WINDOWS_SECONDS.map((seconds) => (
+              <SelectItem key={seconds} value={String(seconds)}>
+                {formatWindow(seconds)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <div
+        className="flex items-center gap-1.5"
+        title="Value collateral below and the loan above the price by their confidence intervals"
+      >
+        <Switch
+          id={`${idPrefix}-conservative`}
+          checked={settings.conservative}
+          onCheckedChange={(checked) =>
+            updateSettings({ conservative: checked })
+          }
+        />
+        <Label htmlFor={`${idPrefix}-conservative`} className="text-xs">
+          Conservative
+        </Label>
+      </div>
+    </div>
+  );
+}
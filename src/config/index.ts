@@ -1,6 +1,6 @@
 import { EthersAdapter } from "@reown/appkit-adapter-ethers";
 import type { AppKitNetwork } from "@reown/appkit/networks";
-import { SOMNIA_TESTNET_CONFIG } from "@/lib/contracts";
+import { getSupportedNetworks, NetworkConfig } from "@/config/networks";
 
 // Get projectId from https://cloud.reown.com
 export const projectId =
@@ -10,16 +10,27 @@ if (!projectId) {
   throw new Error("Project ID is not defined");
 }
 
-// Define Somnia Testnet for AppKit
-const somniaTestnet: AppKitNetwork = {
-  id: SOMNIA_TESTNET_CONFIG.id,
-  name: SOMNIA_TESTNET_CONFIG.name,
-  nativeCurrency: SOMNIA_TESTNET_CONFIG.nativeCurrency,
-  rpcUrls: SOMNIA_TESTNET_CONFIG.rpcUrls,
-  blockExplorers: SOMNIA_TESTNET_CONFIG.blockExplorers,
-  testnet: SOMNIA_TESTNET_CONFIG.testnet,
-};
+// Convert a registry entry into the network shape AppKit expects
+export const toAppKitNetwork = ({ chain }: NetworkConfig): AppKitNetwork => ({
+  id: chain.id,
+  name: chain.name,
+  nativeCurrency: chain.nativeCurrency,
+  rpcUrls: chain.rpcUrls,
+  blockExplorers: chain.blockExplorers,
+  testnet: chain.testnet,
+});
 
-export const networks = [somniaTestnet] as [AppKitNetwork, ...AppKitNetwork[]];
+// Every network with a neurolend deployment; the first one is the default
+export const networks = getSupportedNetworks().map(toAppKitNetwork) as [
+  AppKitNetwork,
+  ...AppKitNetwork[],
+];
+
+// Chain logos shown in the AppKit network switcher
+export const chainImages = Object.fromEntries(
+  getSupportedNetworks()
+    .filter((network) => network.chainImage)
+    .map((network) => [network.chain.id, network.chainImage!])
+);
 
 export const ethersAdapter = new EthersAdapter();
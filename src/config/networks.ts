@@ -0,0 +1,186 @@
+/**
+ * Network Registry
+ * Single source of truth for every chain neurolend can run on, keyed by
+ * chainId: RPC, explorer, contract addresses and token list. Safe to import
+ * from both client code and API routes.
+ */
+
+import { defineChain, type Chain } from "viem";
+import { SUPPORTED_TOKENS, TokenInfo } from "./tokens";
+
+export interface NetworkContracts {
+  neurolend: string; // Empty when neurolend isn't deployed on the network
+  pyth: string;
+  multicall3: string; // Empty when reads should go out one by one
+}
+
+export interface NetworkConfig {
+  chain: Chain;
+  contracts: NetworkContracts;
+  tokens: TokenInfo[];
+  // Block the neurolend deployment was mined in (event indexing starts here)
+  startBlock: number;
+  chainImage?: string;
+}
+
+// Pyth's standard EVM deployment address
+const PYTH_DEFAULT_ADDRESS = "0x2880aB155794e7179c9eE2e38200202908C17B43";
+
+// Multicall3's canonical address, deployed on most EVM chains
+const MULTICALL3_DEFAULT_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+export const ZEROG_MAINNET: NetworkConfig = {
+  chain: defineChain({
+    id: 16661,
+    name: "0G Chain",
+    network: "0g-mainnet",
+    nativeCurrency: { decimals: 18, name: "0G", symbol: "0G" },
+    rpcUrls: {
+      default: { http: ["https://evmrpc.0g.ai"] },
+      public: { http: ["https://evmrpc.0g.ai"] },
+    },
+    blockExplorers: {
+      default: { name: "0G Explorer", url: "https://scan.0g.ai" },
+    },
+    testnet: false,
+  }),
+  contracts: {
+    neurolend:
+      process.env.NEXT_PUBLIC_neurolend_ADDRESS ??
+      "0x064c3e0a900743D9Ac87c778d2f6d3d5819D4f23",
+    pyth: process.env.NEXT_PUBLIC_PYTH_CONTRACT_ADDRESS ?? PYTH_DEFAULT_ADDRESS,
+    multicall3:
+      process.env.NEXT_PUBLIC_MULTICALL3_ADDRESS ?? MULTICALL3_DEFAULT_ADDRESS,
+  },
+  tokens: Object.values(SUPPORTED_TOKENS),
+  startBlock: 6907544, // see deployment-0g.env
+  chainImage: "/tokens/0g.svg",
+};
+
+export const ZEROG_TESTNET: NetworkConfig = {
+  chain: defineChain({
+    id: 16601,
+    name: "0G Chain Testnet",
+    network: "0g-testnet",
+    nativeCurrency: { decimals: 18, name: "0G", symbol: "0G" },
+    rpcUrls: {
+      default: { http: ["https://rpc-testnet.0g.ai"] },
+      public: { http: ["https://rpc-testnet.0g.ai"] },
+    },
+    blockExplorers: {
+      default: { name: "0G Testnet Explorer", url: "https://scan-testnet.0g.ai" },
+    },
+    testnet: true,
+  }),
+  contracts: {
+    neurolend: process.env.NEXT_PUBLIC_ZEROG_TESTNET_NEUROLEND_ADDRESS ?? "",
+    pyth:
+      process.env.NEXT_PUBLIC_ZEROG_TESTNET_PYTH_ADDRESS ??
+      PYTH_DEFAULT_ADDRESS,
+    multicall3:
+      process.env.NEXT_PUBLIC_ZEROG_TESTNET_MULTICALL3_ADDRESS ??
+      MULTICALL3_DEFAULT_ADDRESS,
+  },
+  tokens: [],
+  startBlock: Number(process.env.NEXT_PUBLIC_ZEROG_TESTNET_START_BLOCK ?? 0),
+  chainImage: "/tokens/0g.svg",
+};
+
+export const SOMNIA_TESTNET: NetworkConfig = {
+  chain: defineChain({
+    id: 50312,
+    name: "Somnia Testnet",
+    network: "somnia-testnet",
+    nativeCurrency: { decimals: 18, name: "Somnia Test Token", symbol: "STT" },
+    rpcUrls: {
+      default: { http: ["https://dream-rpc.somnia.network"] },
+      public: { http: ["https://dream-rpc.somnia.network"] },
+    },
+    blockExplorers: {
+      default: {
+        name: "Somnia Explorer",
+        url: "https://shannon-explorer.somnia.network",
+      },
+    },
+    testnet: true,
+  }),
+  contracts: {
+    neurolend: process.env.NEXT_PUBLIC_SOMNIA_NEUROLEND_ADDRESS ?? "",
+    pyth: process.env.NEXT_PUBLIC_SOMNIA_PYTH_ADDRESS ?? PYTH_DEFAULT_ADDRESS,
+    multicall3:
+      process.env.NEXT_PUBLIC_SOMNIA_MULTICALL3_ADDRESS ??
+      MULTICALL3_DEFAULT_ADDRESS,
+  },
+  tokens: [],
+  startBlock: Number(process.env.NEXT_PUBLIC_SOMNIA_START_BLOCK ?? 0),
+  chainImage: "https://somnia.network/images/branding/somnia_logo_color.png",
+};
+
+// Local anvil/hardhat node; addresses come from the local deploy script
+export const LOCAL_ANVIL: NetworkConfig = {
+  chain: defineChain({
+    id: 31337,
+    name: "Anvil",
+    network: "anvil",
+    nativeCurrency: { decimals: 18, name: "Ether", symbol: "ETH" },
+    rpcUrls: {
+      default: {
+        http: [process.env.NEXT_PUBLIC_LOCAL_RPC_URL ?? "http://127.0.0.1:8545"],
+      },
+    },
+    testnet: true,
+  }),
+  contracts: {
+    neurolend: process.env.NEXT_PUBLIC_LOCAL_NEUROLEND_ADDRESS ?? "",
+    pyth: process.env.NEXT_PUBLIC_LOCAL_PYTH_ADDRESS ?? "",
+    multicall3: process.env.NEXT_PUBLIC_LOCAL_MULTICALL3_ADDRESS ?? "",
+  },
+  tokens: [],
+  startBlock: 0,
+};
+
+export const NETWORKS: Record<number, NetworkConfig> = {
+  [ZEROG_MAINNET.chain.id]: ZEROG_MAINNET,
+  [ZEROG_TESTNET.chain.id]: ZEROG_TESTNET,
+  [SOMNIA_TESTNET.chain.id]: SOMNIA_TESTNET,
+  [LOCAL_ANVIL.chain.id]: LOCAL_ANVIL,
+};
+
+export const DEFAULT_CHAIN_ID = Number(
+  process.env.NEXT_PUBLIC_DEFAULT_CHAIN_ID ?? ZEROG_MAINNET.chain.id
+);
+
+/**
+ * Network config for a chain id, falling back to the default network for
+ * unknown or missing ids (e.g. before a wallet is connected)
+ */
+export function getNetwork(chainId?: number | string): NetworkConfig {
+  return NETWORKS[Number(chainId)] ?? NETWORKS[DEFAULT_CHAIN_ID] ?? ZEROG_MAINNET;
+}
+
+// Whether neurolend is deployed on the given chain
+export function isSupportedChain(chainId?: number | string): boolean {
+  return Boolean(NETWORKS[Number(chainId)]?.contracts.neurolend);
+}
+
+// Networks with a neurolend deployment, default network first
+export function getSupportedNetworks(): NetworkConfig[] {
+  const defaultNetwork = getNetwork();
+  return [
+    defaultNetwork,
+    ...Object.values(NETWORKS).filter(
+      (network) =>
+        network !== defaultNetwork && isSupportedChain(network.chain.id)
+    ),
+  ];
+}
+
+export function getRpcUrl(network: NetworkConfig = getNetwork()): string {
+  return network.chain.rpcUrls.default.http[0];
+}
+
+export function getExplorerUrl(
+  network: NetworkConfig = getNetwork()
+): string | undefined {
+  return network.chain.blockExplorers?.default.url;
+}
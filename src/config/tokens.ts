@@ -1,4 +1,14 @@
 // 0G Chain Mainnet - Supported Tokens Configuration
+// Canonical token registry: every other token list and feed ID lookup is
+// derived from SUPPORTED_TOKENS (validated in src/__tests__/token-registry.test.ts)
+import { ethers } from "ethers";
+
+// Signature-based approval a token supports. "eip2612" tokens sign a permit
+// on the token itself (version is its EIP-712 domain version); "permit2"
+// tokens go through Uniswap's Permit2 after a one-time approval.
+export type TokenPermitSupport =
+  { type: "eip2612"; version: string } | { type: "permit2" };
+
 export interface TokenInfo {
   address: string;
   name: string;
@@ -11,16 +21,9 @@ export interface TokenInfo {
   pythPriceFeedId: string; // Pyth Network price feed ID
   isAvailable: boolean; // Whether the contract actually exists on 0G Chain
   status: "active" | "placeholder" | "pending"; // Contract deployment status
+  permit?: TokenPermitSupport; // Omitted when the token only supports approve()
 }
 
-// 0G Chain Configuration
-export const ZEROG_MAINNET_CONFIG = {
-  pythContract: "0x2880aB155794e7179c9eE2e38200202908C17B43",
-  chainId: 16661,
-  rpcUrl: "https://evmrpc.0g.ai",
-  neurolendContract: "0x064c3e0a900743D9Ac87c778d2f6d3d5819D4f23", // Updated with correct token addresses
-} as const;
-
 // Supported Tokens on 0G Chain Mainnet with Pyth Network Price Feeds
 export const SUPPORTED_TOKENS: Record<string, TokenInfo> = {
   ZG: {
@@ -35,6 +38,7 @@ export const SUPPORTED_TOKENS: Record<string, TokenInfo> = {
       "0xfa9e8d4591613476ad0961732475dc08969d248faca270cc6c47efe009ea3070", // 0G/USD
     isAvailable: true, // ✅ Contract verified to exist
     status: "active",
+    permit: { type: "permit2" },
   },
   WETH: {
     address: "0x9CC1d782E6dfe5936204c3295cb430e641DcF300",
@@ -45,9 +49,10 @@ export const SUPPORTED_TOKENS: Record<string, TokenInfo> = {
     category: "crypto",
     volatilityTier: "high",
     pythPriceFeedId:
-      "0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace", // ETH/USD
+      "0x9d4294bbcd1174d6f2003ec365831e64cc31d9f6f15a2b85399db8d5000960f6", // WETH/USD (the feed the contract reads)
     isAvailable: true, // ✅ Verified address provided
     status: "active",
+    permit: { type: "permit2" },
   },
   wstETH: {
     address: "0x161a128567BF0C005b58211757F7e46eed983F02",
@@ -61,6 +66,7 @@ export const SUPPORTED_TOKENS: Record<string, TokenInfo> = {
       "0x6df640f3b8963d8f8358f791f352b8364513f6ab1cca5ed3f1f7b5448980e784", // wstETH/USD
     isAvailable: true, // ✅ Verified address provided
     status: "active",
+    permit: { type: "eip2612", version: "1" },
   },
   USDC: {
     address: "0x1f3AA82227281cA364bFb3d253B0f1af1Da6473E",
@@ -74,6 +80,7 @@ export const SUPPORTED_TOKENS: Record<string, TokenInfo> = {
       "0xeaa020c61cc479712813461ce153894a96a6c00b21ed0cfc2798d1f9a9e9c94a", // USDC/USD
     isAvailable: true, // ✅ Verified address provided
     status: "active",
+    permit: { type: "eip2612", version: "2" }, // FiatToken v2 domain
   },
 } as const;
 
@@ -84,9 +91,13 @@ export function getTokenByAddress(address: string): TokenInfo | undefined {
   );
 }
 
-// Get token by symbol
+// Get token by symbol (or registry key, e.g. "ZG" for 0G), case-insensitive
 export function getTokenBySymbol(symbol: string): TokenInfo | undefined {
-  return SUPPORTED_TOKENS[symbol.toUpperCase()];
+  const needle = symbol.toLowerCase();
+  return Object.entries(SUPPORTED_TOKENS).find(
+    ([key, token]) =>
+      token.symbol.toLowerCase() === needle || key.toLowerCase() === needle
+  )?.[1];
 }
 
 // Get all supported tokens as array
@@ -113,6 +124,17 @@ export const DEFAULT_PARAMETERS = {
   },
 } as const;
 
+// Confidence intervals (k) that conservative valuation moves prices against
+// the borrower: collateral at price - k*conf, debt at price + k*conf
+export const CONFIDENCE_MULTIPLIERS: Record<
+  TokenInfo["volatilityTier"],
+  number
+> = {
+  stable: 1,
+  moderate: 2,
+  high: 3,
+};
+
 // Get recommended parameters for asset pair
 export function getRecommendedParameters(
   loanAsset: TokenInfo,
@@ -211,3 +233,79 @@ export function formatDuration(seconds: number): string {
   }
   return `${minutes} minute${minutes !== 1 ? "s" : ""}`;
 }
+
+// ============ Registry validation ============
+
+const PRICE_FEED_ID_PATTERN = /^0x[0-9a-f]{64}$/;
+const TOKEN_STATUSES: TokenInfo["status"][] = [
+  "active",
+  "placeholder",
+  "pending",
+];
+
+/**
+ * Check the registry's schema: checksummed addresses, sane decimals,
+ * well-formed Pyth feed IDs, known statuses and no duplicate tokens.
+ * Returns a list of problems (empty when the registry is consistent).
+ */
+export function validateTokenRegistry(
+  tokens: Record<string, TokenInfo> = SUPPORTED_TOKENS
+): string[] {
+  const errors: string[] = [];
+  const seenAddresses = new Set<string>();
+  const seenSymbols = new Set<string>();
+
+  for (const [key, token] of Object.entries(tokens)) {
+    const label = `${key} (${token.symbol})`;
+
+    if (!ethers.isAddress(token.address)) {
+      errors.push(`${label}: invalid address ${token.address}`);
+    } else if (ethers.getAddress(token.address) !== token.address) {
+      errors.push(
+        `${label}: address is not checksummed (expected ${ethers.getAddress(
+          token.address
+        )})`
+      );
+    }
+
+    if (
+      !Number.isInteger(token.decimals) ||
+      token.decimals < 0 ||
+      token.decimals > 36
+    ) {
+      errors.push(`${label}: invalid decimals ${token.decimals}`);
+    }
+
+    if (!PRICE_FEED_ID_PATTERN.test(token.pythPriceFeedId)) {
+      errors.push(
+        `${label}: malformed Pyth price feed ID ${token.pythPriceFeedId}`
+      );
+    }
+
+    if (!TOKEN_STATUSES.includes(token.status)) {
+      errors.push(`${label}: unknown status ${token.status}`);
+    } else if (token.isAvailable !== (token.status === "active")) {
+      errors.push(
+        `${label}: isAvailable=${token.isAvailable} contradicts status ${token.status}`
+      );
+    }
+
+    if (token.permit?.type === "eip2612" && !token.permit.version) {
+      errors.push(`${label}: EIP-2612 permit needs a domain version`);
+    }
+
+    const address = token.address.toLowerCase();
+    if (seenAddresses.has(address)) {
+      errors.push(`${label}: duplicate address ${token.address}`);
+    }
+    seenAddresses.add(address);
+
+    const symbol = token.symbol.toLowerCase();
+    if (seenSymbols.has(symbol)) {
+      errors.push(`${label}: duplicate symbol ${token.symbol}`);
+    }
+    seenSymbols.add(symbol);
+  }
+
+  return errors;
+}
@@ -1,8 +1,10 @@
 "use client";
 
-import { ethersAdapter, projectId, networks } from "@/config";
+import { ethersAdapter, projectId, networks, chainImages } from "@/config";
 import { createAppKit } from "@reown/appkit/react";
 import React, { type ReactNode } from "react";
+import { LoanAlertNotifier } from "@/components/LoanAlertNotifier";
+import { PriceStreamProvider } from "@/context/price-stream";
 if (!projectId) {
   throw new Error("Project ID is not defined");
 }
@@ -22,9 +24,7 @@ export const modal = createAppKit({
   projectId,
   networks,
   metadata,
-  chainImages: {
-    50312: "https://somnia.network/images/branding/somnia_logo_color.png",
-  },
+  chainImages,
 
   themeMode: "dark",
   features: {
@@ -45,7 +45,12 @@ export const modal = createAppKit({
 });
 
 function ContextProvider({ children }: { children: ReactNode }) {
-  return <>{children}</>;
+  return (
+    <PriceStreamProvider>
+      {children}
+      <LoanAlertNotifier />
+    </PriceStreamProvider>
+  );
 }
 
 export default ContextProvider;
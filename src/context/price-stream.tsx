@@ -0,0 +1,35 @@
+"use client";
+
+/**
+ * Price Stream Context
+ * Provides the page's shared Hermes price stream to price hooks, which poll
+ * on their own when rendered outside PriceStreamProvider.
+ */
+
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useState,
+  type ReactNode,
+} from "react";
+import { PriceStream } from "@/lib/price-stream";
+
+const PriceStreamContext = createContext<PriceStream | null>(null);
+
+export function PriceStreamProvider({ children }: { children: ReactNode }) {
+  const [stream] = useState(() => new PriceStream());
+
+  useEffect(() => () => stream.close(), [stream]);
+
+  return (
+    <PriceStreamContext.Provider value={stream}>
+      {children}
+    </PriceStreamContext.Provider>
+  );
+}
+
+// The shared stream, or null outside PriceStreamProvider
+export function usePriceStream(): PriceStream | null {
+  return useContext(PriceStreamContext);
+}
@@ -0,0 +1,23 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import {
+  ApprovalMode,
+  DEFAULT_APPROVAL_MODE,
+  getApprovalPreference,
+} from "@/lib/approval-preference";
+
+// The user's exact vs. unlimited approval preference, shared app-wide
+export function useApprovalMode() {
+  const preference = getApprovalPreference();
+  const approvalMode = useSyncExternalStore(
+    preference.subscribe,
+    preference.get,
+    () => DEFAULT_APPROVAL_MODE
+  );
+
+  return {
+    approvalMode,
+    setApprovalMode: (mode: ApprovalMode) => preference.set(mode),
+  };
+}
@@ -0,0 +1,34 @@
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * Calls `onLoadMore` whenever the returned ref's element scrolls into view
+ * (within `rootMargin`) while `enabled`. Re-enabling re-checks, so a
+ * sentinel that is still visible after a page loads asks for the next one.
+ */
+export function useInfiniteScroll(
+  onLoadMore: () => void,
+  enabled: boolean,
+  rootMargin = "200px"
+) {
+  const [sentinel, setSentinel] = useState<Element | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    if (!sentinel || !enabled || typeof IntersectionObserver === "undefined") {
+      return;
+    }
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [sentinel, enabled, rootMargin]);
+
+  return setSentinel;
+}
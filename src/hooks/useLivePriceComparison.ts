@@ -7,7 +7,15 @@
 import React, { useState, useCallback, useMemo, useRef } from "react";
 import { ProcessedLoan } from "./useSubgraphQuery";
 import { getTokenByAddress, getPythPriceFeedId } from "@/config/tokens";
-import { multicall, MulticallUtil, PriceData } from "@/lib/multicall";
+import {
+  PriceData,
+  calculateUSDValue,
+  createPriceMap,
+  getMulticall,
+  getUniquePriceFeeds,
+  readPythPrices,
+} from "@/lib/multicall";
+import { useNetwork } from "@/hooks/useNetwork";
 
 // Enhanced loan data with price comparison
 export interface LoanWithPriceComparison extends ProcessedLoan {
@@ -56,7 +64,8 @@ interface UseLivePriceComparisonOptions {
 
 /**
  * Custom React hook for comparing historical vs live prices for loans
- * Uses multicall to batch all price feed calls into a single RPC request
+ * Prices are the ones the Pyth contract holds (what neurolend itself uses),
+ * read for every feed in one multicall and refreshed on a timer
  */
 export function useLivePriceComparison(
   loans: ProcessedLoan[],
@@ -81,6 +90,8 @@ export function useLivePriceComparison(
   // Ref to store the current timeout for cleanup
   const refreshTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+  const { network } = useNetwork();
+
   // Ref to store current loans to avoid dependency issues
   const loansRef = useRef(loans);
   loansRef.current = loans;
@@ -96,7 +107,7 @@ export function useLivePriceComparison(
     });
 
     // Map to price feed calls
-    return MulticallUtil.getUniquePriceFeeds(
+    return getUniquePriceFeeds(
       Array.from(tokenAddresses),
       (tokenAddress: string) => {
         return getPythPriceFeedId(tokenAddress);
@@ -169,10 +180,14 @@ export function useLivePriceComparison(
     setState((prev) => ({ ...prev, loading: true, error: null }));
 
     try {
-      // Fetch all prices in a single multicall
-      const priceDataList =
-        await multicall.batchFetchPriceFeeds(uniquePriceFeeds);
-      const priceMap = MulticallUtil.createPriceMap(priceDataList);
+      // Read every feed from the Pyth contract in a single multicall
+      const priceDataList = await readPythPrices(
+        getMulticall(network),
+        network.contracts.pyth,
+        uniquePriceFeeds,
+        stalePriceThreshold
+      );
+      const priceMap = createPriceMap(priceDataList);
 
       // Process loans with current price data and historical comparison
       const enhancedLoans: LoanWithPriceComparison[] = loansRef.current.map(
@@ -201,7 +216,7 @@ export function useLivePriceComparison(
 
           if (currentTokenPrice && loanTokenInfo) {
             // Calculate current USD value of loan amount
-            currentLoanValueUSD = MulticallUtil.calculateUSDValue(
+            currentLoanValueUSD = calculateUSDValue(
               loan.amount,
               loanTokenInfo.decimals,
               currentTokenPrice
@@ -227,7 +242,7 @@ export function useLivePriceComparison(
 
           if (currentCollateralPrice && collateralTokenInfo) {
             // Calculate current USD value of collateral amount
-            currentCollateralValueUSD = MulticallUtil.calculateUSDValue(
+            currentCollateralValueUSD = calculateUSDValue(
               loan.collateralAmount,
               collateralTokenInfo.decimals,
               currentCollateralPrice
@@ -289,6 +304,8 @@ export function useLivePriceComparison(
     calculatePriceChange,
     enableAutoRefresh,
     refreshInterval,
+    network,
+    stalePriceThreshold,
   ]);
 
   /**
@@ -0,0 +1,188 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { toast } from "sonner";
+import { Eip1193Provider, ethers } from "ethers";
+import { useAppKitProvider } from "@reown/appkit/react";
+import type { LoanAlert, PublicAlertSubscription } from "@/lib/alert-store";
+import { AlertAuthRequest, alertAuthMessage } from "@/lib/alert-auth";
+
+export interface AlertSubscriptionSettings {
+  loanIds?: string[];
+  healthThresholdBPS?: number;
+  expiryWarningSeconds?: number;
+  webhookUrl?: string;
+}
+
+const POLL_INTERVAL = 60000; // 1 minute
+const lastSeenKey = (address: string) =>
+  `neurolend:alerts:lastSeen:${address.toLowerCase()}`;
+
+const notificationsSupported = () =>
+  typeof window !== "undefined" && "Notification" in window;
+
+// Show an alert as a browser notification, or a toast without permission
+function notify(alert: LoanAlert) {
+  const title =
+    alert.type === "health" || alert.type === "expiry"
+      ? "neurolend loan alert"
+      : "neurolend loan update";
+
+  if (notificationsSupported() && Notification.permission === "granted") {
+    new Notification(title, { body: alert.message, tag: alert.id });
+  } else {
+    toast.warning(alert.message);
+  }
+}
+
+/**
+ * Alert subscriptions and fired alerts for an address. With `poll`, new
+ * alerts are fetched every minute and surfaced as browser notifications.
+ * Subscribing and unsubscribing ask the connected wallet to sign.
+ */
+export function useLoanAlerts(
+  address?: string,
+  { poll = false }: { poll?: boolean } = {}
+) {
+  const { walletProvider } = useAppKitProvider<Eip1193Provider>("eip155");
+  const [subscriptions, setSubscriptions] = useState<PublicAlertSubscription[]>(
+    []
+  );
+  const [alerts, setAlerts] = useState<LoanAlert[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [permission, setPermission] = useState<
+    NotificationPermission | "unsupported"
+  >("unsupported");
+
+  useEffect(() => {
+    if (notificationsSupported()) setPermission(Notification.permission);
+  }, []);
+
+  const fetchAlerts = useCallback(async () => {
+    if (!address) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/alerts?address=${address}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setSubscriptions(data.subscriptions);
+      setAlerts(data.alerts);
+
+      // Notify about alerts fired since the last visit; the first visit
+      // starts from now rather than replaying history
+      if (poll) {
+        const fired = data.alerts as LoanAlert[];
+        const lastSeen = Number(
+          localStorage.getItem(lastSeenKey(address)) ??
+            Math.floor(Date.now() / 1000)
+        );
+        fired.filter((alert) => alert.createdAt > lastSeen).forEach(notify);
+        localStorage.setItem(
+          lastSeenKey(address),
+          String(Math.max(lastSeen, ...fired.map((alert) => alert.createdAt)))
+        );
+      }
+    } catch (err) {
+      console.error("Failed to fetch loan alerts:", err);
+      setError(err instanceof Error ? err.message : "Failed to fetch alerts");
+    } finally {
+      setLoading(false);
+    }
+  }, [address, poll]);
+
+  useEffect(() => {
+    fetchAlerts();
+    if (!poll) return;
+
+    const interval = setInterval(fetchAlerts, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [fetchAlerts, poll]);
+
+  const requestPermission = useCallback(async () => {
+    if (!notificationsSupported()) return "unsupported" as const;
+    const result = await Notification.requestPermission();
+    setPermission(result);
+    return result;
+  }, []);
+
+  // Signature of `request` from the connected wallet
+  const sign = useCallback(
+    async (request: AlertAuthRequest) => {
+      if (!walletProvider) throw new Error("Wallet not connected");
+      const signer = await new ethers.BrowserProvider(
+        walletProvider
+      ).getSigner();
+      return signer.signMessage(alertAuthMessage(request));
+    },
+    [walletProvider]
+  );
+
+  const subscribe = useCallback(
+    async (settings: AlertSubscriptionSettings) => {
+      if (!address) throw new Error("Wallet not connected");
+
+      const request = {
+        action: "subscribe" as const,
+        address,
+        ...settings,
+        issuedAt: Math.floor(Date.now() / 1000),
+      };
+      const signature = await sign(request);
+
+      const response = await fetch("/api/alerts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...request, signature }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setSubscriptions((prev) => [...prev, data.subscription]);
+      return data.subscription as PublicAlertSubscription;
+    },
+    [address, sign]
+  );
+
+  const unsubscribe = useCallback(
+    async (id: string) => {
+      if (!address) throw new Error("Wallet not connected");
+
+      const issuedAt = Math.floor(Date.now() / 1000);
+      const signature = await sign({
+        action: "unsubscribe",
+        address,
+        subscriptionId: id,
+        issuedAt,
+      });
+
+      const response = await fetch("/api/alerts", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, address, issuedAt, signature }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error);
+      }
+      setSubscriptions((prev) => prev.filter((s) => s.id !== id));
+    },
+    [address, sign]
+  );
+
+  return {
+    subscriptions,
+    alerts,
+    loading,
+    error,
+    permission,
+    requestPermission,
+    subscribe,
+    unsubscribe,
+    refresh: fetchAlerts,
+  };
+}
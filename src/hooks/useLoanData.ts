@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { ProcessedLoan } from "./useSubgraphQuery";
+import { useNetwork } from "@/hooks/useNetwork";
+import {
+  LoanDataSource,
+  LoanSourceFailure,
+  LoanSourceName,
+  createDefaultLoanSources,
+  fetchLoansWithFallback,
+} from "@/lib/loan-data-source";
+
+// Hook to fetch all loans from the first available data source
+export function useLoanData(sources?: LoanDataSource[]) {
+  const { network } = useNetwork();
+  const [loans, setLoans] = useState<ProcessedLoan[]>([]);
+  const [source, setSource] = useState<LoanSourceName | null>(null);
+  const [failures, setFailures] = useState<LoanSourceFailure[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // The RPC fallback reads the contract on the wallet's network
+  const activeSources = useMemo(
+    () => sources ?? createDefaultLoanSources(network),
+    [sources, network]
+  );
+
+  const fetchLoans = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await fetchLoansWithFallback(activeSources);
+      setLoans(result.loans);
+      setSource(result.source);
+      setFailures(result.failures);
+    } catch (err) {
+      console.error("Failed to fetch loans:", err);
+      setError(err instanceof Error ? err.message : "Failed to fetch loans");
+    } finally {
+      setLoading(false);
+    }
+  }, [activeSources]);
+
+  useEffect(() => {
+    fetchLoans();
+  }, [fetchLoans]);
+
+  return {
+    loans,
+    source,
+    failures,
+    loading,
+    error,
+    refresh: fetchLoans,
+  };
+}
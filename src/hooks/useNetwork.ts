@@ -0,0 +1,39 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { useAppKitNetwork } from "@reown/appkit/react";
+import { toAppKitNetwork } from "@/config";
+import {
+  DEFAULT_CHAIN_ID,
+  getNetwork,
+  isSupportedChain,
+} from "@/config/networks";
+
+/**
+ * Network config for the wallet's current chain. Follows the wallet when it
+ * switches chains; unknown chains fall back to the default network for reads
+ * and are reported through `isSupported`.
+ */
+export const useNetwork = () => {
+  const { chainId, switchNetwork } = useAppKitNetwork();
+
+  const isSupported = chainId === undefined || isSupportedChain(chainId);
+  const network = useMemo(
+    () => getNetwork(isSupportedChain(chainId) ? chainId : undefined),
+    [chainId]
+  );
+
+  const switchToNetwork = useCallback(
+    (targetChainId: number = DEFAULT_CHAIN_ID) => {
+      switchNetwork(toAppKitNetwork(getNetwork(targetChainId)));
+    },
+    [switchNetwork]
+  );
+
+  return {
+    chainId: network.chain.id,
+    network,
+    isSupported,
+    switchToNetwork,
+  };
+};
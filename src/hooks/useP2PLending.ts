@@ -1,17 +1,60 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { Eip1193Provider, ethers } from "ethers";
 import { useAppKitAccount, useAppKitProvider } from "@reown/appkit/react";
+import { Loan, LoanStatus, BorrowRequest } from "@/lib/contracts";
 import {
-  neurolend_CONTRACT_ADDRESS,
-  neurolend_ABI,
-  ERC20_ABI,
-  Loan,
-  LoanStatus,
-  SOMNIA_TESTNET_CONFIG,
-} from "@/lib/contracts";
-import { SUPPORTED_TOKENS, getRecommendedParameters } from "@/config/tokens";
+  ERC20Client,
+  NeurolendClient,
+  TokenPermitStruct,
+} from "@/lib/contract-client";
+import type { SubmittedTransaction } from "@/lib/typed-contract";
+import { describeContractCall, getTransactionJournal } from "@/lib/tx-journal";
+import { getRpcUrl } from "@/config/networks";
+import { useNetwork } from "@/hooks/useNetwork";
+import {
+  SUPPORTED_TOKENS,
+  TokenPermitSupport,
+  getRecommendedParameters,
+  getPythPriceFeedId,
+  getTokenByAddress,
+} from "@/config/tokens";
+import { pythPriceService } from "@/lib/pyth-price-service";
+import { signEip2612Permit, signPermit2, supportsEip2612 } from "@/lib/permit";
+import {
+  approvalAmount,
+  getApprovalPreference,
+} from "@/lib/approval-preference";
+import {
+  TransactionPreflight,
+  describeTransactionError,
+} from "@/lib/tx-preflight";
+import {
+  StepState,
+  TransactionOrchestrator,
+  TransactionStep,
+} from "@/lib/tx-orchestrator";
+
+// Step ids used by the write actions; other ids are allowed for new flows
+export type TransactionStepId =
+  | "idle"
+  | "allowance"
+  | "approving"
+  | "approved"
+  | "price_update"
+  | "creating"
+  | "accepting"
+  | "repaying"
+  | "liquidating"
+  | "cancelling"
+  | "adding_collateral"
+  | "removing_collateral"
+  | "partial_repaying"
+  | "refresh"
+  | "success"
+  | "error"
+  | (string & {});
 
 export interface TransactionState {
   isLoading: boolean;
@@ -19,22 +62,53 @@ export interface TransactionState {
   isError: boolean;
   error: string | null;
   hash: string | null;
-  step:
-    | "idle"
-    | "approving"
-    | "approved"
-    | "creating"
-    | "accepting"
-    | "repaying"
-    | "liquidating"
-    | "cancelling"
-    | "adding_collateral"
-    | "removing_collateral"
-    | "partial_repaying"
-    | "success"
-    | "error";
+  // "idle", "success", "error", or the id of the step in progress
+  step: TransactionStepId;
+  // Steps of a multi-step action, in order (see lib/tx-orchestrator)
+  steps?: StepState[];
+  // Pyth update fee (wei) sent with price-sensitive writes
+  priceUpdateFee?: bigint | null;
+  // Simulation of the write about to be signed (gas, fee, decoded revert)
+  preflight?: TransactionPreflight | null;
+}
+
+// Shared between the steps of one write action
+interface ActionContext {
+  // approve() to send before the main call, if any
+  approval: { spender: string; amount: bigint } | null;
+  // Permit to sign instead of approving, and the signed result
+  permitType: TokenPermitSupport["type"] | null;
+  permit2Address: string | null;
+  permit: TokenPermitStruct | null;
+  updateData: string[];
+  updateFee: bigint;
+  // Sent but unconfirmed transactions by step id, so a retry after a lost
+  // receipt waits for them again instead of sending a duplicate
+  submitted: Map<string, ethers.ContractTransactionResponse>;
+}
+
+type ActionStep = TransactionStep<ActionContext>;
+
+interface ActiveFlow {
+  orchestrator: TransactionOrchestrator<ActionContext>;
+  errorFallback: string;
 }
 
+// Reload lists after an action. The action has already succeeded, so a
+// failed refresh is only logged.
+const refreshStep = (refresh: () => Promise<unknown>): ActionStep => ({
+  id: "refresh",
+  title: "Refresh Data",
+  description: "Reload your loans and offers",
+  run: async () => {
+    try {
+      await refresh();
+    } catch (error) {
+      console.warn("Failed to refresh data:", error);
+    }
+  },
+});
+
 export interface LoanOfferFormData {
   tokenAddress: string;
   amount: string;
@@ -47,6 +121,9 @@ export interface LoanOfferFormData {
 export const useP2PLending = () => {
   const { address, isConnected } = useAppKitAccount();
   const { walletProvider } = useAppKitProvider<Eip1193Provider>("eip155");
+  const { network, isSupported: isSupportedNetwork, switchToNetwork } =
+    useNetwork();
+  const neurolendAddress = network.contracts.neurolend;
 
   // State management
   const [transactionState, setTransactionState] = useState<TransactionState>({
@@ -58,21 +135,26 @@ export const useP2PLending = () => {
     step: "idle",
   });
 
+  // The multi-step action shown in transactionState.steps, kept for retries
+  const activeFlowRef = useRef<ActiveFlow | null>(null);
+
   const [activeLoanOfferIds, setActiveLoanOfferIds] = useState<bigint[]>();
   const [activeBorrowRequestIds, setActiveBorrowRequestIds] = useState<bigint[]>();
   const [lenderLoans, setLenderLoans] = useState<bigint[]>();
   const [borrowerLoans, setBorrowerLoans] = useState<bigint[]>();
+  const [borrowerRequests, setBorrowerRequests] = useState<bigint[]>();
   const [isLoadingOffers, setIsLoadingOffers] = useState(false);
   const [isLoadingRequests, setIsLoadingRequests] = useState(false);
   const [isLoadingLenderLoans, setIsLoadingLenderLoans] = useState(false);
   const [isLoadingBorrowerLoans, setIsLoadingBorrowerLoans] = useState(false);
+  const [isLoadingBorrowerRequests, setIsLoadingBorrowerRequests] =
+    useState(false);
 
   // Create ethers provider and signer
+  // Reads and writes follow the wallet's network (see useNetwork)
   const getProvider = useCallback(() => {
-    return new ethers.JsonRpcProvider(
-      SOMNIA_TESTNET_CONFIG.rpcUrls.default.http[0]
-    );
-  }, []);
+    return new ethers.JsonRpcProvider(getRpcUrl(network));
+  }, [network]);
 
   const getSigner = useCallback(async () => {
     if (!walletProvider) throw new Error("Wallet not connected");
@@ -80,40 +162,68 @@ export const useP2PLending = () => {
     return await ethersProvider.getSigner();
   }, [walletProvider]);
 
-  // Create contract instances
+  // Writes are simulated first; the result is shown before the wallet opens
+  const onPreflight = useCallback((preflight: TransactionPreflight) => {
+    setTransactionState((prev) => ({ ...prev, preflight }));
+  }, []);
+
+  // Every broadcast write goes into the transaction journal, so it can be
+  // followed in the activity drawer even if waiting for it fails here
+  const onSubmitted = useCallback(
+    (submission: SubmittedTransaction) => {
+      getTransactionJournal().track(submission.transaction, {
+        chainId: network.chain.id,
+        ...describeContractCall(submission),
+      });
+    },
+    [network]
+  );
+
+  // Create typed contract clients
   const getReadContract = useCallback(() => {
     const provider = getProvider();
-    return new ethers.Contract(
-      neurolend_CONTRACT_ADDRESS,
-      neurolend_ABI,
-      provider
-    );
-  }, [getProvider]);
+    return new NeurolendClient(neurolendAddress, provider);
+  }, [getProvider, neurolendAddress]);
 
   const getWriteContract = useCallback(async () => {
+    if (!isSupportedNetwork) {
+      throw new Error(
+        `neurolend is not deployed on this network. Switch to ${network.chain.name}.`
+      );
+    }
     const signer = await getSigner();
-    return new ethers.Contract(
-      neurolend_CONTRACT_ADDRESS,
-      neurolend_ABI,
-      signer
-    );
-  }, [getSigner]);
+    return new NeurolendClient(neurolendAddress, signer, {
+      onPreflight,
+      onSubmitted,
+    });
+  }, [
+    getSigner,
+    isSupportedNetwork,
+    network,
+    neurolendAddress,
+    onPreflight,
+    onSubmitted,
+  ]);
 
   const getERC20Contract = useCallback(
     async (tokenAddress: string, needsSigner = false) => {
       if (needsSigner) {
         const signer = await getSigner();
-        return new ethers.Contract(tokenAddress, ERC20_ABI, signer);
+        return new ERC20Client(tokenAddress, signer, {
+          onPreflight,
+          onSubmitted,
+        });
       } else {
         const provider = getProvider();
-        return new ethers.Contract(tokenAddress, ERC20_ABI, provider);
+        return new ERC20Client(tokenAddress, provider);
       }
     },
-    [getSigner, getProvider]
+    [getSigner, getProvider, onPreflight, onSubmitted]
   );
 
   // Reset transaction state
   const resetTransactionState = useCallback(() => {
+    activeFlowRef.current = null;
     setTransactionState({
       isLoading: false,
       isSuccess: false,
@@ -141,6 +251,9 @@ export const useP2PLending = () => {
           console.log("Transaction confirmed:", receipt);
           return receipt;
         } catch (error) {
+          // Mined and reverted; waiting again won't change that
+          if (ethers.isError(error, "CALL_EXCEPTION")) throw error;
+
           console.warn(`Attempt ${attempt} failed:`, error);
 
           if (attempt === maxRetries) {
@@ -150,7 +263,7 @@ export const useP2PLending = () => {
               tx.hash
             );
             throw new Error(
-              `Transaction submitted (${tx.hash}) but receipt unavailable. This may be due to network issues.`
+              `Transaction submitted (${tx.hash}) but receipt unavailable. It is still tracked under Activity and will update once confirmed.`
             );
           }
 
@@ -162,16 +275,34 @@ export const useP2PLending = () => {
     []
   );
 
+  // Fetch a Pyth price update for a loan/collateral pair and quote its fee
+  const getPriceUpdate = useCallback(
+    async (tokenAddress: string, collateralAddress: string) => {
+      const feedIds = [tokenAddress, collateralAddress]
+        .map((tokenAddr) => getPythPriceFeedId(tokenAddr))
+        .filter((feedId): feedId is string => !!feedId);
+
+      const { updateData } =
+        await pythPriceService.getPriceUpdateDataForFeedIds(feedIds);
+
+      if (updateData.length === 0) {
+        return { updateData, updateFee: BigInt(0) };
+      }
+
+      const contract = getReadContract();
+      const updateFee = await contract.getUpdateFee(updateData);
+      return { updateData, updateFee };
+    },
+    [getReadContract]
+  );
+
   // ============ READ FUNCTIONS ============
 
   const fetchActiveLoanOffers = useCallback(async () => {
     try {
       setIsLoadingOffers(true);
       const contract = getReadContract();
-      const offers = await contract.getActiveLoanOffers();
-      setActiveLoanOfferIds(
-        offers.map((id: ethers.BigNumberish) => BigInt(id.toString()))
-      );
+      setActiveLoanOfferIds(await contract.getActiveLoanOffers());
     } catch (error) {
       console.error("Error fetching active loan offers:", error);
     } finally {
@@ -183,10 +314,7 @@ export const useP2PLending = () => {
     try {
       setIsLoadingRequests(true);
       const contract = getReadContract();
-      const requests = await contract.getActiveBorrowRequests();
-      setActiveBorrowRequestIds(
-        requests.map((id: ethers.BigNumberish) => BigInt(id.toString()))
-      );
+      setActiveBorrowRequestIds(await contract.getActiveBorrowRequests());
     } catch (error) {
       console.error("Error fetching active borrow requests:", error);
     } finally {
@@ -199,10 +327,7 @@ export const useP2PLending = () => {
     try {
       setIsLoadingLenderLoans(true);
       const contract = getReadContract();
-      const loans = await contract.getLenderLoans(address);
-      setLenderLoans(
-        loans.map((id: ethers.BigNumberish) => BigInt(id.toString()))
-      );
+      setLenderLoans(await contract.getLenderLoans(address));
     } catch (error) {
       console.error("Error fetching lender loans:", error);
     } finally {
@@ -215,10 +340,7 @@ export const useP2PLending = () => {
     try {
       setIsLoadingBorrowerLoans(true);
       const contract = getReadContract();
-      const loans = await contract.getBorrowerLoans(address);
-      setBorrowerLoans(
-        loans.map((id: ethers.BigNumberish) => BigInt(id.toString()))
-      );
+      setBorrowerLoans(await contract.getBorrowerLoans(address));
     } catch (error) {
       console.error("Error fetching borrower loans:", error);
     } finally {
@@ -226,33 +348,26 @@ export const useP2PLending = () => {
     }
   }, [address, getReadContract]);
 
+  const fetchBorrowerRequests = useCallback(async () => {
+    if (!address) return;
+    try {
+      setIsLoadingBorrowerRequests(true);
+      const contract = getReadContract();
+      setBorrowerRequests(await contract.getBorrowerRequests(address));
+    } catch (error) {
+      console.error("Error fetching borrower requests:", error);
+    } finally {
+      setIsLoadingBorrowerRequests(false);
+    }
+  }, [address, getReadContract]);
+
   // Get loan details by ID
   const getLoan = useCallback(
     async (loanId: bigint): Promise<Loan | null> => {
       try {
         const contract = getReadContract();
         const loan = await contract.getLoan(loanId);
-        return {
-          id: BigInt(loan.id.toString()),
-          lender: loan.lender,
-          borrower: loan.borrower,
-          tokenAddress: loan.tokenAddress,
-          amount: BigInt(loan.amount.toString()),
-          interestRate: BigInt(loan.interestRate.toString()),
-          duration: BigInt(loan.duration.toString()),
-          collateralAddress: loan.collateralAddress,
-          collateralAmount: BigInt(loan.collateralAmount.toString()),
-          startTime: BigInt(loan.startTime.toString()),
-          status: loan.status,
-          minCollateralRatioBPS: BigInt(
-            loan.minCollateralRatioBPS?.toString() || "0"
-          ),
-          liquidationThresholdBPS: BigInt(
-            loan.liquidationThresholdBPS?.toString() || "0"
-          ),
-          maxPriceStaleness: BigInt(loan.maxPriceStaleness?.toString() || "0"),
-          repaidAmount: BigInt(loan.repaidAmount?.toString() || "0"),
-        };
+        return { ...loan, status: Number(loan.status) };
       } catch (error) {
         console.error("Error fetching loan details:", error);
         return null;
@@ -261,6 +376,21 @@ export const useP2PLending = () => {
     [getReadContract]
   );
 
+  // Get borrow request details by ID
+  const getBorrowRequest = useCallback(
+    async (requestId: bigint): Promise<BorrowRequest | null> => {
+      try {
+        const contract = getReadContract();
+        const request = await contract.getBorrowRequest(requestId);
+        return { ...request, status: Number(request.status) };
+      } catch (error) {
+        console.error("Error fetching borrow request details:", error);
+        return null;
+      }
+    },
+    [getReadContract]
+  );
+
   // Check ERC20 allowance
   const checkAllowance = useCallback(
     async (
@@ -270,8 +400,7 @@ export const useP2PLending = () => {
     ): Promise<bigint> => {
       try {
         const contract = await getERC20Contract(tokenAddress, false);
-        const allowance = await contract.allowance(owner, spender);
-        return BigInt(allowance.toString());
+        return await contract.allowance(owner, spender);
       } catch (error) {
         console.error("Error checking allowance:", error);
         return BigInt(0);
@@ -285,8 +414,7 @@ export const useP2PLending = () => {
     async (tokenAddress: string, account: string): Promise<bigint> => {
       try {
         const contract = await getERC20Contract(tokenAddress, false);
-        const balance = await contract.balanceOf(account);
-        return BigInt(balance.toString());
+        return await contract.balanceOf(account);
       } catch (error) {
         console.error("Error checking balance:", error);
         return BigInt(0);
@@ -295,6 +423,338 @@ export const useP2PLending = () => {
     [getERC20Contract]
   );
 
+  // ============ TRANSACTION STEPS ============
+
+  // Step that sends a transaction and waits for it to be mined
+  const transactionStep = useCallback(
+    ({
+      submit,
+      skip,
+      ...step
+    }: Omit<ActionStep, "run"> & {
+      submit: (
+        context: ActionContext
+      ) => Promise<ethers.ContractTransactionResponse>;
+      skip?: (context: ActionContext) => boolean;
+    }): ActionStep => ({
+      ...step,
+      run: async (context) => {
+        if (skip?.(context)) return { skipped: true };
+
+        const tx = context.submitted.get(step.id) ?? (await submit(context));
+        context.submitted.set(step.id, tx);
+        try {
+          await waitForTransactionWithRetry(tx);
+        } catch (error) {
+          // Reverted on-chain: retrying has to send a new transaction
+          if (ethers.isError(error, "CALL_EXCEPTION")) {
+            context.submitted.delete(step.id);
+          }
+          throw error;
+        }
+        context.submitted.delete(step.id);
+        return { hash: tx.hash };
+      },
+    }),
+    [waitForTransactionWithRetry]
+  );
+
+  /**
+   * Steps that let neurolend pull `amount` of a token. Nothing happens when
+   * the allowance already covers it. Permit-capable tokens sign a permit
+   * that the main call applies through permitAndCall (Permit2 tokens need
+   * a one-time Permit2 approval first); other tokens, and deployments
+   * without permitAndCall, send a regular approve(). Approvals and EIP-2612
+   * permits follow the user's exact/unlimited preference.
+   */
+  const approvalSteps = useCallback(
+    (
+      tokenAddress: string,
+      amount: bigint,
+      title = "Approve Token Spending"
+    ): ActionStep[] => {
+      const permitSupport = getTokenByAddress(tokenAddress)?.permit;
+
+      const steps: ActionStep[] = [
+        {
+          id: "allowance",
+          title: "Check Allowance",
+          description: "Check whether an approval is needed",
+          run: async (context) => {
+            if (!address) throw new Error("Wallet not connected");
+            context.approval = null;
+            context.permitType = null;
+
+            const allowance = await checkAllowance(
+              tokenAddress,
+              address,
+              neurolendAddress
+            );
+            if (allowance >= amount) return;
+
+            const mode = getApprovalPreference().get();
+            const approveAmount = approvalAmount(mode, amount);
+            const directApproval = {
+              spender: neurolendAddress,
+              amount: approveAmount,
+            };
+            if (!permitSupport) {
+              context.approval = directApproval;
+              return;
+            }
+
+            // Deployments before permitAndCall don't expose permit2()
+            const provider = getProvider();
+            const permit2 = await getReadContract()
+              .permit2()
+              .catch(() => null);
+            if (!permit2 || permit2 === ethers.ZeroAddress) {
+              context.approval = directApproval;
+              return;
+            }
+
+            if (permitSupport.type === "eip2612") {
+              const supported = await supportsEip2612(
+                tokenAddress,
+                permitSupport.version,
+                network.chain.id,
+                provider
+              );
+              if (supported) context.permitType = "eip2612";
+              else context.approval = directApproval;
+              return;
+            }
+
+            if ((await provider.getCode(permit2)) === "0x") {
+              context.approval = directApproval;
+              return;
+            }
+            const permit2Allowance = await checkAllowance(
+              tokenAddress,
+              address,
+              permit2
+            );
+            if (permit2Allowance < amount) {
+              // Permit2 only pays off with a standing unlimited approval of
+              // Permit2 itself; in exact mode that isn't wanted, and an exact
+              // approval plus a signature is worse than approving directly
+              if (mode === "exact") {
+                context.approval = directApproval;
+                return;
+              }
+              context.approval = {
+                spender: permit2,
+                amount: ethers.MaxUint256,
+              };
+            }
+            context.permitType = "permit2";
+            context.permit2Address = permit2;
+          },
+        },
+        transactionStep({
+          id: "approving",
+          title,
+          description: "Allow the contract to spend your tokens",
+          skip: (context) => !context.approval,
+          submit: async ({ approval }) => {
+            const contract = await getERC20Contract(tokenAddress, true);
+            return contract.approve(approval!.spender, approval!.amount);
+          },
+        }),
+      ];
+
+      if (permitSupport) {
+        steps.push({
+          id: "signing",
+          title: "Sign Permit",
+          description: "Approve with a signature instead of a transaction",
+          // A new signature on retry, in case the last one expired
+          repeatOnRetry: true,
+          run: async (context) => {
+            context.permit = null;
+            if (!context.permitType) return { skipped: true };
+            if (!address) throw new Error("Wallet not connected");
+
+            const signer = await getSigner();
+            const provider = getProvider();
+            const request = {
+              token: tokenAddress,
+              owner: address,
+              spender: neurolendAddress,
+              amount,
+              chainId: network.chain.id,
+            };
+            // Permit2 signatures expire with the permit, so only EIP-2612
+            // permits can leave an unlimited allowance behind
+            context.permit =
+              context.permitType === "permit2"
+                ? await signPermit2(
+                    signer,
+                    request,
+                    context.permit2Address!,
+                    provider
+                  )
+                : await signEip2612Permit(
+                    signer,
+                    {
+                      ...request,
+                      amount: approvalAmount(
+                        getApprovalPreference().get(),
+                        amount
+                      ),
+                    },
+                    permitSupport.type === "eip2612"
+                      ? permitSupport.version
+                      : "1",
+                    provider
+                  );
+          },
+        });
+      }
+      return steps;
+    },
+    [
+      address,
+      checkAllowance,
+      getERC20Contract,
+      getProvider,
+      getReadContract,
+      getSigner,
+      network,
+      neurolendAddress,
+      transactionStep,
+    ]
+  );
+
+  // Send an action's main call, wrapped in permitAndCall when the approval
+  // steps signed a permit for it
+  const sendWithPermit = useCallback(
+    async (
+      context: ActionContext,
+      signature: string,
+      args: unknown[],
+      overrides: ethers.Overrides = {}
+    ) => {
+      const contract = await getWriteContract();
+      if (!context.permit) return contract.send(signature, args, overrides);
+      return contract.permitAndCall(
+        context.permit,
+        contract.interface.encodeFunctionData(signature, args),
+        overrides
+      );
+    },
+    [getWriteContract]
+  );
+
+  // Fetch a Pyth update for the pair; repeated on retry so prices stay fresh
+  const priceUpdateStep = useCallback(
+    (tokenAddress: string, collateralAddress: string): ActionStep => ({
+      id: "price_update",
+      title: "Fetch Oracle Prices",
+      description: "Get fresh Pyth prices for the loan pair",
+      repeatOnRetry: true,
+      run: async (context) => {
+        const { updateData, updateFee } = await getPriceUpdate(
+          tokenAddress,
+          collateralAddress
+        );
+        context.updateData = updateData;
+        context.updateFee = updateFee;
+        setTransactionState((prev) => ({ ...prev, priceUpdateFee: updateFee }));
+      },
+    }),
+    [getPriceUpdate]
+  );
+
+  const runFlow = useCallback(async (flow: ActiveFlow) => {
+    await flow.orchestrator.run();
+    const hash = flow.orchestrator.hash;
+    setTransactionState((prev) => ({
+      ...prev,
+      isLoading: false,
+      isSuccess: true,
+      isError: false,
+      error: null,
+      hash,
+      step: "success",
+    }));
+    return hash;
+  }, []);
+
+  // Run an action's steps, showing progress in transactionState.steps.
+  // Errors are left to the action's catch block.
+  const runSteps = useCallback(
+    (steps: ActionStep[], errorFallback: string) => {
+      const orchestrator = new TransactionOrchestrator<ActionContext>(
+        steps,
+        {
+          approval: null,
+          permitType: null,
+          permit2Address: null,
+          permit: null,
+          updateData: [],
+          updateFee: BigInt(0),
+          submitted: new Map(),
+        },
+        {
+          onChange: (stepStates) =>
+            setTransactionState((prev) => ({
+              ...prev,
+              steps: stepStates,
+              step:
+                stepStates.find((state) => state.status === "running")?.id ??
+                prev.step,
+            })),
+          describeError: (error) =>
+            describeTransactionError(error, errorFallback),
+        }
+      );
+      const flow = { orchestrator, errorFallback };
+      activeFlowRef.current = flow;
+
+      setTransactionState({
+        isLoading: true,
+        isSuccess: false,
+        isError: false,
+        error: null,
+        hash: null,
+        step: steps[0].id,
+        steps: orchestrator.stepStates,
+      });
+      return runFlow(flow);
+    },
+    [runFlow]
+  );
+
+  // Retry the failed step of the last action, keeping the steps before it
+  const retryTransaction = useCallback(async () => {
+    const flow = activeFlowRef.current;
+    if (!flow) throw new Error("No transaction to retry");
+
+    setTransactionState((prev) => ({
+      ...prev,
+      isLoading: true,
+      isError: false,
+      error: null,
+      preflight: null,
+    }));
+    try {
+      return await runFlow(flow);
+    } catch (error: unknown) {
+      const errorMessage = describeTransactionError(error, flow.errorFallback);
+      setTransactionState((prev) => ({
+        ...prev,
+        isLoading: false,
+        isSuccess: false,
+        isError: true,
+        error: errorMessage,
+        hash: null,
+        step: "error",
+      }));
+      throw error;
+    }
+  }, [runFlow]);
+
   // ============ WRITE FUNCTIONS ============
 
   // Approve ERC20 tokens
@@ -313,7 +773,7 @@ export const useP2PLending = () => {
 
       try {
         const contract = await getERC20Contract(tokenAddress, true);
-        const tx = await contract.approve(neurolend_CONTRACT_ADDRESS, amount);
+        const tx = await contract.approve(neurolendAddress, amount);
         await tx.wait();
 
         setTransactionState((prev) => ({
@@ -327,22 +787,23 @@ export const useP2PLending = () => {
         return tx.hash;
       } catch (error: unknown) {
         const errorMessage =
-          error instanceof Error ? error.message : "Failed to approve tokens";
-        setTransactionState({
+          describeTransactionError(error, "Failed to approve tokens");
+        setTransactionState((prev) => ({
+          ...prev,
           isLoading: false,
           isSuccess: false,
           isError: true,
           error: errorMessage,
           hash: null,
           step: "error",
-        });
+        }));
         throw error;
       }
     },
-    [address, getERC20Contract]
+    [address, getERC20Contract, neurolendAddress]
   );
 
-  // Create loan offer with two-step process
+  // Create loan offer: allowance check, approve, create, refresh
   const createLoanOffer = useCallback(
     async (formData: LoanOfferFormData) => {
       if (!address) throw new Error("Wallet not connected");
@@ -432,103 +893,67 @@ export const useP2PLending = () => {
           },
         });
 
-        // Step 1: Approve tokens
-        setTransactionState({
-          isLoading: true,
-          isSuccess: false,
-          isError: false,
-          error: null,
-          hash: null,
-          step: "approving",
-        });
-
-        await approveToken(formData.tokenAddress, amount);
-
-        // Wait a bit for the approval to be processed
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-
-        // Step 2: Create loan offer
-        setTransactionState((prev) => ({
-          ...prev,
-          step: "creating",
-        }));
-
         // Get risk parameters for the loan pair (using existing loanToken and collateralToken variables)
         const riskParams = getRecommendedParameters(loanToken, collateralToken);
 
-        const contract = await getWriteContract();
-        const tx = await contract.createLoanOffer(
-          formData.tokenAddress,
-          amount,
-          interestRate,
-          duration,
-          formData.collateralAddress,
-          collateralAmount,
-          BigInt(riskParams.minCollateralRatio),
-          BigInt(riskParams.liquidationThreshold),
-          BigInt(riskParams.maxPriceStaleness)
+        return await runSteps(
+          [
+            ...approvalSteps(
+              formData.tokenAddress,
+              amount,
+              "Approve Loan Token"
+            ),
+            transactionStep({
+              id: "creating",
+              title: "Create Loan Offer",
+              description: "Submit the loan offer to the blockchain",
+              submit: (context) =>
+                sendWithPermit(
+                  context,
+                  "createLoanOffer(address,uint256,uint256,uint256,address,uint256,uint256,uint256,uint256)",
+                  [
+                    formData.tokenAddress,
+                    amount,
+                    interestRate,
+                    duration,
+                    formData.collateralAddress,
+                    collateralAmount,
+                    BigInt(riskParams.minCollateralRatio),
+                    BigInt(riskParams.liquidationThreshold),
+                    BigInt(riskParams.maxPriceStaleness),
+                  ]
+                ),
+            }),
+            refreshStep(async () => {
+              await fetchActiveLoanOffers();
+              await fetchLenderLoans();
+            }),
+          ],
+          "Failed to create loan offer"
         );
-
-        console.log("Transaction submitted:", tx.hash);
-
-        // Try to wait for transaction with retries
-        try {
-          await waitForTransactionWithRetry(tx);
-
-          setTransactionState({
-            isLoading: false,
-            isSuccess: true,
-            isError: false,
-            error: null,
-            hash: tx.hash,
-            step: "success",
-          });
-        } catch (waitError) {
-          console.warn("Error waiting for transaction receipt:", waitError);
-
-          // Transaction was submitted but receipt retrieval failed
-          // This is often due to RPC issues, not transaction failure
-          setTransactionState({
-            isLoading: false,
-            isSuccess: true,
-            isError: false,
-            error: null,
-            hash: tx.hash,
-            step: "success",
-          });
-
-          // Show a helpful message to the user
-          console.log("Transaction submitted successfully. Hash:", tx.hash);
-        }
-
-        // Refetch data
-        await fetchActiveLoanOffers();
-        await fetchLenderLoans();
-
-        return tx.hash;
       } catch (error: unknown) {
         const errorMessage =
-          error instanceof Error
-            ? error.message
-            : "Failed to create loan offer";
-        setTransactionState({
+          describeTransactionError(error, "Failed to create loan offer");
+        setTransactionState((prev) => ({
+          ...prev,
           isLoading: false,
           isSuccess: false,
           isError: true,
           error: errorMessage,
           hash: null,
           step: "error",
-        });
+        }));
         throw error;
       }
     },
     [
       address,
-      getWriteContract,
-      approveToken,
+      sendWithPermit,
+      runSteps,
+      approvalSteps,
+      transactionStep,
       fetchActiveLoanOffers,
       fetchLenderLoans,
-      waitForTransactionWithRetry,
     ]
   );
 
@@ -613,169 +1038,125 @@ export const useP2PLending = () => {
           },
         });
 
-        // Step 1: Approve collateral tokens
-        setTransactionState({
-          isLoading: true,
-          isSuccess: false,
-          isError: false,
-          error: null,
-          hash: null,
-          step: "approving",
-        });
-
-        await approveToken(formData.collateralAddress, collateralAmount);
-
-        // Wait a bit for the approval to be processed
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-
-        // Step 2: Create borrow request
-        setTransactionState((prev) => ({
-          ...prev,
-          step: "creating",
-        }));
-
         // Get risk parameters for the loan pair
         const riskParams = getRecommendedParameters(loanToken, collateralToken);
 
-        const contract = await getWriteContract();
-        const tx = await contract.createBorrowRequest(
-          formData.tokenAddress,
-          amount,
-          maxInterestRate,
-          duration,
-          formData.collateralAddress,
-          collateralAmount,
-          BigInt(riskParams.minCollateralRatio),
-          BigInt(riskParams.liquidationThreshold),
-          BigInt(riskParams.maxPriceStaleness)
+        return await runSteps(
+          [
+            ...approvalSteps(
+              formData.collateralAddress,
+              collateralAmount,
+              "Approve Collateral Token"
+            ),
+            transactionStep({
+              id: "creating",
+              title: "Create Borrow Request",
+              description: "Submit the borrow request to the blockchain",
+              submit: (context) =>
+                sendWithPermit(
+                  context,
+                  "createBorrowRequest(address,uint256,uint256,uint256,address,uint256,uint256,uint256,uint256)",
+                  [
+                    formData.tokenAddress,
+                    amount,
+                    maxInterestRate,
+                    duration,
+                    formData.collateralAddress,
+                    collateralAmount,
+                    BigInt(riskParams.minCollateralRatio),
+                    BigInt(riskParams.liquidationThreshold),
+                    BigInt(riskParams.maxPriceStaleness),
+                  ]
+                ),
+            }),
+            refreshStep(async () => {
+              await fetchActiveBorrowRequests();
+              await fetchBorrowerRequests();
+            }),
+          ],
+          "Failed to create borrow request"
         );
-
-        console.log("Borrow request transaction submitted:", tx.hash);
-
-        // Try to wait for transaction with retries
-        try {
-          await waitForTransactionWithRetry(tx);
-
-          setTransactionState({
-            isLoading: false,
-            isSuccess: true,
-            isError: false,
-            error: null,
-            hash: tx.hash,
-            step: "success",
-          });
-        } catch (waitError) {
-          console.warn("Error waiting for transaction receipt:", waitError);
-
-          // Transaction was submitted but receipt retrieval failed
-          setTransactionState({
-            isLoading: false,
-            isSuccess: true,
-            isError: false,
-            error: null,
-            hash: tx.hash,
-            step: "success",
-          });
-
-          console.log("Borrow request submitted successfully. Hash:", tx.hash);
-        }
-
-        // Refetch data
-        await fetchActiveBorrowRequests();
-        await fetchBorrowerLoans();
-
-        return tx.hash;
       } catch (error: unknown) {
         const errorMessage =
-          error instanceof Error
-            ? error.message
-            : "Failed to create borrow request";
-        setTransactionState({
+          describeTransactionError(error, "Failed to create borrow request");
+        setTransactionState((prev) => ({
+          ...prev,
           isLoading: false,
           isSuccess: false,
           isError: true,
           error: errorMessage,
           hash: null,
           step: "error",
-        });
+        }));
         throw error;
       }
     },
     [
       address,
-      getWriteContract,
-      approveToken,
+      sendWithPermit,
+      runSteps,
+      approvalSteps,
+      transactionStep,
       fetchActiveBorrowRequests,
-      fetchBorrowerLoans,
-      waitForTransactionWithRetry,
+      fetchBorrowerRequests,
     ]
   );
 
-  // Accept loan offer with two-step process
+  // Accept loan offer: approve collateral, refresh prices, accept
   const acceptLoanOffer = useCallback(
     async (loanId: bigint, loan: Loan) => {
       if (!address) throw new Error("Wallet not connected");
 
       try {
-        // Step 1: Approve collateral tokens
-        setTransactionState({
-          isLoading: true,
-          isSuccess: false,
-          isError: false,
-          error: null,
-          hash: null,
-          step: "approving",
-        });
-
-        await approveToken(loan.collateralAddress, loan.collateralAmount);
-
-        // Wait a bit for the approval to be processed
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-
-        // Step 2: Accept loan offer
-        setTransactionState((prev) => ({
-          ...prev,
-          step: "accepting",
-        }));
-
-        const contract = await getWriteContract();
-        const tx = await contract.acceptLoanOffer(loanId);
-        await tx.wait();
-
-        setTransactionState({
-          isLoading: false,
-          isSuccess: true,
-          isError: false,
-          error: null,
-          hash: tx.hash,
-          step: "success",
-        });
-
-        // Refetch data
-        await fetchActiveLoanOffers();
-        await fetchBorrowerLoans();
-
-        return tx.hash;
+        return await runSteps(
+          [
+            ...approvalSteps(
+              loan.collateralAddress,
+              loan.collateralAmount,
+              "Approve Collateral Token"
+            ),
+            priceUpdateStep(loan.tokenAddress, loan.collateralAddress),
+            transactionStep({
+              id: "accepting",
+              title: "Accept Loan Offer",
+              description: "Complete the loan acceptance transaction",
+              submit: (context) =>
+                sendWithPermit(
+                  context,
+                  "acceptLoanOffer(uint256,bytes[])",
+                  [loanId, context.updateData],
+                  { value: context.updateFee }
+                ),
+            }),
+            refreshStep(async () => {
+              await fetchActiveLoanOffers();
+              await fetchBorrowerLoans();
+            }),
+          ],
+          "Failed to accept loan offer"
+        );
       } catch (error: unknown) {
         const errorMessage =
-          error instanceof Error
-            ? error.message
-            : "Failed to accept loan offer";
-        setTransactionState({
+          describeTransactionError(error, "Failed to accept loan offer");
+        setTransactionState((prev) => ({
+          ...prev,
           isLoading: false,
           isSuccess: false,
           isError: true,
           error: errorMessage,
           hash: null,
           step: "error",
-        });
+        }));
         throw error;
       }
     },
     [
       address,
-      getWriteContract,
-      approveToken,
+      sendWithPermit,
+      runSteps,
+      approvalSteps,
+      priceUpdateStep,
+      transactionStep,
       fetchActiveLoanOffers,
       fetchBorrowerLoans,
     ]
@@ -783,7 +1164,11 @@ export const useP2PLending = () => {
 
   // Accept borrow request
   const acceptBorrowRequest = useCallback(
-    async (requestId: bigint, request: Loan, interestRate: string) => {
+    async (
+      requestId: bigint,
+      request: BorrowRequest,
+      interestRate: string
+    ) => {
       if (!address) throw new Error("Wallet not connected");
 
       try {
@@ -801,7 +1186,7 @@ export const useP2PLending = () => {
         if (isNaN(interestRateValue) || interestRateValue <= 0) {
           throw new Error("Please enter a valid interest rate");
         }
-        if (interestRateValue > Number(request.interestRate) / 100) {
+        if (interestRateValue > Number(request.maxInterestRate) / 100) {
           throw new Error("Interest rate cannot exceed the maximum requested rate");
         }
 
@@ -813,7 +1198,7 @@ export const useP2PLending = () => {
             borrower: request.borrower,
             tokenAddress: request.tokenAddress,
             amount: request.amount.toString(),
-            maxInterestRate: request.interestRate.toString(),
+            maxInterestRate: request.maxInterestRate.toString(),
           },
           loanToken: {
             symbol: loanToken.symbol,
@@ -824,91 +1209,58 @@ export const useP2PLending = () => {
             input: interestRate,
             inputAsNumber: interestRateValue,
             convertedBasisPoints: finalInterestRate.toString(),
-            maxAllowed: Number(request.interestRate) / 100,
+            maxAllowed: Number(request.maxInterestRate) / 100,
           },
         });
 
-        // Step 1: Approve loan tokens
-        setTransactionState({
-          isLoading: true,
-          isSuccess: false,
-          isError: false,
-          error: null,
-          hash: null,
-          step: "approving",
-        });
-
-        await approveToken(request.tokenAddress, request.amount);
-
-        // Wait a bit for the approval to be processed
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-
-        // Step 2: Accept borrow request
-        setTransactionState((prev) => ({
-          ...prev,
-          step: "accepting",
-        }));
-
-        const contract = await getWriteContract();
-        const tx = await contract.acceptBorrowRequest(requestId, finalInterestRate);
-
-        console.log("Accept borrow request transaction submitted:", tx.hash);
-
-        // Try to wait for transaction with retries
-        try {
-          await waitForTransactionWithRetry(tx);
-
-          setTransactionState({
-            isLoading: false,
-            isSuccess: true,
-            isError: false,
-            error: null,
-            hash: tx.hash,
-            step: "success",
-          });
-        } catch (waitError) {
-          console.warn("Error waiting for transaction receipt:", waitError);
-
-          setTransactionState({
-            isLoading: false,
-            isSuccess: true,
-            isError: false,
-            error: null,
-            hash: tx.hash,
-            step: "success",
-          });
-
-          console.log("Borrow request accepted successfully. Hash:", tx.hash);
-        }
-
-        // Refetch data
-        await fetchActiveBorrowRequests();
-        await fetchLenderLoans();
-
-        return tx.hash;
+        return await runSteps(
+          [
+            ...approvalSteps(
+              request.tokenAddress,
+              request.amount,
+              "Approve Loan Token"
+            ),
+            transactionStep({
+              id: "accepting",
+              title: "Fill Borrow Request",
+              description: "Lend to the borrower at your interest rate",
+              submit: (context) =>
+                sendWithPermit(
+                  context,
+                  "acceptBorrowRequest(uint256,uint256)",
+                  [requestId, finalInterestRate]
+                ),
+            }),
+            refreshStep(async () => {
+              await fetchActiveBorrowRequests();
+              await fetchLenderLoans();
+            }),
+          ],
+          "Failed to accept borrow request"
+        );
       } catch (error: unknown) {
         const errorMessage =
-          error instanceof Error
-            ? error.message
-            : "Failed to accept borrow request";
-        setTransactionState({
+          describeTransactionError(error, "Failed to accept borrow request");
+        setTransactionState((prev) => ({
+          ...prev,
           isLoading: false,
           isSuccess: false,
           isError: true,
           error: errorMessage,
           hash: null,
           step: "error",
-        });
+        }));
         throw error;
       }
     },
     [
       address,
-      getWriteContract,
-      approveToken,
+      sendWithPermit,
+      runSteps,
+      approvalSteps,
+      transactionStep,
       fetchActiveBorrowRequests,
       fetchLenderLoans,
-      waitForTransactionWithRetry,
     ]
   );
 
@@ -926,63 +1278,44 @@ export const useP2PLending = () => {
           (BigInt(10000) * BigInt(365 * 24 * 60 * 60));
         const totalRepayment = loan.amount + interest;
 
-        // Step 1: Approve repayment tokens
-        setTransactionState({
-          isLoading: true,
-          isSuccess: false,
-          isError: false,
-          error: null,
-          hash: null,
-          step: "approving",
-        });
-
-        await approveToken(loan.tokenAddress, totalRepayment);
-
-        // Wait a bit for the approval to be processed
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-
-        // Step 2: Repay loan
-        setTransactionState((prev) => ({
-          ...prev,
-          step: "repaying",
-        }));
-
-        const contract = await getWriteContract();
-        const tx = await contract.repayLoan(loanId);
-        await tx.wait();
-
-        setTransactionState({
-          isLoading: false,
-          isSuccess: true,
-          isError: false,
-          error: null,
-          hash: tx.hash,
-          step: "success",
-        });
-
-        // Refetch data
-        await fetchBorrowerLoans();
-        await fetchLenderLoans();
-
-        return tx.hash;
+        return await runSteps(
+          [
+            ...approvalSteps(loan.tokenAddress, totalRepayment),
+            transactionStep({
+              id: "repaying",
+              title: "Repay Loan",
+              description: "Repay the principal and interest",
+              submit: (context) =>
+                sendWithPermit(context, "repayLoan(uint256)", [loanId]),
+            }),
+            refreshStep(async () => {
+              await fetchBorrowerLoans();
+              await fetchLenderLoans();
+            }),
+          ],
+          "Failed to repay loan"
+        );
       } catch (error: unknown) {
         const errorMessage =
-          error instanceof Error ? error.message : "Failed to repay loan";
-        setTransactionState({
+          describeTransactionError(error, "Failed to repay loan");
+        setTransactionState((prev) => ({
+          ...prev,
           isLoading: false,
           isSuccess: false,
           isError: true,
           error: errorMessage,
           hash: null,
           step: "error",
-        });
+        }));
         throw error;
       }
     },
     [
       address,
-      getWriteContract,
-      approveToken,
+      sendWithPermit,
+      runSteps,
+      approvalSteps,
+      transactionStep,
       fetchBorrowerLoans,
       fetchLenderLoans,
     ]
@@ -1003,8 +1336,22 @@ export const useP2PLending = () => {
           step: "liquidating",
         });
 
+        const loan = await getLoan(loanId);
+        if (!loan) throw new Error("Loan not found");
+
+        const { updateData, updateFee } = await getPriceUpdate(
+          loan.tokenAddress,
+          loan.collateralAddress
+        );
+        setTransactionState((prev) => ({
+          ...prev,
+          priceUpdateFee: updateFee,
+        }));
+
         const contract = await getWriteContract();
-        const tx = await contract.liquidateLoan(loanId);
+        const tx = await contract.liquidateLoan(loanId, updateData, {
+          value: updateFee,
+        });
         await tx.wait();
 
         setTransactionState({
@@ -1014,6 +1361,7 @@ export const useP2PLending = () => {
           error: null,
           hash: tx.hash,
           step: "success",
+          priceUpdateFee: updateFee,
         });
 
         // Refetch data
@@ -1022,19 +1370,20 @@ export const useP2PLending = () => {
         return tx.hash;
       } catch (error: unknown) {
         const errorMessage =
-          error instanceof Error ? error.message : "Failed to liquidate loan";
-        setTransactionState({
+          describeTransactionError(error, "Failed to liquidate loan");
+        setTransactionState((prev) => ({
+          ...prev,
           isLoading: false,
           isSuccess: false,
           isError: true,
           error: errorMessage,
           hash: null,
           step: "error",
-        });
+        }));
         throw error;
       }
     },
-    [address, getWriteContract, fetchLenderLoans]
+    [address, getLoan, getPriceUpdate, getWriteContract, fetchLenderLoans]
   );
 
   // Cancel loan offer
@@ -1072,17 +1421,16 @@ export const useP2PLending = () => {
         return tx.hash;
       } catch (error: unknown) {
         const errorMessage =
-          error instanceof Error
-            ? error.message
-            : "Failed to cancel loan offer";
-        setTransactionState({
+          describeTransactionError(error, "Failed to cancel loan offer");
+        setTransactionState((prev) => ({
+          ...prev,
           isLoading: false,
           isSuccess: false,
           isError: true,
           error: errorMessage,
           hash: null,
           step: "error",
-        });
+        }));
         throw error;
       }
     },
@@ -1119,26 +1467,30 @@ export const useP2PLending = () => {
 
         // Refetch data
         await fetchActiveBorrowRequests();
-        await fetchBorrowerLoans();
+        await fetchBorrowerRequests();
 
         return tx.hash;
       } catch (error: unknown) {
         const errorMessage =
-          error instanceof Error
-            ? error.message
-            : "Failed to cancel borrow request";
-        setTransactionState({
+          describeTransactionError(error, "Failed to cancel borrow request");
+        setTransactionState((prev) => ({
+          ...prev,
           isLoading: false,
           isSuccess: false,
           isError: true,
           error: errorMessage,
           hash: null,
           step: "error",
-        });
+        }));
         throw error;
       }
     },
-    [address, getWriteContract, fetchActiveBorrowRequests, fetchBorrowerLoans]
+    [
+      address,
+      getWriteContract,
+      fetchActiveBorrowRequests,
+      fetchBorrowerRequests,
+    ]
   );
 
   // ============ UTILITY FUNCTIONS ============
@@ -1218,15 +1570,19 @@ export const useP2PLending = () => {
   useEffect(() => {
     if (isConnected && address) {
       fetchActiveLoanOffers();
+      fetchActiveBorrowRequests();
       fetchLenderLoans();
       fetchBorrowerLoans();
+      fetchBorrowerRequests();
     }
   }, [
     isConnected,
     address,
     fetchActiveLoanOffers,
+    fetchActiveBorrowRequests,
     fetchLenderLoans,
     fetchBorrowerLoans,
+    fetchBorrowerRequests,
   ]);
 
   // Add collateral to loan
@@ -1235,48 +1591,62 @@ export const useP2PLending = () => {
       if (!address) throw new Error("Wallet not connected");
 
       try {
-        setTransactionState({
-          isLoading: true,
-          isSuccess: false,
-          isError: false,
-          error: null,
-          hash: null,
-          step: "adding_collateral",
-        });
-
-        const contract = await getWriteContract();
-        const tx = await contract.addCollateral(loanId, additionalAmount);
-        await tx.wait();
-
-        setTransactionState({
-          isLoading: false,
-          isSuccess: true,
-          isError: false,
-          error: null,
-          hash: tx.hash,
-          step: "success",
-        });
-
-        // Refetch data
-        await fetchBorrowerLoans();
-        await fetchLenderLoans();
-
-        return tx.hash;
+        const loan = await getLoan(loanId);
+        if (!loan) throw new Error("Loan not found");
+
+        return await runSteps(
+          [
+            ...approvalSteps(
+              loan.collateralAddress,
+              additionalAmount,
+              "Approve Collateral Token"
+            ),
+            priceUpdateStep(loan.tokenAddress, loan.collateralAddress),
+            transactionStep({
+              id: "adding_collateral",
+              title: "Add Collateral",
+              description: "Deposit collateral to improve the loan's health",
+              submit: (context) =>
+                sendWithPermit(
+                  context,
+                  "addCollateral(uint256,uint256,bytes[])",
+                  [loanId, additionalAmount, context.updateData],
+                  { value: context.updateFee }
+                ),
+            }),
+            refreshStep(async () => {
+              await fetchBorrowerLoans();
+              await fetchLenderLoans();
+            }),
+          ],
+          "Failed to add collateral"
+        );
       } catch (error: unknown) {
         const errorMessage =
-          error instanceof Error ? error.message : "Failed to add collateral";
-        setTransactionState({
+          describeTransactionError(error, "Failed to add collateral");
+        setTransactionState((prev) => ({
+          ...prev,
           isLoading: false,
           isSuccess: false,
           isError: true,
           error: errorMessage,
           hash: null,
           step: "error",
-        });
+        }));
         throw error;
       }
     },
-    [address, getWriteContract, fetchBorrowerLoans, fetchLenderLoans]
+    [
+      address,
+      getLoan,
+      sendWithPermit,
+      runSteps,
+      approvalSteps,
+      priceUpdateStep,
+      transactionStep,
+      fetchBorrowerLoans,
+      fetchLenderLoans,
+    ]
   );
 
   // Remove collateral from loan
@@ -1294,8 +1664,25 @@ export const useP2PLending = () => {
           step: "removing_collateral",
         });
 
+        const loan = await getLoan(loanId);
+        if (!loan) throw new Error("Loan not found");
+
+        const { updateData, updateFee } = await getPriceUpdate(
+          loan.tokenAddress,
+          loan.collateralAddress
+        );
+        setTransactionState((prev) => ({
+          ...prev,
+          priceUpdateFee: updateFee,
+        }));
+
         const contract = await getWriteContract();
-        const tx = await contract.removeCollateral(loanId, removeAmount);
+        const tx = await contract.removeCollateral(
+          loanId,
+          removeAmount,
+          updateData,
+          { value: updateFee }
+        );
         await tx.wait();
 
         setTransactionState({
@@ -1305,6 +1692,7 @@ export const useP2PLending = () => {
           error: null,
           hash: tx.hash,
           step: "success",
+          priceUpdateFee: updateFee,
         });
 
         // Refetch data
@@ -1314,21 +1702,27 @@ export const useP2PLending = () => {
         return tx.hash;
       } catch (error: unknown) {
         const errorMessage =
-          error instanceof Error
-            ? error.message
-            : "Failed to remove collateral";
-        setTransactionState({
+          describeTransactionError(error, "Failed to remove collateral");
+        setTransactionState((prev) => ({
+          ...prev,
           isLoading: false,
           isSuccess: false,
           isError: true,
           error: errorMessage,
           hash: null,
           step: "error",
-        });
+        }));
         throw error;
       }
     },
-    [address, getWriteContract, fetchBorrowerLoans, fetchLenderLoans]
+    [
+      address,
+      getLoan,
+      getPriceUpdate,
+      getWriteContract,
+      fetchBorrowerLoans,
+      fetchLenderLoans,
+    ]
   );
 
   // Make partial repayment
@@ -1337,65 +1731,48 @@ export const useP2PLending = () => {
       if (!address) throw new Error("Wallet not connected");
 
       try {
-        // Step 1: Approve repayment tokens
-        setTransactionState({
-          isLoading: true,
-          isSuccess: false,
-          isError: false,
-          error: null,
-          hash: null,
-          step: "approving",
-        });
-
-        await approveToken(loan.tokenAddress, repaymentAmount);
-
-        // Wait a bit for the approval to be processed
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-
-        // Step 2: Make partial repayment
-        setTransactionState((prev) => ({
-          ...prev,
-          step: "partial_repaying",
-        }));
-
-        const contract = await getWriteContract();
-        const tx = await contract.makePartialRepayment(loanId, repaymentAmount);
-        await tx.wait();
-
-        setTransactionState({
-          isLoading: false,
-          isSuccess: true,
-          isError: false,
-          error: null,
-          hash: tx.hash,
-          step: "success",
-        });
-
-        // Refetch data
-        await fetchBorrowerLoans();
-        await fetchLenderLoans();
-
-        return tx.hash;
+        return await runSteps(
+          [
+            ...approvalSteps(loan.tokenAddress, repaymentAmount),
+            transactionStep({
+              id: "partial_repaying",
+              title: "Make Partial Repayment",
+              description: "Pay down part of the loan",
+              submit: (context) =>
+                sendWithPermit(
+                  context,
+                  "makePartialRepayment(uint256,uint256)",
+                  [loanId, repaymentAmount]
+                ),
+            }),
+            refreshStep(async () => {
+              await fetchBorrowerLoans();
+              await fetchLenderLoans();
+            }),
+          ],
+          "Failed to make partial repayment"
+        );
       } catch (error: unknown) {
         const errorMessage =
-          error instanceof Error
-            ? error.message
-            : "Failed to make partial repayment";
-        setTransactionState({
+          describeTransactionError(error, "Failed to make partial repayment");
+        setTransactionState((prev) => ({
+          ...prev,
           isLoading: false,
           isSuccess: false,
           isError: true,
           error: errorMessage,
           hash: null,
           step: "error",
-        });
+        }));
         throw error;
       }
     },
     [
       address,
-      getWriteContract,
-      approveToken,
+      sendWithPermit,
+      runSteps,
+      approvalSteps,
+      transactionStep,
       fetchBorrowerLoans,
       fetchLenderLoans,
     ]
@@ -1405,14 +1782,8 @@ export const useP2PLending = () => {
   const getLoanRepaymentInfo = useCallback(
     async (loanId: bigint) => {
       try {
-        const contract = await getReadContract();
-        const result = await contract.getLoanRepaymentInfo(loanId);
-        return {
-          totalOwed: result[0],
-          repaidAmount: result[1],
-          remainingAmount: result[2],
-          interestAccrued: result[3],
-        };
+        const contract = getReadContract();
+        return await contract.getLoanRepaymentInfo(loanId);
       } catch (error) {
         console.error("Failed to get loan repayment info:", error);
         throw error;
@@ -1425,12 +1796,8 @@ export const useP2PLending = () => {
   const getLoanHealthFactor = useCallback(
     async (loanId: bigint) => {
       try {
-        const contract = await getReadContract();
-        const result = await contract.getLoanHealthFactor(loanId);
-        return {
-          currentRatio: result[0],
-          priceStale: result[1],
-        };
+        const contract = getReadContract();
+        return await contract.getLoanHealthFactor(loanId);
       } catch (error) {
         console.error("Failed to get loan health factor:", error);
         throw error;
@@ -1447,6 +1814,11 @@ export const useP2PLending = () => {
     address,
     isConnected,
 
+    // Network info
+    network,
+    isSupportedNetwork,
+    switchToNetwork,
+
     // Read functions
     activeLoanOfferIds,
     activeBorrowRequestIds,
@@ -1456,7 +1828,10 @@ export const useP2PLending = () => {
     isLoadingLenderLoans,
     borrowerLoans,
     isLoadingBorrowerLoans,
+    borrowerRequests,
+    isLoadingBorrowerRequests,
     getLoan,
+    getBorrowRequest,
     checkAllowance,
     checkBalance,
 
@@ -1482,12 +1857,14 @@ export const useP2PLending = () => {
     getLoanHealthFactor,
     formatLoanData,
     resetTransactionState,
+    retryTransaction,
 
     // Refetch functions
     refetchOffers: fetchActiveLoanOffers,
     refetchRequests: fetchActiveBorrowRequests,
     refetchLenderLoans: fetchLenderLoans,
     refetchBorrowerLoans: fetchBorrowerLoans,
+    refetchBorrowerRequests: fetchBorrowerRequests,
 
     // Direct access to contract functions for OrderBook component
     getActiveLoanOffers: fetchActiveLoanOffers,
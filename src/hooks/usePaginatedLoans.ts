@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ProcessedLoan } from "./useSubgraphQuery";
+import { useNetwork } from "@/hooks/useNetwork";
+import {
+  LoanList,
+  LoanListKind,
+  LoanListSnapshot,
+  getLoanPageLoader,
+} from "@/lib/loan-pages";
+
+/**
+ * Newest-first loans for a lender, a borrower or the active offers, loaded
+ * a page at a time (see lib/loan-pages). `loadMore` appends the next page;
+ * `refresh` re-reads everything loaded so far against a new snapshot.
+ * Pass no account for lender/borrower lists to leave them empty.
+ */
+export function usePaginatedLoans(kind: LoanListKind, account?: string) {
+  const { network } = useNetwork();
+  const [loans, setLoans] = useState<ProcessedLoan[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const snapshotRef = useRef<LoanListSnapshot | null>(null);
+  const cursorRef = useRef<number | null>(null);
+  const loadedRef = useRef(0);
+  // Bumped on every reload so responses for an old list are dropped
+  const generationRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+
+  const loader = useMemo(() => getLoanPageLoader(network), [network]);
+  const list = useMemo<LoanList | null>(
+    () => (kind === "offers" || account ? { kind, account } : null),
+    [kind, account]
+  );
+
+  const reload = useCallback(
+    async (count?: number) => {
+      const generation = ++generationRef.current;
+      snapshotRef.current = null;
+      cursorRef.current = null;
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+      if (!list) {
+        loadedRef.current = 0;
+        setLoans([]);
+        setTotal(0);
+        setHasMore(false);
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        setError(null);
+        const snapshot = await loader.snapshot(list);
+        const page = await loader.loadPage(
+          list,
+          snapshot,
+          0,
+          Math.max(count ?? 0, loader.pageSize)
+        );
+        if (generation !== generationRef.current) return;
+
+        snapshotRef.current = snapshot;
+        cursorRef.current = page.nextCursor;
+        loadedRef.current = page.loans.length;
+        setLoans(page.loans);
+        setTotal(snapshot.total);
+        setHasMore(page.nextCursor !== null);
+      } catch (err) {
+        if (generation !== generationRef.current) return;
+        console.error("Failed to load loans:", err);
+        setError(err instanceof Error ? err.message : "Failed to load loans");
+      } finally {
+        if (generation === generationRef.current) setLoading(false);
+      }
+    },
+    [list, loader]
+  );
+
+  const loadMore = useCallback(async () => {
+    const snapshot = snapshotRef.current;
+    const cursor = cursorRef.current;
+    if (!list || !snapshot || cursor === null || loadingMoreRef.current) {
+      return;
+    }
+    const generation = generationRef.current;
+
+    try {
+      loadingMoreRef.current = true;
+      setLoadingMore(true);
+      const page = await loader.loadPage(list, snapshot, cursor);
+      if (generation !== generationRef.current) return;
+
+      cursorRef.current = page.nextCursor;
+      loadedRef.current += page.loans.length;
+      // The active offer list is reordered on removal; skip repeats
+      setLoans((prev) => {
+        const seen = new Set(prev.map((loan) => loan.id));
+        return [...prev, ...page.loans.filter((loan) => !seen.has(loan.id))];
+      });
+      setHasMore(page.nextCursor !== null);
+    } catch (err) {
+      if (generation !== generationRef.current) return;
+      console.error("Failed to load more loans:", err);
+      setError(err instanceof Error ? err.message : "Failed to load loans");
+    } finally {
+      if (generation === generationRef.current) {
+        loadingMoreRef.current = false;
+        setLoadingMore(false);
+      }
+    }
+  }, [list, loader]);
+
+  // Keep as many loans as are already on screen
+  const refresh = useCallback(() => reload(loadedRef.current), [reload]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return {
+    loans,
+    total,
+    loading,
+    loadingMore,
+    hasMore,
+    error,
+    loadMore,
+    refresh,
+  };
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import type { PriceSample } from "@/lib/price-history-store";
+import type { IndexedEvent } from "@/lib/indexer-store";
+import type { ProcessedLoan } from "@/hooks/useSubgraphQuery";
+import { LoanStatus } from "@/lib/contracts";
+
+export type LoanMarkerKind =
+  | "created"
+  | "accepted"
+  | "collateralAdded"
+  | "collateralRemoved"
+  | "liquidated";
+
+// A loan event to mark on a price chart
+export interface LoanMarker {
+  t: number; // unix seconds
+  kind: LoanMarkerKind;
+  label: string;
+}
+
+const MARKER_EVENTS: Partial<
+  Record<IndexedEvent["name"], { kind: LoanMarkerKind; label: string }>
+> = {
+  LoanCreated: { kind: "created", label: "Created" },
+  LoanAccepted: { kind: "accepted", label: "Accepted" },
+  CollateralAdded: { kind: "collateralAdded", label: "Collateral added" },
+  CollateralRemoved: { kind: "collateralRemoved", label: "Collateral removed" },
+  LoanLiquidated: { kind: "liquidated", label: "Liquidated" },
+};
+
+/**
+ * Chart markers from a loan's indexed events. Without any (e.g. the indexer
+ * is unavailable), creation and acceptance come from the loan itself.
+ */
+export function loanMarkers(
+  loan: Pick<ProcessedLoan, "createdAt" | "startTime" | "status">,
+  events: IndexedEvent[]
+): LoanMarker[] {
+  const markers = events.flatMap((event) => {
+    const marker = MARKER_EVENTS[event.name];
+    return marker ? [{ t: event.blockTimestamp, ...marker }] : [];
+  });
+  if (markers.length > 0) return markers.sort((a, b) => a.t - b.t);
+
+  const fallback: LoanMarker[] = [
+    { t: Number(loan.createdAt), ...MARKER_EVENTS.LoanCreated! },
+  ];
+  if (loan.status !== LoanStatus.Pending && loan.startTime > BigInt(0)) {
+    fallback.push({
+      t: Number(loan.startTime),
+      ...MARKER_EVENTS.LoanAccepted!,
+    });
+  }
+  return fallback;
+}
+
+// Charted from an hour before the loan was created until now
+const LEAD_SECONDS = 60 * 60;
+
+/**
+ * Recorded price history of `symbols` over a loan's lifetime, with markers
+ * for its events (see /api/prices/history and /api/events)
+ */
+export function useLoanPriceHistory(
+  loan: Pick<ProcessedLoan, "id" | "createdAt" | "startTime" | "status">,
+  symbols: string[]
+) {
+  const [history, setHistory] = useState<Record<string, PriceSample[]>>({});
+  const [events, setEvents] = useState<IndexedEvent[]>([]);
+  const [range, setRange] = useState({ from: 0, to: 0 });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loanId = loan.id.toString();
+  const createdAt = Number(loan.createdAt);
+  const symbolsKey = symbols.join(",");
+
+  const fetchHistory = useCallback(async () => {
+    if (!symbolsKey) return;
+
+    const to = Math.floor(Date.now() / 1000);
+    const from = Math.min(createdAt - LEAD_SECONDS, to);
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const responses = await Promise.all(
+        symbolsKey.split(",").map((symbol) =>
+          fetch(
+            `/api/prices/history?symbol=${encodeURIComponent(symbol)}&from=${from}&to=${to}`
+          ).then(async (response) => {
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error);
+            return [symbol, data.points as PriceSample[]] as const;
+          })
+        )
+      );
+      setHistory(Object.fromEntries(responses));
+      setRange({ from, to });
+
+      // Markers are optional; fall back to the loan's own timestamps
+      try {
+        const response = await fetch(`/api/events?loanId=${loanId}`);
+        setEvents(response.ok ? (await response.json()).events : []);
+      } catch {
+        setEvents([]);
+      }
+    } catch (err) {
+      console.error("Failed to fetch price history:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch price history"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [symbolsKey, createdAt, loanId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const markers = useMemo(
+    () => loanMarkers(loan, events),
+    [loan.createdAt, loan.startTime, loan.status, events]
+  );
+
+  return { history, markers, range, loading, error, refresh: fetchHistory };
+}
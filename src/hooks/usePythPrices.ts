@@ -3,14 +3,16 @@
  * React hook for fetching and managing Pyth Network price data
  */
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import {
   pythPriceService,
   PythPrice,
   PriceUpdateData,
 } from "@/lib/pyth-price-service";
+import { usePriceStream } from "@/context/price-stream";
 
 export interface UsePythPricesOptions {
+  // Only used outside PriceStreamProvider; the shared stream pushes updates
   refreshInterval?: number;
   enableAutoRefresh?: boolean;
   maxStaleness?: number;
@@ -48,15 +50,30 @@ export function usePythPrices(
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const mountedRef = useRef(true);
 
+  // Callers usually pass a new array each render; key effects on its contents
+  const symbolsKey = tokenSymbols.join(",");
+  const symbols = useMemo(
+    () => (symbolsKey ? symbolsKey.split(",") : []),
+    [symbolsKey]
+  );
+
+  const stream = usePriceStream();
+  const streaming = stream !== null && enableAutoRefresh;
+
   const fetchPrices = useCallback(async () => {
-    if (tokenSymbols.length === 0) {
+    if (symbols.length === 0) {
       setIsLoading(false);
       return;
     }
 
     try {
       setError(null);
-      const newPrices = await pythPriceService.getPrices(tokenSymbols);
+      if (streaming) {
+        // The subscription below delivers the refreshed prices
+        await stream.refresh();
+        return;
+      }
+      const newPrices = await pythPriceService.getPrices(symbols);
 
       if (mountedRef.current) {
         setPrices(newPrices);
@@ -72,7 +89,7 @@ export function usePythPrices(
         setIsLoading(false);
       }
     }
-  }, [tokenSymbols]);
+  }, [symbols, stream, streaming]);
 
   const refreshPrices = useCallback(async () => {
     setIsLoading(true);
@@ -121,14 +138,32 @@ export function usePythPrices(
     [prices]
   );
 
+  // Prices from the shared stream, which replaces polling when mounted
+  useEffect(() => {
+    if (!streaming || symbols.length === 0) return;
+
+    const update = () => {
+      const next = stream.getPrices(symbols);
+      if (next.size === 0) return;
+      setPrices(next);
+      setLastUpdated(stream.lastUpdated);
+      setError(stream.error);
+      setIsLoading(false);
+    };
+    update();
+    return stream.subscribe(symbols, update);
+  }, [stream, streaming, symbols]);
+
   // Initial fetch
   useEffect(() => {
-    fetchPrices();
-  }, [fetchPrices]);
+    if (!streaming || symbols.length === 0) {
+      fetchPrices();
+    }
+  }, [fetchPrices, streaming, symbols.length]);
 
   // Auto-refresh setup
   useEffect(() => {
-    if (enableAutoRefresh && refreshInterval > 0) {
+    if (!streaming && enableAutoRefresh && refreshInterval > 0) {
       intervalRef.current = setInterval(fetchPrices, refreshInterval);
     }
 
@@ -138,7 +173,7 @@ export function usePythPrices(
         intervalRef.current = null;
       }
     };
-  }, [enableAutoRefresh, refreshInterval, fetchPrices]);
+  }, [streaming, enableAutoRefresh, refreshInterval, fetchPrices]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -249,7 +284,7 @@ export function usePriceStalenessMonitor(
   maxStaleness: number = 60
 ) {
   const { prices, isLoading } = usePythPrices(tokenSymbols, {
-    refreshInterval: 10000, // Check every 10 seconds
+    refreshInterval: 10000, // Check every 10 seconds when not streaming
     enableAutoRefresh: true,
   });
 
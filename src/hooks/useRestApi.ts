@@ -1,31 +1,13 @@
-import React, { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback } from "react";
+import { REST_API_URL, RestLoan } from "@/lib/loan-data-source";
 
 // Base API URL
-const BASE_API_URL = "https://api.neurolend.sumitdhiman.in";
+const BASE_API_URL = REST_API_URL;
 
 // Types matching the actual REST API responses
-export interface RestLoan {
-  loan_id: string;
-  lender: string | null;
-  borrower: string;
-  amount: string;
-  status: string; // "Active", "Pending", "Repaid", etc.
-  created_at: number;
-  events_count: number;
-  // Additional fields that might be present
-  tokenAddress?: string;
-  interestRate?: string;
-  duration?: string;
-  collateralAddress?: string;
-  collateralAmount?: string;
-  startTime?: string;
-  minCollateralRatioBPS?: string;
-  liquidationThresholdBPS?: string;
-  maxPriceStaleness?: string;
-  repaidAmount?: string;
-  historicalPriceUSD?: string;
-  historicalAmountUSD?: string;
-}
+// (RestLoan lives with the loan data sources)
+export type { RestLoan } from "@/lib/loan-data-source";
+export { convertRestLoanToProcessedLoan } from "@/lib/loan-data-source";
 
 export interface RestStats {
   totalLoansCreated: number;
@@ -170,140 +152,3 @@ export function useRestEvents(eventType?: string) {
     refetch: fetchEvents,
   };
 }
-
-// Combined hook for offers page (loans + stats)
-export function useRestOffersData() {
-  const {
-    loans,
-    loading: loansLoading,
-    error: loansError,
-    refetch: refetchLoans,
-  } = useRestLoans();
-  const {
-    stats,
-    loading: statsLoading,
-    error: statsError,
-    refetch: refetchStats,
-  } = useRestStats();
-
-  // Filter for pending loans only (status "Pending")
-  // TEMPORARILY showing all loans for debugging
-  const pendingLoans = loans; // loans.filter((loan) => loan.status === "Pending");
-  
-  // Debug logging
-  console.log("useRestOffersData - All loans:", loans);
-  console.log("useRestOffersData - Pending loans:", pendingLoans);
-  console.log("useRestOffersData - Loan statuses:", loans.map(l => l.status));
-
-  const refresh = useCallback(() => {
-    refetchLoans();
-    refetchStats();
-  }, [refetchLoans, refetchStats]);
-
-  return {
-    loans: pendingLoans,
-    stats,
-    loading: loansLoading || statsLoading,
-    error: loansError || statsError,
-    refresh,
-    // Additional computed data
-    totalLoans: loans.length,
-    pendingLoansCount: pendingLoans.length,
-    lastUpdated: Date.now(), // Simple timestamp for now
-  };
-}
-
-// Hook for my-loans page that uses REST API data
-export function useRestMyLoansData() {
-  const {
-    loans,
-    loading: loansLoading,
-    error: loansError,
-    refetch: refetchLoans,
-  } = useRestLoans();
-  const {
-    stats,
-    loading: statsLoading,
-    error: statsError,
-    refetch: refetchStats,
-  } = useRestStats();
-
-  // Convert all loans to ProcessedLoan format
-  const processedLoans = React.useMemo(() => {
-    return loans.map(convertRestLoanToProcessedLoan);
-  }, [loans]);
-
-  const refresh = useCallback(() => {
-    refetchLoans();
-    refetchStats();
-  }, [refetchLoans, refetchStats]);
-
-  // Debug logging
-  console.log("useRestMyLoansData - All loans:", loans);
-  console.log("useRestMyLoansData - Processed loans:", processedLoans);
-
-  return {
-    loans: processedLoans,
-    stats,
-    loading: loansLoading || statsLoading,
-    error: loansError || statsError,
-    refresh,
-    // Additional computed data
-    totalLoans: loans.length,
-    lastUpdated: Date.now(),
-  };
-}
-
-// Utility function to convert RestLoan to ProcessedLoan format (for compatibility)
-export function convertRestLoanToProcessedLoan(restLoan: RestLoan) {
-  // Convert string status to numeric status for compatibility
-  const getNumericStatus = (status: string): number => {
-    switch (status?.toLowerCase()) {
-      case "pending":
-        return 0;
-      case "active":
-        return 1;
-      case "repaid":
-        return 2;
-      case "defaulted":
-        return 3;
-      case "cancelled":
-        return 4;
-      default:
-        return 0; // Default to pending
-    }
-  };
-
-  // Debug logging for conversion
-  console.log("Converting RestLoan:", restLoan);
-  
-  // Use more realistic defaults for missing fields
-  const converted = {
-    id: BigInt(restLoan.loan_id),
-    lender: restLoan.lender || "0x0000000000000000000000000000000000000000",
-    borrower: restLoan.borrower,
-    tokenAddress:
-      restLoan.tokenAddress || "0x4200000000000000000000000000000000000006", // Default WETH address
-    amount: BigInt(restLoan.amount || "0"),
-    interestRate: BigInt(restLoan.interestRate || "1000"), // 10% default
-    duration: BigInt(restLoan.duration || "2592000"), // 30 days default
-    collateralAddress:
-      restLoan.collateralAddress ||
-      "0x4200000000000000000000000000000000000006", // Default WETH address
-    collateralAmount: BigInt(restLoan.collateralAmount || restLoan.amount || "0"), // Use loan amount as collateral if missing
-    startTime: BigInt(restLoan.startTime || restLoan.created_at || 0),
-    createdAt: BigInt(restLoan.created_at || 0),
-    status: getNumericStatus(restLoan.status),
-    minCollateralRatioBPS: BigInt(restLoan.minCollateralRatioBPS || "15000"),
-    liquidationThresholdBPS: BigInt(
-      restLoan.liquidationThresholdBPS || "12000"
-    ),
-    maxPriceStaleness: BigInt(restLoan.maxPriceStaleness || "3600"),
-    repaidAmount: BigInt(restLoan.repaidAmount || "0"),
-    historicalPriceUSD: restLoan.historicalPriceUSD || "0",
-    historicalAmountUSD: restLoan.historicalAmountUSD || "0",
-  };
-  
-  console.log("Converted ProcessedLoan:", converted);
-  return converted;
-}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from "react";
 import React from "react";
+import { LoanEvent, LoanState, reduceLoanEvents } from "@/lib/loan-state";
 
 // =================================================================
 // 1. Type Definitions for Subgraph Entities
@@ -33,6 +34,7 @@ export interface LoanAcceptedEvent {
   borrower: string;
   timestamp: string;
   initialCollateralRatio: string;
+  blockNumber: string;
 }
 
 export interface LoanRepaidEvent {
@@ -41,6 +43,7 @@ export interface LoanRepaidEvent {
   borrower: string;
   repaymentAmount: string;
   timestamp: string;
+  blockNumber: string;
 }
 
 export interface LoanLiquidatedEvent {
@@ -50,6 +53,7 @@ export interface LoanLiquidatedEvent {
   collateralClaimedByLender: string;
   liquidatorReward: string;
   timestamp: string;
+  blockNumber: string;
 }
 
 export interface LoanOfferCancelledEvent {
@@ -57,12 +61,46 @@ export interface LoanOfferCancelledEvent {
   loanId: string;
   lender: string;
   timestamp: string;
+  blockNumber: string;
 }
 
 export interface LoanOfferRemovedEvent {
   id: string;
   loanId: string;
   reason: string;
+  blockNumber: string;
+  blockTimestamp: string;
+}
+
+export interface PartialRepaymentEvent {
+  id: string;
+  loanId: string;
+  borrower: string;
+  repaymentAmount: string;
+  totalRepaidAmount: string;
+  remainingAmount: string;
+  timestamp: string;
+  blockNumber: string;
+}
+
+export interface CollateralAddedEvent {
+  id: string;
+  loanId: string;
+  borrower: string;
+  amount: string;
+  newCollateralRatio: string;
+  timestamp: string;
+  blockNumber: string;
+}
+
+export interface CollateralRemovedEvent {
+  id: string;
+  loanId: string;
+  borrower: string;
+  amount: string;
+  newCollateralRatio: string;
+  timestamp: string;
+  blockNumber: string;
 }
 
 export interface OwnershipTransferredEvent {
@@ -77,6 +115,40 @@ export interface PriceFeedSetEvent {
   feedAddress: string;
 }
 
+export interface BorrowRequestCreatedEvent {
+  id: string;
+  requestId: string;
+  borrower: string;
+  tokenAddress: string;
+  amount: string;
+  maxInterestRate: string;
+  duration: string;
+  collateralAddress: string;
+  collateralAmount: string;
+  minCollateralRatioBPS: string;
+  liquidationThresholdBPS: string;
+  maxPriceStaleness: string;
+  blockNumber: string;
+  blockTimestamp: string;
+  transactionHash: string;
+}
+
+export interface BorrowRequestAcceptedEvent {
+  id: string;
+  requestId: string;
+  loanId: string;
+  lender: string;
+  interestRate: string;
+  timestamp: string;
+}
+
+export interface BorrowRequestCancelledEvent {
+  id: string;
+  requestId: string;
+  borrower: string;
+  timestamp: string;
+}
+
 // =================================================================
 // 2. Generic Fetch Hook (The Engine)
 // =================================================================
@@ -280,7 +352,7 @@ export const useProtocolStatsCollection = () => {
 // Hook to get LoanAccepted events
 export const useLoanAcceptedEvents = () => {
   const query = `{
-    loanAccepteds${defaultQueryOptions} { id loanId borrower timestamp initialCollateralRatio }
+    loanAccepteds${defaultQueryOptions} { id loanId borrower timestamp initialCollateralRatio blockNumber }
   }`;
   return useSubgraphQuery<{ loanAccepteds: LoanAcceptedEvent[] }>(query, {
     cacheKey: "loanAcceptedEvents",
@@ -291,7 +363,7 @@ export const useLoanAcceptedEvents = () => {
 // Hook to get LoanRepaid events
 export const useLoanRepaidEvents = () => {
   const query = `{
-      loanRepaids${defaultQueryOptions} { id loanId borrower repaymentAmount timestamp }
+      loanRepaids${defaultQueryOptions} { id loanId borrower repaymentAmount timestamp blockNumber }
     }`;
   return useSubgraphQuery<{ loanRepaids: LoanRepaidEvent[] }>(query, {
     cacheKey: "loanRepaidEvents",
@@ -302,7 +374,7 @@ export const useLoanRepaidEvents = () => {
 // Hook to get LoanLiquidated events
 export const useLoanLiquidatedEvents = () => {
   const query = `{
-      loanLiquidateds${defaultQueryOptions} { id loanId liquidator collateralClaimedByLender liquidatorReward timestamp }
+      loanLiquidateds${defaultQueryOptions} { id loanId liquidator collateralClaimedByLender liquidatorReward timestamp blockNumber }
     }`;
   return useSubgraphQuery<{ loanLiquidateds: LoanLiquidatedEvent[] }>(query, {
     cacheKey: "loanLiquidatedEvents",
@@ -313,7 +385,7 @@ export const useLoanLiquidatedEvents = () => {
 // Hook to get LoanOfferCancelled events
 export const useLoanOfferCancelledEvents = () => {
   const query = `{
-    loanOfferCancelleds${defaultQueryOptions} { id loanId lender timestamp }
+    loanOfferCancelleds${defaultQueryOptions} { id loanId lender timestamp blockNumber }
   }`;
   return useSubgraphQuery<{ loanOfferCancelleds: LoanOfferCancelledEvent[] }>(
     query,
@@ -327,7 +399,7 @@ export const useLoanOfferCancelledEvents = () => {
 // Hook to get LoanOfferRemoved events
 export const useLoanOfferRemovedEvents = () => {
   const query = `{
-    loanOfferRemoveds${defaultQueryOptions} { id loanId reason }
+    loanOfferRemoveds${defaultQueryOptions} { id loanId reason blockNumber blockTimestamp }
   }`;
   return useSubgraphQuery<{ loanOfferRemoveds: LoanOfferRemovedEvent[] }>(
     query,
@@ -338,6 +410,103 @@ export const useLoanOfferRemovedEvents = () => {
   );
 };
 
+// Hook to get PartialRepayment events
+export const usePartialRepaymentEvents = () => {
+  const query = `{
+    partialRepayments${defaultQueryOptions} { id loanId borrower repaymentAmount totalRepaidAmount remainingAmount timestamp blockNumber }
+  }`;
+  return useSubgraphQuery<{ partialRepayments: PartialRepaymentEvent[] }>(
+    query,
+    {
+      cacheKey: "partialRepaymentEvents",
+      cacheDuration: 3 * 60 * 1000,
+    }
+  );
+};
+
+// Hook to get CollateralAdded events
+export const useCollateralAddedEvents = () => {
+  const query = `{
+    collateralAddeds${defaultQueryOptions} { id loanId borrower amount newCollateralRatio timestamp blockNumber }
+  }`;
+  return useSubgraphQuery<{ collateralAddeds: CollateralAddedEvent[] }>(
+    query,
+    {
+      cacheKey: "collateralAddedEvents",
+      cacheDuration: 3 * 60 * 1000,
+    }
+  );
+};
+
+// Hook to get CollateralRemoved events
+export const useCollateralRemovedEvents = () => {
+  const query = `{
+    collateralRemoveds${defaultQueryOptions} { id loanId borrower amount newCollateralRatio timestamp blockNumber }
+  }`;
+  return useSubgraphQuery<{ collateralRemoveds: CollateralRemovedEvent[] }>(
+    query,
+    {
+      cacheKey: "collateralRemovedEvents",
+      cacheDuration: 3 * 60 * 1000,
+    }
+  );
+};
+
+// Hook to get BorrowRequestCreated events
+export const useBorrowRequestCreatedEvents = () => {
+  const query = `{
+    borrowRequestCreateds${defaultQueryOptions} {
+      id
+      requestId
+      borrower
+      tokenAddress
+      amount
+      maxInterestRate
+      duration
+      collateralAddress
+      collateralAmount
+      minCollateralRatioBPS
+      liquidationThresholdBPS
+      maxPriceStaleness
+      blockNumber
+      blockTimestamp
+      transactionHash
+    }
+  }`;
+  return useSubgraphQuery<{
+    borrowRequestCreateds: BorrowRequestCreatedEvent[];
+  }>(query, {
+    cacheKey: "borrowRequestCreatedEvents",
+    cacheDuration: 3 * 60 * 1000,
+  });
+};
+
+// Hook to get BorrowRequestAccepted events
+export const useBorrowRequestAcceptedEvents = () => {
+  const query = `{
+    borrowRequestAccepteds${defaultQueryOptions} { id requestId loanId lender interestRate timestamp }
+  }`;
+  return useSubgraphQuery<{
+    borrowRequestAccepteds: BorrowRequestAcceptedEvent[];
+  }>(query, {
+    cacheKey: "borrowRequestAcceptedEvents",
+    cacheDuration: 3 * 60 * 1000,
+  });
+};
+
+// Hook to get BorrowRequestCancelled events
+export const useBorrowRequestCancelledEvents = () => {
+  const query = `{
+    borrowRequestCancelleds${defaultQueryOptions} { id requestId borrower timestamp }
+  }`;
+  return useSubgraphQuery<{
+    borrowRequestCancelleds: BorrowRequestCancelledEvent[];
+  }>(query, {
+    cacheKey: "borrowRequestCancelledEvents",
+    cacheDuration: 3 * 60 * 1000,
+  });
+};
+
 // =================================================================
 // 4. Utility Functions for Processing Loan Data
 // =================================================================
@@ -366,156 +535,131 @@ export interface ProcessedLoan {
   repaidAmount: bigint;
 }
 
-// Determine loan status based on events
-export const determineLoanStatus = (
-  loanId: string,
-  acceptedEvents: LoanAcceptedEvent[],
-  repaidEvents: LoanRepaidEvent[],
-  liquidatedEvents: LoanLiquidatedEvent[],
-  cancelledEvents: LoanOfferCancelledEvent[],
-  removedEvents: LoanOfferRemovedEvent[]
-): number => {
-  // Check if repaid first (final state)
-  if (repaidEvents.some((e) => e.loanId === loanId)) return 2; // Repaid
-
-  // Check if liquidated (final state)
-  if (liquidatedEvents.some((e) => e.loanId === loanId)) return 3; // Defaulted
-
-  // Check if accepted (active state)
-  if (acceptedEvents.some((e) => e.loanId === loanId)) return 1; // Active
-
-  // Check if explicitly cancelled by lender
-  if (cancelledEvents.some((e) => e.loanId === loanId)) return 4; // Cancelled
-
-  // LoanOfferRemoved can happen for both accepted and cancelled loans
-  // Only treat as cancelled if there's no accepted event
-  if (removedEvents.some((e) => e.loanId === loanId)) {
-    // If there was no accepted event, it was likely cancelled
-    return 4; // Cancelled
-  }
+// Loan lifecycle events as returned by the subgraph, keyed by collection
+export interface SubgraphLoanEvents {
+  loanCreateds: LoanCreatedEvent[];
+  loanAccepteds?: LoanAcceptedEvent[];
+  loanRepaids?: LoanRepaidEvent[];
+  loanLiquidateds?: LoanLiquidatedEvent[];
+  loanOfferCancelleds?: LoanOfferCancelledEvent[];
+  loanOfferRemoveds?: LoanOfferRemovedEvent[];
+  partialRepayments?: PartialRepaymentEvent[];
+  collateralAddeds?: CollateralAddedEvent[];
+  collateralRemoveds?: CollateralRemovedEvent[];
+}
 
-  // Otherwise it's pending
-  return 0; // Pending
+// Normalize subgraph entities into the reducer's event format
+export const toLoanEvents = (data: SubgraphLoanEvents): LoanEvent[] => {
+  const events: LoanEvent[] = [];
+  const push = (
+    name: LoanEvent["name"],
+    entity: { loanId: string; blockNumber: string },
+    timestamp: string,
+    args: Record<string, string | undefined>
+  ) =>
+    events.push({
+      name,
+      loanId: entity.loanId,
+      blockNumber: Number(entity.blockNumber),
+      timestamp: Number(timestamp),
+      args,
+    });
+
+  data.loanCreateds.forEach((e) =>
+    push("LoanCreated", e, e.blockTimestamp, { ...e })
+  );
+  data.loanAccepteds?.forEach((e) =>
+    push("LoanAccepted", e, e.timestamp, { ...e })
+  );
+  data.loanRepaids?.forEach((e) => push("LoanRepaid", e, e.timestamp, { ...e }));
+  data.loanLiquidateds?.forEach((e) =>
+    push("LoanLiquidated", e, e.timestamp, { ...e })
+  );
+  data.loanOfferCancelleds?.forEach((e) =>
+    push("LoanOfferCancelled", e, e.timestamp, { ...e })
+  );
+  data.loanOfferRemoveds?.forEach((e) =>
+    push("LoanOfferRemoved", e, e.blockTimestamp, { ...e })
+  );
+  data.partialRepayments?.forEach((e) =>
+    push("PartialRepayment", e, e.timestamp, { ...e })
+  );
+  data.collateralAddeds?.forEach((e) =>
+    push("CollateralAdded", e, e.timestamp, { ...e })
+  );
+  data.collateralRemoveds?.forEach((e) =>
+    push("CollateralRemoved", e, e.timestamp, { ...e })
+  );
+
+  return events;
 };
 
-// Process loan created events into our loan format
+// Process subgraph events into our loan format, newest loan first
 export const processLoansFromSubgraph = (
-  loanCreatedEvents: LoanCreatedEvent[],
-  acceptedEvents: LoanAcceptedEvent[],
-  repaidEvents: LoanRepaidEvent[],
-  liquidatedEvents: LoanLiquidatedEvent[],
-  cancelledEvents: LoanOfferCancelledEvent[],
-  removedEvents: LoanOfferRemovedEvent[]
-): ProcessedLoan[] => {
-  return loanCreatedEvents.map((loan) => {
-    const status = determineLoanStatus(
-      loan.loanId,
-      acceptedEvents,
-      repaidEvents,
-      liquidatedEvents,
-      cancelledEvents,
-      removedEvents
-    );
-
-    // Find borrower from accepted events
-    const acceptedEvent = acceptedEvents.find((e) => e.loanId === loan.loanId);
-    const borrower =
-      acceptedEvent?.borrower || "0x0000000000000000000000000000000000000000";
-
-    // Find start time from accepted events
-    const startTime = acceptedEvent?.timestamp || "0";
-
-    return {
-      id: BigInt(loan.loanId),
-      lender: loan.lender,
-      borrower,
-      tokenAddress: loan.tokenAddress,
-      amount: BigInt(loan.amount),
-      interestRate: BigInt(loan.interestRate),
-      duration: BigInt(loan.duration),
-      collateralAddress: loan.collateralAddress,
-      collateralAmount: BigInt(loan.collateralAmount),
-      startTime: BigInt(startTime),
-      createdAt: BigInt(loan.blockTimestamp),
-      status,
-      // Include historical price data
-      historicalPriceUSD: loan.priceUSD,
-      historicalAmountUSD: loan.amountUSD,
-      // Add new fields with defaults (subgraph may not have these yet)
-      minCollateralRatioBPS: BigInt(loan.minCollateralRatioBPS || "15000"),
-      liquidationThresholdBPS: BigInt(loan.liquidationThresholdBPS || "12000"),
-      maxPriceStaleness: BigInt(loan.maxPriceStaleness || "3600"),
-      repaidAmount: BigInt("0"), // Will be updated from repayment events later
-    };
-  });
+  data: SubgraphLoanEvents
+): LoanState[] => {
+  const loans = reduceLoanEvents(toLoanEvents(data));
+  return Array.from(loans.values()).sort((a, b) =>
+    a.createdAt === b.createdAt
+      ? Number(b.id - a.id)
+      : Number(b.createdAt - a.createdAt)
+  );
 };
 
 // Hook to get all loan data with computed status
 export const useAllLoansWithStatus = () => {
+  const queries = {
+    loanCreateds: useLoanCreatedEvents(),
+    loanAccepteds: useLoanAcceptedEvents(),
+    loanRepaids: useLoanRepaidEvents(),
+    loanLiquidateds: useLoanLiquidatedEvents(),
+    loanOfferCancelleds: useLoanOfferCancelledEvents(),
+    loanOfferRemoveds: useLoanOfferRemovedEvents(),
+    partialRepayments: usePartialRepaymentEvents(),
+    collateralAddeds: useCollateralAddedEvents(),
+    collateralRemoveds: useCollateralRemovedEvents(),
+  };
+  const results = Object.values(queries);
+
+  const loading = results.some((q) => q.loading);
+  const error = results.find((q) => q.error)?.error || null;
+
   const {
-    data: loanCreatedData,
-    loading: loadingCreated,
-    error: errorCreated,
-  } = useLoanCreatedEvents();
-  const {
-    data: loanAcceptedData,
-    loading: loadingAccepted,
-    error: errorAccepted,
-  } = useLoanAcceptedEvents();
-  const {
-    data: loanRepaidData,
-    loading: loadingRepaid,
-    error: errorRepaid,
-  } = useLoanRepaidEvents();
-  const {
-    data: loanLiquidatedData,
-    loading: loadingLiquidated,
-    error: errorLiquidated,
-  } = useLoanLiquidatedEvents();
-  const {
-    data: loanCancelledData,
-    loading: loadingCancelled,
-    error: errorCancelled,
-  } = useLoanOfferCancelledEvents();
-  const {
-    data: loanRemovedData,
-    loading: loadingRemoved,
-    error: errorRemoved,
-  } = useLoanOfferRemovedEvents();
-
-  const loading =
-    loadingCreated ||
-    loadingAccepted ||
-    loadingRepaid ||
-    loadingLiquidated ||
-    loadingCancelled ||
-    loadingRemoved;
-  const error =
-    errorCreated ||
-    errorAccepted ||
-    errorRepaid ||
-    errorLiquidated ||
-    errorCancelled ||
-    errorRemoved;
+    loanCreateds,
+    loanAccepteds,
+    loanRepaids,
+    loanLiquidateds,
+    loanOfferCancelleds,
+    loanOfferRemoveds,
+    partialRepayments,
+    collateralAddeds,
+    collateralRemoveds,
+  } = queries;
 
   const processedLoans = React.useMemo(() => {
-    if (!loanCreatedData?.loanCreateds) return [];
-
-    return processLoansFromSubgraph(
-      loanCreatedData.loanCreateds,
-      loanAcceptedData?.loanAccepteds || [],
-      loanRepaidData?.loanRepaids || [],
-      loanLiquidatedData?.loanLiquidateds || [],
-      loanCancelledData?.loanOfferCancelleds || [],
-      loanRemovedData?.loanOfferRemoveds || []
-    );
+    if (!loanCreateds.data?.loanCreateds) return [];
+
+    return processLoansFromSubgraph({
+      loanCreateds: loanCreateds.data.loanCreateds,
+      loanAccepteds: loanAccepteds.data?.loanAccepteds,
+      loanRepaids: loanRepaids.data?.loanRepaids,
+      loanLiquidateds: loanLiquidateds.data?.loanLiquidateds,
+      loanOfferCancelleds: loanOfferCancelleds.data?.loanOfferCancelleds,
+      loanOfferRemoveds: loanOfferRemoveds.data?.loanOfferRemoveds,
+      partialRepayments: partialRepayments.data?.partialRepayments,
+      collateralAddeds: collateralAddeds.data?.collateralAddeds,
+      collateralRemoveds: collateralRemoveds.data?.collateralRemoveds,
+    });
   }, [
-    loanCreatedData,
-    loanAcceptedData,
-    loanRepaidData,
-    loanLiquidatedData,
-    loanCancelledData,
-    loanRemovedData,
+    loanCreateds.data,
+    loanAccepteds.data,
+    loanRepaids.data,
+    loanLiquidateds.data,
+    loanOfferCancelleds.data,
+    loanOfferRemoveds.data,
+    partialRepayments.data,
+    collateralAddeds.data,
+    collateralRemoveds.data,
   ]);
 
   return {
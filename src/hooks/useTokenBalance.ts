@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { ethers } from "ethers";
-import { ZEROG_MAINNET_CONFIG } from "@/config/0g-chain";
+import { getRpcUrl } from "@/config/networks";
+import { useNetwork } from "@/hooks/useNetwork";
 
 interface TokenBalance {
   balance: string;
@@ -22,6 +23,7 @@ export const useTokenBalance = (
   options: UseTokenBalanceOptions = {}
 ) => {
   const { refreshInterval = 30000, enableAutoRefresh = true } = options;
+  const { network } = useNetwork();
 
   const [balanceData, setBalanceData] = useState<TokenBalance>({
     balance: "0",
@@ -58,16 +60,14 @@ export const useTokenBalance = (
     setBalanceData((prev) => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      const provider = new ethers.JsonRpcProvider(
-        ZEROG_MAINNET_CONFIG.rpcUrls.default.http[0]
-      );
+      const provider = new ethers.JsonRpcProvider(getRpcUrl(network));
 
       // Test provider connection
       console.log(`[useTokenBalance] Testing provider connection...`);
-      const network = await provider.getNetwork();
+      const providerNetwork = await provider.getNetwork();
       console.log(
         `[useTokenBalance] Connected to network:`,
-        network.chainId.toString()
+        providerNetwork.chainId.toString()
       );
 
       let balance: bigint;
@@ -145,7 +145,7 @@ export const useTokenBalance = (
         }));
       }
     }
-  }, [tokenAddress, userAddress, decimals]);
+  }, [tokenAddress, userAddress, decimals, network]);
 
   // Manual refresh function
   const refreshBalance = useCallback(() => {
@@ -233,6 +233,7 @@ export const useMultipleTokenBalances = (
   const [error, setError] = useState<string | null>(null);
 
   const { refreshInterval = 30000, enableAutoRefresh = true } = options;
+  const { network } = useNetwork();
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const isComponentMounted = useRef(true);
 
@@ -246,9 +247,7 @@ export const useMultipleTokenBalances = (
     setError(null);
 
     try {
-      const provider = new ethers.JsonRpcProvider(
-        ZEROG_MAINNET_CONFIG.rpcUrls.default.http[0]
-      );
+      const provider = new ethers.JsonRpcProvider(getRpcUrl(network));
 
       const balancePromises = tokens.map(async (token) => {
         try {
@@ -322,7 +321,7 @@ export const useMultipleTokenBalances = (
         setIsLoading(false);
       }
     }
-  }, [tokens, userAddress]);
+  }, [tokens, userAddress, network]);
 
   // Manual refresh function
   const refreshBalances = useCallback(() => {
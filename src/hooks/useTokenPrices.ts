@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback, useMemo } from "react";
 import { ethers } from "ethers";
 import { TokenInfo, getTokenByAddress } from "@/config/tokens";
 import { usePythPrices } from "@/hooks/usePythPrices";
+import { useValuationSettings } from "@/hooks/useValuationSettings";
 import { neurolend_ABI, neurolend_CONTRACT_ADDRESS } from "@/lib/contracts";
 import {
   toBaseUnit,
@@ -10,6 +11,8 @@ import {
   BigIntMath,
   getTokenDisplayPrecision,
 } from "@/lib/decimals";
+import { toPrice18 } from "@/lib/loan-health";
+import { isOnChainValuation, valuePrice } from "@/lib/price-valuation";
 
 export interface TokenPrice {
   address: string;
@@ -36,10 +39,19 @@ export interface CollateralCalculation {
   liquidationThreshold: string; // Liquidation threshold percentage
   isHealthy: boolean; // Whether current collateral is sufficient
 
+  // Which price each token was valued at, e.g. "TWAP 5m, conservative"
+  valuation: {
+    loanToken: string;
+    collateralToken: string;
+    onChain: boolean; // Spot mid prices, as the contract values loans
+  };
+
   // Price information
   priceImpact: {
     loanTokenPriceUSD: string; // Human-readable USD price
     collateralTokenPriceUSD: string; // Human-readable USD price
+    loanTokenValuationUSD: string; // Price the loan is valued at
+    collateralTokenValuationUSD: string; // Price the collateral is valued at
     exchangeRate: string; // How much collateral per 1 loan token
     minCollateralValueUSD: string; // Minimum collateral value in USD
   };
@@ -71,6 +83,8 @@ export function useCollateralCalculation(
     enableAutoRefresh: true,
   });
 
+  const { settings: valuation } = useValuationSettings();
+
   const [calculation, setCalculation] = useState<CollateralCalculation | null>(
     null
   );
@@ -150,9 +164,17 @@ export function useCollateralCalculation(
       // Convert user input to base units
       const loanAmountRaw = toBaseUnit(loanAmount, loanToken.decimals);
 
-      // Convert Pyth price to BigInt (Pyth prices are in USD with varying exponents)
-      const loanPriceRaw = toBaseUnit(loanPrice.priceUSD, 18); // Convert USD price to 18 decimals
-      const collateralPriceRaw = toBaseUnit(collateralPrice.priceUSD, 18);
+      // Normalize the prices the user values at (spot, EMA or TWAP, then
+      // optionally conservative) to 18 decimals
+      const loanValuation = valuePrice(loanPrice, loanToken, "debt", valuation);
+      const collateralValuation = valuePrice(
+        collateralPrice,
+        collateralToken,
+        "collateral",
+        valuation
+      );
+      const loanPriceRaw = toPrice18(loanValuation.price);
+      const collateralPriceRaw = toPrice18(collateralValuation.price);
 
       // Calculate loan value in USD using BigInt math
       const loanValueUSD = BigIntMath.multiply(
@@ -258,11 +280,18 @@ export function useCollateralCalculation(
         minRatio,
         liquidationThreshold,
         isHealthy,
+        valuation: {
+          loanToken: loanValuation.label,
+          collateralToken: collateralValuation.label,
+          onChain: isOnChainValuation(valuation),
+        },
 
         // Price information
         priceImpact: {
           loanTokenPriceUSD: loanPrice.priceUSD,
           collateralTokenPriceUSD: collateralPrice.priceUSD,
+          loanTokenValuationUSD: fromBaseUnit(loanPriceRaw, 18, 2),
+          collateralTokenValuationUSD: fromBaseUnit(collateralPriceRaw, 18, 2),
           exchangeRate,
           minCollateralValueUSD: minCollateralValueUSDFormatted,
         },
@@ -281,6 +310,7 @@ export function useCollateralCalculation(
     pythPrices,
     recommendedParams,
     pricesLoading,
+    valuation,
   ]);
 
   return {
@@ -0,0 +1,67 @@
+"use client";
+
+import { useEffect, useMemo, useSyncExternalStore } from "react";
+import { ethers } from "ethers";
+import { getNetwork, getRpcUrl } from "@/config/networks";
+import {
+  JournalEntry,
+  TransactionWatcher,
+  getTransactionJournal,
+} from "@/lib/tx-journal";
+
+const NO_ENTRIES: JournalEntry[] = [];
+
+/**
+ * Journaled transactions sent from an address, newest first. With `watch`,
+ * pending ones are polled until they confirm, fail or drop, including
+ * transactions left pending by a previous session.
+ */
+export function useTransactionJournal(
+  address?: string,
+  { watch = false }: { watch?: boolean } = {}
+) {
+  const journal = getTransactionJournal();
+  const all = useSyncExternalStore(
+    journal.subscribe,
+    journal.list,
+    () => NO_ENTRIES
+  );
+
+  const entries = useMemo(() => {
+    if (!address) return NO_ENTRIES;
+    const from = address.toLowerCase();
+    return all.filter((entry) => entry.from === from);
+  }, [all, address]);
+
+  const pendingCount = entries.filter(
+    (entry) => entry.status === "pending"
+  ).length;
+
+  useEffect(() => {
+    if (!watch) return;
+    // Entries may be on any supported chain, not just the wallet's current one
+    const providers = new Map<number, ethers.JsonRpcProvider>();
+    const watcher = new TransactionWatcher({
+      journal,
+      getProvider: (chainId) => {
+        let provider = providers.get(chainId);
+        if (!provider) {
+          provider = new ethers.JsonRpcProvider(getRpcUrl(getNetwork(chainId)));
+          providers.set(chainId, provider);
+        }
+        return provider;
+      },
+    });
+    const stop = watcher.start();
+    return () => {
+      stop();
+      providers.forEach((provider) => provider.destroy());
+    };
+  }, [journal, watch]);
+
+  return {
+    entries,
+    pendingCount,
+    clearFinished: () => journal.clearFinished(address),
+  };
+}
@@ -0,0 +1,24 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import {
+  DEFAULT_VALUATION_SETTINGS,
+  ValuationSettings,
+  getValuationPreference,
+} from "@/lib/valuation-preference";
+
+// The user's loan valuation settings, shared app-wide
+export function useValuationSettings() {
+  const preference = getValuationPreference();
+  const settings = useSyncExternalStore(
+    preference.subscribe,
+    preference.get,
+    () => DEFAULT_VALUATION_SETTINGS
+  );
+
+  return {
+    settings,
+    updateSettings: (changes: Partial<ValuationSettings>) =>
+      preference.set(changes),
+  };
+}
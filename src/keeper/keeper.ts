@@ -0,0 +1,335 @@
+/**
+ * Liquidation Keeper
+ * Tracks active neurolend loans, checks their health against live Pyth
+ * prices and loan expiry, simulates liquidateLoan for every candidate and
+ * (unless running dry) submits the ones whose liquidator fee covers the
+ * price update fee and gas. Runs in Node via scripts/keeper.ts.
+ */
+
+import { setTimeout as sleep } from "timers/promises";
+import { ethers } from "ethers";
+import { Loan, LoanStatus } from "@/lib/contracts";
+import { fromContractLoan } from "@/lib/loan-data-source";
+import { PriceUpdateData, PythPrice } from "@/lib/pyth-price-service";
+import { NetworkConfig } from "@/config/networks";
+import {
+  TokenInfo,
+  getTokenByAddress,
+  getTokenBySymbol,
+} from "@/config/tokens";
+import {
+  LoanHealth,
+  OraclePrice,
+  assessLoanHealth,
+  collateralRatioBPS,
+  usdValue,
+} from "@/lib/loan-health";
+
+// Matches LIQUIDATION_FEE_BPS in NeuroLend.sol
+export const LIQUIDATION_FEE_BPS = BigInt(100);
+
+// Subset of pythPriceService the keeper needs, so tests can supply a stub
+export interface KeeperPriceSource {
+  getPrices(tokenSymbols: string[]): Promise<Map<string, PythPrice>>;
+  getPriceUpdateDataForFeedIds(priceIds: string[]): Promise<PriceUpdateData>;
+}
+
+export type KeeperProvider = Pick<ethers.Provider, "getBlock" | "getFeeData">;
+
+export interface LiquidationKeeperOptions {
+  network: NetworkConfig;
+  // neurolend contract connected to the keeper's signer
+  contract: ethers.Contract;
+  provider: KeeperProvider;
+  prices: KeeperPriceSource;
+  // Simulate only, never send transactions (default true)
+  dryRun?: boolean;
+  // Minimum expected profit in USD before a liquidation is submitted
+  minProfitUSD?: number;
+  // Number of getLoan calls in flight at once
+  concurrency?: number;
+  logger?: Pick<Console, "log" | "warn" | "error">;
+}
+
+export type LiquidationOutcome =
+  | "submitted"
+  | "simulated" // dry run: simulation passed and the liquidation is profitable
+  | "unprofitable"
+  | "reverted";
+
+export interface LiquidationAttempt {
+  loanId: bigint;
+  health: LoanHealth;
+  outcome: LiquidationOutcome;
+  // Liquidator fee minus update fee and gas, in USD (18 decimals)
+  profitUSD?: bigint;
+  txHash?: string;
+  error?: string;
+}
+
+export interface KeeperTickResult {
+  trackedLoans: number;
+  candidates: number;
+  attempts: LiquidationAttempt[];
+}
+
+// USD values are 18-decimal fixed point
+const formatUSD = (value: bigint): string =>
+  Number(ethers.formatUnits(value, 18)).toFixed(2);
+
+const toOraclePrice = (price?: PythPrice): OraclePrice | undefined =>
+  price?.success
+    ? { price: BigInt(price.price), expo: Number(price.expo) }
+    : undefined;
+
+export class LiquidationKeeper {
+  private readonly network: NetworkConfig;
+  private readonly contract: ethers.Contract;
+  private readonly provider: KeeperProvider;
+  private readonly prices: KeeperPriceSource;
+  private readonly dryRun: boolean;
+  private readonly minProfit: bigint;
+  private readonly concurrency: number;
+  private readonly logger: Pick<Console, "log" | "warn" | "error">;
+
+  // Loans that can still become liquidatable (Pending or Active), by id
+  private readonly tracked = new Map<string, Loan>();
+  private nextLoanId = BigInt(1);
+
+  constructor(options: LiquidationKeeperOptions) {
+    this.network = options.network;
+    this.contract = options.contract;
+    this.provider = options.provider;
+    this.prices = options.prices;
+    this.dryRun = options.dryRun ?? true;
+    this.minProfit = ethers.parseUnits(String(options.minProfitUSD ?? 0), 18);
+    this.concurrency = options.concurrency ?? 20;
+    this.logger = options.logger ?? console;
+  }
+
+  get isDryRun(): boolean {
+    return this.dryRun;
+  }
+
+  getTrackedLoans(): Loan[] {
+    return Array.from(this.tracked.values());
+  }
+
+  /**
+   * Pick up loans created since the last sync and refresh every tracked
+   * loan, dropping those that reached a final status.
+   */
+  async syncLoans(): Promise<void> {
+    const nextLoanId = BigInt(await this.contract.nextLoanId());
+    const ids = Array.from(this.tracked.keys()).map(BigInt);
+    for (let id = this.nextLoanId; id < nextLoanId; id++) ids.push(id);
+    this.nextLoanId = nextLoanId;
+
+    for (let start = 0; start < ids.length; start += this.concurrency) {
+      const batch = await Promise.all(
+        ids
+          .slice(start, start + this.concurrency)
+          .map((id) => this.contract.getLoan(id))
+      );
+      for (const raw of batch) {
+        const loan = fromContractLoan(raw) as Loan;
+        if (
+          loan.status === LoanStatus.Pending ||
+          loan.status === LoanStatus.Active
+        ) {
+          this.tracked.set(loan.id.toString(), loan);
+        } else {
+          this.tracked.delete(loan.id.toString());
+        }
+      }
+    }
+  }
+
+  // Health of every active loan against the latest Hermes prices
+  async checkHealth(now?: bigint): Promise<LoanHealth[]> {
+    const active = this.getTrackedLoans().filter(
+      (loan) => loan.status === LoanStatus.Active
+    );
+    if (active.length === 0) return [];
+
+    const timestamp =
+      now ?? BigInt((await this.provider.getBlock("latest"))!.timestamp);
+
+    const symbols = new Set<string>();
+    for (const loan of active) {
+      for (const address of [loan.tokenAddress, loan.collateralAddress]) {
+        const token = getTokenByAddress(address);
+        if (token) symbols.add(token.symbol);
+      }
+    }
+    const prices = await this.prices.getPrices(Array.from(symbols));
+
+    return active.map((loan) => {
+      const loanToken = this.priced(loan.tokenAddress, prices);
+      const collateralToken = this.priced(loan.collateralAddress, prices);
+      const ratio =
+        loanToken && collateralToken
+          ? collateralRatioBPS(loan, loanToken, collateralToken)
+          : undefined;
+      return assessLoanHealth(loan, ratio, timestamp);
+    });
+  }
+
+  /**
+   * Simulate liquidateLoan with fresh price updates attached and submit it
+   * when the liquidator fee outweighs the update fee plus gas.
+   */
+  async liquidate(loan: Loan, health: LoanHealth): Promise<LiquidationAttempt> {
+    const attempt = { loanId: loan.id, health };
+
+    const feedIds = [loan.tokenAddress, loan.collateralAddress]
+      .map((address) => getTokenByAddress(address)?.pythPriceFeedId)
+      .filter((id): id is string => Boolean(id));
+    const { updateData } =
+      await this.prices.getPriceUpdateDataForFeedIds(feedIds);
+    const updateFee: bigint =
+      updateData.length > 0
+        ? BigInt(await this.contract.getUpdateFee(updateData))
+        : BigInt(0);
+    const args = [loan.id, updateData, { value: updateFee }] as const;
+
+    let gasLimit: bigint;
+    try {
+      await this.contract.liquidateLoan.staticCall(...args);
+      gasLimit = await this.contract.liquidateLoan.estimateGas(...args);
+    } catch (error) {
+      return {
+        ...attempt,
+        outcome: "reverted",
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    const profitUSD = await this.estimateProfit(loan, updateFee, gasLimit);
+    if (profitUSD !== undefined && profitUSD < this.minProfit) {
+      return { ...attempt, outcome: "unprofitable", profitUSD };
+    }
+    if (this.dryRun) {
+      return { ...attempt, outcome: "simulated", profitUSD };
+    }
+
+    const tx = await this.contract.liquidateLoan(...args);
+    await tx.wait();
+    this.tracked.delete(loan.id.toString());
+    return { ...attempt, outcome: "submitted", profitUSD, txHash: tx.hash };
+  }
+
+  // One keeper pass: sync loans, find candidates, try to liquidate them
+  async tick(now?: bigint): Promise<KeeperTickResult> {
+    await this.syncLoans();
+    const health = await this.checkHealth(now);
+    const candidates = health.filter((h) => h.liquidatable);
+
+    const attempts: LiquidationAttempt[] = [];
+    for (const candidate of candidates) {
+      const loan = this.tracked.get(candidate.loanId.toString())!;
+      try {
+        const attempt = await this.liquidate(loan, candidate);
+        this.report(attempt);
+        attempts.push(attempt);
+      } catch (error) {
+        this.logger.error(`Loan #${loan.id}: liquidation failed`, error);
+      }
+    }
+
+    return {
+      trackedLoans: this.tracked.size,
+      candidates: candidates.length,
+      attempts,
+    };
+  }
+
+  /**
+   * Run tick() every `intervalMs` until the signal aborts. Errors in a tick
+   * are logged and the loop carries on.
+   */
+  async run(intervalMs: number, signal?: AbortSignal): Promise<void> {
+    while (!signal?.aborted) {
+      try {
+        const result = await this.tick();
+        this.logger.log(
+          `Tracking ${result.trackedLoans} loans, ${result.candidates} liquidatable`
+        );
+      } catch (error) {
+        this.logger.error("Keeper tick failed:", error);
+      }
+
+      try {
+        await sleep(intervalMs, undefined, { signal });
+      } catch (error) {
+        // Aborted mid-wait; the loop condition ends the run
+        if (!signal?.aborted) throw error;
+      }
+    }
+  }
+
+  private priced(
+    address: string,
+    prices: Map<string, PythPrice>
+  ): { decimals: number; price: OraclePrice } | undefined {
+    const token: TokenInfo | undefined = getTokenByAddress(address);
+    const price = token && toOraclePrice(prices.get(token.symbol));
+    return token && price ? { decimals: token.decimals, price } : undefined;
+  }
+
+  /**
+   * USD value of the liquidator fee minus the native-token cost of the
+   * update fee and gas. Undefined when the collateral can't be priced.
+   */
+  private async estimateProfit(
+    loan: Loan,
+    updateFee: bigint,
+    gasLimit: bigint
+  ): Promise<bigint | undefined> {
+    const nativeSymbol = this.network.chain.nativeCurrency.symbol;
+    const collateral = getTokenByAddress(loan.collateralAddress);
+    const native = getTokenBySymbol(nativeSymbol);
+
+    const prices = await this.prices.getPrices(
+      [collateral?.symbol, native?.symbol].filter((s): s is string =>
+        Boolean(s)
+      )
+    );
+    const collateralPrice = this.priced(loan.collateralAddress, prices);
+    if (!collateral || !collateralPrice) return undefined;
+
+    const reward = usdValue(
+      (loan.collateralAmount * LIQUIDATION_FEE_BPS) / BigInt(10000),
+      collateral.decimals,
+      collateralPrice.price
+    );
+
+    const { gasPrice, maxFeePerGas } = await this.provider.getFeeData();
+    const nativeCost =
+      updateFee + gasLimit * (maxFeePerGas ?? gasPrice ?? BigInt(0));
+    const nativePrice = native && toOraclePrice(prices.get(native.symbol));
+    if (!nativePrice) {
+      this.logger.warn(
+        `No ${nativeSymbol} price; ignoring gas cost for loan #${loan.id}`
+      );
+      return reward;
+    }
+
+    return reward - usdValue(nativeCost, 18, nativePrice);
+  }
+
+  private report(attempt: LiquidationAttempt): void {
+    const profit =
+      attempt.profitUSD !== undefined
+        ? ` (~$${formatUSD(attempt.profitUSD)} profit)`
+        : "";
+    const reasons = attempt.health.reasons.join(", ");
+    const line = `Loan #${attempt.loanId} [${reasons}]: ${attempt.outcome}${profit}`;
+
+    if (attempt.outcome === "reverted") {
+      this.logger.warn(`${line} - ${attempt.error}`);
+    } else {
+      this.logger.log(attempt.txHash ? `${line} tx ${attempt.txHash}` : line);
+    }
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Alert Auth
+ * Messages a wallet signs (EIP-191 personal_sign) to create or remove its
+ * own alert subscriptions. Each message spells out the request it
+ * authorizes and when it was signed, so a signature can't be replayed with
+ * other settings, against another subscription or after it expires.
+ */
+
+import { ethers } from "ethers";
+
+// Signatures are accepted for 5 minutes after they're made
+export const ALERT_SIGNATURE_MAX_AGE_SECONDS = 5 * 60;
+// Tolerated clock skew for signatures dated in the future
+const MAX_CLOCK_SKEW_SECONDS = 60;
+
+export interface AlertSubscriptionRequest {
+  action: "subscribe";
+  address: string;
+  loanIds?: string[];
+  healthThresholdBPS?: number;
+  expiryWarningSeconds?: number;
+  webhookUrl?: string;
+  issuedAt: number; // unix seconds
+}
+
+export interface AlertUnsubscribeRequest {
+  action: "unsubscribe";
+  address: string;
+  subscriptionId: string;
+  issuedAt: number; // unix seconds
+}
+
+export type AlertAuthRequest =
+  AlertSubscriptionRequest | AlertUnsubscribeRequest;
+
+// The exact text signed for a request; client and server both build it here
+export function alertAuthMessage(request: AlertAuthRequest): string {
+  const lines = [
+    `neurolend alerts: ${request.action}`,
+    `Address: ${request.address.toLowerCase()}`,
+  ];
+  if (request.action === "subscribe") {
+    lines.push(
+      `Loans: ${request.loanIds?.join(",") ?? "all"}`,
+      `Health threshold (BPS): ${request.healthThresholdBPS ?? "default"}`,
+      `Expiry warning (seconds): ${request.expiryWarningSeconds ?? "default"}`,
+      `Webhook: ${request.webhookUrl ?? "none"}`
+    );
+  } else {
+    lines.push(`Subscription: ${request.subscriptionId}`);
+  }
+  lines.push(`Issued at: ${request.issuedAt}`);
+  return lines.join("\n");
+}
+
+/**
+ * Whether `signature` is `request.address`'s signature of the request's
+ * message, made within the last ALERT_SIGNATURE_MAX_AGE_SECONDS.
+ */
+export function verifyAlertSignature(
+  request: AlertAuthRequest,
+  signature: unknown,
+  now = Math.floor(Date.now() / 1000)
+): boolean {
+  if (typeof signature !== "string" || !Number.isInteger(request.issuedAt)) {
+    return false;
+  }
+  const age = now - request.issuedAt;
+  if (age > ALERT_SIGNATURE_MAX_AGE_SECONDS || age < -MAX_CLOCK_SKEW_SECONDS) {
+    return false;
+  }
+
+  try {
+    const signer = ethers.verifyMessage(alertAuthMessage(request), signature);
+    return signer.toLowerCase() === request.address.toLowerCase();
+  } catch {
+    return false;
+  }
+}
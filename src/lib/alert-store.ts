@@ -0,0 +1,164 @@
+/**
+ * Alert Store
+ * Persistence for loan health alert subscriptions and the alerts they fired
+ */
+
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { setTimeout as sleep } from "timers/promises";
+
+export type LoanAlertType = "health" | "expiry" | "liquidated" | "repaid";
+
+export interface AlertSubscription {
+  id: string;
+  // Lowercased; covers every loan where the address is lender or borrower
+  address: string;
+  // Restrict to these loans; all of the address's loans when omitted
+  loanIds?: string[];
+  // Alert when the collateral ratio drops below this (BPS). Defaults to
+  // each loan's at-risk band (getHealthBands in lib/loan-health).
+  healthThresholdBPS?: number;
+  // Alert this many seconds before startTime + duration
+  expiryWarningSeconds: number;
+  // https endpoint that receives every alert as a JSON POST
+  webhookUrl?: string;
+  createdAt: number; // unix seconds
+}
+
+// AlertSubscription without its webhookUrl, which only the server reads
+export type PublicAlertSubscription = Omit<AlertSubscription, "webhookUrl"> & {
+  hasWebhook: boolean;
+};
+
+export interface LoanAlert {
+  id: string;
+  subscriptionId: string;
+  address: string;
+  loanId: string;
+  type: LoanAlertType;
+  message: string;
+  // Collateral ratio (BPS) when a health alert fired
+  ratioBPS?: string;
+  createdAt: number; // unix seconds
+}
+
+export interface AlertSnapshot {
+  subscriptions: AlertSubscription[];
+  alerts: LoanAlert[];
+  // Conditions currently alerted on (`${subscriptionId}:${loanId}:${type}`),
+  // so a condition alerts once until it clears
+  active: string[];
+}
+
+export interface AlertStore {
+  load(): Promise<AlertSnapshot>;
+  // Save `change` applied to the latest snapshot. Updates never interleave,
+  // so concurrent writers can't drop each other's changes.
+  update(change: (snapshot: AlertSnapshot) => AlertSnapshot): Promise<void>;
+}
+
+export const emptyAlertSnapshot = (): AlertSnapshot => ({
+  subscriptions: [],
+  alerts: [],
+  active: [],
+});
+
+// In-memory store, used by tests
+export class MemoryAlertStore implements AlertStore {
+  private snapshot: AlertSnapshot = emptyAlertSnapshot();
+
+  async load(): Promise<AlertSnapshot> {
+    return structuredClone(this.snapshot);
+  }
+
+  async update(
+    change: (snapshot: AlertSnapshot) => AlertSnapshot
+  ): Promise<void> {
+    this.snapshot = structuredClone(change(structuredClone(this.snapshot)));
+  }
+}
+
+// A lock file older than this was left by a crashed writer
+const STALE_LOCK_MS = 30_000;
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_RETRY_MS = 20;
+
+/**
+ * JSON file store, written via temp file + rename like the indexer store.
+ * The API routes and scripts/check-alerts.ts write the same file, so
+ * updates hold a lock file (and queue within a process) while they read,
+ * change and replace it.
+ */
+export class JsonFileAlertStore implements AlertStore {
+  private readonly filePath: string;
+  private readonly lockPath: string;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(dataDir: string, fileName = "neurolend-alerts.json") {
+    this.filePath = path.join(dataDir, fileName);
+    this.lockPath = `${this.filePath}.lock`;
+  }
+
+  async load(): Promise<AlertSnapshot> {
+    try {
+      const raw = await fs.readFile(this.filePath, "utf8");
+      const parsed = JSON.parse(raw) as AlertSnapshot;
+      return {
+        subscriptions: parsed.subscriptions ?? [],
+        alerts: parsed.alerts ?? [],
+        active: parsed.active ?? [],
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return emptyAlertSnapshot();
+      }
+      throw error;
+    }
+  }
+
+  update(change: (snapshot: AlertSnapshot) => AlertSnapshot): Promise<void> {
+    const run = () =>
+      this.withLock(async () => {
+        const snapshot = change(await this.load());
+        const tempPath = `${this.filePath}.${process.pid}.${randomUUID()}.tmp`;
+        try {
+          await fs.writeFile(tempPath, JSON.stringify(snapshot), "utf8");
+          await fs.rename(tempPath, this.filePath);
+        } finally {
+          await fs.rm(tempPath, { force: true });
+        }
+      });
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  private async withLock(task: () => Promise<void>): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        await (await fs.open(this.lockPath, "wx")).close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+
+      const held = await fs.stat(this.lockPath).catch(() => null);
+      if (held && Date.now() - held.mtimeMs > STALE_LOCK_MS) {
+        await fs.rm(this.lockPath, { force: true });
+      } else if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${this.lockPath}`);
+      } else {
+        await sleep(LOCK_RETRY_MS);
+      }
+    }
+
+    try {
+      await task();
+    } finally {
+      await fs.rm(this.lockPath, { force: true });
+    }
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Approval Preference
+ * Whether write flows approve exactly what an action spends or an unlimited
+ * allowance, persisted in localStorage so it applies across sessions.
+ */
+
+import { ethers } from "ethers";
+import {
+  LocalStorageLike,
+  LocalStore,
+  browserStorage,
+} from "@/lib/local-store";
+
+export type ApprovalMode = "exact" | "unlimited";
+
+export const APPROVAL_MODE_STORAGE_KEY = "neurolend:approval-mode";
+export const DEFAULT_APPROVAL_MODE: ApprovalMode = "exact";
+
+// Tokens that decrement max approvals as they're spent still leave an
+// allowance far above this
+const UNLIMITED_THRESHOLD = ethers.MaxUint256 / BigInt(2);
+
+export const isUnlimitedAllowance = (allowance: bigint) =>
+  allowance >= UNLIMITED_THRESHOLD;
+
+// The allowance to approve for an action spending `amount`
+export function approvalAmount(mode: ApprovalMode, amount: bigint): bigint {
+  return mode === "unlimited" ? ethers.MaxUint256 : amount;
+}
+
+export class ApprovalPreference extends LocalStore<ApprovalMode> {
+  constructor(
+    storage: LocalStorageLike | null,
+    key = APPROVAL_MODE_STORAGE_KEY
+  ) {
+    super({
+      storage,
+      key,
+      parse: (stored) =>
+        stored === "exact" || stored === "unlimited"
+          ? stored
+          : DEFAULT_APPROVAL_MODE,
+      serialize: (mode) => mode,
+      label: "approval preference",
+    });
+  }
+}
+
+let sharedPreference: ApprovalPreference | null = null;
+
+// The app-wide preference, persisted in localStorage in the browser
+export function getApprovalPreference(): ApprovalPreference {
+  if (!sharedPreference) {
+    sharedPreference = new ApprovalPreference(browserStorage());
+  }
+  return sharedPreference;
+}
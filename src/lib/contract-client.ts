@@ -0,0 +1,761 @@
+// Typed neurolend and ERC20 clients.
+// Generated by scripts/update-abi.js from neurolend_ABI and ERC20_ABI in
+// lib/contracts.ts; do not edit by hand. Run `npm run generate:client`
+// after changing either ABI.
+
+import { ethers } from "ethers";
+import { ERC20_ABI, neurolend_ABI } from "@/lib/contracts";
+import {
+  TypedContract,
+  TypedContractOptions,
+  fromAbiParams,
+} from "@/lib/typed-contract";
+
+export interface BorrowRequestStruct {
+  id: bigint;
+  borrower: string;
+  tokenAddress: string;
+  amount: bigint;
+  maxInterestRate: bigint;
+  duration: bigint;
+  collateralAddress: string;
+  collateralAmount: bigint;
+  createdAt: bigint;
+  status: bigint;
+  minCollateralRatioBPS: bigint;
+  liquidationThresholdBPS: bigint;
+  maxPriceStaleness: bigint;
+  loanId: bigint;
+}
+
+export interface LoanStruct {
+  id: bigint;
+  lender: string;
+  borrower: string;
+  tokenAddress: string;
+  amount: bigint;
+  interestRate: bigint;
+  duration: bigint;
+  collateralAddress: string;
+  collateralAmount: bigint;
+  startTime: bigint;
+  status: bigint;
+  minCollateralRatioBPS: bigint;
+  liquidationThresholdBPS: bigint;
+  maxPriceStaleness: bigint;
+  repaidAmount: bigint;
+}
+
+export interface TokenPermitStruct {
+  token: string;
+  amount: bigint;
+  deadline: bigint;
+  nonce: bigint;
+  usePermit2: boolean;
+  signature: string;
+}
+
+// borrowRequests(uint256)
+export interface BorrowRequestsResult {
+  id: bigint;
+  borrower: string;
+  tokenAddress: string;
+  amount: bigint;
+  maxInterestRate: bigint;
+  duration: bigint;
+  collateralAddress: string;
+  collateralAmount: bigint;
+  createdAt: bigint;
+  status: bigint;
+  minCollateralRatioBPS: bigint;
+  liquidationThresholdBPS: bigint;
+  maxPriceStaleness: bigint;
+  loanId: bigint;
+}
+
+// getCurrentPrice(address,uint256)
+export interface GetCurrentPriceResult {
+  price: bigint;
+  isStale: boolean;
+}
+
+// getLoanHealthFactor(uint256)
+export interface GetLoanHealthFactorResult {
+  currentRatio: bigint;
+  priceStale: boolean;
+}
+
+// getLoanRepaymentInfo(uint256)
+export interface GetLoanRepaymentInfoResult {
+  totalOwed: bigint;
+  repaidAmount: bigint;
+  remainingAmount: bigint;
+  interestAccrued: bigint;
+}
+
+// getRecommendedParameters(address,address)
+export interface GetRecommendedParametersResult {
+  minRatio: bigint;
+  liquidationThreshold: bigint;
+  maxStaleness: bigint;
+}
+
+// loans(uint256)
+export interface LoansResult {
+  id: bigint;
+  lender: string;
+  borrower: string;
+  tokenAddress: string;
+  amount: bigint;
+  interestRate: bigint;
+  duration: bigint;
+  collateralAddress: string;
+  collateralAmount: bigint;
+  startTime: bigint;
+  status: bigint;
+  minCollateralRatioBPS: bigint;
+  liquidationThresholdBPS: bigint;
+  maxPriceStaleness: bigint;
+  repaidAmount: bigint;
+}
+
+export interface NeurolendEventArgs {
+  BorrowRequestAccepted: {
+    requestId: bigint;
+    loanId: bigint;
+    lender: string;
+    interestRate: bigint;
+    timestamp: bigint;
+  };
+  BorrowRequestCancelled: {
+    requestId: bigint;
+    borrower: string;
+    timestamp: bigint;
+  };
+  BorrowRequestCreated: {
+    requestId: bigint;
+    borrower: string;
+    tokenAddress: string;
+    amount: bigint;
+    maxInterestRate: bigint;
+    duration: bigint;
+    collateralAddress: string;
+    collateralAmount: bigint;
+    minCollateralRatioBPS: bigint;
+    liquidationThresholdBPS: bigint;
+    maxPriceStaleness: bigint;
+  };
+  CollateralAdded: {
+    loanId: bigint;
+    borrower: string;
+    amount: bigint;
+    newCollateralRatio: bigint;
+    timestamp: bigint;
+  };
+  CollateralRemoved: {
+    loanId: bigint;
+    borrower: string;
+    amount: bigint;
+    newCollateralRatio: bigint;
+    timestamp: bigint;
+  };
+  LoanAccepted: {
+    loanId: bigint;
+    borrower: string;
+    timestamp: bigint;
+    initialCollateralRatio: bigint;
+  };
+  LoanCreated: {
+    loanId: bigint;
+    lender: string;
+    tokenAddress: string;
+    amount: bigint;
+    interestRate: bigint;
+    duration: bigint;
+    collateralAddress: string;
+    collateralAmount: bigint;
+    minCollateralRatioBPS: bigint;
+    liquidationThresholdBPS: bigint;
+    maxPriceStaleness: bigint;
+  };
+  LoanLiquidated: {
+    loanId: bigint;
+    liquidator: string;
+    collateralClaimedByLender: bigint;
+    liquidatorReward: bigint;
+    timestamp: bigint;
+  };
+  LoanOfferCancelled: {
+    loanId: bigint;
+    lender: string;
+    timestamp: bigint;
+  };
+  LoanOfferRemoved: {
+    loanId: bigint;
+    reason: string;
+  };
+  LoanRepaid: {
+    loanId: bigint;
+    borrower: string;
+    repaymentAmount: bigint;
+    timestamp: bigint;
+  };
+  OwnershipTransferred: {
+    previousOwner: string;
+    newOwner: string;
+  };
+  PartialRepayment: {
+    loanId: bigint;
+    borrower: string;
+    repaymentAmount: bigint;
+    totalRepaidAmount: bigint;
+    remainingAmount: bigint;
+    timestamp: bigint;
+  };
+  Permit2Updated: {
+    permit2: string;
+  };
+  PriceFeedSet: {
+    tokenAddress: string;
+    feedId: string;
+  };
+  PriceUpdatePaid: {
+    loanId: bigint;
+    updateFee: bigint;
+    timestamp: bigint;
+  };
+}
+
+export type NeurolendEventName = keyof NeurolendEventArgs;
+
+export type NeurolendEvent = {
+  [N in NeurolendEventName]: { name: N; args: NeurolendEventArgs[N] };
+}[NeurolendEventName];
+
+// Event args as the indexer stores them, every value a decimal string
+export type SerializedEventArgs<N extends NeurolendEventName> = {
+  [K in keyof NeurolendEventArgs[N]]: string;
+};
+
+export const neurolendInterface = new ethers.Interface(neurolend_ABI);
+
+// Decode a neurolend log; null for logs from other contracts or events
+export function decodeNeurolendLog(log: {
+  topics: readonly string[];
+  data: string;
+}): NeurolendEvent | null {
+  const parsed = neurolendInterface.parseLog({
+    topics: [...log.topics],
+    data: log.data,
+  });
+  if (!parsed) return null;
+  return {
+    name: parsed.name,
+    args: fromAbiParams(parsed.fragment.inputs, parsed.args),
+  } as NeurolendEvent;
+}
+
+export class NeurolendClient extends TypedContract {
+  constructor(
+    address: string,
+    runner: ethers.ContractRunner | null,
+    options?: TypedContractOptions
+  ) {
+    super(address, neurolend_ABI, runner, options);
+  }
+
+  LIQUIDATION_FEE_BPS(): Promise<bigint> {
+    return this.read<bigint>("LIQUIDATION_FEE_BPS()", []);
+  }
+
+  acceptBorrowRequest(
+    requestId: ethers.BigNumberish,
+    interestRate: ethers.BigNumberish,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send(
+      "acceptBorrowRequest(uint256,uint256)",
+      [requestId, interestRate],
+      overrides
+    );
+  }
+
+  "acceptLoanOffer(uint256)"(
+    loanId: ethers.BigNumberish,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send("acceptLoanOffer(uint256)", [loanId], overrides);
+  }
+
+  "acceptLoanOffer(uint256,bytes[])"(
+    loanId: ethers.BigNumberish,
+    priceUpdate: ethers.BytesLike[],
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send(
+      "acceptLoanOffer(uint256,bytes[])",
+      [loanId, priceUpdate],
+      overrides
+    );
+  }
+
+  activeBorrowRequestIds(arg0: ethers.BigNumberish): Promise<bigint> {
+    return this.read<bigint>("activeBorrowRequestIds(uint256)", [arg0]);
+  }
+
+  activeLoanOfferIds(arg0: ethers.BigNumberish): Promise<bigint> {
+    return this.read<bigint>("activeLoanOfferIds(uint256)", [arg0]);
+  }
+
+  "addCollateral(uint256,uint256)"(
+    loanId: ethers.BigNumberish,
+    additionalAmount: ethers.BigNumberish,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send(
+      "addCollateral(uint256,uint256)",
+      [loanId, additionalAmount],
+      overrides
+    );
+  }
+
+  "addCollateral(uint256,uint256,bytes[])"(
+    loanId: ethers.BigNumberish,
+    additionalAmount: ethers.BigNumberish,
+    priceUpdate: ethers.BytesLike[],
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send(
+      "addCollateral(uint256,uint256,bytes[])",
+      [loanId, additionalAmount, priceUpdate],
+      overrides
+    );
+  }
+
+  borrowRequests(arg0: ethers.BigNumberish): Promise<BorrowRequestsResult> {
+    return this.read<BorrowRequestsResult>("borrowRequests(uint256)", [arg0]);
+  }
+
+  borrowerLoans(arg0: string, arg1: ethers.BigNumberish): Promise<bigint> {
+    return this.read<bigint>("borrowerLoans(address,uint256)", [arg0, arg1]);
+  }
+
+  borrowerRequests(arg0: string, arg1: ethers.BigNumberish): Promise<bigint> {
+    return this.read<bigint>("borrowerRequests(address,uint256)", [arg0, arg1]);
+  }
+
+  calculateCurrentInterest(loanId: ethers.BigNumberish): Promise<bigint> {
+    return this.read<bigint>("calculateCurrentInterest(uint256)", [loanId]);
+  }
+
+  calculateTotalRepayment(loanId: ethers.BigNumberish): Promise<bigint> {
+    return this.read<bigint>("calculateTotalRepayment(uint256)", [loanId]);
+  }
+
+  cancelBorrowRequest(
+    requestId: ethers.BigNumberish,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send("cancelBorrowRequest(uint256)", [requestId], overrides);
+  }
+
+  cancelLoanOffer(
+    loanId: ethers.BigNumberish,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send("cancelLoanOffer(uint256)", [loanId], overrides);
+  }
+
+  createBorrowRequest(
+    tokenAddress: string,
+    amount: ethers.BigNumberish,
+    maxInterestRate: ethers.BigNumberish,
+    duration: ethers.BigNumberish,
+    collateralAddress: string,
+    collateralAmount: ethers.BigNumberish,
+    minCollateralRatioBPS: ethers.BigNumberish,
+    liquidationThresholdBPS: ethers.BigNumberish,
+    maxPriceStaleness: ethers.BigNumberish,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send(
+      "createBorrowRequest(address,uint256,uint256,uint256,address,uint256,uint256,uint256,uint256)",
+      [
+        tokenAddress,
+        amount,
+        maxInterestRate,
+        duration,
+        collateralAddress,
+        collateralAmount,
+        minCollateralRatioBPS,
+        liquidationThresholdBPS,
+        maxPriceStaleness,
+      ],
+      overrides
+    );
+  }
+
+  "createLoanOffer(address,uint256,uint256,uint256,address,uint256,uint256,uint256,uint256)"(
+    tokenAddress: string,
+    amount: ethers.BigNumberish,
+    interestRate: ethers.BigNumberish,
+    duration: ethers.BigNumberish,
+    collateralAddress: string,
+    collateralAmount: ethers.BigNumberish,
+    minCollateralRatioBPS: ethers.BigNumberish,
+    liquidationThresholdBPS: ethers.BigNumberish,
+    maxPriceStaleness: ethers.BigNumberish,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send(
+      "createLoanOffer(address,uint256,uint256,uint256,address,uint256,uint256,uint256,uint256)",
+      [
+        tokenAddress,
+        amount,
+        interestRate,
+        duration,
+        collateralAddress,
+        collateralAmount,
+        minCollateralRatioBPS,
+        liquidationThresholdBPS,
+        maxPriceStaleness,
+      ],
+      overrides
+    );
+  }
+
+  "createLoanOffer(address,uint256,uint256,uint256,address,uint256)"(
+    tokenAddress: string,
+    amount: ethers.BigNumberish,
+    interestRate: ethers.BigNumberish,
+    duration: ethers.BigNumberish,
+    collateralAddress: string,
+    collateralAmount: ethers.BigNumberish,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send(
+      "createLoanOffer(address,uint256,uint256,uint256,address,uint256)",
+      [
+        tokenAddress,
+        amount,
+        interestRate,
+        duration,
+        collateralAddress,
+        collateralAmount,
+      ],
+      overrides
+    );
+  }
+
+  getActiveBorrowRequests(): Promise<bigint[]> {
+    return this.read<bigint[]>("getActiveBorrowRequests()", []);
+  }
+
+  getActiveBorrowRequestsCount(): Promise<bigint> {
+    return this.read<bigint>("getActiveBorrowRequestsCount()", []);
+  }
+
+  getActiveBorrowRequestsPaginated(
+    startIndex: ethers.BigNumberish,
+    count: ethers.BigNumberish
+  ): Promise<bigint[]> {
+    return this.read<bigint[]>(
+      "getActiveBorrowRequestsPaginated(uint256,uint256)",
+      [startIndex, count]
+    );
+  }
+
+  getActiveLoanOffers(): Promise<bigint[]> {
+    return this.read<bigint[]>("getActiveLoanOffers()", []);
+  }
+
+  getActiveLoanOffersCount(): Promise<bigint> {
+    return this.read<bigint>("getActiveLoanOffersCount()", []);
+  }
+
+  getActiveLoanOffersPaginated(
+    startIndex: ethers.BigNumberish,
+    count: ethers.BigNumberish
+  ): Promise<bigint[]> {
+    return this.read<bigint[]>(
+      "getActiveLoanOffersPaginated(uint256,uint256)",
+      [startIndex, count]
+    );
+  }
+
+  getBorrowRequest(
+    requestId: ethers.BigNumberish
+  ): Promise<BorrowRequestStruct> {
+    return this.read<BorrowRequestStruct>("getBorrowRequest(uint256)", [
+      requestId,
+    ]);
+  }
+
+  getBorrowerLoans(borrower: string): Promise<bigint[]> {
+    return this.read<bigint[]>("getBorrowerLoans(address)", [borrower]);
+  }
+
+  getBorrowerLoansCount(borrower: string): Promise<bigint> {
+    return this.read<bigint>("getBorrowerLoansCount(address)", [borrower]);
+  }
+
+  getBorrowerLoansPaginated(
+    borrower: string,
+    startIndex: ethers.BigNumberish,
+    count: ethers.BigNumberish
+  ): Promise<bigint[]> {
+    return this.read<bigint[]>(
+      "getBorrowerLoansPaginated(address,uint256,uint256)",
+      [borrower, startIndex, count]
+    );
+  }
+
+  getBorrowerRequests(borrower: string): Promise<bigint[]> {
+    return this.read<bigint[]>("getBorrowerRequests(address)", [borrower]);
+  }
+
+  getCurrentPrice(
+    tokenAddress: string,
+    maxStaleness: ethers.BigNumberish
+  ): Promise<GetCurrentPriceResult> {
+    return this.read<GetCurrentPriceResult>(
+      "getCurrentPrice(address,uint256)",
+      [tokenAddress, maxStaleness]
+    );
+  }
+
+  getLenderLoans(lender: string): Promise<bigint[]> {
+    return this.read<bigint[]>("getLenderLoans(address)", [lender]);
+  }
+
+  getLenderLoansCount(lender: string): Promise<bigint> {
+    return this.read<bigint>("getLenderLoansCount(address)", [lender]);
+  }
+
+  getLenderLoansPaginated(
+    lender: string,
+    startIndex: ethers.BigNumberish,
+    count: ethers.BigNumberish
+  ): Promise<bigint[]> {
+    return this.read<bigint[]>(
+      "getLenderLoansPaginated(address,uint256,uint256)",
+      [lender, startIndex, count]
+    );
+  }
+
+  getLoan(loanId: ethers.BigNumberish): Promise<LoanStruct> {
+    return this.read<LoanStruct>("getLoan(uint256)", [loanId]);
+  }
+
+  getLoanHealthFactor(
+    loanId: ethers.BigNumberish
+  ): Promise<GetLoanHealthFactorResult> {
+    return this.read<GetLoanHealthFactorResult>(
+      "getLoanHealthFactor(uint256)",
+      [loanId]
+    );
+  }
+
+  getLoanRepaymentInfo(
+    loanId: ethers.BigNumberish
+  ): Promise<GetLoanRepaymentInfoResult> {
+    return this.read<GetLoanRepaymentInfoResult>(
+      "getLoanRepaymentInfo(uint256)",
+      [loanId]
+    );
+  }
+
+  getRecommendedParameters(
+    loanAsset: string,
+    collateralAsset: string
+  ): Promise<GetRecommendedParametersResult> {
+    return this.read<GetRecommendedParametersResult>(
+      "getRecommendedParameters(address,address)",
+      [loanAsset, collateralAsset]
+    );
+  }
+
+  getSupportedTokens(): Promise<string[]> {
+    return this.read<string[]>("getSupportedTokens()", []);
+  }
+
+  getUpdateFee(priceUpdate: ethers.BytesLike[]): Promise<bigint> {
+    return this.read<bigint>("getUpdateFee(bytes[])", [priceUpdate]);
+  }
+
+  isLoanDefaulted(loanId: ethers.BigNumberish): Promise<boolean> {
+    return this.read<boolean>("isLoanDefaulted(uint256)", [loanId]);
+  }
+
+  isLoanPairSupported(
+    loanAsset: string,
+    collateralAsset: string
+  ): Promise<boolean> {
+    return this.read<boolean>("isLoanPairSupported(address,address)", [
+      loanAsset,
+      collateralAsset,
+    ]);
+  }
+
+  lenderLoans(arg0: string, arg1: ethers.BigNumberish): Promise<bigint> {
+    return this.read<bigint>("lenderLoans(address,uint256)", [arg0, arg1]);
+  }
+
+  liquidateLoan(
+    loanId: ethers.BigNumberish,
+    priceUpdate: ethers.BytesLike[],
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send(
+      "liquidateLoan(uint256,bytes[])",
+      [loanId, priceUpdate],
+      overrides
+    );
+  }
+
+  loanExists(loanId: ethers.BigNumberish): Promise<boolean> {
+    return this.read<boolean>("loanExists(uint256)", [loanId]);
+  }
+
+  loans(arg0: ethers.BigNumberish): Promise<LoansResult> {
+    return this.read<LoansResult>("loans(uint256)", [arg0]);
+  }
+
+  makePartialRepayment(
+    loanId: ethers.BigNumberish,
+    repaymentAmount: ethers.BigNumberish,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send(
+      "makePartialRepayment(uint256,uint256)",
+      [loanId, repaymentAmount],
+      overrides
+    );
+  }
+
+  nextBorrowRequestId(): Promise<bigint> {
+    return this.read<bigint>("nextBorrowRequestId()", []);
+  }
+
+  nextLoanId(): Promise<bigint> {
+    return this.read<bigint>("nextLoanId()", []);
+  }
+
+  owner(): Promise<string> {
+    return this.read<string>("owner()", []);
+  }
+
+  permit2(): Promise<string> {
+    return this.read<string>("permit2()", []);
+  }
+
+  permitAndCall(
+    tokenPermit: TokenPermitStruct,
+    data: ethers.BytesLike,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send(
+      "permitAndCall((address,uint256,uint256,uint48,bool,bytes),bytes)",
+      [tokenPermit, data],
+      overrides
+    );
+  }
+
+  pyth(): Promise<string> {
+    return this.read<string>("pyth()", []);
+  }
+
+  removeCollateral(
+    loanId: ethers.BigNumberish,
+    removeAmount: ethers.BigNumberish,
+    priceUpdate: ethers.BytesLike[],
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send(
+      "removeCollateral(uint256,uint256,bytes[])",
+      [loanId, removeAmount, priceUpdate],
+      overrides
+    );
+  }
+
+  renounceOwnership(
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send("renounceOwnership()", [], overrides);
+  }
+
+  repayLoan(
+    loanId: ethers.BigNumberish,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send("repayLoan(uint256)", [loanId], overrides);
+  }
+
+  setPermit2(
+    permit2: string,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send("setPermit2(address)", [permit2], overrides);
+  }
+
+  setTokenPriceFeedId(
+    tokenAddress: string,
+    feedId: ethers.BytesLike,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send(
+      "setTokenPriceFeedId(address,bytes32)",
+      [tokenAddress, feedId],
+      overrides
+    );
+  }
+
+  tokenPriceFeedIds(arg0: string): Promise<string> {
+    return this.read<string>("tokenPriceFeedIds(address)", [arg0]);
+  }
+
+  transferOwnership(
+    newOwner: string,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send("transferOwnership(address)", [newOwner], overrides);
+  }
+}
+
+export class ERC20Client extends TypedContract {
+  constructor(
+    address: string,
+    runner: ethers.ContractRunner | null,
+    options?: TypedContractOptions
+  ) {
+    super(address, ERC20_ABI, runner, options);
+  }
+
+  approve(
+    spender: string,
+    amount: ethers.BigNumberish,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    return this.send("approve(address,uint256)", [spender, amount], overrides);
+  }
+
+  allowance(owner: string, spender: string): Promise<bigint> {
+    return this.read<bigint>("allowance(address,address)", [owner, spender]);
+  }
+
+  balanceOf(account: string): Promise<bigint> {
+    return this.read<bigint>("balanceOf(address)", [account]);
+  }
+
+  decimals(): Promise<bigint> {
+    return this.read<bigint>("decimals()", []);
+  }
+
+  name(): Promise<string> {
+    return this.read<string>("name()", []);
+  }
+
+  symbol(): Promise<string> {
+    return this.read<string>("symbol()", []);
+  }
+}
@@ -1,15 +1,16 @@
-// neurolend Contract Configuration for 0G Chain Mainnet
-import { defineChain } from "viem";
+// neurolend Contract Configuration
+// Addresses and chains for every network live in src/config/networks.ts;
+// the constants below are the default network's.
+import { getNetwork, ZEROG_MAINNET } from "@/config/networks";
 
-// neurolend contract address on 0G Chain (updated with correct token addresses)
+const DEFAULT_NETWORK = getNetwork();
+
+// neurolend contract address on the default network
 export const neurolend_CONTRACT_ADDRESS: string =
-  process.env.NEXT_PUBLIC_neurolend_ADDRESS ??
-  "0x064c3e0a900743D9Ac87c778d2f6d3d5819D4f23";
+  DEFAULT_NETWORK.contracts.neurolend;
 
-// Pyth Network contract address on 0G Chain
-export const PYTH_CONTRACT_ADDRESS: string =
-  process.env.NEXT_PUBLIC_PYTH_CONTRACT_ADDRESS ??
-  "0x2880aB155794e7179c9eE2e38200202908C17B43";
+// Pyth Network contract address on the default network
+export const PYTH_CONTRACT_ADDRESS: string = DEFAULT_NETWORK.contracts.pyth;
 
 export const neurolend_ABI = [
   {
@@ -34,6 +35,24 @@ export const neurolend_ABI = [
     ],
     "stateMutability": "view"
   },
+  {
+    "type": "function",
+    "name": "acceptBorrowRequest",
+    "inputs": [
+      {
+        "name": "requestId",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "interestRate",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
   {
     "type": "function",
     "name": "acceptLoanOffer",
@@ -65,6 +84,25 @@ export const neurolend_ABI = [
     "outputs": [],
     "stateMutability": "payable"
   },
+  {
+    "type": "function",
+    "name": "activeBorrowRequestIds",
+    "inputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
   {
     "type": "function",
     "name": "activeLoanOfferIds",
@@ -102,6 +140,113 @@ export const neurolend_ABI = [
     "outputs": [],
     "stateMutability": "nonpayable"
   },
+  {
+    "type": "function",
+    "name": "addCollateral",
+    "inputs": [
+      {
+        "name": "loanId",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "additionalAmount",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "priceUpdate",
+        "type": "bytes[]",
+        "internalType": "bytes[]"
+      }
+    ],
+    "outputs": [],
+    "stateMutability": "payable"
+  },
+  {
+    "type": "function",
+    "name": "borrowRequests",
+    "inputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "id",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "borrower",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "tokenAddress",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "amount",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "maxInterestRate",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "duration",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "collateralAddress",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "collateralAmount",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "createdAt",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "status",
+        "type": "uint8",
+        "internalType": "enum neurolend.BorrowRequestStatus"
+      },
+      {
+        "name": "minCollateralRatioBPS",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "liquidationThresholdBPS",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "maxPriceStaleness",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "loanId",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
   {
     "type": "function",
     "name": "borrowerLoans",
@@ -126,6 +271,30 @@ export const neurolend_ABI = [
     ],
     "stateMutability": "view"
   },
+  {
+    "type": "function",
+    "name": "borrowerRequests",
+    "inputs": [
+      {
+        "name": "",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
   {
     "type": "function",
     "name": "calculateCurrentInterest",
@@ -164,6 +333,19 @@ export const neurolend_ABI = [
     ],
     "stateMutability": "view"
   },
+  {
+    "type": "function",
+    "name": "cancelBorrowRequest",
+    "inputs": [
+      {
+        "name": "requestId",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
   {
     "type": "function",
     "name": "cancelLoanOffer",
@@ -177,6 +359,59 @@ export const neurolend_ABI = [
     "outputs": [],
     "stateMutability": "nonpayable"
   },
+  {
+    "type": "function",
+    "name": "createBorrowRequest",
+    "inputs": [
+      {
+        "name": "_tokenAddress",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "_amount",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "_maxInterestRate",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "_duration",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "_collateralAddress",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "_collateralAmount",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "_minCollateralRatioBPS",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "_liquidationThresholdBPS",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "_maxPriceStaleness",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
   {
     "type": "function",
     "name": "createLoanOffer",
@@ -268,6 +503,56 @@ export const neurolend_ABI = [
     "outputs": [],
     "stateMutability": "nonpayable"
   },
+  {
+    "type": "function",
+    "name": "getActiveBorrowRequests",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256[]",
+        "internalType": "uint256[]"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "getActiveBorrowRequestsCount",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "getActiveBorrowRequestsPaginated",
+    "inputs": [
+      {
+        "name": "startIndex",
+        "type": "uint256",
+        "internalType": "uint256"
+      },
+      {
+        "name": "count",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256[]",
+        "internalType": "uint256[]"
+      }
+    ],
+    "stateMutability": "view"
+  },
   {
     "type": "function",
     "name": "getActiveLoanOffers",
@@ -318,6 +603,97 @@ export const neurolend_ABI = [
     ],
     "stateMutability": "view"
   },
+  {
+    "type": "function",
+    "name": "getBorrowRequest",
+    "inputs": [
+      {
+        "name": "requestId",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "tuple",
+        "internalType": "struct neurolend.BorrowRequest",
+        "components": [
+          {
+            "name": "id",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "borrower",
+            "type": "address",
+            "internalType": "address"
+          },
+          {
+            "name": "tokenAddress",
+            "type": "address",
+            "internalType": "address"
+          },
+          {
+            "name": "amount",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "maxInterestRate",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "duration",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "collateralAddress",
+            "type": "address",
+            "internalType": "address"
+          },
+          {
+            "name": "collateralAmount",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "createdAt",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "status",
+            "type": "uint8",
+            "internalType": "enum neurolend.BorrowRequestStatus"
+          },
+          {
+            "name": "minCollateralRatioBPS",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "liquidationThresholdBPS",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "maxPriceStaleness",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "loanId",
+            "type": "uint256",
+            "internalType": "uint256"
+          }
+        ]
+      }
+    ],
+    "stateMutability": "view"
+  },
   {
     "type": "function",
     "name": "getBorrowerLoans",
@@ -385,6 +761,25 @@ export const neurolend_ABI = [
     ],
     "stateMutability": "view"
   },
+  {
+    "type": "function",
+    "name": "getBorrowerRequests",
+    "inputs": [
+      {
+        "name": "borrower",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256[]",
+        "internalType": "uint256[]"
+      }
+    ],
+    "stateMutability": "view"
+  },
   {
     "type": "function",
     "name": "getCurrentPrice",
@@ -912,6 +1307,19 @@ export const neurolend_ABI = [
     "outputs": [],
     "stateMutability": "nonpayable"
   },
+  {
+    "type": "function",
+    "name": "nextBorrowRequestId",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
   {
     "type": "function",
     "name": "nextLoanId",
@@ -938,6 +1346,75 @@ export const neurolend_ABI = [
     ],
     "stateMutability": "view"
   },
+  {
+    "type": "function",
+    "name": "permit2",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "permitAndCall",
+    "inputs": [
+      {
+        "name": "tokenPermit",
+        "type": "tuple",
+        "internalType": "struct neurolend.TokenPermit",
+        "components": [
+          {
+            "name": "token",
+            "type": "address",
+            "internalType": "address"
+          },
+          {
+            "name": "amount",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "deadline",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "nonce",
+            "type": "uint48",
+            "internalType": "uint48"
+          },
+          {
+            "name": "usePermit2",
+            "type": "bool",
+            "internalType": "bool"
+          },
+          {
+            "name": "signature",
+            "type": "bytes",
+            "internalType": "bytes"
+          }
+        ]
+      },
+      {
+        "name": "data",
+        "type": "bytes",
+        "internalType": "bytes"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "result",
+        "type": "bytes",
+        "internalType": "bytes"
+      }
+    ],
+    "stateMutability": "payable"
+  },
   {
     "type": "function",
     "name": "pyth",
@@ -994,6 +1471,19 @@ export const neurolend_ABI = [
     "outputs": [],
     "stateMutability": "nonpayable"
   },
+  {
+    "type": "function",
+    "name": "setPermit2",
+    "inputs": [
+      {
+        "name": "_permit2",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "outputs": [],
+    "stateMutability": "nonpayable"
+  },
   {
     "type": "function",
     "name": "setTokenPriceFeedId",
@@ -1044,6 +1534,141 @@ export const neurolend_ABI = [
     "outputs": [],
     "stateMutability": "nonpayable"
   },
+  {
+    "type": "event",
+    "name": "BorrowRequestAccepted",
+    "inputs": [
+      {
+        "name": "requestId",
+        "type": "uint256",
+        "indexed": true,
+        "internalType": "uint256"
+      },
+      {
+        "name": "loanId",
+        "type": "uint256",
+        "indexed": true,
+        "internalType": "uint256"
+      },
+      {
+        "name": "lender",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
+      {
+        "name": "interestRate",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      },
+      {
+        "name": "timestamp",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "BorrowRequestCancelled",
+    "inputs": [
+      {
+        "name": "requestId",
+        "type": "uint256",
+        "indexed": true,
+        "internalType": "uint256"
+      },
+      {
+        "name": "borrower",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
+      {
+        "name": "timestamp",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "BorrowRequestCreated",
+    "inputs": [
+      {
+        "name": "requestId",
+        "type": "uint256",
+        "indexed": true,
+        "internalType": "uint256"
+      },
+      {
+        "name": "borrower",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
+      {
+        "name": "tokenAddress",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
+      {
+        "name": "amount",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      },
+      {
+        "name": "maxInterestRate",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      },
+      {
+        "name": "duration",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      },
+      {
+        "name": "collateralAddress",
+        "type": "address",
+        "indexed": false,
+        "internalType": "address"
+      },
+      {
+        "name": "collateralAmount",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      },
+      {
+        "name": "minCollateralRatioBPS",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      },
+      {
+        "name": "liquidationThresholdBPS",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      },
+      {
+        "name": "maxPriceStaleness",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      }
+    ],
+    "anonymous": false
+  },
   {
     "type": "event",
     "name": "CollateralAdded",
@@ -1396,6 +2021,19 @@ export const neurolend_ABI = [
     ],
     "anonymous": false
   },
+  {
+    "type": "event",
+    "name": "Permit2Updated",
+    "inputs": [
+      {
+        "name": "permit2",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      }
+    ],
+    "anonymous": false
+  },
   {
     "type": "event",
     "name": "PriceFeedSet",
@@ -1533,34 +2171,7 @@ export const ERC20_ABI = [
 ] as const;
 
 // 0G Chain Mainnet Configuration
-export const ZEROG_MAINNET_CONFIG = defineChain({
-  id: 16661, // 0G Chain mainnet chain ID
-  name: "0G Chain",
-  network: "0g-mainnet",
-  nativeCurrency: {
-    decimals: 18,
-    name: "0G",
-    symbol: "0G",
-  },
-  rpcUrls: {
-    default: {
-      http: ["https://evmrpc.0g.ai"],
-    },
-    public: {
-      http: ["https://evmrpc.0g.ai"],
-    },
-  },
-  blockExplorers: {
-    default: {
-      name: "0G Explorer",
-      url: "https://scan.0g.ai",
-    },
-  },
-  testnet: false,
-});
-
-// Legacy export for compatibility (will be removed)
-export const SOMNIA_TESTNET_CONFIG = ZEROG_MAINNET_CONFIG;
+export const ZEROG_MAINNET_CONFIG = ZEROG_MAINNET.chain;
 
 // Loan Status Enum
 export enum LoanStatus {
@@ -1571,6 +2182,13 @@ export enum LoanStatus {
   Cancelled = 4,
 }
 
+// Borrow Request Status Enum
+export enum BorrowRequestStatus {
+  Open = 0,
+  Filled = 1,
+  Cancelled = 2,
+}
+
 // Type definitions
 export interface Loan {
   id: bigint;
@@ -1590,6 +2208,23 @@ export interface Loan {
   repaidAmount: bigint;
 }
 
+export interface BorrowRequest {
+  id: bigint;
+  borrower: string;
+  tokenAddress: string;
+  amount: bigint;
+  maxInterestRate: bigint;
+  duration: bigint;
+  collateralAddress: string;
+  collateralAmount: bigint;
+  createdAt: bigint;
+  status: BorrowRequestStatus;
+  minCollateralRatioBPS: bigint;
+  liquidationThresholdBPS: bigint;
+  maxPriceStaleness: bigint;
+  loanId: bigint; // Loan created when the request was filled (0 while open)
+}
+
 export interface CreateLoanOfferParams {
   tokenAddress: string;
   amount: bigint;
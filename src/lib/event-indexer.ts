@@ -0,0 +1,303 @@
+/**
+ * Event Indexer
+ * Incrementally ingests neurolend contract events from the deployment block
+ * onward and keeps a normalized event log plus per-loan state in a store.
+ * Runs server-side only (API routes); the browser never scans logs itself.
+ */
+
+import { ethers } from "ethers";
+import { decodeNeurolendLog, neurolendInterface } from "@/lib/contract-client";
+import { getNetwork, getRpcUrl } from "@/config/networks";
+import {
+  IndexedEvent,
+  IndexedEventName,
+  IndexedLoan,
+  IndexerSnapshot,
+  IndexerStore,
+  JsonFileIndexerStore,
+} from "@/lib/indexer-store";
+import { LoanEvent, LoanState, applyLoanEvent } from "@/lib/loan-state";
+
+export const INDEXED_EVENTS: IndexedEventName[] = [
+  "LoanCreated",
+  "LoanAccepted",
+  "LoanRepaid",
+  "LoanLiquidated",
+  "LoanOfferCancelled",
+  "PartialRepayment",
+  "CollateralAdded",
+  "CollateralRemoved",
+];
+
+// Subset of ethers.Provider the indexer needs, so tests can supply a stub
+export type IndexerProvider = Pick<
+  ethers.Provider,
+  "getBlockNumber" | "getLogs" | "getBlock"
+>;
+
+export interface EventIndexerOptions {
+  provider: IndexerProvider;
+  store: IndexerStore;
+  contractAddress?: string;
+  startBlock?: number;
+  chunkSize?: number;
+  // Upper bound on blocks ingested per sync() call; the rest is picked up next time
+  maxBlocksPerSync?: number;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  newEvents: number;
+  caughtUp: boolean;
+}
+
+export class EventIndexer {
+  private readonly provider: IndexerProvider;
+  private readonly store: IndexerStore;
+  private readonly contractAddress: string;
+  private readonly startBlock: number;
+  private readonly chunkSize: number;
+  private readonly maxBlocksPerSync: number;
+  private readonly topics: string[];
+  private syncing: Promise<SyncResult> | null = null;
+
+  constructor({
+    provider,
+    store,
+    contractAddress = getNetwork().contracts.neurolend,
+    startBlock = getNetwork().startBlock,
+    chunkSize = 500,
+    maxBlocksPerSync = Infinity,
+  }: EventIndexerOptions) {
+    this.provider = provider;
+    this.store = store;
+    this.contractAddress = contractAddress;
+    this.startBlock = startBlock;
+    this.chunkSize = chunkSize;
+    this.maxBlocksPerSync = maxBlocksPerSync;
+    this.topics = INDEXED_EVENTS.map(
+      (name) => neurolendInterface.getEvent(name)!.topicHash
+    );
+  }
+
+  /**
+   * Ingest all blocks between the stored cursor and the chain head.
+   * Concurrent callers share the same in-flight sync.
+   */
+  sync(): Promise<SyncResult> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  async getSnapshot(): Promise<IndexerSnapshot> {
+    return this.store.load();
+  }
+
+  private async runSync(): Promise<SyncResult> {
+    const snapshot = await this.store.load();
+    const head = await this.provider.getBlockNumber();
+    const fromBlock = Math.max(snapshot.cursor + 1, this.startBlock);
+    const toBlock = Math.min(head, fromBlock + this.maxBlocksPerSync - 1);
+
+    let newEvents = 0;
+    for (let start = fromBlock; start <= toBlock; start += this.chunkSize) {
+      const end = Math.min(start + this.chunkSize - 1, toBlock);
+      const events = await this.fetchRange(start, end);
+
+      snapshot.events.push(...events);
+      foldEvents(snapshot.loans, events);
+      newEvents += events.length;
+
+      // Persist after every chunk so an interrupted sync resumes where it stopped
+      snapshot.cursor = end;
+      await this.store.save(snapshot);
+    }
+
+    return { fromBlock, toBlock, newEvents, caughtUp: toBlock >= head };
+  }
+
+  private async fetchRange(
+    fromBlock: number,
+    toBlock: number
+  ): Promise<IndexedEvent[]> {
+    const logs = await this.provider.getLogs({
+      address: this.contractAddress,
+      topics: [this.topics],
+      fromBlock,
+      toBlock,
+    });
+
+    const timestamps = new Map<number, number>();
+    const events: IndexedEvent[] = [];
+
+    for (const log of logs) {
+      const decoded = decodeNeurolendLog(log);
+      if (!decoded) continue;
+
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await this.provider.getBlock(log.blockNumber);
+        timestamps.set(log.blockNumber, block?.timestamp ?? 0);
+      }
+
+      const args: Record<string, string> = {};
+      for (const [name, value] of Object.entries(decoded.args)) {
+        args[name] = String(value);
+      }
+
+      events.push({
+        id: `${log.transactionHash}-${log.index}`,
+        name: decoded.name as IndexedEventName,
+        loanId: args.loanId,
+        blockNumber: log.blockNumber,
+        blockTimestamp: timestamps.get(log.blockNumber)!,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+        args,
+      });
+    }
+
+    // getLogs is ordered by the node, but don't rely on it for state folding
+    return events.sort(
+      (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+    );
+  }
+}
+
+// Indexed row in the event format lib/loan-state folds
+const toLoanEvent = (event: IndexedEvent): LoanEvent => ({
+  name: event.name,
+  loanId: event.loanId,
+  blockNumber: event.blockNumber,
+  timestamp: event.blockTimestamp,
+  logIndex: event.logIndex,
+  args: event.args,
+});
+
+// Status history isn't persisted, so stored loans resume with none
+const toLoanState = (loan: IndexedLoan): LoanState => ({
+  id: BigInt(loan.id),
+  lender: loan.lender,
+  borrower: loan.borrower,
+  tokenAddress: loan.tokenAddress,
+  amount: BigInt(loan.amount),
+  interestRate: BigInt(loan.interestRate),
+  duration: BigInt(loan.duration),
+  collateralAddress: loan.collateralAddress,
+  collateralAmount: BigInt(loan.collateralAmount),
+  startTime: BigInt(loan.startTime),
+  createdAt: BigInt(loan.createdAt),
+  status: loan.status,
+  minCollateralRatioBPS: BigInt(loan.minCollateralRatioBPS),
+  liquidationThresholdBPS: BigInt(loan.liquidationThresholdBPS),
+  maxPriceStaleness: BigInt(loan.maxPriceStaleness),
+  repaidAmount: BigInt(loan.repaidAmount),
+  statusHistory: [],
+  lastUpdatedBlock: loan.updatedAtBlock,
+});
+
+const toIndexedLoan = (loan: LoanState): IndexedLoan => ({
+  id: loan.id.toString(),
+  lender: loan.lender,
+  borrower: loan.borrower,
+  tokenAddress: loan.tokenAddress,
+  amount: loan.amount.toString(),
+  interestRate: loan.interestRate.toString(),
+  duration: loan.duration.toString(),
+  collateralAddress: loan.collateralAddress,
+  collateralAmount: loan.collateralAmount.toString(),
+  minCollateralRatioBPS: loan.minCollateralRatioBPS.toString(),
+  liquidationThresholdBPS: loan.liquidationThresholdBPS.toString(),
+  maxPriceStaleness: loan.maxPriceStaleness.toString(),
+  repaidAmount: loan.repaidAmount.toString(),
+  status: loan.status,
+  createdAt: Number(loan.createdAt),
+  startTime: Number(loan.startTime),
+  updatedAtBlock: loan.lastUpdatedBlock,
+});
+
+/**
+ * Fold ordered events into the stored per-loan rows through applyLoanEvent,
+ * the same state machine the subgraph path uses. Only the loans the events
+ * touch are converted.
+ */
+function foldEvents(
+  loans: Record<string, IndexedLoan>,
+  events: IndexedEvent[]
+): void {
+  const touched = new Map<string, LoanState>();
+  for (const event of events) {
+    const stored = loans[event.loanId];
+    if (stored && !touched.has(event.loanId)) {
+      touched.set(event.loanId, toLoanState(stored));
+    }
+    // Events for loans created before the indexed range are ignored
+    applyLoanEvent(touched, toLoanEvent(event));
+  }
+
+  for (const [loanId, loan] of touched) {
+    loans[loanId] = toIndexedLoan(loan);
+  }
+}
+
+// ============ Shared server instance ============
+
+let sharedIndexer: EventIndexer | null = null;
+let lastSyncAt = 0;
+
+/**
+ * Indexer used by the API routes. Indexes INDEXER_CHAIN_ID (default network
+ * otherwise); the rest of the env overrides the registry entry so it can be
+ * pointed at a local anvil/hardhat node:
+ *   INDEXER_RPC_URL, INDEXER_CONTRACT_ADDRESS, INDEXER_START_BLOCK,
+ *   INDEXER_DATA_DIR, INDEXER_CHUNK_SIZE, INDEXER_MAX_BLOCKS_PER_SYNC
+ */
+export function getEventIndexer(): EventIndexer {
+  if (!sharedIndexer) {
+    const network = getNetwork(process.env.INDEXER_CHAIN_ID);
+    const rpcUrl = process.env.INDEXER_RPC_URL ?? getRpcUrl(network);
+
+    sharedIndexer = new EventIndexer({
+      provider: new ethers.JsonRpcProvider(rpcUrl),
+      store: new JsonFileIndexerStore(
+        process.env.INDEXER_DATA_DIR ?? ".indexer",
+        `neurolend-index-${network.chain.id}.json`
+      ),
+      contractAddress:
+        process.env.INDEXER_CONTRACT_ADDRESS ?? network.contracts.neurolend,
+      startBlock: Number(
+        process.env.INDEXER_START_BLOCK ?? network.startBlock
+      ),
+      chunkSize: Number(process.env.INDEXER_CHUNK_SIZE ?? 500),
+      maxBlocksPerSync: Number(
+        process.env.INDEXER_MAX_BLOCKS_PER_SYNC ?? 100000
+      ),
+    });
+  }
+  return sharedIndexer;
+}
+
+/**
+ * Sync the shared indexer at most once per `maxAgeMs`, then return its data.
+ * A failed sync still serves whatever was indexed previously.
+ */
+export async function getIndexedData(
+  maxAgeMs = 15000
+): Promise<IndexerSnapshot> {
+  const indexer = getEventIndexer();
+
+  if (Date.now() - lastSyncAt > maxAgeMs) {
+    try {
+      await indexer.sync();
+      lastSyncAt = Date.now();
+    } catch (error) {
+      console.error("Event indexer sync failed:", error);
+    }
+  }
+
+  return indexer.getSnapshot();
+}
@@ -0,0 +1,147 @@
+/**
+ * Hermes Endpoint Pool
+ * Failover across the configured Hermes endpoints. Each endpoint keeps a
+ * health score that moves towards 1 on success and 0 on failure; requests
+ * go to the healthiest endpoint first (configured order breaks ties) and
+ * fall through to the others when it fails, times out or returns a
+ * response that doesn't validate. An endpoint that just failed sits out a
+ * cooldown unless every endpoint is cooling down.
+ */
+
+export interface EndpointHealth {
+  url: string;
+  // 0 (always failing) to 1 (always succeeding)
+  score: number;
+  successes: number;
+  failures: number;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+  lastUsed: number | null;
+  coolingDownUntil: number;
+}
+
+export interface HermesEndpointPoolOptions {
+  timeoutMs?: number;
+  cooldownMs?: number;
+  fetch?: typeof fetch;
+  now?: () => number;
+}
+
+// Weight of the latest outcome in the health score
+const SCORE_WEIGHT = 0.3;
+
+const trimUrl = (url: string) => url.replace(/\/+$/, "");
+
+export class HermesEndpointPool {
+  private readonly health: EndpointHealth[];
+  private readonly timeoutMs: number;
+  private readonly cooldownMs: number;
+  private readonly fetchFn: typeof fetch;
+  private readonly now: () => number;
+
+  constructor(
+    endpoints: readonly string[],
+    options: HermesEndpointPoolOptions = {}
+  ) {
+    if (endpoints.length === 0) {
+      throw new Error("At least one Hermes endpoint is required");
+    }
+    this.health = endpoints.map((url) => ({
+      url: trimUrl(url),
+      score: 1,
+      successes: 0,
+      failures: 0,
+      lastLatencyMs: null,
+      lastError: null,
+      lastUsed: null,
+      coolingDownUntil: 0,
+    }));
+    this.timeoutMs = options.timeoutMs ?? 5000;
+    this.cooldownMs = options.cooldownMs ?? 30000;
+    // Resolved per call so tests can stub the global fetch
+    this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init));
+    this.now = options.now ?? Date.now;
+  }
+
+  // Endpoint URLs in the order requests try them
+  order(): string[] {
+    const now = this.now();
+    const rank = (health: EndpointHealth) =>
+      (health.coolingDownUntil > now ? -10 : 0) + Math.round(health.score * 10);
+    // Array.prototype.sort is stable, so ties keep the configured order
+    return [...this.health]
+      .sort((a, b) => rank(b) - rank(a))
+      .map((health) => health.url);
+  }
+
+  snapshot(): EndpointHealth[] {
+    return this.health.map((health) => ({ ...health }));
+  }
+
+  reportSuccess(url: string, latencyMs: number | null = null): void {
+    const health = this.find(url);
+    if (!health) return;
+    health.score += (1 - health.score) * SCORE_WEIGHT;
+    health.successes++;
+    health.lastLatencyMs = latencyMs;
+    health.lastUsed = this.now();
+    health.coolingDownUntil = 0;
+  }
+
+  reportFailure(url: string, error: string): void {
+    const health = this.find(url);
+    if (!health) return;
+    health.score -= health.score * SCORE_WEIGHT;
+    health.failures++;
+    health.lastError = error;
+    health.lastUsed = this.now();
+    health.coolingDownUntil = this.now() + this.cooldownMs;
+  }
+
+  /**
+   * GET `path` from each endpoint in turn until one answers with JSON that
+   * `validate` accepts (it returns an error message to reject a response)
+   */
+  async fetchJson<T = any>(
+    path: string,
+    validate: (data: T) => string | null = () => null
+  ): Promise<{ data: T; endpoint: string }> {
+    const errors: string[] = [];
+
+    for (const endpoint of this.order()) {
+      const started = this.now();
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+      try {
+        const response = await this.fetchFn(`${endpoint}${path}`, {
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+        const data: T = await response.json();
+        const invalid = validate(data);
+        if (invalid) throw new Error(invalid);
+
+        this.reportSuccess(endpoint, this.now() - started);
+        return { data, endpoint };
+      } catch (error) {
+        const message = controller.signal.aborted
+          ? `Timed out after ${this.timeoutMs}ms`
+          : error instanceof Error
+            ? error.message
+            : String(error);
+        this.reportFailure(endpoint, message);
+        errors.push(`${endpoint}: ${message}`);
+      } finally {
+        clearTimeout(timeout);
+      }
+    }
+
+    throw new Error(`All Hermes endpoints failed (${errors.join("; ")})`);
+  }
+
+  private find(url: string): EndpointHealth | undefined {
+    return this.health.find((health) => health.url === trimUrl(url));
+  }
+}
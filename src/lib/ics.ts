@@ -0,0 +1,104 @@
+/**
+ * ICS Calendar Export
+ * Minimal RFC 5545 writer for reminder events (repayment schedules)
+ */
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  summary: string;
+  description?: string;
+  url?: string;
+  // Minutes before `start` to show a reminder (default: one day)
+  reminderMinutes?: number;
+}
+
+// UTC timestamp in basic format, e.g. 20250101T090000Z
+const formatDate = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+const escapeText = (text: string) =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets are folded with CRLF + space
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  let size = 0;
+
+  for (const char of line) {
+    const charSize = new TextEncoder().encode(char).length;
+    if (size + charSize > 75) {
+      chunks.push(current);
+      current = " ";
+      size = 1;
+    }
+    current += char;
+    size += charSize;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n");
+}
+
+export function buildICS(
+  events: CalendarEvent[],
+  calendarName = "neurolend",
+  now: Date = new Date()
+): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//neurolend//Repayment Planner//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatDate(now)}`,
+      `DTSTART:${formatDate(event.start)}`,
+      `DTEND:${formatDate(new Date(event.start.getTime() + 30 * 60 * 1000))}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.url) {
+      lines.push(`URL:${event.url}`);
+    }
+    lines.push(
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeText(event.summary)}`,
+      `TRIGGER:-PT${event.reminderMinutes ?? 24 * 60}M`,
+      "END:VALARM",
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// Trigger a browser download of an .ics file
+export function downloadICS(ics: string, fileName: string): void {
+  const blob = new Blob([ics], { type: "text/calendar;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName.endsWith(".ics") ? fileName : `${fileName}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
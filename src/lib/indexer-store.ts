@@ -0,0 +1,142 @@
+/**
+ * Indexer Store
+ * Persistence for the server-side event indexer (cursor + normalized rows)
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { LoanStatus } from "@/lib/contracts";
+import type {
+  NeurolendEventName,
+  SerializedEventArgs,
+} from "@/lib/contract-client";
+
+// Events the indexer ingests. Extracted from the generated ABI types, so an
+// event renamed or removed from the contract fails to compile where listed.
+export type IndexedEventName = Extract<
+  NeurolendEventName,
+  | "LoanCreated"
+  | "LoanAccepted"
+  | "LoanRepaid"
+  | "LoanLiquidated"
+  | "LoanOfferCancelled"
+  | "PartialRepayment"
+  | "CollateralAdded"
+  | "CollateralRemoved"
+>;
+
+// Normalized event row. Numeric values are stored as decimal strings so
+// rows can be persisted and served as JSON without bigint handling.
+export interface IndexedEvent {
+  id: string; // `${transactionHash}-${logIndex}`
+  name: IndexedEventName;
+  loanId: string;
+  blockNumber: number;
+  blockTimestamp: number;
+  transactionHash: string;
+  logIndex: number;
+  args: Record<string, string>;
+}
+
+// Event row whose args are typed from the contract ABI
+export type IndexedEventOf<N extends IndexedEventName> = Omit<
+  IndexedEvent,
+  "name" | "args"
+> & { name: N; args: SerializedEventArgs<N> };
+
+export function isIndexedEvent<N extends IndexedEventName>(
+  event: IndexedEvent,
+  name: N
+): event is IndexedEventOf<N> {
+  return event.name === name;
+}
+
+// Loan state reconstructed from the indexed event stream
+export interface IndexedLoan {
+  id: string;
+  lender: string;
+  borrower: string;
+  tokenAddress: string;
+  amount: string;
+  interestRate: string;
+  duration: string;
+  collateralAddress: string;
+  collateralAmount: string;
+  minCollateralRatioBPS: string;
+  liquidationThresholdBPS: string;
+  maxPriceStaleness: string;
+  repaidAmount: string;
+  status: LoanStatus;
+  createdAt: number;
+  startTime: number;
+  updatedAtBlock: number;
+}
+
+export interface IndexerSnapshot {
+  // Last block fully ingested (inclusive); -1 before the first sync
+  cursor: number;
+  events: IndexedEvent[];
+  loans: Record<string, IndexedLoan>;
+}
+
+export interface IndexerStore {
+  load(): Promise<IndexerSnapshot>;
+  save(snapshot: IndexerSnapshot): Promise<void>;
+}
+
+export const emptySnapshot = (): IndexerSnapshot => ({
+  cursor: -1,
+  events: [],
+  loans: {},
+});
+
+/**
+ * In-memory store, used by tests
+ */
+export class MemoryIndexerStore implements IndexerStore {
+  private snapshot: IndexerSnapshot = emptySnapshot();
+
+  async load(): Promise<IndexerSnapshot> {
+    return structuredClone(this.snapshot);
+  }
+
+  async save(snapshot: IndexerSnapshot): Promise<void> {
+    this.snapshot = structuredClone(snapshot);
+  }
+}
+
+/**
+ * JSON file store. Writes go to a temp file first and are renamed into
+ * place so a crash mid-write never leaves a truncated snapshot behind.
+ */
+export class JsonFileIndexerStore implements IndexerStore {
+  private readonly filePath: string;
+
+  constructor(dataDir: string, fileName = "neurolend-index.json") {
+    this.filePath = path.join(dataDir, fileName);
+  }
+
+  async load(): Promise<IndexerSnapshot> {
+    try {
+      const raw = await fs.readFile(this.filePath, "utf8");
+      const parsed = JSON.parse(raw) as IndexerSnapshot;
+      return {
+        cursor: parsed.cursor ?? -1,
+        events: parsed.events ?? [],
+        loans: parsed.loans ?? {},
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return emptySnapshot();
+      }
+      throw error;
+    }
+  }
+
+  async save(snapshot: IndexerSnapshot): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(snapshot), "utf8");
+    await fs.rename(tempPath, this.filePath);
+  }
+}
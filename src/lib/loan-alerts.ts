@@ -0,0 +1,556 @@
+/**
+ * Loan Alerts
+ * Evaluates alert subscriptions against the indexed loan state and live
+ * Pyth prices: collateral ratio crossing a threshold (same math as
+ * getLoanHealthFactor), loans nearing startTime + duration, and loans being
+ * repaid or liquidated. Fired alerts are stored for browser polling and
+ * pushed to any configured sinks (webhooks).
+ */
+
+import { randomUUID } from "crypto";
+import { promises as dns } from "dns";
+import { BlockList, isIP } from "net";
+import { LoanStatus } from "@/lib/contracts";
+import { PythPrice, pythPriceService } from "@/lib/pyth-price-service";
+import {
+  OraclePrice,
+  collateralRatioBPS,
+  getHealthBands,
+} from "@/lib/loan-health";
+import { getIndexedData } from "@/lib/event-indexer";
+import {
+  AlertSnapshot,
+  AlertStore,
+  AlertSubscription,
+  JsonFileAlertStore,
+  LoanAlert,
+  LoanAlertType,
+  PublicAlertSubscription,
+} from "@/lib/alert-store";
+import {
+  IndexedEvent,
+  IndexedLoan,
+  IndexerSnapshot,
+} from "@/lib/indexer-store";
+import { getTokenByAddress } from "@/config/tokens";
+
+export const DEFAULT_EXPIRY_WARNING_SECONDS = 24 * 60 * 60;
+// How often scripts/check-alerts.ts checks by default
+export const DEFAULT_ALERT_CHECK_INTERVAL_SECONDS = 60;
+// Alerts kept in the store; older ones are dropped
+const MAX_STORED_ALERTS = 1000;
+
+// Destination for fired alerts besides the store
+export interface AlertSink {
+  readonly name: string;
+  deliver(alert: LoanAlert, subscription: AlertSubscription): Promise<void>;
+}
+
+// Ranges a subscriber's webhook must not reach: loopback, private,
+// link-local, carrier-grade NAT, multicast and reserved addresses
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses are checked as IPv4, in both the dotted
+  // (::ffff:10.0.0.1) and the hex form URL parsing produces (::ffff:a00:1)
+  const dotted = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address);
+  const ip = dotted
+    ? dotted[1]
+    : hex
+      ? [hex[1], hex[2]]
+          .map((group) => parseInt(group, 16))
+          .flatMap((value) => [value >> 8, value & 0xff])
+          .join(".")
+      : address;
+  const family = isIP(ip);
+  if (family === 0) return false;
+  return !NON_PUBLIC_ADDRESSES.check(ip, family === 4 ? "ipv4" : "ipv6");
+}
+
+// Every address a hostname resolves to
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+const resolveHost: HostResolver = async (hostname) =>
+  (await dns.lookup(hostname, { all: true })).map((entry) => entry.address);
+
+/**
+ * Whether `value` is an https URL whose host only resolves to public
+ * addresses, so subscriber webhooks can't be pointed at the server's own
+ * network. Unresolvable hosts are refused.
+ */
+export async function isPublicWebhookUrl(
+  value: unknown,
+  resolve: HostResolver = resolveHost
+): Promise<boolean> {
+  let url: URL;
+  try {
+    url = new URL(String(value));
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:") return false;
+
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+    return false;
+  }
+  if (isIP(hostname)) return isPublicAddress(hostname);
+
+  try {
+    const addresses = await resolve(hostname);
+    return addresses.length > 0 && addresses.every(isPublicAddress);
+  } catch {
+    return false;
+  }
+}
+
+export interface WebhookAlertSinkOptions {
+  fetcher?: typeof fetch;
+  resolve?: HostResolver;
+  // Abort deliveries that take longer than this (default 5000)
+  timeoutMs?: number;
+}
+
+/**
+ * POSTs `{ alert }` as JSON. With a fixed url every alert goes there (an
+ * operator-wide relay); without one, each subscription's own webhookUrl is
+ * used and subscriptions without one are skipped. Subscription webhooks
+ * are re-checked with isPublicWebhookUrl before every delivery, since
+ * their DNS can change after subscribing.
+ */
+export class WebhookAlertSink implements AlertSink {
+  readonly name = "webhook";
+  private readonly fetcher: typeof fetch;
+  private readonly resolve: HostResolver;
+  private readonly timeoutMs: number;
+
+  constructor(
+    private readonly url?: string,
+    options: WebhookAlertSinkOptions = {}
+  ) {
+    this.fetcher = options.fetcher ?? fetch;
+    this.resolve = options.resolve ?? resolveHost;
+    this.timeoutMs = options.timeoutMs ?? 5000;
+  }
+
+  async deliver(
+    alert: LoanAlert,
+    subscription: AlertSubscription
+  ): Promise<void> {
+    const url = this.url ?? subscription.webhookUrl;
+    if (!url) return;
+    if (!this.url && !(await isPublicWebhookUrl(url, this.resolve))) {
+      throw new Error(`Webhook host for ${url} is not public`);
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await this.fetcher(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ alert }),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded ${response.status}`);
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`Webhook timed out after ${this.timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+export interface AlertCheckInput {
+  loans: Record<string, IndexedLoan>;
+  events: IndexedEvent[];
+  // Pyth prices by token symbol
+  prices: Map<string, PythPrice>;
+  now: number; // unix seconds
+}
+
+const TERMINAL_EVENTS: Partial<Record<IndexedEvent["name"], LoanAlertType>> = {
+  LoanRepaid: "repaid",
+  LoanLiquidated: "liquidated",
+};
+
+const conditionKey = (
+  subscriptionId: string,
+  loanId: string,
+  type: LoanAlertType
+) => `${subscriptionId}:${loanId}:${type}`;
+
+const keySubscriptionId = (key: string) => key.split(":")[0];
+
+const formatBPS = (bps: bigint | number) =>
+  `${(Number(bps) / 100).toFixed(1)}%`;
+
+const formatDuration = (seconds: number) =>
+  seconds >= 3600
+    ? `${Math.floor(seconds / 3600)}h`
+    : `${Math.max(1, Math.floor(seconds / 60))}m`;
+
+function priced(
+  address: string,
+  prices: Map<string, PythPrice>
+): { decimals: number; price: OraclePrice } | undefined {
+  const token = getTokenByAddress(address);
+  const price = token && prices.get(token.symbol);
+  return token && price?.success
+    ? {
+        decimals: token.decimals,
+        price: { price: BigInt(price.price), expo: price.expo },
+      }
+    : undefined;
+}
+
+// Collateral ratio (BPS) of an indexed loan, undefined without prices
+export function indexedLoanRatioBPS(
+  loan: IndexedLoan,
+  prices: Map<string, PythPrice>
+): bigint | undefined {
+  const loanToken = priced(loan.tokenAddress, prices);
+  const collateralToken = priced(loan.collateralAddress, prices);
+  if (!loanToken || !collateralToken) return undefined;
+
+  return collateralRatioBPS(
+    {
+      amount: BigInt(loan.amount),
+      collateralAmount: BigInt(loan.collateralAmount),
+    },
+    loanToken,
+    collateralToken
+  );
+}
+
+const subscribedLoans = (
+  subscription: AlertSubscription,
+  loans: Record<string, IndexedLoan>
+) =>
+  Object.values(loans).filter(
+    (loan) =>
+      (loan.lender.toLowerCase() === subscription.address ||
+        loan.borrower.toLowerCase() === subscription.address) &&
+      (!subscription.loanIds || subscription.loanIds.includes(loan.id))
+  );
+
+/**
+ * Alerts due for every subscription. A health or expiry condition alerts
+ * once when it starts holding and re-arms once it clears; repaid/liquidated
+ * alert once per loan for events after the subscription was created.
+ */
+export function evaluateAlerts(
+  snapshot: AlertSnapshot,
+  { loans, events, prices, now }: AlertCheckInput
+): { alerts: LoanAlert[]; active: string[] } {
+  const previous = new Set(snapshot.active);
+  const active = new Set<string>();
+  const alerts: LoanAlert[] = [];
+
+  for (const subscription of snapshot.subscriptions) {
+    const fire = (
+      loanId: string,
+      type: LoanAlertType,
+      message: string,
+      extra: Partial<LoanAlert> = {}
+    ) => {
+      const key = conditionKey(subscription.id, loanId, type);
+      active.add(key);
+      if (previous.has(key)) return;
+      alerts.push({
+        id: randomUUID(),
+        subscriptionId: subscription.id,
+        address: subscription.address,
+        loanId,
+        type,
+        message,
+        createdAt: now,
+        ...extra,
+      });
+    };
+
+    const watched = subscribedLoans(subscription, loans);
+
+    for (const loan of watched) {
+      if (loan.status !== LoanStatus.Active) continue;
+
+      const ratio = indexedLoanRatioBPS(loan, prices);
+      const { atRiskBPS: threshold } = getHealthBands(
+        {
+          liquidationThresholdBPS: BigInt(loan.liquidationThresholdBPS),
+          minCollateralRatioBPS: BigInt(loan.minCollateralRatioBPS),
+        },
+        subscription.healthThresholdBPS
+      );
+      if (ratio !== undefined && ratio < BigInt(threshold)) {
+        fire(
+          loan.id,
+          "health",
+          `Loan #${loan.id} health is ${formatBPS(ratio)} ` +
+            `(alert below ${formatBPS(threshold)}, liquidation at ` +
+            `${formatBPS(Number(loan.liquidationThresholdBPS))})`,
+          { ratioBPS: ratio.toString() }
+        );
+      }
+
+      const dueAt = loan.startTime + Number(loan.duration);
+      if (now >= dueAt - subscription.expiryWarningSeconds) {
+        fire(
+          loan.id,
+          "expiry",
+          now >= dueAt
+            ? `Loan #${loan.id} is past due and can be liquidated`
+            : `Loan #${loan.id} is due in ${formatDuration(dueAt - now)}`
+        );
+      }
+    }
+
+    const watchedIds = new Set(watched.map((loan) => loan.id));
+    for (const event of events) {
+      const type = TERMINAL_EVENTS[event.name];
+      if (
+        !type ||
+        !watchedIds.has(event.loanId) ||
+        event.blockTimestamp < subscription.createdAt
+      ) {
+        continue;
+      }
+      fire(event.loanId, type, `Loan #${event.loanId} was ${type}`);
+    }
+  }
+
+  return { alerts, active: Array.from(active) };
+}
+
+// A subscription as served to clients: webhook URLs can carry secrets
+export function toPublicSubscription({
+  webhookUrl,
+  ...subscription
+}: AlertSubscription): PublicAlertSubscription {
+  return { ...subscription, hasWebhook: webhookUrl !== undefined };
+}
+
+export interface LoanAlertServiceOptions {
+  store: AlertStore;
+  sinks?: AlertSink[];
+  prices?: { getPrices(symbols: string[]): Promise<Map<string, PythPrice>> };
+}
+
+export type NewAlertSubscription = Omit<
+  AlertSubscription,
+  "id" | "createdAt" | "expiryWarningSeconds"
+> & { expiryWarningSeconds?: number };
+
+export class LoanAlertService {
+  private readonly store: AlertStore;
+  private readonly sinks: AlertSink[];
+  private readonly prices: NonNullable<LoanAlertServiceOptions["prices"]>;
+
+  constructor(options: LoanAlertServiceOptions) {
+    this.store = options.store;
+    this.sinks = options.sinks ?? [new WebhookAlertSink()];
+    this.prices = options.prices ?? pythPriceService;
+  }
+
+  async subscribe(input: NewAlertSubscription): Promise<AlertSubscription> {
+    const subscription: AlertSubscription = {
+      ...input,
+      id: randomUUID(),
+      address: input.address.toLowerCase(),
+      expiryWarningSeconds:
+        input.expiryWarningSeconds ?? DEFAULT_EXPIRY_WARNING_SECONDS,
+      createdAt: Math.floor(Date.now() / 1000),
+    };
+    await this.store.update((snapshot) => ({
+      ...snapshot,
+      subscriptions: [...snapshot.subscriptions, subscription],
+    }));
+    return subscription;
+  }
+
+  // Remove a subscription owned by `address`; false if there's none
+  async unsubscribe(id: string, address: string): Promise<boolean> {
+    const owner = address.toLowerCase();
+    let removed = false;
+    await this.store.update((snapshot) => {
+      const remaining = snapshot.subscriptions.filter(
+        (s) => !(s.id === id && s.address === owner)
+      );
+      removed = remaining.length < snapshot.subscriptions.length;
+      if (!removed) return snapshot;
+
+      return {
+        subscriptions: remaining,
+        alerts: snapshot.alerts.filter((a) => a.subscriptionId !== id),
+        active: snapshot.active.filter((key) => keySubscriptionId(key) !== id),
+      };
+    });
+    return removed;
+  }
+
+  // Subscriptions and alerts (newer than `since`, unix seconds) for an address
+  async getForAddress(address: string, since = 0) {
+    const { subscriptions, alerts } = await this.store.load();
+    const owner = address.toLowerCase();
+    return {
+      subscriptions: subscriptions
+        .filter((s) => s.address === owner)
+        .map(toPublicSubscription),
+      alerts: alerts.filter((a) => a.address === owner && a.createdAt > since),
+    };
+  }
+
+  /**
+   * Evaluate every subscription against indexed data, store the new alerts
+   * and deliver them to the sinks. Sink failures are logged, not retried.
+   */
+  async check(
+    data: Pick<IndexerSnapshot, "loans" | "events">,
+    now = Math.floor(Date.now() / 1000)
+  ): Promise<LoanAlert[]> {
+    const snapshot = await this.store.load();
+    if (snapshot.subscriptions.length === 0) return [];
+
+    const symbols = new Set<string>();
+    for (const loan of Object.values(data.loans)) {
+      if (loan.status !== LoanStatus.Active) continue;
+      for (const address of [loan.tokenAddress, loan.collateralAddress]) {
+        const token = getTokenByAddress(address);
+        if (token) symbols.add(token.symbol);
+      }
+    }
+    const prices =
+      symbols.size > 0
+        ? await this.prices.getPrices(Array.from(symbols))
+        : new Map<string, PythPrice>();
+
+    const { alerts, active } = evaluateAlerts(snapshot, {
+      loans: data.loans,
+      events: data.events,
+      prices,
+      now,
+    });
+
+    // Subscriptions can change while prices load, so merge into the latest
+    // snapshot: keep its subscriptions, drop alerts for removed ones and
+    // skip conditions a concurrent check already alerted on
+    const checked = new Set(snapshot.subscriptions.map((s) => s.id));
+    let stored: LoanAlert[] = [];
+    await this.store.update((latest) => {
+      const current = new Set(latest.subscriptions.map((s) => s.id));
+      const alerted = new Set(latest.active);
+      stored = alerts.filter(
+        (a) =>
+          current.has(a.subscriptionId) &&
+          !alerted.has(conditionKey(a.subscriptionId, a.loanId, a.type))
+      );
+      return {
+        subscriptions: latest.subscriptions,
+        alerts: [...latest.alerts, ...stored].slice(-MAX_STORED_ALERTS),
+        active: [
+          // Subscriptions added since the snapshot weren't checked
+          ...latest.active.filter(
+            (key) => !checked.has(keySubscriptionId(key))
+          ),
+          ...active.filter((key) => current.has(keySubscriptionId(key))),
+        ],
+      };
+    });
+
+    const bySubscription = new Map(
+      snapshot.subscriptions.map((s) => [s.id, s])
+    );
+    for (const alert of stored) {
+      const subscription = bySubscription.get(alert.subscriptionId)!;
+      for (const sink of this.sinks) {
+        try {
+          await sink.deliver(alert, subscription);
+        } catch (error) {
+          console.error(`Alert sink "${sink.name}" failed:`, error);
+        }
+      }
+    }
+
+    return stored;
+  }
+}
+
+// ============ Shared server instance ============
+
+let sharedService: LoanAlertService | null = null;
+let lastCheckAt = 0;
+
+/**
+ * Service used by the API routes. Env: ALERTS_DATA_DIR (defaults to the
+ * indexer's data dir) and ALERT_WEBHOOK_URL, an operator-wide webhook that
+ * receives every alert in addition to per-subscription webhooks.
+ */
+export function getLoanAlertService(): LoanAlertService {
+  if (!sharedService) {
+    const sinks: AlertSink[] = [new WebhookAlertSink()];
+    if (process.env.ALERT_WEBHOOK_URL) {
+      sinks.push(new WebhookAlertSink(process.env.ALERT_WEBHOOK_URL));
+    }
+
+    sharedService = new LoanAlertService({
+      store: new JsonFileAlertStore(
+        process.env.ALERTS_DATA_DIR ??
+          process.env.INDEXER_DATA_DIR ??
+          ".indexer"
+      ),
+      sinks,
+    });
+  }
+  return sharedService;
+}
+
+/**
+ * Check alerts against freshly indexed data at most once per `maxAgeMs`.
+ * Failures are logged so callers can still serve stored alerts. This is
+ * only a fallback for when scripts/check-alerts.ts isn't running.
+ */
+export async function runAlertChecks(maxAgeMs = 30000): Promise<void> {
+  if (Date.now() - lastCheckAt <= maxAgeMs) return;
+  lastCheckAt = Date.now();
+
+  try {
+    await checkAlertsNow();
+  } catch (error) {
+    console.error("Loan alert check failed:", error);
+  }
+}
+
+// One check against freshly indexed data, returning the alerts it fired
+export async function checkAlertsNow(): Promise<LoanAlert[]> {
+  return getLoanAlertService().check(await getIndexedData());
+}
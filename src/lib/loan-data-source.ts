@@ -0,0 +1,330 @@
+/**
+ * Loan Data Source
+ * One interface over the places loan data can come from (subgraph proxy,
+ * REST API, direct contract reads). Every adapter returns the same
+ * ProcessedLoan shape, and fetchLoansWithFallback walks a list of sources
+ * until one answers so a single backend outage doesn't blank the UI.
+ */
+
+import { ethers } from "ethers";
+import { neurolend_ABI } from "@/lib/contracts";
+import { getNetwork, getRpcUrl, NetworkConfig } from "@/config/networks";
+import type { LoanStruct } from "@/lib/contract-client";
+import {
+  ProcessedLoan,
+  SubgraphLoanEvents,
+  processLoansFromSubgraph,
+} from "@/hooks/useSubgraphQuery";
+
+export type LoanSourceName = "subgraph" | "rest" | "rpc";
+
+export interface LoanDataSource {
+  readonly name: LoanSourceName;
+  getLoans(): Promise<ProcessedLoan[]>;
+}
+
+export interface LoanSourceFailure {
+  source: LoanSourceName;
+  error: string;
+}
+
+export interface LoanFetchResult {
+  loans: ProcessedLoan[];
+  source: LoanSourceName;
+  // Sources that were tried and failed before `source` answered
+  failures: LoanSourceFailure[];
+}
+
+export const REST_API_URL =
+  process.env.NEXT_PUBLIC_REST_API_URL ?? "https://api.neurolend.sumitdhiman.in";
+
+const ZERO_ADDRESS = ethers.ZeroAddress;
+
+// ============ REST API ============
+
+// Loan shape returned by the REST API's /loans endpoint
+export interface RestLoan {
+  loan_id: string;
+  lender: string | null;
+  borrower: string;
+  amount: string;
+  status: string; // "Active", "Pending", "Repaid", etc.
+  created_at: number;
+  events_count: number;
+  // Additional fields that might be present
+  tokenAddress?: string;
+  interestRate?: string;
+  duration?: string;
+  collateralAddress?: string;
+  collateralAmount?: string;
+  startTime?: string;
+  minCollateralRatioBPS?: string;
+  liquidationThresholdBPS?: string;
+  maxPriceStaleness?: string;
+  repaidAmount?: string;
+  historicalPriceUSD?: string;
+  historicalAmountUSD?: string;
+}
+
+const REST_STATUS: Record<string, number> = {
+  pending: 0,
+  active: 1,
+  repaid: 2,
+  defaulted: 3,
+  cancelled: 4,
+};
+
+// Fields the REST API's shape marks optional but a loan can't be shown or
+// valued without
+const REQUIRED_REST_FIELDS = [
+  "amount",
+  "tokenAddress",
+  "interestRate",
+  "duration",
+  "collateralAddress",
+  "collateralAmount",
+  "minCollateralRatioBPS",
+  "liquidationThresholdBPS",
+  "maxPriceStaleness",
+] as const;
+
+/**
+ * Convert a RestLoan to the ProcessedLoan format used by the pages. Throws
+ * for records missing loan terms or with an unknown status rather than
+ * guessing them, so fetchLoansWithFallback moves on to the next source.
+ */
+export function convertRestLoanToProcessedLoan(
+  restLoan: RestLoan
+): ProcessedLoan {
+  const missing = REQUIRED_REST_FIELDS.filter((field) => !restLoan[field]);
+  if (missing.length > 0) {
+    throw new Error(
+      `REST loan ${restLoan.loan_id} is missing ${missing.join(", ")}`
+    );
+  }
+  const status = REST_STATUS[restLoan.status?.toLowerCase()];
+  if (status === undefined) {
+    throw new Error(
+      `REST loan ${restLoan.loan_id} has unknown status "${restLoan.status}"`
+    );
+  }
+
+  return {
+    id: BigInt(restLoan.loan_id),
+    lender: restLoan.lender || ZERO_ADDRESS,
+    borrower: restLoan.borrower || ZERO_ADDRESS,
+    tokenAddress: restLoan.tokenAddress!,
+    amount: BigInt(restLoan.amount),
+    interestRate: BigInt(restLoan.interestRate!),
+    duration: BigInt(restLoan.duration!),
+    collateralAddress: restLoan.collateralAddress!,
+    collateralAmount: BigInt(restLoan.collateralAmount!),
+    // Pending loans haven't started
+    startTime: BigInt(restLoan.startTime || 0),
+    createdAt: BigInt(restLoan.created_at || 0),
+    status,
+    minCollateralRatioBPS: BigInt(restLoan.minCollateralRatioBPS!),
+    liquidationThresholdBPS: BigInt(restLoan.liquidationThresholdBPS!),
+    maxPriceStaleness: BigInt(restLoan.maxPriceStaleness!),
+    repaidAmount: BigInt(restLoan.repaidAmount || "0"),
+    historicalPriceUSD: restLoan.historicalPriceUSD,
+    historicalAmountUSD: restLoan.historicalAmountUSD,
+  };
+}
+
+export class RestLoanDataSource implements LoanDataSource {
+  readonly name = "rest" as const;
+
+  constructor(private readonly baseUrl: string = REST_API_URL) {}
+
+  async getLoans(): Promise<ProcessedLoan[]> {
+    const response = await fetch(`${this.baseUrl}/loans`);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    // Handle different response formats
+    const loans: RestLoan[] = Array.isArray(data) ? data : data.loans || [];
+    return loans.map(convertRestLoanToProcessedLoan);
+  }
+}
+
+// ============ Subgraph ============
+
+const SUBGRAPH_LOANS_QUERY = `{
+  loanCreateds(first: 1000, orderBy: blockTimestamp, orderDirection: desc) {
+    amount blockNumber blockTimestamp collateralAddress collateralAmount
+    duration id interestRate lender liquidationThresholdBPS loanId
+    maxPriceStaleness minCollateralRatioBPS tokenAddress transactionHash
+    priceUSD amountUSD
+  }
+  loanAccepteds(first: 1000) { id loanId borrower timestamp initialCollateralRatio blockNumber }
+  loanRepaids(first: 1000) { id loanId borrower repaymentAmount timestamp blockNumber }
+  loanLiquidateds(first: 1000) { id loanId liquidator collateralClaimedByLender liquidatorReward timestamp blockNumber }
+  loanOfferCancelleds(first: 1000) { id loanId lender timestamp blockNumber }
+  loanOfferRemoveds(first: 1000) { id loanId reason blockNumber blockTimestamp }
+  partialRepayments(first: 1000) { id loanId borrower repaymentAmount totalRepaidAmount remainingAmount timestamp blockNumber }
+  collateralAddeds(first: 1000) { id loanId borrower amount newCollateralRatio timestamp blockNumber }
+  collateralRemoveds(first: 1000) { id loanId borrower amount newCollateralRatio timestamp blockNumber }
+}`;
+
+export class SubgraphLoanDataSource implements LoanDataSource {
+  readonly name = "subgraph" as const;
+
+  // Defaults to the app's own proxy route (see /api/subgraph)
+  constructor(private readonly endpoint: string = "/api/subgraph") {}
+
+  async getLoans(): Promise<ProcessedLoan[]> {
+    const response = await fetch(this.endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ query: SUBGRAPH_LOANS_QUERY }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || "Network response was not ok");
+    }
+
+    const result = await response.json();
+    if (result.errors) {
+      throw new Error(
+        result.errors.map((e: { message: string }) => e.message).join("\n")
+      );
+    }
+
+    const data = result.data as SubgraphLoanEvents;
+    return processLoansFromSubgraph({
+      ...data,
+      loanCreateds: data.loanCreateds ?? [],
+    });
+  }
+}
+
+// ============ Contract (RPC) ============
+
+// Convert a getLoan() result to the ProcessedLoan format
+export function fromContractLoan(
+  loan: LoanStruct | ethers.Result
+): ProcessedLoan {
+  return {
+    id: BigInt(loan.id),
+    lender: loan.lender,
+    borrower: loan.borrower,
+    tokenAddress: loan.tokenAddress,
+    amount: BigInt(loan.amount),
+    interestRate: BigInt(loan.interestRate),
+    duration: BigInt(loan.duration),
+    collateralAddress: loan.collateralAddress,
+    collateralAmount: BigInt(loan.collateralAmount),
+    startTime: BigInt(loan.startTime),
+    // Creation time isn't stored on-chain
+    createdAt: BigInt(loan.startTime),
+    status: Number(loan.status),
+    minCollateralRatioBPS: BigInt(loan.minCollateralRatioBPS),
+    liquidationThresholdBPS: BigInt(loan.liquidationThresholdBPS),
+    maxPriceStaleness: BigInt(loan.maxPriceStaleness),
+    repaidAmount: BigInt(loan.repaidAmount),
+  };
+}
+
+export class RpcLoanDataSource implements LoanDataSource {
+  readonly name = "rpc" as const;
+  private readonly contract: ethers.Contract;
+
+  constructor(
+    network: NetworkConfig = getNetwork(),
+    provider: ethers.ContractRunner = new ethers.JsonRpcProvider(
+      getRpcUrl(network)
+    ),
+    // Number of getLoan calls in flight at once
+    private readonly concurrency = 20
+  ) {
+    this.contract = new ethers.Contract(
+      network.contracts.neurolend,
+      neurolend_ABI,
+      provider
+    );
+  }
+
+  async getLoans(): Promise<ProcessedLoan[]> {
+    // Loan ids are sequential starting at 1
+    const nextLoanId = Number(await this.contract.nextLoanId());
+    const loans: ProcessedLoan[] = [];
+
+    for (let start = 1; start < nextLoanId; start += this.concurrency) {
+      const end = Math.min(start + this.concurrency, nextLoanId);
+      const batch = await Promise.all(
+        Array.from({ length: end - start }, (_, i) =>
+          this.contract.getLoan(start + i)
+        )
+      );
+      loans.push(...batch.map(fromContractLoan));
+    }
+
+    // Newest first, matching the subgraph ordering
+    return loans.reverse();
+  }
+}
+
+// ============ Fallback ============
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`Timed out after ${ms}ms`)),
+      ms
+    );
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+/**
+ * Try each source in order and return the first successful answer.
+ * Throws only when every source fails.
+ */
+export async function fetchLoansWithFallback(
+  sources: LoanDataSource[],
+  timeoutMs = 15000
+): Promise<LoanFetchResult> {
+  const failures: LoanSourceFailure[] = [];
+
+  for (const source of sources) {
+    try {
+      const loans = await withTimeout(source.getLoans(), timeoutMs);
+      return { loans, source: source.name, failures };
+    } catch (error) {
+      console.error(`Loan source "${source.name}" failed:`, error);
+      failures.push({
+        source: source.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  throw new Error(
+    failures.length > 0
+      ? `All loan sources failed: ${failures
+          .map((f) => `${f.source} (${f.error})`)
+          .join(", ")}`
+      : "No loan sources configured"
+  );
+}
+
+// REST API first, then the subgraph, then the contract itself as the source of truth
+export const createDefaultLoanSources = (
+  network: NetworkConfig = getNetwork()
+): LoanDataSource[] => [
+  new RestLoanDataSource(),
+  new SubgraphLoanDataSource(),
+  new RpcLoanDataSource(network),
+];
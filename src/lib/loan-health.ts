@@ -0,0 +1,133 @@
+/**
+ * Loan Health
+ * Off-chain mirror of NeuroLend's default checks (_getCollateralizationRatio,
+ * which backs getLoanHealthFactor, and the time check in liquidateLoan).
+ * Shared by the liquidation keeper and the loan health alerts so both judge
+ * a loan from Hermes prices exactly as the contract would.
+ */
+
+import { Loan, LoanStatus } from "@/lib/contracts";
+
+// Pyth price as returned by Hermes: integer mantissa and exponent
+export interface OraclePrice {
+  price: bigint;
+  expo: number;
+}
+
+export type DefaultReason = "expired" | "undercollateralized";
+
+export interface LoanHealth {
+  loanId: bigint;
+  // Collateral ratio in BPS; undefined when a price is missing
+  ratioBPS?: bigint;
+  liquidationThresholdBPS: bigint;
+  expiresAt: bigint;
+  reasons: DefaultReason[];
+  liquidatable: boolean;
+}
+
+const WAD = BigInt(10) ** BigInt(18);
+export const MAX_UINT256 = (BigInt(1) << BigInt(256)) - BigInt(1);
+
+// Pyth price scaled to 18 decimals, exactly as the contract converts it
+export function toPrice18({ price, expo }: OraclePrice): bigint {
+  if (expo >= 0) {
+    return price * BigInt(10) ** BigInt(expo) * WAD;
+  }
+  return (price * WAD) / BigInt(10) ** BigInt(-expo);
+}
+
+// Scale a token amount to 18 decimals
+export function scaleTo18(amount: bigint, decimals: number): bigint {
+  if (decimals < 18) return amount * BigInt(10) ** BigInt(18 - decimals);
+  if (decimals > 18) return amount / BigInt(10) ** BigInt(decimals - 18);
+  return amount;
+}
+
+// USD value of a token amount (18 decimals)
+export function usdValue(
+  amount: bigint,
+  decimals: number,
+  price: OraclePrice
+): bigint {
+  return (scaleTo18(amount, decimals) * toPrice18(price)) / WAD;
+}
+
+/**
+ * Collateral ratio in BPS. Like the contract this compares against the
+ * original principal, not the outstanding balance.
+ */
+export function collateralRatioBPS(
+  loan: Pick<Loan, "amount" | "collateralAmount">,
+  loanToken: { decimals: number; price: OraclePrice },
+  collateralToken: { decimals: number; price: OraclePrice }
+): bigint {
+  const collateralValue = usdValue(
+    loan.collateralAmount,
+    collateralToken.decimals,
+    collateralToken.price
+  );
+  const loanValue = usdValue(loan.amount, loanToken.decimals, loanToken.price);
+
+  if (loanValue === BigInt(0)) return MAX_UINT256;
+  return (collateralValue * BigInt(10000)) / loanValue;
+}
+
+/**
+ * Whether an active loan can be liquidated at `now` (unix seconds).
+ * Pass `ratioBPS` as undefined when prices are unavailable; the loan is then
+ * judged on expiry alone.
+ */
+export function assessLoanHealth(
+  loan: Loan,
+  ratioBPS: bigint | undefined,
+  now: bigint
+): LoanHealth {
+  const expiresAt = loan.startTime + loan.duration;
+  const reasons: DefaultReason[] = [];
+
+  if (loan.status === LoanStatus.Active) {
+    if (now > expiresAt) reasons.push("expired");
+    if (ratioBPS !== undefined && ratioBPS < loan.liquidationThresholdBPS) {
+      reasons.push("undercollateralized");
+    }
+  }
+
+  return {
+    loanId: loan.id,
+    ratioBPS,
+    liquidationThresholdBPS: loan.liquidationThresholdBPS,
+    expiresAt,
+    reasons,
+    liquidatable: reasons.length > 0,
+  };
+}
+
+// Default "at risk" band above liquidationThresholdBPS (e.g. 130% for 120%)
+export const DEFAULT_HEALTH_MARGIN_BPS = 1000;
+
+export interface HealthBands {
+  liquidationBPS: number;
+  atRiskBPS: number;
+  healthyBPS: number;
+}
+
+/**
+ * Display and alert bands for a loan, from its own thresholds: liquidation
+ * at liquidationThresholdBPS, at risk below `atRiskBPS` (a subscription's
+ * alert threshold when given) and healthy from minCollateralRatioBPS up.
+ */
+export function getHealthBands(
+  loan: Pick<Loan, "liquidationThresholdBPS" | "minCollateralRatioBPS">,
+  atRiskBPS?: number
+): HealthBands {
+  const liquidationBPS = Number(loan.liquidationThresholdBPS);
+  return {
+    liquidationBPS,
+    atRiskBPS: atRiskBPS ?? liquidationBPS + DEFAULT_HEALTH_MARGIN_BPS,
+    healthyBPS: Math.max(
+      Number(loan.minCollateralRatioBPS),
+      liquidationBPS + DEFAULT_HEALTH_MARGIN_BPS
+    ),
+  };
+}
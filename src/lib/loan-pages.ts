@@ -0,0 +1,238 @@
+/**
+ * Loan Pages
+ * Newest-first pages of a lender's loans, a borrower's loans or the active
+ * offers, read through the contract's *Paginated getters with one multicall
+ * of getLoan per page. Every page of a listing is read at the listing's
+ * snapshot block, so pages agree with each other and with its total even
+ * while offers are added or removed. Loans are cached by id with the block
+ * they were read at: later pages reuse anything read at or after the
+ * snapshot block, and loans that can no longer change (repaid, defaulted,
+ * cancelled) are reused at any block.
+ */
+
+import { ethers } from "ethers";
+import { getNetwork, getRpcUrl, NetworkConfig } from "@/config/networks";
+import { neurolendInterface } from "@/lib/contract-client";
+import { LoanStatus } from "@/lib/contracts";
+import { fromContractLoan } from "@/lib/loan-data-source";
+import {
+  Multicall,
+  ReadCall,
+  getLoanCall,
+  getMulticall,
+  readCall,
+} from "@/lib/multicall";
+import type { ProcessedLoan } from "@/hooks/useSubgraphQuery";
+
+export type LoanListKind = "lender" | "borrower" | "offers";
+
+export interface LoanList {
+  kind: LoanListKind;
+  // Lender or borrower address; unused for offers
+  account?: string;
+}
+
+// The list's length at a block; pages index into it from the newest end
+export interface LoanListSnapshot {
+  blockNumber: number;
+  total: number;
+}
+
+export interface LoanPage {
+  loans: ProcessedLoan[];
+  // Loans to skip for the next page, or null after the oldest loan
+  nextCursor: number | null;
+}
+
+const FINAL_STATUSES: number[] = [
+  LoanStatus.Repaid,
+  LoanStatus.Defaulted,
+  LoanStatus.Cancelled,
+];
+
+interface CachedLoan {
+  blockNumber: number;
+  loan: ProcessedLoan;
+}
+
+export class LoanCache {
+  // Map order doubles as least-recently-written order
+  private readonly loans = new Map<string, CachedLoan>();
+
+  constructor(private readonly maxEntries = 2000) {}
+
+  // The cached loan if it was read at `blockNumber` or later, or is final
+  get(loanId: bigint, blockNumber: number): ProcessedLoan | undefined {
+    const cached = this.loans.get(loanId.toString());
+    if (!cached) return undefined;
+    return cached.blockNumber >= blockNumber ||
+      FINAL_STATUSES.includes(cached.loan.status)
+      ? cached.loan
+      : undefined;
+  }
+
+  set(loan: ProcessedLoan, blockNumber: number): void {
+    const key = loan.id.toString();
+    this.loans.delete(key);
+    this.loans.set(key, { blockNumber, loan });
+    if (this.loans.size > this.maxEntries) {
+      this.loans.delete(this.loans.keys().next().value!);
+    }
+  }
+
+  clear(): void {
+    this.loans.clear();
+  }
+}
+
+export interface LoanPageLoaderOptions {
+  neurolend: string;
+  provider: ethers.Provider;
+  multicall: Multicall;
+  cache?: LoanCache;
+  pageSize?: number;
+}
+
+export class LoanPageLoader {
+  readonly cache: LoanCache;
+  readonly pageSize: number;
+  private readonly neurolend: string;
+  private readonly provider: ethers.Provider;
+  private readonly multicall: Multicall;
+
+  constructor(options: LoanPageLoaderOptions) {
+    this.neurolend = options.neurolend;
+    this.provider = options.provider;
+    this.multicall = options.multicall;
+    this.cache = options.cache ?? new LoanCache();
+    this.pageSize = options.pageSize ?? 25;
+  }
+
+  async snapshot(list: LoanList): Promise<LoanListSnapshot> {
+    const blockNumber = await this.provider.getBlockNumber();
+    const [total] = await this.multicall.aggregateOrThrow(
+      [this.countCall(list)],
+      blockNumber
+    );
+    return { blockNumber, total: Number(total) };
+  }
+
+  /**
+   * Up to `count` loans after skipping the `cursor` newest ones, read at
+   * the snapshot's block. Take a new snapshot to see later changes.
+   */
+  async loadPage(
+    list: LoanList,
+    snapshot: LoanListSnapshot,
+    cursor = 0,
+    count = this.pageSize
+  ): Promise<LoanPage> {
+    const end = snapshot.total - cursor;
+    if (end <= 0 || count <= 0) return { loans: [], nextCursor: null };
+    const start = Math.max(0, end - count);
+
+    const [ids] = await this.multicall.aggregateOrThrow(
+      [this.pageCall(list, start, end - start)],
+      snapshot.blockNumber
+    );
+    const newestFirst = [...ids].reverse();
+
+    const loans = new Map<bigint, ProcessedLoan>();
+    const missing: bigint[] = [];
+    for (const id of newestFirst) {
+      const cached = this.cache.get(id, snapshot.blockNumber);
+      if (cached) loans.set(id, cached);
+      else missing.push(id);
+    }
+
+    if (missing.length > 0) {
+      const fetched = await this.multicall.aggregateOrThrow(
+        missing.map((id) => getLoanCall(this.neurolend, id)),
+        snapshot.blockNumber
+      );
+      fetched.forEach((raw, index) => {
+        const loan = fromContractLoan(raw);
+        loans.set(missing[index], loan);
+        this.cache.set(loan, snapshot.blockNumber);
+      });
+    }
+
+    return {
+      loans: newestFirst.map((id) => loans.get(id)!),
+      nextCursor: start > 0 ? snapshot.total - start : null,
+    };
+  }
+
+  private countCall(list: LoanList): ReadCall<bigint> {
+    switch (list.kind) {
+      case "lender":
+        return readCall(
+          this.neurolend,
+          neurolendInterface,
+          "getLenderLoansCount",
+          [list.account]
+        );
+      case "borrower":
+        return readCall(
+          this.neurolend,
+          neurolendInterface,
+          "getBorrowerLoansCount",
+          [list.account]
+        );
+      case "offers":
+        return readCall(
+          this.neurolend,
+          neurolendInterface,
+          "getActiveLoanOffersCount"
+        );
+    }
+  }
+
+  private pageCall(
+    list: LoanList,
+    start: number,
+    count: number
+  ): ReadCall<bigint[]> {
+    switch (list.kind) {
+      case "lender":
+        return readCall(
+          this.neurolend,
+          neurolendInterface,
+          "getLenderLoansPaginated",
+          [list.account, start, count]
+        );
+      case "borrower":
+        return readCall(
+          this.neurolend,
+          neurolendInterface,
+          "getBorrowerLoansPaginated",
+          [list.account, start, count]
+        );
+      case "offers":
+        return readCall(
+          this.neurolend,
+          neurolendInterface,
+          "getActiveLoanOffersPaginated",
+          [start, count]
+        );
+    }
+  }
+}
+
+const shared = new Map<number, LoanPageLoader>();
+
+// Shared loader (and loan cache) per network
+export function getLoanPageLoader(
+  network: NetworkConfig = getNetwork()
+): LoanPageLoader {
+  let loader = shared.get(network.chain.id);
+  if (!loader) {
+    loader = new LoanPageLoader({
+      neurolend: network.contracts.neurolend,
+      provider: new ethers.JsonRpcProvider(getRpcUrl(network)),
+      multicall: getMulticall(network),
+    });
+    shared.set(network.chain.id, loader);
+  }
+  return loader;
+}
@@ -0,0 +1,235 @@
+/**
+ * Loan State Reducer
+ * Folds the neurolend event stream into per-loan state: status (with
+ * history), current collateral and repaid amount. State is keyed by loanId,
+ * so the whole stream is folded in one O(n) pass once sorted.
+ */
+
+import { LoanStatus } from "@/lib/contracts";
+import {
+  DEFAULT_PARAMETERS,
+  getRecommendedParameters,
+  getTokenByAddress,
+} from "@/config/tokens";
+import type { ProcessedLoan } from "@/hooks/useSubgraphQuery";
+
+export type LoanEventName =
+  | "LoanCreated"
+  | "LoanAccepted"
+  | "LoanRepaid"
+  | "LoanLiquidated"
+  | "LoanOfferCancelled"
+  | "LoanOfferRemoved"
+  | "PartialRepayment"
+  | "CollateralAdded"
+  | "CollateralRemoved";
+
+// Source-agnostic event. Numeric args are decimal strings, as delivered by
+// both the subgraph and the server-side indexer.
+export interface LoanEvent {
+  name: LoanEventName;
+  loanId: string;
+  blockNumber: number;
+  timestamp: number;
+  logIndex?: number; // Unknown for subgraph entities
+  args: Record<string, string | undefined>;
+}
+
+export interface LoanStatusChange {
+  status: LoanStatus;
+  timestamp: number;
+  blockNumber: number;
+  event: LoanEventName;
+}
+
+export interface LoanState extends ProcessedLoan {
+  statusHistory: LoanStatusChange[];
+  // Set once LoanOfferRemoved takes the offer off the order book
+  removal?: { reason: string; timestamp: number; blockNumber: number };
+  lastUpdatedBlock: number;
+}
+
+// Valid transitions of the on-chain LoanStatus enum
+const TRANSITIONS: Record<LoanStatus, LoanStatus[]> = {
+  [LoanStatus.Pending]: [LoanStatus.Active, LoanStatus.Cancelled],
+  [LoanStatus.Active]: [LoanStatus.Repaid, LoanStatus.Defaulted],
+  [LoanStatus.Repaid]: [],
+  [LoanStatus.Defaulted]: [],
+  [LoanStatus.Cancelled]: [],
+};
+
+// Tie-break for events in the same block when the log index is unknown,
+// following the order the contract emits them in
+const EVENT_ORDER: Record<LoanEventName, number> = {
+  LoanCreated: 0,
+  LoanAccepted: 1,
+  LoanOfferCancelled: 1,
+  CollateralAdded: 2,
+  CollateralRemoved: 2,
+  PartialRepayment: 3,
+  LoanRepaid: 4,
+  LoanLiquidated: 4,
+  LoanOfferRemoved: 5,
+};
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+export const compareLoanEvents = (a: LoanEvent, b: LoanEvent): number =>
+  a.blockNumber - b.blockNumber ||
+  (a.logIndex !== undefined && b.logIndex !== undefined
+    ? a.logIndex - b.logIndex
+    : 0) ||
+  EVENT_ORDER[a.name] - EVENT_ORDER[b.name];
+
+const toBigInt = (value: string | undefined): bigint => BigInt(value ?? 0);
+
+function transition(loan: LoanState, status: LoanStatus, event: LoanEvent) {
+  if (!TRANSITIONS[loan.status as LoanStatus].includes(status)) return;
+
+  loan.status = status;
+  loan.statusHistory.push({
+    status,
+    timestamp: event.timestamp,
+    blockNumber: event.blockNumber,
+    event: event.name,
+  });
+}
+
+/**
+ * Risk parameters from LoanCreated. Any the event doesn't carry fall back to
+ * the recommendation for the token pair, or the most conservative tier for
+ * unknown tokens, never to zero (which would read as "can't be liquidated").
+ */
+function riskParameters(args: LoanEvent["args"]) {
+  const loanToken = args.tokenAddress && getTokenByAddress(args.tokenAddress);
+  const collateralToken =
+    args.collateralAddress && getTokenByAddress(args.collateralAddress);
+  const fallback =
+    loanToken && collateralToken
+      ? getRecommendedParameters(loanToken, collateralToken)
+      : DEFAULT_PARAMETERS.high;
+
+  return {
+    minCollateralRatioBPS: BigInt(
+      args.minCollateralRatioBPS ?? fallback.minCollateralRatio
+    ),
+    liquidationThresholdBPS: BigInt(
+      args.liquidationThresholdBPS ?? fallback.liquidationThreshold
+    ),
+    maxPriceStaleness: BigInt(
+      args.maxPriceStaleness ?? fallback.maxPriceStaleness
+    ),
+  };
+}
+
+function createLoanState(event: LoanEvent): LoanState {
+  const { args } = event;
+  return {
+    id: BigInt(event.loanId),
+    lender: args.lender ?? ZERO_ADDRESS,
+    borrower: ZERO_ADDRESS,
+    tokenAddress: args.tokenAddress ?? ZERO_ADDRESS,
+    amount: toBigInt(args.amount),
+    interestRate: toBigInt(args.interestRate),
+    duration: toBigInt(args.duration),
+    collateralAddress: args.collateralAddress ?? ZERO_ADDRESS,
+    collateralAmount: toBigInt(args.collateralAmount),
+    startTime: BigInt(0),
+    createdAt: BigInt(event.timestamp),
+    status: LoanStatus.Pending,
+    historicalPriceUSD: args.priceUSD,
+    historicalAmountUSD: args.amountUSD,
+    ...riskParameters(args),
+    repaidAmount: BigInt(0),
+    statusHistory: [
+      {
+        status: LoanStatus.Pending,
+        timestamp: event.timestamp,
+        blockNumber: event.blockNumber,
+        event: event.name,
+      },
+    ],
+    lastUpdatedBlock: event.blockNumber,
+  };
+}
+
+/**
+ * Apply one event to its loan's state. Events for loans whose LoanCreated
+ * hasn't been seen are ignored.
+ */
+export function applyLoanEvent(
+  loans: Map<string, LoanState>,
+  event: LoanEvent
+): void {
+  if (event.name === "LoanCreated") {
+    loans.set(event.loanId, createLoanState(event));
+    return;
+  }
+
+  const loan = loans.get(event.loanId);
+  if (!loan) return;
+
+  const { args } = event;
+
+  switch (event.name) {
+    case "LoanAccepted":
+      loan.borrower = args.borrower ?? loan.borrower;
+      loan.startTime = toBigInt(args.timestamp ?? String(event.timestamp));
+      transition(loan, LoanStatus.Active, event);
+      break;
+    case "LoanOfferCancelled":
+      transition(loan, LoanStatus.Cancelled, event);
+      break;
+    case "LoanOfferRemoved":
+      // Emitted on both accept and cancel; only the reason is kept here and
+      // a loan still pending once the stream is folded counts as cancelled
+      loan.removal = {
+        reason: args.reason ?? "",
+        timestamp: event.timestamp,
+        blockNumber: event.blockNumber,
+      };
+      break;
+    case "CollateralAdded":
+      loan.collateralAmount += toBigInt(args.amount);
+      break;
+    case "CollateralRemoved":
+      loan.collateralAmount -= toBigInt(args.amount);
+      break;
+    case "PartialRepayment":
+      loan.repaidAmount = toBigInt(args.totalRepaidAmount);
+      break;
+    case "LoanRepaid":
+      transition(loan, LoanStatus.Repaid, event);
+      break;
+    case "LoanLiquidated":
+      transition(loan, LoanStatus.Defaulted, event);
+      break;
+  }
+
+  loan.lastUpdatedBlock = event.blockNumber;
+}
+
+/**
+ * Fold a full event stream (any order) into state for every loan
+ */
+export function reduceLoanEvents(events: LoanEvent[]): Map<string, LoanState> {
+  const loans = new Map<string, LoanState>();
+
+  for (const event of [...events].sort(compareLoanEvents)) {
+    applyLoanEvent(loans, event);
+  }
+
+  for (const loan of loans.values()) {
+    if (loan.status === LoanStatus.Pending && loan.removal) {
+      loan.status = LoanStatus.Cancelled;
+      loan.statusHistory.push({
+        status: LoanStatus.Cancelled,
+        timestamp: loan.removal.timestamp,
+        blockNumber: loan.removal.blockNumber,
+        event: "LoanOfferRemoved",
+      });
+    }
+  }
+
+  return loans;
+}
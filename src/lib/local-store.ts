@@ -0,0 +1,86 @@
+/**
+ * Local Store
+ * One value persisted in localStorage under a key, read lazily, cached in
+ * memory and observable, so it can back useSyncExternalStore directly.
+ * When storage is missing or refuses a write the value still lives for the
+ * session.
+ */
+
+// Subset of window.localStorage, so tests can supply a Map-backed stub
+export type LocalStorageLike = Pick<Storage, "getItem" | "setItem">;
+
+export interface LocalStoreOptions<T> {
+  storage: LocalStorageLike | null;
+  key: string;
+  // Value for the stored string (null when unset or unreadable); should
+  // fall back to a default for anything invalid
+  parse: (raw: string | null) => T;
+  serialize?: (value: T) => string;
+  // Names the value in warnings, e.g. "approval preference"
+  label: string;
+}
+
+export class LocalStore<T> {
+  private value: { current: T } | null = null;
+  private readonly listeners = new Set<() => void>();
+  private readonly storage: LocalStorageLike | null;
+  private readonly key: string;
+  private readonly parse: (raw: string | null) => T;
+  private readonly serialize: (value: T) => string;
+  private readonly label: string;
+
+  constructor(options: LocalStoreOptions<T>) {
+    this.storage = options.storage;
+    this.key = options.key;
+    this.parse = options.parse;
+    this.serialize = options.serialize ?? JSON.stringify;
+    this.label = options.label;
+  }
+
+  // Arrow functions so they can be passed to useSyncExternalStore directly;
+  // get returns the same value until it's set again
+  get = (): T => {
+    if (this.value === null) {
+      let raw: string | null = null;
+      try {
+        raw = this.storage?.getItem(this.key) ?? null;
+      } catch {
+        // Storage disabled; start from the default
+      }
+      this.value = { current: this.parse(raw) };
+    }
+    return this.value.current;
+  };
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  set(value: T): void {
+    this.value = { current: value };
+    try {
+      this.storage?.setItem(this.key, this.serialize(value));
+    } catch (error) {
+      // Quota or private mode; keep the value for this session
+      console.warn(`Failed to save ${this.label}:`, error);
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// window.localStorage in the browser, null during server rendering
+export const browserStorage = (): LocalStorageLike | null =>
+  typeof window !== "undefined" ? window.localStorage : null;
+
+// Stored JSON, or undefined when unset or corrupt
+export function parseStoredJson(raw: string | null): unknown {
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * Mock Hermes
+ * A Hermes-compatible price source for offline development and tests.
+ * Prices follow scripted paths, so crashes, stale feeds, wide confidence
+ * intervals and oracle outages can be reproduced exactly. Served by
+ * scripts/mock-hermes.ts; point the app at it with NEXT_PUBLIC_HERMES_URL.
+ *
+ * Binary updates use MockPyth's encoding (unsigned abi-encoded PriceFeeds),
+ * so MockPyth accepts them but the real Pyth contract does not.
+ */
+
+import { ethers } from "ethers";
+import { SUPPORTED_TOKENS } from "@/config/tokens";
+
+// Price at `at` seconds into the scenario; prices in between are interpolated
+export interface PricePoint {
+  at: number;
+  price: number;
+}
+
+export interface FeedScript {
+  path: PricePoint[];
+  // Confidence interval as a fraction of the price (default 0.1%)
+  confidence?: number;
+  // Seconds into the scenario after which the feed stops publishing
+  staleAfter?: number;
+}
+
+export interface HermesScenario {
+  description: string;
+  // Scripts keyed by token symbol; other supported tokens hold BASE_PRICES
+  feeds: Record<string, FeedScript>;
+  // Windows (seconds into the scenario) in which every request fails
+  outages?: { from: number; to: number; status?: number }[];
+}
+
+export interface MockHermesResponse {
+  status: number;
+  body: unknown;
+}
+
+// Prices are published with Pyth's usual exponent for USD feeds
+const PRICE_EXPO = -8;
+const DEFAULT_CONFIDENCE = 0.001;
+// ema_price is the mean of the path over this many trailing seconds
+const EMA_WINDOW = 60;
+
+export const BASE_PRICES: Record<string, number> = {
+  "0G": 3,
+  WETH: 3000,
+  wstETH: 3600,
+  USDC: 1,
+};
+
+const crash = (symbol: string, drop: number): FeedScript => ({
+  path: [
+    { at: 0, price: BASE_PRICES[symbol] },
+    { at: 30, price: BASE_PRICES[symbol] },
+    { at: 90, price: BASE_PRICES[symbol] * (1 - drop) },
+  ],
+});
+
+export const HERMES_SCENARIOS: Record<string, HermesScenario> = {
+  steady: {
+    description: "Every feed holds its base price",
+    feeds: {},
+  },
+  crash: {
+    description:
+      "After 30s, ETH assets fall 60% and 0G 80% over a minute, then hold",
+    feeds: {
+      WETH: crash("WETH", 0.6),
+      wstETH: crash("wstETH", 0.6),
+      "0G": crash("0G", 0.8),
+    },
+  },
+  "stale-oracle": {
+    description: "WETH stops publishing after 30s while other feeds continue",
+    feeds: {
+      WETH: { path: [{ at: 0, price: BASE_PRICES.WETH }], staleAfter: 30 },
+    },
+  },
+  outage: {
+    description: "Hermes returns 503 from 30s to 90s, then recovers",
+    feeds: {},
+    outages: [{ from: 30, to: 90 }],
+  },
+  "wide-confidence": {
+    description: "WETH publishes with a 5% confidence interval",
+    feeds: {
+      WETH: { path: [{ at: 0, price: BASE_PRICES.WETH }], confidence: 0.05 },
+    },
+  },
+};
+
+// Linear interpolation along a path, holding its first and last prices
+export function priceAt(path: PricePoint[], at: number): number {
+  if (path.length === 0) throw new Error("Empty price path");
+  if (at <= path[0].at) return path[0].price;
+  for (let i = 1; i < path.length; i++) {
+    const prev = path[i - 1];
+    const next = path[i];
+    if (at <= next.at) {
+      const progress = (at - prev.at) / (next.at - prev.at);
+      return prev.price + (next.price - prev.price) * progress;
+    }
+  }
+  return path[path.length - 1].price;
+}
+
+const bareId = (id: string) => id.toLowerCase().replace(/^0x/, "");
+
+interface FeedState {
+  id: string;
+  price: bigint;
+  conf: bigint;
+  emaPrice: bigint;
+  emaConf: bigint;
+  publishTime: number;
+  prevPublishTime: number;
+}
+
+// Update data in the format MockPyth.updatePriceFeeds decodes
+function encodeMockPythUpdate(feed: FeedState): string {
+  const price = (value: bigint, conf: bigint) => [
+    value,
+    conf,
+    PRICE_EXPO,
+    feed.publishTime,
+  ];
+  return ethers.AbiCoder.defaultAbiCoder().encode(
+    [
+      "tuple(bytes32 id, tuple(int64 price, uint64 conf, int32 expo, uint256 publishTime) price, tuple(int64 price, uint64 conf, int32 expo, uint256 publishTime) emaPrice)",
+      "uint64",
+    ],
+    [
+      [
+        `0x${feed.id}`,
+        price(feed.price, feed.conf),
+        price(feed.emaPrice, feed.emaConf),
+      ],
+      feed.prevPublishTime,
+    ]
+  );
+}
+
+export class MockHermes {
+  private startedAt: number;
+
+  constructor(
+    private scenario: HermesScenario = HERMES_SCENARIOS.steady,
+    private readonly now: () => number = Date.now
+  ) {
+    this.startedAt = now();
+  }
+
+  // Switch scenario and restart its clock
+  reset(scenario: HermesScenario = this.scenario): void {
+    this.scenario = scenario;
+    this.startedAt = this.now();
+  }
+
+  // Seconds since the scenario started
+  elapsed(): number {
+    return (this.now() - this.startedAt) / 1000;
+  }
+
+  /**
+   * Answer a Hermes request. Only /v2/updates/price/latest is implemented,
+   * with its `ids[]`, `encoding` and `parsed` parameters.
+   */
+  handle(requestUrl: string): MockHermesResponse {
+    const url = new URL(requestUrl, "http://localhost");
+    if (url.pathname !== "/v2/updates/price/latest") {
+      return { status: 404, body: { error: `Unknown route ${url.pathname}` } };
+    }
+
+    const elapsed = this.elapsed();
+    const outage = this.scenario.outages?.find(
+      ({ from, to }) => elapsed >= from && elapsed < to
+    );
+    if (outage) {
+      return {
+        status: outage.status ?? 503,
+        body: { error: "Service unavailable (scripted outage)" },
+      };
+    }
+
+    const ids = url.searchParams.getAll("ids[]").map(bareId);
+    if (ids.length === 0) {
+      return { status: 400, body: { error: "At least one ids[] is required" } };
+    }
+
+    const symbols = new Map(
+      Object.values(SUPPORTED_TOKENS).map((token) => [
+        bareId(token.pythPriceFeedId),
+        token.symbol,
+      ])
+    );
+    const missing = ids.filter((id) => !symbols.has(id));
+    if (missing.length > 0) {
+      return {
+        status: 404,
+        body: { error: `Price ids not found: ${missing.join(", ")}` },
+      };
+    }
+
+    const feeds = ids.map((id) => this.feedState(id, symbols.get(id)!));
+    const encoding = url.searchParams.get("encoding") ?? "hex";
+    const data = feeds.map((feed) => {
+      const update = encodeMockPythUpdate(feed);
+      return encoding === "base64"
+        ? ethers.encodeBase64(update)
+        : update.slice(2);
+    });
+
+    const body: Record<string, unknown> = { binary: { encoding, data } };
+    if (url.searchParams.get("parsed") !== "false") {
+      body.parsed = feeds.map((feed) => ({
+        id: feed.id,
+        price: {
+          price: feed.price.toString(),
+          conf: feed.conf.toString(),
+          expo: PRICE_EXPO,
+          publish_time: feed.publishTime,
+        },
+        ema_price: {
+          price: feed.emaPrice.toString(),
+          conf: feed.emaConf.toString(),
+          expo: PRICE_EXPO,
+          publish_time: feed.publishTime,
+        },
+        metadata: {
+          slot: Math.floor((feed.publishTime * 1000) / 400),
+          proof_available_time: feed.publishTime,
+          prev_publish_time: feed.prevPublishTime,
+        },
+      }));
+    }
+    return { status: 200, body };
+  }
+
+  private feedState(id: string, symbol: string): FeedState {
+    const script: FeedScript = this.scenario.feeds[symbol] ?? {
+      path: [{ at: 0, price: BASE_PRICES[symbol] ?? 1 }],
+    };
+    const confidence = script.confidence ?? DEFAULT_CONFIDENCE;
+
+    // A stale feed keeps reporting its last published price and time
+    const at =
+      script.staleAfter === undefined
+        ? this.elapsed()
+        : Math.min(this.elapsed(), script.staleAfter);
+    const publishTime = Math.floor((this.startedAt + at * 1000) / 1000);
+
+    let emaSum = 0;
+    for (let offset = 0; offset < EMA_WINDOW; offset += 5) {
+      emaSum += priceAt(script.path, at - offset);
+    }
+    const ema = emaSum / (EMA_WINDOW / 5);
+
+    const usd = priceAt(script.path, at);
+    const scaled = (value: number) =>
+      BigInt(Math.round(value * 10 ** -PRICE_EXPO));
+    return {
+      id,
+      price: scaled(usd),
+      conf: scaled(usd * confidence),
+      emaPrice: scaled(ema),
+      emaConf: scaled(ema * confidence),
+      publishTime,
+      prevPublishTime: publishTime - 1,
+    };
+  }
+}
@@ -1,263 +1,429 @@
 /**
- * @file multicall.ts
- * @description Efficient price fetching utility for Somnia L1 (no multicall contract needed)
- * @author neurolend Team
+ * Multicall
+ * Batches contract reads (getLoan, getLoanHealthFactor, balanceOf,
+ * allowance, Pyth getPriceUnsafe, ...) into one eth_call through
+ * Multicall3's aggregate3. Each call succeeds or fails on its own, and when
+ * the network has no Multicall3 deployment or the aggregate call itself
+ * fails, the same calls go out individually with Promise.all. Results are
+ * decoded into the plain shapes TypedContract.read returns.
  */
 
 import { ethers } from "ethers";
-import { SOMNIA_TESTNET_CONFIG } from "./contracts";
-
-// Chainlink Aggregator ABI - only the functions we need
-export const AGGREGATOR_ABI = [
-  {
-    name: "latestRoundData",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [
-      { name: "roundId", type: "uint80" },
-      { name: "answer", type: "int256" },
-      { name: "startedAt", type: "uint256" },
-      { name: "updatedAt", type: "uint256" },
-      { name: "answeredInRound", type: "uint80" },
-    ],
-  },
-  {
-    name: "decimals",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "", type: "uint8" }],
-  },
+import { getNetwork, getRpcUrl, NetworkConfig } from "@/config/networks";
+import { ERC20_ABI } from "@/lib/contracts";
+import {
+  GetLoanHealthFactorResult,
+  LoanStruct,
+  neurolendInterface,
+} from "@/lib/contract-client";
+import { fromAbiParams, fromAbiValue } from "@/lib/typed-contract";
+
+export const MULTICALL3_ABI = [
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)",
 ] as const;
 
-// Types
+// The part of IPyth the app reads directly
+export const PYTH_ABI = [
+  "function getPriceUnsafe(bytes32 id) view returns (tuple(int64 price, uint64 conf, int32 expo, uint256 publishTime) price)",
+] as const;
 
-export interface PriceFeedCall {
-  tokenAddress: string;
-  priceFeedAddress: string;
+const multicall3Interface = new ethers.Interface(MULTICALL3_ABI);
+const erc20Interface = new ethers.Interface(ERC20_ABI);
+const pythInterface = new ethers.Interface(PYTH_ABI);
+
+// A view call; T is the decoded result type
+export interface ReadCall<T = unknown> {
+  target: string;
+  interface: ethers.Interface;
+  // Function name, or full signature for overloaded functions
+  method: string;
+  args: unknown[];
+  // Carries T only; never set
+  readonly __result?: T;
 }
 
-export interface PriceData {
-  tokenAddress: string;
-  priceFeedAddress: string;
+export type ReadResult<T = unknown> =
+  { success: true; value: T } | { success: false; error: string };
+
+// Pyth's PythStructs.Price
+export interface PythOnChainPrice {
   price: bigint;
-  decimals: number;
-  updatedAt: number;
-  isStale: boolean;
-  success: boolean;
-  priceUSD: string; // Formatted USD price
+  conf: bigint;
+  expo: bigint;
+  publishTime: bigint;
 }
 
-/**
- * Price fetching utility class for Somnia L1 (uses Promise.all instead of multicall)
- */
-export class MulticallUtil {
-  private provider: ethers.JsonRpcProvider;
-
-  constructor(providerOrRpc?: ethers.JsonRpcProvider | string) {
-    // Use provided provider or create new one with Somnia testnet RPC
-    if (typeof providerOrRpc === "string") {
-      this.provider = new ethers.JsonRpcProvider(providerOrRpc);
-    } else if (providerOrRpc) {
-      this.provider = providerOrRpc;
-    } else {
-      this.provider = new ethers.JsonRpcProvider(
-        SOMNIA_TESTNET_CONFIG.rpcUrls.default.http[0]
-      );
-    }
+export const readCall = <T>(
+  target: string,
+  contractInterface: ethers.Interface,
+  method: string,
+  args: unknown[] = []
+): ReadCall<T> => ({ target, interface: contractInterface, method, args });
+
+// Read calls for the functions the UI batches most
+
+export const getLoanCall = (neurolend: string, loanId: ethers.BigNumberish) =>
+  readCall<LoanStruct>(neurolend, neurolendInterface, "getLoan", [loanId]);
+
+export const getLoanHealthFactorCall = (
+  neurolend: string,
+  loanId: ethers.BigNumberish
+) =>
+  readCall<GetLoanHealthFactorResult>(
+    neurolend,
+    neurolendInterface,
+    "getLoanHealthFactor",
+    [loanId]
+  );
+
+export const balanceOfCall = (token: string, owner: string) =>
+  readCall<bigint>(token, erc20Interface, "balanceOf", [owner]);
+
+export const allowanceCall = (token: string, owner: string, spender: string) =>
+  readCall<bigint>(token, erc20Interface, "allowance", [owner, spender]);
+
+export const getPriceUnsafeCall = (pyth: string, feedId: string) =>
+  readCall<PythOnChainPrice>(pyth, pythInterface, "getPriceUnsafe", [feedId]);
+
+export interface MulticallOptions {
+  // Multicall3 deployment; without one every batch uses Promise.all
+  address?: string;
+  // Calls per aggregate3 request, keeping each eth_call under the gas cap
+  batchSize?: number;
+}
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error
+    ? ((error as { shortMessage?: string }).shortMessage ?? error.message)
+    : String(error);
+
+export class Multicall {
+  private readonly address: string;
+  private readonly batchSize: number;
+  // Cleared once the address turns out to have no code
+  private multicallAvailable: boolean;
+
+  constructor(
+    private readonly provider: ethers.Provider,
+    options: MulticallOptions = {}
+  ) {
+    this.address = options.address ?? "";
+    this.batchSize = options.batchSize ?? 100;
+    this.multicallAvailable = Boolean(this.address);
   }
 
   /**
-   * Batch fetch price feed data for multiple tokens using Promise.all
-   * This is the main function for fetching current prices efficiently without multicall
+   * Run every call and return their results in order. A call that reverts
+   * only fails its own result.
    */
-  async batchFetchPriceFeeds(
-    priceFeedCalls: PriceFeedCall[]
-  ): Promise<PriceData[]> {
-    if (priceFeedCalls.length === 0) {
-      return [];
+  async aggregate<T = unknown>(
+    calls: ReadCall<T>[],
+    blockTag?: ethers.BlockTag
+  ): Promise<ReadResult<T>[]> {
+    const results: ReadResult<T>[] = [];
+    for (let start = 0; start < calls.length; start += this.batchSize) {
+      const batch = calls.slice(start, start + this.batchSize);
+      results.push(...(await this.aggregateBatch(batch, blockTag)));
     }
+    return results;
+  }
 
-    try {
-      // Create promises for all price feed calls
-      const pricePromises = priceFeedCalls.map(
-        async ({ tokenAddress, priceFeedAddress }) => {
-          let priceData: PriceData = {
-            tokenAddress,
-            priceFeedAddress,
-            price: 0n,
-            decimals: 8, // Default to 8 decimals (common for USD price feeds)
-            updatedAt: 0,
-            isStale: true,
+  // Like aggregate, but throws on the first failed call
+  async aggregateOrThrow<T = unknown>(
+    calls: ReadCall<T>[],
+    blockTag?: ethers.BlockTag
+  ): Promise<T[]> {
+    const results = await this.aggregate(calls, blockTag);
+    return results.map((result, index) => {
+      if (!result.success) {
+        throw new Error(
+          `${calls[index].method} on ${calls[index].target} failed: ${result.error}`
+        );
+      }
+      return result.value;
+    });
+  }
+
+  private async aggregateBatch<T>(
+    calls: ReadCall<T>[],
+    blockTag?: ethers.BlockTag
+  ): Promise<ReadResult<T>[]> {
+    if (this.multicallAvailable && calls.length > 1) {
+      try {
+        return await this.aggregate3(calls, blockTag);
+      } catch (error) {
+        console.warn(
+          "Multicall3 batch failed, reading calls one by one:",
+          error
+        );
+      }
+    }
+    return Promise.all(calls.map((call) => this.callOne(call, blockTag)));
+  }
+
+  private async aggregate3<T>(
+    calls: ReadCall<T>[],
+    blockTag?: ethers.BlockTag
+  ): Promise<ReadResult<T>[]> {
+    const encoded = calls.map((call) => ({
+      target: call.target,
+      allowFailure: true,
+      callData: encodeCall(call),
+    }));
+    const data = await this.provider.call({
+      to: this.address,
+      data: multicall3Interface.encodeFunctionData("aggregate3", [encoded]),
+      blockTag,
+    });
+    if (data === "0x") {
+      this.multicallAvailable = false;
+      throw new Error(`No Multicall3 contract at ${this.address}`);
+    }
+
+    const [returned] = multicall3Interface.decodeFunctionResult(
+      "aggregate3",
+      data
+    );
+    return calls.map((call, index) => {
+      const { success, returnData } = returned[index];
+      return success
+        ? decodeCall(call, returnData)
+        : {
             success: false,
-            priceUSD: "0.00",
+            error: revertReason(call, encoded[index].callData, returnData),
           };
+    });
+  }
 
-          try {
-            // Create contract instance for this price feed
-            const priceFeedContract = new ethers.Contract(
-              priceFeedAddress,
-              AGGREGATOR_ABI,
-              this.provider
-            );
-
-            // Fetch both latestRoundData and decimals in parallel
-            const [roundData, decimals] = await Promise.all([
-              priceFeedContract.latestRoundData(),
-              priceFeedContract.decimals(),
-            ]);
-
-            const [, answer, , updatedAt] = roundData;
-
-            // Validate price data
-            if (answer > 0 && updatedAt > 0) {
-              const currentTime = Math.floor(Date.now() / 1000);
-              const isStale = currentTime - Number(updatedAt) > 3600; // 1 hour staleness
-
-              const priceUSD = this.formatPriceToUSD(
-                BigInt(answer.toString()),
-                Number(decimals),
-                4 // Show more precision for better UX
-              );
-
-              priceData = {
-                tokenAddress,
-                priceFeedAddress,
-                price: BigInt(answer.toString()),
-                decimals: Number(decimals),
-                updatedAt: Number(updatedAt),
-                isStale,
-                success: true,
-                priceUSD,
-              };
-            }
-          } catch (error) {
-            console.warn(
-              `Failed to fetch price data for token ${tokenAddress} from ${priceFeedAddress}:`,
-              error
-            );
-          }
-
-          return priceData;
-        }
-      );
-
-      // Wait for all price fetches to complete
-      const priceDataList = await Promise.all(pricePromises);
-      return priceDataList;
+  private async callOne<T>(
+    call: ReadCall<T>,
+    blockTag?: ethers.BlockTag
+  ): Promise<ReadResult<T>> {
+    try {
+      const data = await this.provider.call({
+        to: call.target,
+        data: encodeCall(call),
+        blockTag,
+      });
+      return decodeCall(call, data);
     } catch (error) {
-      console.error("Batch price feed fetch failed:", error);
-      throw error;
+      return { success: false, error: errorMessage(error) };
     }
   }
+}
 
-  /**
-   * Helper method to get unique price feeds from a list of tokens
-   */
-  static getUniquePriceFeeds(
-    tokenAddresses: string[],
-    getPriceFeedAddress: (tokenAddress: string) => string | undefined
-  ): PriceFeedCall[] {
-    const uniqueFeeds = new Map<string, PriceFeedCall>();
-
-    tokenAddresses.forEach((tokenAddress) => {
-      const priceFeedAddress = getPriceFeedAddress(tokenAddress);
-      if (priceFeedAddress && priceFeedAddress !== ethers.ZeroAddress) {
-        // Use price feed address as key to ensure uniqueness
-        if (!uniqueFeeds.has(priceFeedAddress)) {
-          uniqueFeeds.set(priceFeedAddress, {
-            tokenAddress,
-            priceFeedAddress,
-          });
-        }
-      }
-    });
+function encodeCall(call: ReadCall): string {
+  return call.interface.encodeFunctionData(call.method, call.args);
+}
 
-    return Array.from(uniqueFeeds.values());
+// Decode the same way TypedContract.read does
+function decodeCall<T>(call: ReadCall<T>, data: string): ReadResult<T> {
+  try {
+    const fragment = call.interface.getFunction(call.method)!;
+    const result = call.interface.decodeFunctionResult(fragment, data);
+    const { outputs } = fragment;
+    return {
+      success: true,
+      value: (outputs.length === 1
+        ? fromAbiValue(outputs[0], result[0])
+        : fromAbiParams(outputs, result)) as T,
+    };
+  } catch (error) {
+    return { success: false, error: errorMessage(error) };
   }
+}
 
-  /**
-   * Create a price map from price data for easy lookup
-   */
-  static createPriceMap(priceDataList: PriceData[]): Map<string, PriceData> {
-    const priceMap = new Map<string, PriceData>();
+function revertReason(call: ReadCall, callData: string, data: string): string {
+  if (data === "0x") return "Call reverted";
+  const error = call.interface.makeError(data, {
+    to: call.target,
+    data: callData,
+  });
+  return error.shortMessage;
+}
 
-    priceDataList.forEach((priceData) => {
-      // Key by both token address and price feed address for flexibility
-      priceMap.set(priceData.tokenAddress.toLowerCase(), priceData);
-      priceMap.set(priceData.priceFeedAddress.toLowerCase(), priceData);
-    });
+const shared = new Map<number, Multicall>();
 
-    return priceMap;
+// Shared batcher over the network's public RPC
+export function getMulticall(network: NetworkConfig = getNetwork()): Multicall {
+  let multicall = shared.get(network.chain.id);
+  if (!multicall) {
+    multicall = new Multicall(new ethers.JsonRpcProvider(getRpcUrl(network)), {
+      address: network.contracts.multicall3,
+    });
+    shared.set(network.chain.id, multicall);
   }
+  return multicall;
+}
 
-  /**
-   * Format price to USD with proper decimal handling
-   */
-  formatPriceToUSD(
-    price: bigint,
-    decimals: number,
-    displayDecimals: number = 2
-  ): string {
-    const divisor = 10n ** BigInt(decimals);
-    const wholePart = price / divisor;
-    const fractionalPart = price % divisor;
-
-    // Convert to float for display
-    const priceFloat =
-      Number(wholePart) + Number(fractionalPart) / Number(divisor);
-
-    return priceFloat.toFixed(displayDecimals);
-  }
+// ============ Pyth prices ============
 
-  /**
-   * Calculate USD value of a token amount using current price
-   */
-  static calculateUSDValue(
-    tokenAmount: bigint,
-    tokenDecimals: number,
-    priceData: PriceData
-  ): string {
-    if (!priceData.success || priceData.price <= 0n) {
-      return "0.00";
-    }
+export interface PriceFeedCall {
+  tokenAddress: string;
+  priceFeedId: string;
+}
+
+export interface PriceData {
+  tokenAddress: string;
+  priceFeedId: string;
+  price: bigint;
+  confidence: bigint;
+  decimals: number;
+  updatedAt: number;
+  isStale: boolean;
+  success: boolean;
+  priceUSD: string; // Formatted USD price
+  error?: string;
+}
 
-    // Normalize token amount to 18 decimals for calculation
-    let normalizedAmount: bigint;
-    if (tokenDecimals < 18) {
-      normalizedAmount = tokenAmount * 10n ** BigInt(18 - tokenDecimals);
-    } else if (tokenDecimals > 18) {
-      normalizedAmount = tokenAmount / 10n ** BigInt(tokenDecimals - 18);
-    } else {
-      normalizedAmount = tokenAmount;
+/**
+ * One entry per distinct price feed among the tokens
+ */
+export function getUniquePriceFeeds(
+  tokenAddresses: string[],
+  getPriceFeedId: (tokenAddress: string) => string | undefined
+): PriceFeedCall[] {
+  const uniqueFeeds = new Map<string, PriceFeedCall>();
+
+  tokenAddresses.forEach((tokenAddress) => {
+    const priceFeedId = getPriceFeedId(tokenAddress);
+    if (priceFeedId && !uniqueFeeds.has(priceFeedId.toLowerCase())) {
+      uniqueFeeds.set(priceFeedId.toLowerCase(), { tokenAddress, priceFeedId });
     }
+  });
 
-    // Normalize price to 18 decimals
-    let normalizedPrice: bigint;
-    if (priceData.decimals < 18) {
-      normalizedPrice =
-        priceData.price * 10n ** BigInt(18 - priceData.decimals);
-    } else if (priceData.decimals > 18) {
-      normalizedPrice =
-        priceData.price / 10n ** BigInt(priceData.decimals - 18);
-    } else {
-      normalizedPrice = priceData.price;
+  return Array.from(uniqueFeeds.values());
+}
+
+/**
+ * Read the prices the Pyth contract currently holds for each feed, in one
+ * batch. These are the prices neurolend itself sees, so they can lag
+ * Hermes until someone pushes an update on-chain.
+ */
+export async function readPythPrices(
+  multicall: Multicall,
+  pyth: string,
+  feeds: PriceFeedCall[],
+  staleAfterSeconds = 3600
+): Promise<PriceData[]> {
+  const results = await multicall.aggregate(
+    feeds.map(({ priceFeedId }) => getPriceUnsafeCall(pyth, priceFeedId))
+  );
+  const now = Math.floor(Date.now() / 1000);
+
+  return feeds.map(({ tokenAddress, priceFeedId }, index) => {
+    const result = results[index];
+    const empty: PriceData = {
+      tokenAddress,
+      priceFeedId,
+      price: 0n,
+      confidence: 0n,
+      decimals: 8,
+      updatedAt: 0,
+      isStale: true,
+      success: false,
+      priceUSD: "0.00",
+    };
+    if (!result.success) return { ...empty, error: result.error };
+
+    const { price, conf, expo, publishTime } = result.value;
+    if (price <= 0n || publishTime === 0n) {
+      return { ...empty, error: "Pyth has no price for this feed" };
     }
+    // Pyth exponents are negative in practice; fold a positive one into the price
+    const scale = expo > 0n ? 10n ** expo : 1n;
+    const decimals = expo > 0n ? 0 : Number(-expo);
+    return {
+      tokenAddress,
+      priceFeedId,
+      price: price * scale,
+      confidence: conf * scale,
+      decimals,
+      updatedAt: Number(publishTime),
+      isStale: now - Number(publishTime) > staleAfterSeconds,
+      success: true,
+      priceUSD: formatPriceToUSD(price * scale, decimals, 4),
+    };
+  });
+}
+
+/**
+ * Create a price map from price data for easy lookup
+ */
+export function createPriceMap(
+  priceDataList: PriceData[]
+): Map<string, PriceData> {
+  const priceMap = new Map<string, PriceData>();
+
+  priceDataList.forEach((priceData) => {
+    // Key by both token address and price feed id for flexibility
+    priceMap.set(priceData.tokenAddress.toLowerCase(), priceData);
+    priceMap.set(priceData.priceFeedId.toLowerCase(), priceData);
+  });
+
+  return priceMap;
+}
+
+/**
+ * Format price to USD with proper decimal handling
+ */
+export function formatPriceToUSD(
+  price: bigint,
+  decimals: number,
+  displayDecimals: number = 2
+): string {
+  const divisor = 10n ** BigInt(decimals);
+  const wholePart = price / divisor;
+  const fractionalPart = price % divisor;
+
+  // Convert to float for display
+  const priceFloat =
+    Number(wholePart) + Number(fractionalPart) / Number(divisor);
+
+  return priceFloat.toFixed(displayDecimals);
+}
 
-    // Calculate USD value: (amount * price) / 10^18
-    const usdValue = (normalizedAmount * normalizedPrice) / 10n ** 18n;
+/**
+ * Calculate USD value of a token amount using current price
+ */
+export function calculateUSDValue(
+  tokenAmount: bigint,
+  tokenDecimals: number,
+  priceData: PriceData
+): string {
+  if (!priceData.success || priceData.price <= 0n) {
+    return "0.00";
+  }
 
-    // Convert to display format
-    const divisor = 10n ** 18n;
-    const wholePart = usdValue / divisor;
-    const fractionalPart = usdValue % divisor;
-    const usdFloat =
-      Number(wholePart) + Number(fractionalPart) / Number(divisor);
+  const ONE = 10n ** 18n;
 
-    return usdFloat.toFixed(2);
+  // Normalize token amount to 18 decimals for calculation
+  let normalizedAmount: bigint;
+  if (tokenDecimals < 18) {
+    normalizedAmount = tokenAmount * 10n ** BigInt(18 - tokenDecimals);
+  } else if (tokenDecimals > 18) {
+    normalizedAmount = tokenAmount / 10n ** BigInt(tokenDecimals - 18);
+  } else {
+    normalizedAmount = tokenAmount;
   }
-}
 
-// Export singleton instance for convenience
-export const multicall = new MulticallUtil();
+  // Normalize price to 18 decimals
+  let normalizedPrice: bigint;
+  if (priceData.decimals < 18) {
+    normalizedPrice = priceData.price * 10n ** BigInt(18 - priceData.decimals);
+  } else if (priceData.decimals > 18) {
+    normalizedPrice = priceData.price / 10n ** BigInt(priceData.decimals - 18);
+  } else {
+    normalizedPrice = priceData.price;
+  }
+
+  // Calculate USD value: (amount * price) / 10^18
+  const usdValue = (normalizedAmount * normalizedPrice) / ONE;
+
+  // Convert to display format
+  const wholePart = usdValue / ONE;
+  const fractionalPart = usdValue % ONE;
+  const usdFloat = Number(wholePart) + Number(fractionalPart) / Number(ONE);
+
+  return usdFloat.toFixed(2);
+}
@@ -0,0 +1,156 @@
+/**
+ * Token Permits
+ * Builds signed EIP-2612 and Permit2 approvals for neurolend's
+ * permitAndCall, so a token can be approved and spent in one transaction.
+ * Callers fall back to approve() when a token's permit can't be used.
+ */
+
+import { ethers } from "ethers";
+import type { TokenPermitStruct } from "@/lib/contract-client";
+
+// Signatures stay valid for 30 minutes
+export const PERMIT_DEADLINE_SECONDS = 30 * 60;
+
+const EIP2612_ABI = [
+  "function name() view returns (string)",
+  "function nonces(address owner) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+];
+
+const PERMIT2_ABI = [
+  "function allowance(address owner, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)",
+];
+
+const EIP2612_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+const PERMIT2_TYPES = {
+  PermitSingle: [
+    { name: "details", type: "PermitDetails" },
+    { name: "spender", type: "address" },
+    { name: "sigDeadline", type: "uint256" },
+  ],
+  PermitDetails: [
+    { name: "token", type: "address" },
+    { name: "amount", type: "uint160" },
+    { name: "expiration", type: "uint48" },
+    { name: "nonce", type: "uint48" },
+  ],
+};
+
+export interface PermitRequest {
+  token: string;
+  owner: string;
+  spender: string;
+  amount: bigint;
+  chainId: bigint | number;
+  // Unix seconds; defaults to PERMIT_DEADLINE_SECONDS from now
+  deadline?: bigint;
+}
+
+const defaultDeadline = () =>
+  BigInt(Math.floor(Date.now() / 1000) + PERMIT_DEADLINE_SECONDS);
+
+async function eip2612Domain(
+  token: string,
+  version: string,
+  chainId: bigint | number,
+  runner: ethers.ContractRunner
+): Promise<ethers.TypedDataDomain> {
+  const contract = new ethers.Contract(token, EIP2612_ABI, runner);
+  const name: string = await contract.name();
+  return { name, version, chainId, verifyingContract: token };
+}
+
+/**
+ * Whether the token's on-chain EIP-2612 domain matches the configured
+ * version. A mismatch (or a token without permit) means signatures would be
+ * rejected, so the caller should use approve() instead.
+ */
+export async function supportsEip2612(
+  token: string,
+  version: string,
+  chainId: bigint | number,
+  runner: ethers.ContractRunner
+): Promise<boolean> {
+  try {
+    const contract = new ethers.Contract(token, EIP2612_ABI, runner);
+    const [domain, separator] = await Promise.all([
+      eip2612Domain(token, version, chainId, runner),
+      contract.DOMAIN_SEPARATOR() as Promise<string>,
+    ]);
+    return ethers.TypedDataEncoder.hashDomain(domain) === separator;
+  } catch {
+    return false;
+  }
+}
+
+// Sign an EIP-2612 permit letting `spender` pull `amount` of the token
+export async function signEip2612Permit(
+  signer: ethers.Signer,
+  request: PermitRequest,
+  version: string,
+  runner: ethers.ContractRunner
+): Promise<TokenPermitStruct> {
+  const { token, owner, spender, amount, chainId } = request;
+  const deadline = request.deadline ?? defaultDeadline();
+  const contract = new ethers.Contract(token, EIP2612_ABI, runner);
+  const [domain, nonce] = await Promise.all([
+    eip2612Domain(token, version, chainId, runner),
+    contract.nonces(owner) as Promise<bigint>,
+  ]);
+
+  const signature = await signer.signTypedData(domain, EIP2612_TYPES, {
+    owner,
+    spender,
+    value: amount,
+    nonce,
+    deadline,
+  });
+  return {
+    token,
+    amount,
+    deadline,
+    nonce: BigInt(0),
+    usePermit2: false,
+    signature,
+  };
+}
+
+/**
+ * Sign a Permit2 allowance for `spender`. The owner must already have
+ * approved the Permit2 contract on the token.
+ */
+export async function signPermit2(
+  signer: ethers.Signer,
+  request: PermitRequest,
+  permit2: string,
+  runner: ethers.ContractRunner
+): Promise<TokenPermitStruct> {
+  const { token, owner, spender, amount, chainId } = request;
+  const deadline = request.deadline ?? defaultDeadline();
+  const contract = new ethers.Contract(permit2, PERMIT2_ABI, runner);
+  const [, , nonce]: [bigint, bigint, bigint] = await contract.allowance(
+    owner,
+    token,
+    spender
+  );
+
+  const signature = await signer.signTypedData(
+    { name: "Permit2", chainId, verifyingContract: permit2 },
+    PERMIT2_TYPES,
+    {
+      details: { token, amount, expiration: deadline, nonce },
+      spender,
+      sigDeadline: deadline,
+    }
+  );
+  return { token, amount, deadline, nonce, usePermit2: true, signature };
+}
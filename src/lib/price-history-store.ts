@@ -0,0 +1,68 @@
+/**
+ * Price History Store
+ * Persistence for the recorded Pyth price time series
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+
+// One recorded price, in USD per whole token
+export interface PriceSample {
+  t: number; // Pyth publish time, unix seconds
+  price: number;
+  confidence: number;
+}
+
+export interface PriceHistorySnapshot {
+  // Samples by token symbol, oldest first
+  series: Record<string, PriceSample[]>;
+}
+
+export interface PriceHistoryStore {
+  load(): Promise<PriceHistorySnapshot>;
+  save(snapshot: PriceHistorySnapshot): Promise<void>;
+}
+
+export const emptyPriceHistory = (): PriceHistorySnapshot => ({ series: {} });
+
+// In-memory store, used by tests and when the filesystem is read-only
+export class MemoryPriceHistoryStore implements PriceHistoryStore {
+  private snapshot: PriceHistorySnapshot = emptyPriceHistory();
+
+  async load(): Promise<PriceHistorySnapshot> {
+    return structuredClone(this.snapshot);
+  }
+
+  async save(snapshot: PriceHistorySnapshot): Promise<void> {
+    this.snapshot = structuredClone(snapshot);
+  }
+}
+
+// JSON file store, written via temp file + rename like the indexer store
+export class JsonFilePriceHistoryStore implements PriceHistoryStore {
+  private readonly filePath: string;
+
+  constructor(dataDir: string, fileName = "neurolend-prices.json") {
+    this.filePath = path.join(dataDir, fileName);
+  }
+
+  async load(): Promise<PriceHistorySnapshot> {
+    try {
+      const raw = await fs.readFile(this.filePath, "utf8");
+      const parsed = JSON.parse(raw) as PriceHistorySnapshot;
+      return { series: parsed.series ?? {} };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return emptyPriceHistory();
+      }
+      throw error;
+    }
+  }
+
+  async save(snapshot: PriceHistorySnapshot): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(snapshot), "utf8");
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Price History
+ * Records Pyth prices for the supported tokens into a time series on the
+ * server, one sample per token at most every `intervalSeconds`, and serves
+ * ranges of it downsampled for charting.
+ */
+
+import { getAllSupportedTokens } from "@/config/tokens";
+import { PythPrice, pythPriceService } from "@/lib/pyth-price-service";
+import {
+  JsonFilePriceHistoryStore,
+  PriceHistoryStore,
+  PriceSample,
+} from "@/lib/price-history-store";
+
+export const DEFAULT_HISTORY_INTERVAL_SECONDS = 300;
+export const DEFAULT_HISTORY_RETENTION_SECONDS = 90 * 24 * 60 * 60;
+// Points returned per range; longer ranges are thinned to this
+export const MAX_HISTORY_POINTS = 500;
+
+export interface PriceHistoryServiceOptions {
+  store: PriceHistoryStore;
+  prices?: { getPrices(symbols: string[]): Promise<Map<string, PythPrice>> };
+  // Tokens to record; defaults to every available supported token
+  symbols?: string[];
+  intervalSeconds?: number;
+  retentionSeconds?: number;
+}
+
+// Keep every nth sample so at most `maxPoints` remain, always keeping the latest
+export function downsample(
+  samples: PriceSample[],
+  maxPoints: number
+): PriceSample[] {
+  if (samples.length <= maxPoints) return samples;
+  const step = Math.ceil(samples.length / maxPoints);
+  const last = samples.length - 1;
+  return samples.filter((_, index) => (last - index) % step === 0);
+}
+
+export class PriceHistoryService {
+  private readonly store: PriceHistoryStore;
+  private readonly prices: NonNullable<PriceHistoryServiceOptions["prices"]>;
+  private readonly symbols: string[];
+  private readonly intervalSeconds: number;
+  private readonly retentionSeconds: number;
+
+  constructor(options: PriceHistoryServiceOptions) {
+    this.store = options.store;
+    this.prices = options.prices ?? pythPriceService;
+    this.symbols =
+      options.symbols ??
+      getAllSupportedTokens()
+        .filter((token) => token.isAvailable)
+        .map((token) => token.symbol);
+    this.intervalSeconds =
+      options.intervalSeconds ?? DEFAULT_HISTORY_INTERVAL_SECONDS;
+    this.retentionSeconds =
+      options.retentionSeconds ?? DEFAULT_HISTORY_RETENTION_SECONDS;
+  }
+
+  /**
+   * Fetch current prices and append those published at least
+   * `intervalSeconds` after each token's latest sample. Failed and stale
+   * prices are skipped. Returns the number of samples recorded.
+   */
+  async record(now = Math.floor(Date.now() / 1000)): Promise<number> {
+    const prices = await this.prices.getPrices(this.symbols);
+    const snapshot = await this.store.load();
+    let recorded = 0;
+
+    prices.forEach((price, symbol) => {
+      if (!price.success || price.isStale) return;
+
+      const series = snapshot.series[symbol] ?? [];
+      const latest = series[series.length - 1];
+      if (latest && price.publishTime < latest.t + this.intervalSeconds) {
+        return;
+      }
+
+      const scale = 10 ** price.expo;
+      series.push({
+        t: price.publishTime,
+        price: Number(price.price) * scale,
+        confidence: Number(price.confidence) * scale,
+      });
+      snapshot.series[symbol] = series;
+      recorded++;
+    });
+
+    // Apply retention even when nothing new was recorded
+    const cutoff = now - this.retentionSeconds;
+    for (const symbol of Object.keys(snapshot.series)) {
+      snapshot.series[symbol] = snapshot.series[symbol].filter(
+        (sample) => sample.t >= cutoff
+      );
+    }
+
+    await this.store.save(snapshot);
+    return recorded;
+  }
+
+  // Samples for `symbol` published within [from, to] (unix seconds)
+  async getHistory(
+    symbol: string,
+    from: number,
+    to: number,
+    maxPoints = MAX_HISTORY_POINTS
+  ): Promise<PriceSample[]> {
+    const { series } = await this.store.load();
+    return downsample(
+      (series[symbol] ?? []).filter(
+        (sample) => sample.t >= from && sample.t <= to
+      ),
+      maxPoints
+    );
+  }
+}
+
+// ============ Shared server instance ============
+
+let sharedService: PriceHistoryService | null = null;
+let lastRecordAt = 0;
+
+/**
+ * Service used by the API routes and the recorder script. Env:
+ * PRICE_HISTORY_DATA_DIR (defaults to the indexer's data dir),
+ * PRICE_HISTORY_INTERVAL_SECONDS and PRICE_HISTORY_RETENTION_DAYS.
+ */
+export function getPriceHistoryService(): PriceHistoryService {
+  if (!sharedService) {
+    sharedService = new PriceHistoryService({
+      store: new JsonFilePriceHistoryStore(
+        process.env.PRICE_HISTORY_DATA_DIR ??
+          process.env.INDEXER_DATA_DIR ??
+          ".indexer"
+      ),
+      intervalSeconds: Number(
+        process.env.PRICE_HISTORY_INTERVAL_SECONDS ??
+          DEFAULT_HISTORY_INTERVAL_SECONDS
+      ),
+      retentionSeconds: process.env.PRICE_HISTORY_RETENTION_DAYS
+        ? Number(process.env.PRICE_HISTORY_RETENTION_DAYS) * 24 * 60 * 60
+        : DEFAULT_HISTORY_RETENTION_SECONDS,
+    });
+  }
+  return sharedService;
+}
+
+/**
+ * Record prices with the shared service at most once per `maxAgeMs`, so
+ * history accrues while the app is in use even without the recorder script.
+ * Failures are logged so callers can still serve stored history.
+ */
+export async function recordPrices(maxAgeMs = 60000): Promise<void> {
+  if (Date.now() - lastRecordAt <= maxAgeMs) return;
+  lastRecordAt = Date.now();
+
+  try {
+    await getPriceHistoryService().record();
+  } catch (error) {
+    console.error("Price history recording failed:", error);
+  }
+}
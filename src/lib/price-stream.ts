@@ -0,0 +1,289 @@
+/**
+ * Price Stream
+ * One Hermes SSE subscription (/v2/updates/price/stream) shared by every
+ * price consumer on the page. Subscribers register the symbols they need and
+ * the stream connects for all of them at once, reconnects with exponential
+ * backoff after errors (to the healthiest endpoint in the pool), and polls
+ * through PythPriceService while it is disconnected or EventSource is
+ * unavailable.
+ */
+
+import { getPythPriceFeedBySymbol } from "@/config/tokens";
+import { HermesEndpointPool } from "@/lib/hermes-endpoints";
+import {
+  PythPrice,
+  PythPriceService,
+  pythPriceService,
+} from "@/lib/pyth-price-service";
+
+export type PriceStreamStatus = "idle" | "connecting" | "streaming" | "polling";
+
+export type PriceEventSource = Pick<
+  EventSource,
+  "onopen" | "onmessage" | "onerror" | "close"
+>;
+
+export interface PriceStreamOptions {
+  // Shares health scores with PythPriceService by default
+  endpoints?: HermesEndpointPool;
+  // Defaults to the browser's EventSource; without one the stream only polls
+  createEventSource?: (url: string) => PriceEventSource;
+  prices?: Pick<PythPriceService, "getPrices" | "formatHermesPrice">;
+  pollInterval?: number;
+  // Hermes publishes several times a second; subscribers hear at most this often
+  notifyInterval?: number;
+  initialBackoff?: number;
+  maxBackoff?: number;
+}
+
+interface Subscription {
+  symbols: string[];
+  listener: () => void;
+}
+
+const normalizeFeedId = (id: string) => id.toLowerCase().replace(/^0x/, "");
+
+export class PriceStream {
+  private readonly endpoints: HermesEndpointPool;
+  private readonly createEventSource?: (url: string) => PriceEventSource;
+  private readonly priceSource: Pick<
+    PythPriceService,
+    "getPrices" | "formatHermesPrice"
+  >;
+  private readonly pollInterval: number;
+  private readonly notifyInterval: number;
+  private readonly initialBackoff: number;
+  private readonly maxBackoff: number;
+
+  private readonly prices = new Map<string, PythPrice>();
+  private readonly subscriptions = new Set<Subscription>();
+  private source: PriceEventSource | null = null;
+  // Symbols the current connection covers
+  private connectedKey = "";
+  private failures = 0;
+  private syncScheduled = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private notifyTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastNotified = 0;
+
+  status: PriceStreamStatus = "idle";
+  lastUpdated: number | null = null;
+  error: string | null = null;
+
+  constructor(options: PriceStreamOptions = {}) {
+    this.endpoints = options.endpoints ?? pythPriceService.endpoints;
+    this.createEventSource =
+      options.createEventSource ??
+      (typeof EventSource === "undefined"
+        ? undefined
+        : (url) => new EventSource(url));
+    this.priceSource = options.prices ?? pythPriceService;
+    this.pollInterval = options.pollInterval ?? 30000;
+    this.notifyInterval = options.notifyInterval ?? 1000;
+    this.initialBackoff = options.initialBackoff ?? 1000;
+    this.maxBackoff = options.maxBackoff ?? 60000;
+  }
+
+  /**
+   * Receive updates for `symbols` until the returned function is called.
+   * Subscriptions made in the same tick share one reconnect.
+   */
+  subscribe(symbols: string[], listener: () => void): () => void {
+    const subscription = { symbols, listener };
+    this.subscriptions.add(subscription);
+    this.scheduleSync();
+    return () => {
+      this.subscriptions.delete(subscription);
+      this.scheduleSync();
+    };
+  }
+
+  // Latest known prices for the given symbols
+  getPrices(symbols: string[]): Map<string, PythPrice> {
+    const prices = new Map<string, PythPrice>();
+    for (const symbol of symbols) {
+      const price = this.prices.get(symbol);
+      if (price) prices.set(symbol, price);
+    }
+    return prices;
+  }
+
+  // Fetch every subscribed symbol now, e.g. for a manual refresh
+  refresh(): Promise<void> {
+    return this.poll();
+  }
+
+  // Disconnect; later subscriptions reconnect
+  close(): void {
+    this.disconnect();
+    if (this.notifyTimer) {
+      clearTimeout(this.notifyTimer);
+      this.notifyTimer = null;
+    }
+    this.connectedKey = "";
+    this.status = "idle";
+  }
+
+  private symbols(): string[] {
+    const symbols = new Set<string>();
+    this.subscriptions.forEach((subscription) =>
+      subscription.symbols.forEach((symbol) => {
+        if (getPythPriceFeedBySymbol(symbol)) symbols.add(symbol);
+      })
+    );
+    return Array.from(symbols).sort();
+  }
+
+  private scheduleSync(): void {
+    if (this.syncScheduled) return;
+    this.syncScheduled = true;
+    queueMicrotask(() => {
+      this.syncScheduled = false;
+      this.sync();
+    });
+  }
+
+  // Reconnect when the set of subscribed symbols changes
+  private sync(): void {
+    const symbols = this.symbols();
+    const key = symbols.join(",");
+    if (key === this.connectedKey) return;
+
+    this.disconnect();
+    this.connectedKey = key;
+    this.failures = 0;
+    if (symbols.length === 0) {
+      this.status = "idle";
+      return;
+    }
+    this.connect(symbols);
+  }
+
+  private connect(symbols: string[]): void {
+    if (!this.createEventSource) {
+      this.startPolling();
+      return;
+    }
+
+    const feeds = new Map(
+      symbols.map((symbol) => [
+        normalizeFeedId(getPythPriceFeedBySymbol(symbol)!),
+        symbol,
+      ])
+    );
+    const ids = Array.from(feeds.keys())
+      .map((id) => `ids[]=0x${id}`)
+      .join("&");
+
+    this.status = "connecting";
+    const endpoint = this.endpoints.order()[0];
+    const source = this.createEventSource(
+      `${endpoint}/v2/updates/price/stream?${ids}&parsed=true`
+    );
+    this.source = source;
+
+    source.onopen = () => {
+      this.endpoints.reportSuccess(endpoint);
+      this.failures = 0;
+      this.stopPolling();
+      this.status = "streaming";
+    };
+    source.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        for (const priceData of data.parsed ?? []) {
+          const id = normalizeFeedId(String(priceData.id));
+          const symbol = feeds.get(id);
+          if (!symbol) continue;
+          this.prices.set(
+            symbol,
+            this.priceSource.formatHermesPrice(priceData, `0x${id}`, endpoint)
+          );
+        }
+        this.lastUpdated = Date.now();
+        this.error = null;
+        this.notify();
+      } catch (error) {
+        console.warn("Ignoring malformed Hermes stream message:", error);
+      }
+    };
+    source.onerror = () => {
+      // Replace EventSource's fixed retry with our own backoff
+      source.close();
+      if (this.source !== source) return;
+      this.source = null;
+      this.endpoints.reportFailure(endpoint, "Price stream disconnected");
+      this.failures++;
+      this.startPolling();
+
+      const delay = Math.min(
+        this.initialBackoff * 2 ** (this.failures - 1),
+        this.maxBackoff
+      );
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.connect(this.symbols());
+      }, delay);
+    };
+  }
+
+  private disconnect(): void {
+    this.source?.close();
+    this.source = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.stopPolling();
+  }
+
+  private startPolling(): void {
+    this.status = "polling";
+    if (this.pollTimer) return;
+    this.poll();
+    this.pollTimer = setInterval(() => this.poll(), this.pollInterval);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    const symbols = this.symbols();
+    if (symbols.length === 0) return;
+
+    const polled = await this.priceSource.getPrices(symbols);
+    let error: string | null = null;
+    polled.forEach((price, symbol) => {
+      // Keep the last good price rather than replacing it with a failure
+      if (price.success || !this.prices.get(symbol)?.success) {
+        this.prices.set(symbol, price);
+      }
+      if (!price.success) error = price.error ?? "Failed to fetch price";
+    });
+    this.error = error;
+    this.lastUpdated = Date.now();
+    this.notify();
+  }
+
+  // Throttled fan-out to subscribers
+  private notify(): void {
+    if (this.notifyTimer) return;
+    const wait = this.lastNotified + this.notifyInterval - Date.now();
+    if (wait <= 0) {
+      this.flush();
+    } else {
+      this.notifyTimer = setTimeout(() => this.flush(), wait);
+    }
+  }
+
+  private flush(): void {
+    this.notifyTimer = null;
+    this.lastNotified = Date.now();
+    this.subscriptions.forEach((subscription) => subscription.listener());
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Price TWAP
+ * Time-weighted average prices computed client-side from the Pyth prices
+ * this session has seen. Each observed price counts from its publish time
+ * until the next one, so a short wick weighs only as long as it lasted.
+ */
+
+import type { PythPrice } from "@/lib/pyth-price-service";
+
+// Longest window a TWAP can be taken over; older observations are dropped
+export const MAX_TWAP_WINDOW_SECONDS = 60 * 60;
+
+export interface TwapPrice {
+  price: string;
+  confidence: string;
+  expo: number;
+  // Seconds of the window the observations actually cover
+  coveredSeconds: number;
+  samples: number;
+}
+
+interface Observation {
+  publishTime: number;
+  price: bigint;
+  confidence: bigint;
+}
+
+const normalizeFeedId = (id: string) => id.toLowerCase().replace(/^0x/, "");
+
+export class PriceTwap {
+  private readonly feeds = new Map<
+    string,
+    { expo: number; observations: Observation[] }
+  >();
+
+  constructor(private readonly maxWindowSeconds = MAX_TWAP_WINDOW_SECONDS) {}
+
+  // Record a price; failed prices and repeated publish times are ignored
+  observe(price: PythPrice): void {
+    if (!price.success) return;
+
+    const id = normalizeFeedId(price.id);
+    let feed = this.feeds.get(id);
+    // Observations at different exponents can't be averaged together
+    if (!feed || feed.expo !== price.expo) {
+      feed = { expo: price.expo, observations: [] };
+      this.feeds.set(id, feed);
+    }
+
+    const { observations } = feed;
+    const latest = observations[observations.length - 1];
+    if (latest && price.publishTime <= latest.publishTime) return;
+    observations.push({
+      publishTime: price.publishTime,
+      price: BigInt(price.price),
+      confidence: BigInt(price.confidence),
+    });
+
+    // Keep the last observation before the window; it was current at its start
+    const cutoff = price.publishTime - this.maxWindowSeconds;
+    while (observations.length > 1 && observations[1].publishTime <= cutoff) {
+      observations.shift();
+    }
+  }
+
+  /**
+   * Average of the observed prices (and confidences) of a feed over the
+   * `windowSeconds` before `now` (unix seconds), or undefined before any
+   * observation. With a single observation this is that price.
+   */
+  get(
+    feedId: string,
+    windowSeconds: number,
+    now = Math.floor(Date.now() / 1000)
+  ): TwapPrice | undefined {
+    const feed = this.feeds.get(normalizeFeedId(feedId));
+    if (!feed || feed.observations.length === 0) return undefined;
+
+    const { observations } = feed;
+    const latest = observations[observations.length - 1];
+    const end = Math.max(now, latest.publishTime);
+    const start = end - Math.min(windowSeconds, this.maxWindowSeconds);
+
+    let price = BigInt(0);
+    let confidence = BigInt(0);
+    let duration = 0;
+    let samples = 0;
+    observations.forEach((observation, index) => {
+      const until = observations[index + 1]?.publishTime ?? end;
+      const seconds = until - Math.max(observation.publishTime, start);
+      if (seconds <= 0) return;
+      price += observation.price * BigInt(seconds);
+      confidence += observation.confidence * BigInt(seconds);
+      duration += seconds;
+      samples++;
+    });
+
+    if (duration === 0) {
+      return {
+        price: latest.price.toString(),
+        confidence: latest.confidence.toString(),
+        expo: feed.expo,
+        coveredSeconds: 0,
+        samples: 1,
+      };
+    }
+    return {
+      price: (price / BigInt(duration)).toString(),
+      confidence: (confidence / BigInt(duration)).toString(),
+      expo: feed.expo,
+      coveredSeconds: duration,
+      samples,
+    };
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Price Valuation
+ * Prices used to value loans off-chain. The contract values at the spot
+ * Pyth price; off-chain views can instead use Pyth's EMA or a TWAP of the
+ * prices seen this session (see PriceTwap), so short wicks don't read as
+ * liquidation risk. Conservative valuation then moves the price k
+ * confidence intervals against the borrower (collateral down, debt up),
+ * with k taken from CONFIDENCE_MULTIPLIERS for the token's volatility tier.
+ */
+
+import { CONFIDENCE_MULTIPLIERS, TokenInfo } from "@/config/tokens";
+import { OraclePrice } from "@/lib/loan-health";
+import { PythPrice, pythPriceService } from "@/lib/pyth-price-service";
+import type { PriceTwap } from "@/lib/price-twap";
+import type {
+  PriceSource,
+  ValuationSettings,
+} from "@/lib/valuation-preference";
+
+export type PriceSide = "collateral" | "debt";
+
+export const PRICE_SOURCE_LABELS: Record<PriceSource, string> = {
+  spot: "Spot",
+  ema: "EMA",
+  twap: "TWAP",
+};
+
+// A price picked by source, with a label naming what it is
+export interface SourcedPrice extends Pick<
+  PythPrice,
+  "price" | "confidence" | "expo"
+> {
+  // EMA and TWAP fall back to spot when unavailable, so this can differ
+  // from the requested source
+  source: PriceSource;
+  label: string;
+}
+
+export const formatWindow = (seconds: number) =>
+  seconds >= 3600
+    ? `${Math.round(seconds / 3600)}h`
+    : seconds >= 60
+      ? `${Math.round(seconds / 60)}m`
+      : `${seconds}s`;
+
+// The prices valued are the contract's own
+export const isOnChainValuation = (settings: ValuationSettings) =>
+  settings.source === "spot" && !settings.conservative;
+
+export function selectPrice(
+  price: PythPrice,
+  {
+    source,
+    twapWindowSeconds,
+  }: Pick<ValuationSettings, "source" | "twapWindowSeconds">,
+  twap: Pick<PriceTwap, "get"> = pythPriceService.twap
+): SourcedPrice {
+  if (source === "ema" && price.emaPrice && price.emaConfidence) {
+    return {
+      price: price.emaPrice,
+      confidence: price.emaConfidence,
+      expo: price.expo,
+      source,
+      label: PRICE_SOURCE_LABELS.ema,
+    };
+  }
+
+  const average = source === "twap" && twap.get(price.id, twapWindowSeconds);
+  if (average) {
+    // Label a window that is still filling with how much it covers
+    const covered =
+      average.coveredSeconds < twapWindowSeconds
+        ? `${formatWindow(average.coveredSeconds)} of `
+        : "";
+    return {
+      price: average.price,
+      confidence: average.confidence,
+      expo: average.expo,
+      source,
+      label: `${PRICE_SOURCE_LABELS.twap} ${covered}${formatWindow(twapWindowSeconds)}`,
+    };
+  }
+
+  return {
+    price: price.price,
+    confidence: price.confidence,
+    expo: price.expo,
+    source: "spot",
+    label: PRICE_SOURCE_LABELS.spot,
+  };
+}
+
+export function confidenceMultiplier(
+  token: Pick<TokenInfo, "volatilityTier">
+): number {
+  return CONFIDENCE_MULTIPLIERS[token.volatilityTier];
+}
+
+// The price to value one side of a loan at
+export function valuationPrice(
+  price: Pick<PythPrice, "price" | "confidence" | "expo">,
+  token: Pick<TokenInfo, "volatilityTier">,
+  side: PriceSide,
+  conservative: boolean
+): OraclePrice {
+  const mid = BigInt(price.price);
+  if (!conservative) return { price: mid, expo: price.expo };
+
+  // k in hundredths keeps fractional multipliers exact in bigint math
+  const shift =
+    (BigInt(price.confidence) *
+      BigInt(Math.round(confidenceMultiplier(token) * 100))) /
+    BigInt(100);
+  const adjusted = side === "collateral" ? mid - shift : mid + shift;
+  return {
+    price: adjusted > BigInt(0) ? adjusted : BigInt(0),
+    expo: price.expo,
+  };
+}
+
+/**
+ * The price to value one side of a loan at under the user's valuation
+ * settings, labelled with the price that drove it (e.g. "EMA, conservative")
+ */
+export function valuePrice(
+  price: PythPrice,
+  token: Pick<TokenInfo, "volatilityTier">,
+  side: PriceSide,
+  settings: ValuationSettings,
+  twap?: Pick<PriceTwap, "get">
+): { price: OraclePrice; label: string } {
+  const selected = selectPrice(price, settings, twap);
+  return {
+    price: valuationPrice(selected, token, side, settings.conservative),
+    label: settings.conservative
+      ? `${selected.label}, conservative`
+      : selected.label,
+  };
+}
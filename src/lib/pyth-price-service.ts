@@ -4,19 +4,26 @@
  */
 
 import { ethers } from "ethers";
-import { PYTH_CONFIG, ZEROG_MAINNET_CONFIG } from "@/config/0g-chain";
+import { PYTH_CONFIG } from "@/config/0g-chain";
 import { getPythPriceFeedBySymbol } from "@/config/tokens";
+import { HermesEndpointPool } from "@/lib/hermes-endpoints";
+import { PriceTwap } from "@/lib/price-twap";
 
 export interface PythPrice {
   id: string;
   price: string;
   priceUSD: string;
   confidence: string;
+  // Pyth's exponentially-weighted moving average, at the same expo
+  emaPrice?: string;
+  emaConfidence?: string;
   expo: number;
   publishTime: number;
   isStale: boolean;
   success: boolean;
   error?: string;
+  // Hermes endpoint that served the price
+  endpoint?: string;
 }
 
 export interface PriceUpdateData {
@@ -25,14 +32,52 @@ export interface PriceUpdateData {
   priceIds: string[];
 }
 
-class PythPriceService {
+export interface PythPriceServiceOptions {
+  // Reject prices whose confidence interval exceeds this fraction of price
+  maxConfidenceRatio?: number;
+  timeoutMs?: number;
+}
+
+// Publish times further ahead of the local clock than this are rejected
+const MAX_CLOCK_SKEW_SECONDS = 60;
+
+const normalizeFeedId = (id: string) => id.toLowerCase().replace(/^0x/, "");
+
+// Rejects responses that don't cover every requested feed
+const coversFeeds =
+  (feedIds: string[]) =>
+  (data: any): string | null => {
+    const returned = new Set(
+      (Array.isArray(data?.parsed) ? data.parsed : []).map((p: any) =>
+        normalizeFeedId(String(p?.id ?? ""))
+      )
+    );
+    const missing = feedIds.filter((id) => !returned.has(normalizeFeedId(id)));
+    return missing.length > 0
+      ? `Response is missing feeds ${missing.join(", ")}`
+      : null;
+  };
+
+export class PythPriceService {
   private priceCache: Map<string, { price: PythPrice; timestamp: number }> =
     new Map();
   private readonly CACHE_DURATION = 30000; // 30 seconds cache
-  private readonly HERMES_ENDPOINT = PYTH_CONFIG.hermesEndpoints[0];
-
-  constructor() {
-    // No additional setup needed for REST API approach
+  private readonly maxConfidenceRatio: number;
+  readonly endpoints: HermesEndpointPool;
+  // Every valid price formatted is observed here for TWAPs
+  readonly twap = new PriceTwap();
+
+  // Tests and scripts can point an instance at other Hermes endpoints
+  constructor(
+    endpoints: string | readonly string[] = PYTH_CONFIG.hermesEndpoints,
+    options: PythPriceServiceOptions = {}
+  ) {
+    this.endpoints = new HermesEndpointPool(
+      typeof endpoints === "string" ? [endpoints] : endpoints,
+      { timeoutMs: options.timeoutMs }
+    );
+    this.maxConfidenceRatio =
+      options.maxConfidenceRatio ?? PYTH_CONFIG.maxConfidenceRatio;
   }
 
   /**
@@ -62,22 +107,15 @@ class PythPriceService {
 
     try {
       // Fetch price data from Hermes REST API
-      const response = await fetch(
-        `${this.HERMES_ENDPOINT}/v2/updates/price/latest?ids[]=${priceFeedId}`
+      const { data, endpoint } = await this.endpoints.fetchJson(
+        `/v2/updates/price/latest?ids[]=${priceFeedId}`,
+        coversFeeds([priceFeedId])
       );
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-
-      if (!data.parsed || data.parsed.length === 0) {
-        throw new Error(`No price data found for ${tokenSymbol}`);
-      }
-
-      const priceData = data.parsed[0];
-      const price = this.formatHermesPrice(priceData, priceFeedId);
+      const priceData = data.parsed.find(
+        (p: any) => normalizeFeedId(p.id) === normalizeFeedId(priceFeedId)
+      );
+      const price = this.formatHermesPrice(priceData, priceFeedId, endpoint);
 
       // Cache the result
       this.priceCache.set(priceFeedId, {
@@ -126,21 +164,19 @@ class PythPriceService {
       const idsQuery = feedIds.map((id) => `ids[]=${id}`).join("&");
 
       // Fetch price data from Hermes REST API
-      const response = await fetch(
-        `${this.HERMES_ENDPOINT}/v2/updates/price/latest?${idsQuery}`
+      const { data, endpoint } = await this.endpoints.fetchJson(
+        `/v2/updates/price/latest?${idsQuery}`,
+        coversFeeds(feedIds)
       );
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-
       priceFeeds.forEach(({ symbol, feedId }, index) => {
-        const priceData = data.parsed?.find((p: any) => p.id === feedId);
+        // Hermes returns ids without the 0x prefix
+        const priceData = data.parsed?.find(
+          (p: any) => normalizeFeedId(p.id) === normalizeFeedId(feedId)
+        );
 
         if (priceData) {
-          const price = this.formatHermesPrice(priceData, feedId);
+          const price = this.formatHermesPrice(priceData, feedId, endpoint);
           priceMap.set(symbol, price);
 
           // Cache the result
@@ -200,6 +236,15 @@ class PythPriceService {
       }
     }
 
+    return this.getPriceUpdateDataForFeedIds(priceIds);
+  }
+
+  /**
+   * Get price update data for a set of Pyth price feed IDs
+   */
+  async getPriceUpdateDataForFeedIds(
+    priceIds: string[]
+  ): Promise<PriceUpdateData> {
     if (priceIds.length === 0) {
       return {
         updateData: [],
@@ -211,18 +256,21 @@ class PythPriceService {
     try {
       // Get price update data from Hermes REST API
       const idsQuery = priceIds.map((id) => `ids[]=${id}`).join("&");
-      const response = await fetch(
-        `${this.HERMES_ENDPOINT}/v2/updates/price/latest?${idsQuery}&encoding=hex`
+      const { data } = await this.endpoints.fetchJson(
+        `/v2/updates/price/latest?${idsQuery}&encoding=hex`,
+        (data: any) =>
+          Array.isArray(data?.binary?.data) && data.binary.data.length > 0
+            ? coversFeeds(priceIds)(data)
+            : "Response has no update data"
       );
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const data = await response.json();
+      // Hermes returns bare hex strings; contracts expect 0x-prefixed bytes
+      const updateData: string[] = (data.binary?.data || []).map(
+        (hex: string) => (hex.startsWith("0x") ? hex : `0x${hex}`)
+      );
 
       return {
-        updateData: data.binary?.data || [],
+        updateData,
         updateFee: "0", // Fee will be calculated on-chain
         priceIds,
       };
@@ -247,9 +295,70 @@ class PythPriceService {
   }
 
   /**
-   * Format Hermes API price data for consistent use
+   * Why a Hermes price entry can't be used, or null if it can: a feed ID
+   * other than the one requested, malformed fields, a publish time in the
+   * future, or a confidence interval wider than maxConfidenceRatio
    */
-  private formatHermesPrice(priceData: any, feedId: string): PythPrice {
+  validateHermesPrice(priceData: any, feedId: string): string | null {
+    const returnedId = String(priceData?.id ?? "");
+    if (normalizeFeedId(returnedId) !== normalizeFeedId(feedId)) {
+      return `Hermes returned feed ${returnedId || "(none)"} for ${feedId}`;
+    }
+
+    const price = priceData.price;
+    if (
+      !/^-?\d+$/.test(String(price?.price)) ||
+      !/^\d+$/.test(String(price?.conf))
+    ) {
+      return "Malformed price or confidence";
+    }
+    if (!Number.isInteger(price.expo) || Math.abs(price.expo) > 18) {
+      return `Invalid exponent ${price.expo}`;
+    }
+    const publishTime = Number(price.publish_time);
+    if (!Number.isInteger(publishTime) || publishTime <= 0) {
+      return "Missing publish time";
+    }
+    if (publishTime > Date.now() / 1000 + MAX_CLOCK_SKEW_SECONDS) {
+      return "Publish time is in the future";
+    }
+
+    const value = Number(price.price);
+    if (value <= 0) {
+      return "Price is not positive";
+    }
+    const confidenceRatio = Number(price.conf) / value;
+    if (confidenceRatio > this.maxConfidenceRatio) {
+      return `Confidence interval is ${(confidenceRatio * 100).toFixed(2)}% of price (max ${(this.maxConfidenceRatio * 100).toFixed(2)}%)`;
+    }
+    return null;
+  }
+
+  /**
+   * Format Hermes API price data for consistent use, rejecting entries that
+   * fail validateHermesPrice
+   */
+  formatHermesPrice(
+    priceData: any,
+    feedId: string,
+    endpoint?: string
+  ): PythPrice {
+    const invalid = this.validateHermesPrice(priceData, feedId);
+    if (invalid) {
+      return {
+        id: feedId,
+        price: "0",
+        priceUSD: "0.00",
+        confidence: "0",
+        expo: 0,
+        publishTime: 0,
+        isStale: true,
+        success: false,
+        error: invalid,
+        endpoint,
+      };
+    }
+
     try {
       const price = priceData.price;
       const expo = price.expo;
@@ -269,16 +378,30 @@ class PythPriceService {
       const currentTime = Math.floor(Date.now() / 1000);
       const isStale = currentTime - publishTime > 60;
 
-      return {
+      // The EMA is optional; drop it rather than the price when malformed
+      const ema = priceData.ema_price;
+      const hasEma =
+        ema?.expo === expo &&
+        /^\d+$/.test(String(ema?.price)) &&
+        /^\d+$/.test(String(ema?.conf));
+
+      const result: PythPrice = {
         id: feedId,
         price: priceValue.toString(),
         priceUSD: priceUSD.toFixed(2),
         confidence: confidence.toString(),
+        ...(hasEma && {
+          emaPrice: String(ema.price),
+          emaConfidence: String(ema.conf),
+        }),
         expo: expo,
         publishTime: publishTime,
         isStale,
         success: true,
+        endpoint,
       };
+      this.twap.observe(result);
+      return result;
     } catch (error) {
       return {
         id: feedId,
@@ -0,0 +1,237 @@
+/**
+ * Repayment Schedule
+ * Plans partial repayments for an active loan with the contract's interest
+ * math (makePartialRepayment / repayLoan): simple interest on the original
+ * principal from startTime until the loan is closed, over a 365.25-day year.
+ * Partial payments don't reduce the interest rate base, so the only way to
+ * pay less interest is to close the loan before maturity.
+ */
+
+import { Loan } from "@/lib/contracts";
+import { CalendarEvent } from "@/lib/ics";
+
+// Matches the contract's 365.25-day year
+export const SECONDS_PER_YEAR = BigInt(31557600);
+
+export type ScheduleKind = "equal" | "balloon" | "custom";
+
+export type ScheduleLoan = Pick<
+  Loan,
+  "id" | "amount" | "interestRate" | "duration" | "startTime" | "repaidAmount"
+>;
+
+export interface Installment {
+  dueAt: bigint; // unix seconds
+  amount: bigint;
+  // Owed after this payment, assuming it lands exactly at dueAt
+  remainingAfter: bigint;
+  // Closes the loan; pay it with a full repayment rather than a fixed amount
+  isFinal: boolean;
+}
+
+export interface RepaymentSchedule {
+  kind: ScheduleKind;
+  installments: Installment[];
+  totalPaid: bigint;
+  // Interest accrued by the payoff date vs. by maturity
+  totalInterest: bigint;
+  maturityInterest: bigint;
+  interestSaved: bigint;
+  payoffAt: bigint;
+  maturity: bigint;
+}
+
+export interface CustomInstallment {
+  dueAt: bigint;
+  // Omit to close the loan on this date
+  amount?: bigint;
+}
+
+// Interest accrued by `at`, rounded exactly like the contract
+export function accruedInterest(loan: ScheduleLoan, at: bigint): bigint {
+  const elapsed = at > loan.startTime ? at - loan.startTime : BigInt(0);
+  const annualized = (loan.amount * loan.interestRate) / BigInt(10000);
+  return (annualized * elapsed) / SECONDS_PER_YEAR;
+}
+
+// Outstanding balance at `at`, before any of the planned payments
+export function amountOwedAt(loan: ScheduleLoan, at: bigint): bigint {
+  return loan.amount + accruedInterest(loan, at) - loan.repaidAmount;
+}
+
+export const loanMaturity = (loan: ScheduleLoan): bigint =>
+  loan.startTime + loan.duration;
+
+// `count` dates evenly spaced after `from`, the last one on `until`
+function evenlySpaced(from: bigint, until: bigint, count: number): bigint[] {
+  const span = until - from;
+  return Array.from(
+    { length: count },
+    (_, i) => from + (span * BigInt(i + 1)) / BigInt(count)
+  );
+}
+
+function validateRange(loan: ScheduleLoan, from: bigint, until: bigint) {
+  if (until <= from) {
+    throw new Error("Schedule must end after it starts");
+  }
+  if (until > loanMaturity(loan)) {
+    throw new Error("Schedule can't run past the loan's due date");
+  }
+}
+
+/**
+ * Turn planned (dueAt, amount) pairs into installments. Each amount is
+ * capped at what's owed at its date; the first payment that clears the
+ * balance closes the loan and drops the rest. If nothing closes the loan,
+ * a final payment at the last date does.
+ */
+function settle(
+  loan: ScheduleLoan,
+  kind: ScheduleKind,
+  planned: { dueAt: bigint; amount?: bigint }[]
+): RepaymentSchedule {
+  const installments: Installment[] = [];
+  let paid = BigInt(0);
+
+  for (let i = 0; i < planned.length; i++) {
+    const { dueAt } = planned[i];
+    const owed = amountOwedAt(loan, dueAt) - paid;
+    const isLast = i === planned.length - 1;
+    const requested = planned[i].amount;
+    const closes = isLast || requested === undefined || requested >= owed;
+    if (!closes && requested === BigInt(0)) continue;
+    const amount = closes ? owed : requested;
+
+    paid += amount;
+    installments.push({
+      dueAt,
+      amount,
+      remainingAfter: owed - amount,
+      isFinal: closes,
+    });
+    if (closes) break;
+  }
+
+  const maturity = loanMaturity(loan);
+  const payoffAt = installments[installments.length - 1].dueAt;
+  const totalInterest = accruedInterest(loan, payoffAt);
+  const maturityInterest = accruedInterest(loan, maturity);
+
+  return {
+    kind,
+    installments,
+    totalPaid: paid,
+    totalInterest,
+    maturityInterest,
+    interestSaved: maturityInterest - totalInterest,
+    payoffAt,
+    maturity,
+  };
+}
+
+/**
+ * `count` equal payments from `from` to `until` (default: maturity); the
+ * last one absorbs rounding and closes the loan.
+ */
+export function buildEqualSchedule(
+  loan: ScheduleLoan,
+  count: number,
+  from: bigint,
+  until: bigint = loanMaturity(loan)
+): RepaymentSchedule {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error("Installment count must be a positive integer");
+  }
+  validateRange(loan, from, until);
+
+  const total = amountOwedAt(loan, until);
+  const each = total / BigInt(count);
+  return settle(
+    loan,
+    "equal",
+    evenlySpaced(from, until, count).map((dueAt) => ({ dueAt, amount: each }))
+  );
+}
+
+/**
+ * Pay only the interest accrued each period, then principal plus the last
+ * period's interest in one balloon payment at `until` (default: maturity).
+ */
+export function buildBalloonSchedule(
+  loan: ScheduleLoan,
+  count: number,
+  from: bigint,
+  until: bigint = loanMaturity(loan)
+): RepaymentSchedule {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error("Installment count must be a positive integer");
+  }
+  validateRange(loan, from, until);
+
+  // Interest already accrued and not yet covered by earlier repayments
+  let interestPaid =
+    loan.repaidAmount < accruedInterest(loan, from)
+      ? loan.repaidAmount
+      : accruedInterest(loan, from);
+
+  return settle(
+    loan,
+    "balloon",
+    evenlySpaced(from, until, count).map((dueAt) => {
+      const accrued = accruedInterest(loan, dueAt);
+      const amount = accrued - interestPaid;
+      interestPaid = accrued;
+      return { dueAt, amount };
+    })
+  );
+}
+
+// Payments on chosen dates; an entry without an amount closes the loan
+export function buildCustomSchedule(
+  loan: ScheduleLoan,
+  entries: CustomInstallment[],
+  from: bigint
+): RepaymentSchedule {
+  if (entries.length === 0) {
+    throw new Error("Add at least one payment");
+  }
+  const sorted = [...entries].sort((a, b) =>
+    a.dueAt < b.dueAt ? -1 : a.dueAt > b.dueAt ? 1 : 0
+  );
+  validateRange(loan, from, sorted[sorted.length - 1].dueAt);
+  if (sorted[0].dueAt <= from) {
+    throw new Error("Payments must be scheduled in the future");
+  }
+  if (sorted.some((entry) => entry.amount !== undefined && entry.amount <= 0)) {
+    throw new Error("Payment amounts must be positive");
+  }
+
+  return settle(loan, "custom", sorted);
+}
+
+/**
+ * Calendar reminders for a schedule. Amounts are pre-formatted by the
+ * caller (token decimals and symbol).
+ */
+export function scheduleToCalendarEvents(
+  schedule: RepaymentSchedule,
+  loanId: bigint,
+  formatAmount: (amount: bigint) => string,
+  url?: string
+): CalendarEvent[] {
+  return schedule.installments.map((installment, i) => ({
+    uid: `neurolend-loan-${loanId}-${schedule.kind}-${i + 1}@neurolend`,
+    start: new Date(Number(installment.dueAt) * 1000),
+    summary: installment.isFinal
+      ? `neurolend: repay loan #${loanId} in full`
+      : `neurolend: loan #${loanId} payment ${i + 1} of ${schedule.installments.length}`,
+    description: installment.isFinal
+      ? `Close loan #${loanId} with a full repayment (about ${formatAmount(
+          installment.amount
+        )}). The loan can be liquidated after its due date.`
+      : `Pay ${formatAmount(installment.amount)} toward loan #${loanId}. ` +
+        `About ${formatAmount(installment.remainingAfter)} will remain.`,
+    url,
+  }));
+}
@@ -0,0 +1,289 @@
+/**
+ * Transaction Journal
+ * Every transaction the app submits, persisted in localStorage so pending
+ * ones survive a reload or a flaky RPC. TransactionWatcher resumes polling
+ * for receipts until each entry is confirmed, failed or dropped.
+ */
+
+import { ethers } from "ethers";
+import { neurolendInterface } from "@/lib/contract-client";
+import type { SubmittedTransaction } from "@/lib/typed-contract";
+import {
+  LocalStorageLike,
+  LocalStore,
+  browserStorage,
+  parseStoredJson,
+} from "@/lib/local-store";
+
+export type JournalStatus = "pending" | "confirmed" | "failed" | "dropped";
+
+export interface JournalEntry {
+  hash: string;
+  chainId: number;
+  from: string; // lowercased
+  // Contract function, e.g. "repayLoan" or "approve"
+  type: string;
+  description: string;
+  loanId?: string;
+  requestId?: string;
+  status: JournalStatus;
+  submittedAt: number; // unix ms
+  updatedAt: number; // unix ms
+  blockNumber?: number;
+  error?: string;
+}
+
+export type NewJournalEntry = Omit<
+  JournalEntry,
+  "status" | "updatedAt" | "submittedAt"
+> & { submittedAt?: number };
+
+export const JOURNAL_STORAGE_KEY = "neurolend:tx-journal";
+export const MAX_JOURNAL_ENTRIES = 100;
+
+const FUNCTION_LABELS: Record<string, string> = {
+  approve: "Approve token spending",
+  createLoanOffer: "Create loan offer",
+  createBorrowRequest: "Create borrow request",
+  acceptLoanOffer: "Accept loan offer",
+  acceptBorrowRequest: "Fill borrow request",
+  repayLoan: "Repay loan",
+  makePartialRepayment: "Partial repayment on loan",
+  liquidateLoan: "Liquidate loan",
+  cancelLoanOffer: "Cancel loan offer",
+  cancelBorrowRequest: "Cancel borrow request",
+  addCollateral: "Add collateral to loan",
+  removeCollateral: "Remove collateral from loan",
+};
+
+// Journal fields for a contract call, from its function name and named args
+export function describeContractCall({
+  fragment,
+  args,
+}: Pick<SubmittedTransaction, "fragment" | "args">): Pick<
+  JournalEntry,
+  "type" | "description" | "loanId" | "requestId"
+> {
+  // permitAndCall wraps the real call; describe that instead
+  if (fragment.name === "permitAndCall") {
+    const inner = neurolendInterface.parseTransaction({
+      data: String(args[1]),
+    });
+    if (inner) {
+      return describeContractCall({
+        fragment: inner.fragment,
+        args: [...inner.args],
+      });
+    }
+  }
+
+  const named = (name: string) => {
+    const index = fragment.inputs.findIndex((input) => input.name === name);
+    return index === -1 ? undefined : String(args[index]);
+  };
+  const loanId = named("loanId");
+  const requestId = named("requestId");
+  const id = loanId ?? requestId;
+  const label = FUNCTION_LABELS[fragment.name] ?? fragment.name;
+
+  return {
+    type: fragment.name,
+    description: id ? `${label} #${id}` : label,
+    loanId,
+    requestId,
+  };
+}
+
+export class TransactionJournal {
+  private readonly store: LocalStore<JournalEntry[]>;
+
+  constructor(storage: LocalStorageLike | null, key = JOURNAL_STORAGE_KEY) {
+    this.store = new LocalStore({
+      storage,
+      key,
+      parse: (raw) => {
+        const stored = parseStoredJson(raw);
+        return Array.isArray(stored) ? (stored as JournalEntry[]) : [];
+      },
+      label: "transaction journal",
+    });
+  }
+
+  // Newest first. The array is replaced on every change, so it can be used
+  // as a useSyncExternalStore snapshot.
+  list = (): JournalEntry[] => this.store.get();
+
+  pending(): JournalEntry[] {
+    return this.list().filter((entry) => entry.status === "pending");
+  }
+
+  subscribe = (listener: () => void): (() => void) =>
+    this.store.subscribe(listener);
+
+  record(entry: NewJournalEntry): JournalEntry {
+    const now = Date.now();
+    const recorded: JournalEntry = {
+      ...entry,
+      from: entry.from.toLowerCase(),
+      status: "pending",
+      submittedAt: entry.submittedAt ?? now,
+      updatedAt: now,
+    };
+    this.write([
+      recorded,
+      ...this.list().filter((existing) => existing.hash !== entry.hash),
+    ]);
+    return recorded;
+  }
+
+  update(
+    hash: string,
+    patch: Partial<Pick<JournalEntry, "status" | "blockNumber" | "error">>
+  ): void {
+    this.write(
+      this.list().map((entry) =>
+        entry.hash === hash
+          ? { ...entry, ...patch, updatedAt: Date.now() }
+          : entry
+      )
+    );
+  }
+
+  // Set the final status from a receipt
+  settle(hash: string, receipt: ethers.TransactionReceipt): void {
+    this.update(hash, {
+      status: receipt.status === 1 ? "confirmed" : "failed",
+      blockNumber: receipt.blockNumber,
+      error: receipt.status === 1 ? undefined : "Reverted on-chain",
+    });
+  }
+
+  /**
+   * Record a just-submitted transaction and settle it once mined. If
+   * waiting fails without a receipt (RPC trouble), the entry stays pending
+   * for TransactionWatcher to pick up.
+   */
+  track(
+    transaction: ethers.TransactionResponse,
+    entry: Omit<NewJournalEntry, "hash" | "from">
+  ): JournalEntry {
+    const recorded = this.record({
+      ...entry,
+      hash: transaction.hash,
+      from: transaction.from,
+    });
+    transaction.wait().then(
+      (receipt) => {
+        if (receipt) this.settle(transaction.hash, receipt);
+      },
+      (error) => {
+        if (ethers.isError(error, "CALL_EXCEPTION") && error.receipt) {
+          this.settle(transaction.hash, error.receipt);
+        }
+      }
+    );
+    return recorded;
+  }
+
+  // Drop confirmed/failed/dropped entries, optionally for one account
+  clearFinished(from?: string): void {
+    this.write(
+      this.list().filter(
+        (entry) =>
+          entry.status === "pending" ||
+          (from !== undefined && entry.from !== from.toLowerCase())
+      )
+    );
+  }
+
+  private write(entries: JournalEntry[]): void {
+    this.store.set(entries.slice(0, MAX_JOURNAL_ENTRIES));
+  }
+}
+
+// Subset of ethers.Provider the watcher needs, so tests can supply a stub
+export type WatcherProvider = Pick<
+  ethers.Provider,
+  "getTransactionReceipt" | "getTransaction"
+>;
+
+export interface TransactionWatcherOptions {
+  journal: TransactionJournal;
+  getProvider: (chainId: number) => WatcherProvider;
+  // Give up on transactions the node no longer knows after this long
+  dropAfterMs?: number;
+  now?: () => number;
+}
+
+export class TransactionWatcher {
+  private readonly journal: TransactionJournal;
+  private readonly getProvider: (chainId: number) => WatcherProvider;
+  private readonly dropAfterMs: number;
+  private readonly now: () => number;
+  private checking: Promise<void> | null = null;
+
+  constructor({
+    journal,
+    getProvider,
+    dropAfterMs = 30 * 60 * 1000,
+    now = Date.now,
+  }: TransactionWatcherOptions) {
+    this.journal = journal;
+    this.getProvider = getProvider;
+    this.dropAfterMs = dropAfterMs;
+    this.now = now;
+  }
+
+  // Poll every pending entry once. Overlapping calls share one pass.
+  check(): Promise<void> {
+    if (!this.checking) {
+      this.checking = this.runCheck().finally(() => {
+        this.checking = null;
+      });
+    }
+    return this.checking;
+  }
+
+  // Check on an interval until the returned function is called
+  start(intervalMs = 5000): () => void {
+    this.check();
+    const timer = setInterval(() => this.check(), intervalMs);
+    return () => clearInterval(timer);
+  }
+
+  private async runCheck(): Promise<void> {
+    for (const entry of this.journal.pending()) {
+      try {
+        const provider = this.getProvider(entry.chainId);
+        const receipt = await provider.getTransactionReceipt(entry.hash);
+        if (receipt) {
+          this.journal.settle(entry.hash, receipt);
+          continue;
+        }
+
+        if (this.now() - entry.submittedAt > this.dropAfterMs) {
+          const transaction = await provider.getTransaction(entry.hash);
+          if (!transaction) {
+            this.journal.update(entry.hash, {
+              status: "dropped",
+              error: "Not found on the network; it may have been replaced",
+            });
+          }
+        }
+      } catch (error) {
+        // Flaky RPC; try again on the next pass
+        console.warn(`Failed to check transaction ${entry.hash}:`, error);
+      }
+    }
+  }
+}
+
+let sharedJournal: TransactionJournal | null = null;
+
+// The app-wide journal, persisted in localStorage in the browser
+export function getTransactionJournal(): TransactionJournal {
+  if (!sharedJournal) {
+    sharedJournal = new TransactionJournal(browserStorage());
+  }
+  return sharedJournal;
+}
@@ -0,0 +1,132 @@
+/**
+ * Transaction Orchestrator
+ * Runs an action as a declared sequence of steps (allowance check, approve,
+ * price update, main call, refresh) and tracks per-step status. A failed
+ * step can be retried without redoing the steps before it.
+ */
+
+export type StepStatus = "pending" | "running" | "done" | "skipped" | "error";
+
+export interface StepOutcome {
+  // Transaction sent by the step, if any
+  hash?: string;
+  // The step had nothing to do (e.g. the allowance already covers it)
+  skipped?: boolean;
+}
+
+export interface TransactionStep<C> {
+  id: string;
+  title: string;
+  description: string;
+  run: (context: C) => Promise<StepOutcome | void>;
+  // Run again when a later step is retried, for inputs that go stale such
+  // as oracle prices
+  repeatOnRetry?: boolean;
+}
+
+export interface StepState {
+  id: string;
+  title: string;
+  description: string;
+  status: StepStatus;
+  hash: string | null;
+  error: string | null;
+}
+
+export interface TransactionOrchestratorOptions {
+  onChange?: (steps: StepState[]) => void;
+  describeError?: (error: unknown) => string;
+}
+
+const isFinished = (step: StepState) =>
+  step.status === "done" || step.status === "skipped";
+
+export class TransactionOrchestrator<C> {
+  private states: StepState[];
+  private readonly onChange: (steps: StepState[]) => void;
+  private readonly describeError: (error: unknown) => string;
+  private running = false;
+
+  constructor(
+    private readonly steps: TransactionStep<C>[],
+    // Shared by all steps; earlier steps leave results here for later ones
+    readonly context: C,
+    {
+      onChange = () => {},
+      describeError = (error) =>
+        error instanceof Error ? error.message : String(error),
+    }: TransactionOrchestratorOptions = {}
+  ) {
+    this.states = steps.map(({ id, title, description }) => ({
+      id,
+      title,
+      description,
+      status: "pending",
+      hash: null,
+      error: null,
+    }));
+    this.onChange = onChange;
+    this.describeError = describeError;
+  }
+
+  get stepStates(): StepState[] {
+    return this.states;
+  }
+
+  // Hash of the last transaction sent, normally the main call
+  get hash(): string | null {
+    return (
+      [...this.states].reverse().find((step) => step.hash !== null)?.hash ??
+      null
+    );
+  }
+
+  get isComplete(): boolean {
+    return this.states.every(isFinished);
+  }
+
+  /**
+   * Run every step that hasn't finished, in order. Rejects with the error
+   * of the step that failed; calling run() again retries from that step,
+   * re-running only earlier steps marked repeatOnRetry.
+   */
+  async run(): Promise<void> {
+    if (this.running) throw new Error("Transaction is already in progress");
+    this.running = true;
+
+    try {
+      const firstUnfinished = this.states.findIndex((s) => !isFinished(s));
+      if (firstUnfinished === -1) return;
+
+      for (let index = 0; index < this.steps.length; index++) {
+        const step = this.steps[index];
+        const repeat = index < firstUnfinished && step.repeatOnRetry;
+        if (index < firstUnfinished && !repeat) continue;
+
+        this.setState(index, { status: "running", error: null });
+        try {
+          const outcome = (await step.run(this.context)) ?? {};
+          this.setState(index, {
+            status: outcome.skipped ? "skipped" : "done",
+            hash: outcome.hash ?? this.states[index].hash,
+          });
+        } catch (error) {
+          this.setState(index, {
+            status: "error",
+            error: this.describeError(error),
+          });
+          throw error;
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private setState(index: number, patch: Partial<StepState>): void {
+    this.states = this.states.map((state, i) =>
+      i === index ? { ...state, ...patch } : state
+    );
+    this.onChange(this.states);
+  }
+}
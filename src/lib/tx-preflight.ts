@@ -0,0 +1,181 @@
+/**
+ * Transaction Preflight
+ * Simulates a write (staticCall + estimateGas) before the wallet prompt and
+ * turns reverts and wallet/RPC failures into messages a user can act on.
+ */
+
+import { ethers } from "ethers";
+import { neurolend_ABI } from "@/lib/contracts";
+
+export interface DecodedRevert {
+  // Custom error name, "Error" for require() reasons, "Panic" for asserts
+  name: string;
+  args: unknown[];
+  message: string;
+}
+
+export interface TransactionPreflight {
+  ok: boolean;
+  signature: string;
+  gasLimit: bigint | null;
+  // maxFeePerGas on EIP-1559 networks, gasPrice otherwise
+  gasPrice: bigint | null;
+  // gasLimit * gasPrice, excluding `value`
+  networkFee: bigint | null;
+  value: bigint;
+  error: string | null;
+  revert: DecodedRevert | null;
+}
+
+// Errors a neurolend call can revert with: the contract's own plus the
+// OpenZeppelin ERC20 errors bubbled up from token transfers
+const revertInterface = new ethers.Interface([
+  ...neurolend_ABI.filter((item) => item.type === "error"),
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+]);
+
+const CUSTOM_ERROR_MESSAGES: Record<string, (args: unknown[]) => string> = {
+  OwnableUnauthorizedAccount: ([account]) =>
+    `Only the contract owner can do this (called from ${account})`,
+  OwnableInvalidOwner: ([owner]) => `${owner} can't be the contract owner`,
+  ReentrancyGuardReentrantCall: () =>
+    "The contract rejected a nested call; submit the transaction on its own",
+  SafeERC20FailedOperation: ([token]) =>
+    `Token transfer failed for ${token}; check your balance and approval`,
+  ERC20InsufficientAllowance: () =>
+    "Token approval is too low for this amount; approve it and try again",
+  ERC20InsufficientBalance: () => "Your token balance is too low for this",
+};
+
+const PANIC_MESSAGES: Record<string, string> = {
+  "1": "assertion failed",
+  "17": "arithmetic overflow or underflow",
+  "18": "division by zero",
+  "50": "array index out of bounds",
+};
+
+// Shapes revert data arrives in from ethers, JSON-RPC and wallet errors
+interface ErrorWithData {
+  data?: unknown;
+  info?: { error?: unknown };
+  error?: unknown;
+}
+
+// Revert data can sit at different depths depending on provider and wallet
+function findRevertData(error: unknown, depth = 0): string | null {
+  if (!error || typeof error !== "object" || depth > 4) return null;
+  const { data, info, error: inner } = error as ErrorWithData;
+  if (typeof data === "string" && ethers.isHexString(data)) return data;
+  return (
+    findRevertData(data, depth + 1) ??
+    findRevertData(info?.error, depth + 1) ??
+    findRevertData(inner, depth + 1)
+  );
+}
+
+export function decodeRevert(error: unknown): DecodedRevert | null {
+  const data = findRevertData(error);
+  if (!data) return null;
+
+  // require(false) / revert() without a reason
+  if (data === "0x") {
+    return {
+      name: "Error",
+      args: [],
+      message: "The contract rejected this transaction without a reason",
+    };
+  }
+
+  let parsed: ethers.ErrorDescription | null = null;
+  try {
+    parsed = revertInterface.parseError(data);
+  } catch {
+    parsed = null;
+  }
+  if (!parsed) return null;
+
+  const args = [...parsed.args];
+  let message: string;
+  if (parsed.name === "Error") {
+    message = String(args[0]);
+  } else if (parsed.name === "Panic") {
+    const code = String(args[0]);
+    message = `Contract error: ${PANIC_MESSAGES[code] ?? `panic ${code}`}`;
+  } else {
+    message =
+      CUSTOM_ERROR_MESSAGES[parsed.name]?.(args) ??
+      `Contract error: ${parsed.name}`;
+  }
+  return { name: parsed.name, args, message };
+}
+
+// Human-readable message for any error thrown while preparing or sending
+export function describeTransactionError(
+  error: unknown,
+  fallback = "Transaction failed"
+): string {
+  const revert = decodeRevert(error);
+  if (revert) return revert.message;
+
+  if (ethers.isError(error, "ACTION_REJECTED")) {
+    return "Transaction rejected in your wallet";
+  }
+  if (ethers.isError(error, "INSUFFICIENT_FUNDS")) {
+    return "Not enough native balance to pay for gas and fees";
+  }
+  if (ethers.isError(error, "CALL_EXCEPTION")) {
+    return error.reason ?? "The transaction would revert";
+  }
+  if (error && typeof error === "object" && "shortMessage" in error) {
+    return String((error as { shortMessage: unknown }).shortMessage);
+  }
+  return error instanceof Error ? error.message : fallback;
+}
+
+/**
+ * Simulate a contract write with the caller's runner: staticCall surfaces
+ * reverts, estimateGas and the fee data price the network fee. Never
+ * throws; failures come back with ok: false and a decoded message.
+ */
+export async function preflightTransaction(
+  method: ethers.BaseContractMethod,
+  args: unknown[],
+  overrides: ethers.Overrides,
+  provider: ethers.Provider | null
+): Promise<TransactionPreflight> {
+  const signature = method.fragment.format();
+  const value = ethers.getBigInt(overrides.value ?? 0);
+  const result: TransactionPreflight = {
+    ok: false,
+    signature,
+    gasLimit: null,
+    gasPrice: null,
+    networkFee: null,
+    value,
+    error: null,
+    revert: null,
+  };
+
+  try {
+    await method.staticCall(...args, overrides);
+    result.gasLimit = await method.estimateGas(...args, overrides);
+  } catch (error) {
+    result.revert = decodeRevert(error);
+    result.error = describeTransactionError(error);
+    return result;
+  }
+
+  result.ok = true;
+  // The fee estimate is informational; a failure here shouldn't block
+  try {
+    const feeData = await provider?.getFeeData();
+    result.gasPrice = feeData?.maxFeePerGas ?? feeData?.gasPrice ?? null;
+    if (result.gasPrice !== null) {
+      result.networkFee = result.gasLimit * result.gasPrice;
+    }
+  } catch (error) {
+    console.warn("Failed to fetch fee data:", error);
+  }
+  return result;
+}
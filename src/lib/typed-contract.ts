@@ -0,0 +1,115 @@
+/**
+ * Typed Contract
+ * Runtime base for the generated clients in lib/contract-client.ts. Calls go
+ * through ethers by full signature, and results are converted from ethers
+ * Results into plain values shaped like the ABI (structs become objects
+ * keyed by component name, arrays become arrays).
+ */
+
+import { ethers } from "ethers";
+import { TransactionPreflight, preflightTransaction } from "@/lib/tx-preflight";
+
+// Convert an ethers-decoded value into the plain shape of its ABI type
+export function fromAbiValue(param: ethers.ParamType, value: unknown): unknown {
+  if (param.isArray()) {
+    return Array.from(value as ethers.Result, (item) =>
+      fromAbiValue(param.arrayChildren, item)
+    );
+  }
+  if (param.isTuple()) {
+    return fromAbiParams(param.components, value as ethers.Result);
+  }
+  return value;
+}
+
+// Named parameters (tuple components, event inputs, multiple outputs) as
+// an object keyed by name
+export function fromAbiParams(
+  params: readonly ethers.ParamType[],
+  values: ethers.Result
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  params.forEach((param, index) => {
+    result[param.name] = fromAbiValue(param, values[index]);
+  });
+  return result;
+}
+
+export interface SubmittedTransaction {
+  transaction: ethers.ContractTransactionResponse;
+  fragment: ethers.FunctionFragment;
+  args: unknown[];
+}
+
+export interface TypedContractOptions {
+  // Simulate every write first and report the result before sending. Throw
+  // to cancel the send; writes that fail simulation are never sent.
+  onPreflight?: (preflight: TransactionPreflight) => void | Promise<void>;
+  // Called once the wallet has broadcast a write, before it is mined
+  onSubmitted?: (submission: SubmittedTransaction) => void;
+}
+
+export abstract class TypedContract {
+  readonly contract: ethers.Contract;
+
+  constructor(
+    readonly address: string,
+    abi: ethers.InterfaceAbi,
+    runner: ethers.ContractRunner | null,
+    private readonly options: TypedContractOptions = {}
+  ) {
+    this.contract = new ethers.Contract(address, abi, runner);
+  }
+
+  get interface(): ethers.Interface {
+    return this.contract.interface;
+  }
+
+  // View/pure call. A single output is returned as-is; several come back
+  // as an object keyed by output name. T is the generated output type.
+  protected async read<T>(signature: string, args: unknown[]): Promise<T> {
+    const method = this.contract.getFunction(signature);
+    const result = await method.staticCallResult(...args);
+    const { outputs } = method.fragment;
+    return (
+      outputs.length === 1
+        ? fromAbiValue(outputs[0], result[0])
+        : fromAbiParams(outputs, result)
+    ) as T;
+  }
+
+  // Run a write through staticCall + estimateGas without sending it
+  preflight(
+    signature: string,
+    args: unknown[],
+    overrides: ethers.Overrides = {}
+  ): Promise<TransactionPreflight> {
+    return preflightTransaction(
+      this.contract.getFunction(signature),
+      args,
+      overrides,
+      this.contract.runner?.provider ?? null
+    );
+  }
+
+  // State-changing call; needs a signer as the runner. Generated methods
+  // wrap this; call it directly when the function is chosen at runtime.
+  async send(
+    signature: string,
+    args: unknown[],
+    overrides: ethers.Overrides
+  ): Promise<ethers.ContractTransactionResponse> {
+    const { onPreflight, onSubmitted } = this.options;
+    if (onPreflight) {
+      const preflight = await this.preflight(signature, args, overrides);
+      await onPreflight(preflight);
+      if (!preflight.ok) {
+        throw new Error(preflight.error ?? "Transaction simulation failed");
+      }
+    }
+    const method = this.contract.getFunction(signature);
+    const transaction = await method.send(...args, overrides);
+    onSubmitted?.({ transaction, fragment: method.fragment, args });
+    return transaction;
+  }
+}
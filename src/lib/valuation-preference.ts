@@ -0,0 +1,77 @@
+/**
+ * Valuation Preference
+ * How the create flow and health views value loans, persisted in
+ * localStorage so it applies across sessions.
+ */
+
+import {
+  LocalStorageLike,
+  LocalStore,
+  browserStorage,
+  parseStoredJson,
+} from "@/lib/local-store";
+import { MAX_TWAP_WINDOW_SECONDS } from "@/lib/price-twap";
+
+// Spot Pyth price, Pyth's EMA, or a TWAP of the prices seen this session
+export type PriceSource = "spot" | "ema" | "twap";
+
+export const PRICE_SOURCES: PriceSource[] = ["spot", "ema", "twap"];
+export const TWAP_WINDOWS_SECONDS = [60, 300, 900, MAX_TWAP_WINDOW_SECONDS];
+
+export interface ValuationSettings {
+  source: PriceSource;
+  twapWindowSeconds: number;
+  // Price collateral and debt k confidence intervals against the borrower
+  conservative: boolean;
+}
+
+export const VALUATION_STORAGE_KEY = "neurolend:valuation";
+export const DEFAULT_VALUATION_SETTINGS: ValuationSettings = {
+  source: "spot",
+  twapWindowSeconds: 300,
+  conservative: false,
+};
+
+function parseSettings(raw: string | null): ValuationSettings {
+  const stored = (parseStoredJson(raw) ?? {}) as Partial<ValuationSettings>;
+  return {
+    source: PRICE_SOURCES.includes(stored.source as PriceSource)
+      ? (stored.source as PriceSource)
+      : DEFAULT_VALUATION_SETTINGS.source,
+    twapWindowSeconds: TWAP_WINDOWS_SECONDS.includes(
+      stored.twapWindowSeconds as number
+    )
+      ? (stored.twapWindowSeconds as number)
+      : DEFAULT_VALUATION_SETTINGS.twapWindowSeconds,
+    conservative:
+      typeof stored.conservative === "boolean"
+        ? stored.conservative
+        : DEFAULT_VALUATION_SETTINGS.conservative,
+  };
+}
+
+export class ValuationPreference extends LocalStore<ValuationSettings> {
+  constructor(storage: LocalStorageLike | null, key = VALUATION_STORAGE_KEY) {
+    super({
+      storage,
+      key,
+      parse: parseSettings,
+      label: "valuation preference",
+    });
+  }
+
+  // Merges into the current settings
+  set(changes: Partial<ValuationSettings>): void {
+    super.set({ ...this.get(), ...changes });
+  }
+}
+
+let sharedPreference: ValuationPreference | null = null;
+
+// The app-wide preference, persisted in localStorage in the browser
+export function getValuationPreference(): ValuationPreference {
+  if (!sharedPreference) {
+    sharedPreference = new ValuationPreference(browserStorage());
+  }
+  return sharedPreference;
+}
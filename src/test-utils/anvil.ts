@@ -0,0 +1,255 @@
+/**
+ * Anvil Integration Harness
+ * Runs neurolend on a local anvil node for integration tests. neurolend
+ * hardcodes its Pyth and token addresses (contracts/src/ZeroGConfig.sol), so
+ * mock ERC-20s and Pyth's MockPyth are installed at those addresses with
+ * anvil_setCode before neurolend is deployed from the forge artifacts.
+ *
+ * Needs `anvil` on PATH and `forge build` output in contracts/out.
+ */
+
+import { ChildProcess, spawn, spawnSync } from "child_process";
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { LOCAL_ANVIL, getRpcUrl } from "@/config/networks";
+import { SUPPORTED_TOKENS, TokenInfo } from "@/config/tokens";
+import { NeurolendEvent, decodeNeurolendLog } from "@/lib/contract-client";
+
+const ARTIFACTS_DIR = path.join(__dirname, "../../contracts/out");
+
+// ZeroGConfig.PYTH_CONTRACT
+const PYTH_ADDRESS = "0x2880aB155794e7179c9eE2e38200202908C17B43";
+
+// Prices are published with Pyth's usual exponent for USD feeds
+const PRICE_EXPO = -8;
+
+interface ForgeArtifact {
+  abi: ethers.InterfaceAbi;
+  bytecode: { object: string };
+  deployedBytecode: { object: string };
+}
+
+const ARTIFACTS = {
+  neurolend: ["NeuroLend.sol", "neurolend"],
+  erc20: ["MockERC20.sol", "MockERC20"],
+  pyth: ["MockPyth.sol", "MockPyth"],
+} as const;
+
+const artifactPath = ([file, contract]: readonly [string, string]) =>
+  path.join(ARTIFACTS_DIR, file, `${contract}.json`);
+
+function loadArtifact(name: keyof typeof ARTIFACTS): ForgeArtifact {
+  return JSON.parse(fs.readFileSync(artifactPath(ARTIFACTS[name]), "utf8"));
+}
+
+// Whether integration tests can run here; suites skip themselves otherwise
+export function isAnvilAvailable(): boolean {
+  const built = Object.values(ARTIFACTS).every((artifact) =>
+    fs.existsSync(artifactPath(artifact))
+  );
+  return built && spawnSync("anvil", ["--version"]).status === 0;
+}
+
+export class AnvilHarness {
+  readonly provider: ethers.JsonRpcProvider;
+  // USD prices by Pyth feed id, published by priceUpdate()
+  private readonly prices = new Map<string, number>();
+
+  private constructor(
+    readonly rpcUrl: string,
+    private readonly node: ChildProcess,
+    readonly accounts: string[]
+  ) {
+    this.provider = new ethers.JsonRpcProvider(rpcUrl, undefined, {
+      staticNetwork: ethers.Network.from(LOCAL_ANVIL.chain.id),
+      pollingInterval: 100,
+    });
+  }
+
+  /**
+   * Start anvil on the Anvil network's RPC URL (NEXT_PUBLIC_LOCAL_RPC_URL),
+   * which is where the app's hooks send their reads
+   */
+  static async start(): Promise<AnvilHarness> {
+    const rpcUrl = getRpcUrl(LOCAL_ANVIL);
+    const { hostname, port } = new URL(rpcUrl);
+    const node = spawn(
+      "anvil",
+      [
+        "--host",
+        hostname,
+        "--port",
+        port || "8545",
+        "--chain-id",
+        String(LOCAL_ANVIL.chain.id),
+      ],
+      { stdio: "ignore" }
+    );
+
+    let exited = false;
+    node.once("exit", () => {
+      exited = true;
+    });
+
+    const probe = new ethers.JsonRpcProvider(rpcUrl, undefined, {
+      staticNetwork: ethers.Network.from(LOCAL_ANVIL.chain.id),
+    });
+    try {
+      for (let attempt = 0; attempt < 100; attempt++) {
+        if (exited) break;
+        try {
+          const accounts: string[] = await probe.send("eth_accounts", []);
+          return new AnvilHarness(
+            rpcUrl,
+            node,
+            accounts.map((account) => ethers.getAddress(account))
+          );
+        } catch {
+          await new Promise((resolve) => setTimeout(resolve, 100));
+        }
+      }
+    } finally {
+      probe.destroy();
+    }
+    node.kill();
+    throw new Error(`anvil failed to start on ${rpcUrl} (is the port in use?)`);
+  }
+
+  /**
+   * Install the mock tokens and oracle, deploy neurolend, and point the
+   * Anvil network config at the deployment
+   */
+  async deploy(): Promise<string> {
+    const deployer = await this.provider.getSigner(this.accounts[0]);
+
+    const erc20 = loadArtifact("erc20");
+    for (const token of Object.values(SUPPORTED_TOKENS)) {
+      await this.provider.send("anvil_setCode", [
+        token.address,
+        erc20.deployedBytecode.object,
+      ]);
+      const contract = new ethers.Contract(token.address, erc20.abi, deployer);
+      const tx = await contract.initialize(
+        token.name,
+        token.symbol,
+        token.decimals
+      );
+      await tx.wait();
+    }
+
+    const pyth = loadArtifact("pyth");
+    await this.provider.send("anvil_setCode", [
+      PYTH_ADDRESS,
+      pyth.deployedBytecode.object,
+    ]);
+
+    const artifact = loadArtifact("neurolend");
+    const factory = new ethers.ContractFactory(
+      artifact.abi,
+      artifact.bytecode.object,
+      deployer
+    );
+    const neurolend = await factory.deploy();
+    await neurolend.waitForDeployment();
+
+    const address = await neurolend.getAddress();
+    LOCAL_ANVIL.contracts.neurolend = address;
+    LOCAL_ANVIL.contracts.pyth = PYTH_ADDRESS;
+    return address;
+  }
+
+  async mint(token: TokenInfo, to: string, amount: bigint): Promise<void> {
+    const signer = await this.provider.getSigner(this.accounts[0]);
+    const contract = new ethers.Contract(
+      token.address,
+      loadArtifact("erc20").abi,
+      signer
+    );
+    await (await contract.mint(to, amount)).wait();
+  }
+
+  async balanceOf(token: TokenInfo, owner: string): Promise<bigint> {
+    const contract = new ethers.Contract(
+      token.address,
+      loadArtifact("erc20").abi,
+      this.provider
+    );
+    return contract.balanceOf(owner);
+  }
+
+  // Price the next priceUpdate() publishes for a token
+  setPrice(token: TokenInfo, usd: number): void {
+    this.prices.set(token.pythPriceFeedId.toLowerCase(), usd);
+  }
+
+  /**
+   * Pyth update data for the given feeds, published at the
+   * latest block's timestamp. MockPyth accepts it without signatures.
+   */
+  async priceUpdate(feedIds: string[]): Promise<string[]> {
+    const pyth = new ethers.Contract(
+      PYTH_ADDRESS,
+      loadArtifact("pyth").abi,
+      this.provider
+    );
+    const block = await this.provider.getBlock("latest");
+    const publishTime = BigInt(block!.timestamp);
+
+    return Promise.all(
+      feedIds.map((feedId) => {
+        const usd = this.prices.get(feedId.toLowerCase());
+        if (usd === undefined) throw new Error(`No price set for ${feedId}`);
+        const price = BigInt(Math.round(usd * 10 ** -PRICE_EXPO));
+        return pyth.createPriceFeedUpdateData(
+          feedId,
+          price,
+          price / BigInt(1000), // 0.1% confidence
+          PRICE_EXPO,
+          price,
+          price / BigInt(1000),
+          publishTime,
+          publishTime - BigInt(1)
+        ) as Promise<string>;
+      })
+    );
+  }
+
+  // neurolend events emitted by a mined transaction
+  async events(hash: string): Promise<NeurolendEvent[]> {
+    const receipt = await this.provider.getTransactionReceipt(hash);
+    if (!receipt) throw new Error(`Transaction ${hash} not mined`);
+    return receipt.logs
+      .filter(
+        (log) =>
+          log.address.toLowerCase() ===
+          LOCAL_ANVIL.contracts.neurolend.toLowerCase()
+      )
+      .map((log) => decodeNeurolendLog(log))
+      .filter((event): event is NeurolendEvent => event !== null);
+  }
+
+  /**
+   * EIP-1193 wallet for one of anvil's unlocked accounts. `getAccount` is
+   * read on every request so tests can switch accounts between actions.
+   */
+  wallet(getAccount: () => string): ethers.Eip1193Provider {
+    return {
+      request: async ({ method, params }) => {
+        if (method === "eth_accounts" || method === "eth_requestAccounts") {
+          return [getAccount()];
+        }
+        return this.provider.send(method, (params as unknown[]) ?? []);
+      },
+    };
+  }
+
+  async stop(): Promise<void> {
+    this.provider.destroy();
+    if (this.node.exitCode !== null) return;
+    await new Promise((resolve) => {
+      this.node.once("exit", resolve);
+      this.node.kill();
+    });
+  }
+}